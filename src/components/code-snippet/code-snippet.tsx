@@ -7,7 +7,18 @@ export interface CodeSnippetProps {
     className?: string;
     codeProps?: CodeBlockProps;
     code: string;
-    language?: 'sql' | 'bash';
+    language?:
+        | 'sql'
+        | 'bash'
+        | 'text'
+        | 'typescript'
+        | 'python'
+        | 'java'
+        | 'csharp'
+        | 'json'
+        | 'graphql'
+        | 'yaml'
+        | 'xml';
 }
 
 export const CodeSnippet: React.FC<CodeSnippetProps> = ({
@@ -8,6 +8,8 @@ import { DBRelationship } from '@/lib/domain/db-relationship';
 import { Diagram } from '@/lib/domain/diagram';
 import { DatabaseEdition } from '@/lib/domain/database-edition';
 import { DBSchema } from '@/lib/domain/db-schema';
+import { DiagramVersion } from '@/lib/domain/diagram-version';
+import { DiagramComparison } from '@/lib/domain/diagram-comparison';
 
 export interface ChartDBContext {
     diagramId: string;
@@ -17,6 +19,10 @@ export interface ChartDBContext {
     schemas: DBSchema[];
     relationships: DBRelationship[];
     currentDiagram: Diagram;
+    versions: DiagramVersion[];
+    previewedVersion?: DiagramVersion;
+    comparison?: DiagramComparison;
+    readonly: boolean;
 
     filteredSchemas?: string[];
     filterSchemas: (schemaIds: string[]) => void;
@@ -36,6 +42,15 @@ export interface ChartDBContext {
     updateDatabaseType: (databaseType: DatabaseType) => Promise<void>;
     updateDatabaseEdition: (databaseEdition?: DatabaseEdition) => Promise<void>;
 
+    // Version operations
+    saveVersion: (name: string) => Promise<DiagramVersion>;
+    removeVersion: (id: string) => Promise<void>;
+    previewVersion: (version?: DiagramVersion) => void;
+    restoreVersion: (version: DiagramVersion) => Promise<void>;
+
+    // Compare operations
+    compareDiagram: (baseDiagram?: Diagram) => void;
+
     // Table operations
     createTable: (
         attributes?: Partial<Omit<DBTable, 'id'>>
@@ -154,6 +169,8 @@ export const chartDBContext = createContext<ChartDBContext>({
         createdAt: new Date(),
         updatedAt: new Date(),
     },
+    versions: [],
+    readonly: false,
 
     // General operations
     updateDiagramId: emptyFn,
@@ -167,6 +184,15 @@ export const chartDBContext = createContext<ChartDBContext>({
     updateDatabaseType: emptyFn,
     updateDatabaseEdition: emptyFn,
 
+    // Version operations
+    saveVersion: emptyFn,
+    removeVersion: emptyFn,
+    previewVersion: emptyFn,
+    restoreVersion: emptyFn,
+
+    // Compare operations
+    compareDiagram: emptyFn,
+
     // Table operations
     createTable: emptyFn,
     getTable: emptyFn,
@@ -16,6 +16,8 @@ import { DatabaseEdition } from '@/lib/domain/database-edition';
 import { DBSchema, schemaNameToSchemaId } from '@/lib/domain/db-schema';
 import { useLocalConfig } from '@/hooks/use-local-config';
 import { defaultSchemas } from '@/lib/data/default-schemas';
+import { DiagramVersion } from '@/lib/domain/diagram-version';
+import { compareDiagrams } from '@/lib/domain/diagram-comparison';
 
 export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
     children,
@@ -38,6 +40,13 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
     >();
     const [tables, setTables] = useState<DBTable[]>([]);
     const [relationships, setRelationships] = useState<DBRelationship[]>([]);
+    const [versions, setVersions] = useState<DiagramVersion[]>([]);
+    const [previewedVersion, setPreviewedVersion] = useState<
+        DiagramVersion | undefined
+    >();
+    const [comparedDiagram, setComparedDiagram] = useState<
+        Diagram | undefined
+    >();
 
     const defaultSchemaName = defaultSchemas[databaseType];
 
@@ -52,7 +61,8 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
     const schemas = useMemo(
         () =>
             databaseType === DatabaseType.POSTGRESQL ||
-            databaseType === DatabaseType.SQL_SERVER
+            databaseType === DatabaseType.SQL_SERVER ||
+            databaseType === DatabaseType.ORACLE
                 ? [
                       ...new Set(
                           tables
@@ -120,6 +130,17 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
         ]
     );
 
+    const comparison: ChartDBContext['comparison'] = useMemo(
+        () =>
+            comparedDiagram
+                ? compareDiagrams({
+                      oldDiagram: comparedDiagram,
+                      newDiagram: currentDiagram,
+                  })
+                : undefined,
+        [comparedDiagram, currentDiagram]
+    );
+
     const clearDiagramData: ChartDBContext['clearDiagramData'] =
         useCallback(async () => {
             const updatedAt = new Date();
@@ -145,6 +166,9 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
             setDatabaseEdition(undefined);
             setTables([]);
             setRelationships([]);
+            setVersions([]);
+            setPreviewedVersion(undefined);
+            setComparedDiagram(undefined);
             resetRedoStack();
             resetUndoStack();
 
@@ -253,6 +277,113 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
         ]
     );
 
+    const saveVersion: ChartDBContext['saveVersion'] = useCallback(
+        async (name: string) => {
+            // The snapshot is read from storage, the context may show a previewed version or a comparison instead
+            const diagram = await db.getDiagram(diagramId, {
+                includeTables: true,
+                includeRelationships: true,
+            });
+
+            if (!diagram) {
+                throw new Error(`Diagram ${diagramId} is not saved`);
+            }
+
+            const version: DiagramVersion = {
+                id: generateId(),
+                diagramId,
+                name,
+                diagram: {
+                    ...diagram,
+                    tables: diagram.tables ?? [],
+                    relationships: diagram.relationships ?? [],
+                },
+                createdAt: new Date(),
+            };
+
+            setVersions((versions) => [version, ...versions]);
+            await db.addDiagramVersion({ version });
+
+            return version;
+        },
+        [db, diagramId]
+    );
+
+    const removeVersion: ChartDBContext['removeVersion'] = useCallback(
+        async (id: string) => {
+            setVersions((versions) =>
+                versions.filter((version) => version.id !== id)
+            );
+            setPreviewedVersion((previewedVersion) =>
+                previewedVersion?.id === id ? undefined : previewedVersion
+            );
+            await db.deleteDiagramVersion(id);
+        },
+        [db]
+    );
+
+    const previewVersion: ChartDBContext['previewVersion'] = useCallback(
+        (version?: DiagramVersion) => {
+            setComparedDiagram(undefined);
+            setPreviewedVersion(version);
+        },
+        []
+    );
+
+    const compareDiagram: ChartDBContext['compareDiagram'] = useCallback(
+        (baseDiagram?: Diagram) => {
+            setPreviewedVersion(undefined);
+            setComparedDiagram(baseDiagram);
+        },
+        []
+    );
+
+    const restoreVersion: ChartDBContext['restoreVersion'] = useCallback(
+        async (version: DiagramVersion) => {
+            const {
+                databaseType,
+                databaseEdition,
+                tables = [],
+                relationships = [],
+            } = deepCopy(version.diagram);
+            const updatedAt = new Date();
+
+            // The version shares its object ids with the diagram, so the current objects are removed first
+            await db.transaction(async () => {
+                await Promise.all([
+                    db.deleteDiagramTables(diagramId),
+                    db.deleteDiagramRelationships(diagramId),
+                ]);
+
+                await Promise.all([
+                    db.updateDiagram({
+                        id: diagramId,
+                        attributes: {
+                            databaseType,
+                            databaseEdition,
+                            updatedAt,
+                        },
+                    }),
+                    ...tables.map((table) => db.addTable({ diagramId, table })),
+                    ...relationships.map((relationship) =>
+                        db.addRelationship({ diagramId, relationship })
+                    ),
+                ]);
+            });
+
+            setPreviewedVersion(undefined);
+            setDatabaseType(databaseType);
+            setDatabaseEdition(databaseEdition);
+            setTables(tables);
+            setRelationships(relationships);
+            setDiagramUpdatedAt(updatedAt);
+
+            resetRedoStack();
+            resetUndoStack();
+        },
+        [db, diagramId, resetRedoStack, resetUndoStack]
+    );
+
     const addTables: ChartDBContext['addTables'] = useCallback(
         async (tables: DBTable[], options = { updateHistory: true }) => {
             setTables((currentTables) => [...currentTables, ...tables]);
@@ -1121,6 +1252,9 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
             });
 
             if (diagram) {
+                setPreviewedVersion(undefined);
+                setComparedDiagram(undefined);
+                setVersions(await db.listDiagramVersions(diagram.id));
                 setDiagramId(diagram.id);
                 setDiagramName(diagram.name);
                 setDatabaseType(diagram.databaseType);
@@ -1143,6 +1277,9 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
             setRelationships,
             setDiagramCreatedAt,
             setDiagramUpdatedAt,
+            setVersions,
+            setPreviewedVersion,
+            setComparedDiagram,
         ]
     );
 
@@ -1152,9 +1289,19 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
                 diagramId,
                 diagramName,
                 databaseType,
-                tables,
-                relationships,
+                tables:
+                    comparison?.diagram.tables ??
+                    previewedVersion?.diagram.tables ??
+                    tables,
+                relationships:
+                    comparison?.diagram.relationships ??
+                    previewedVersion?.diagram.relationships ??
+                    relationships,
                 currentDiagram,
+                versions,
+                previewedVersion,
+                comparison,
+                readonly: !!previewedVersion || !!comparison,
                 schemas,
                 filteredSchemas,
                 filterSchemas,
@@ -1166,6 +1313,11 @@ export const ChartDBProvider: React.FC<React.PropsWithChildren> = ({
                 clearDiagramData,
                 deleteDiagram,
                 updateDiagramUpdatedAt,
+                saveVersion,
+                removeVersion,
+                previewVersion,
+                restoreVersion,
+                compareDiagram,
                 createTable,
                 addTable,
                 addTables,
@@ -1,6 +1,7 @@
 import { createContext } from 'react';
 import { emptyFn } from '@/lib/utils';
 import { DatabaseType } from '@/lib/domain/database-type';
+import type { ExportScriptFormat } from '@/lib/data/export-metadata/export-script-formats';
 import { BaseAlertDialogProps } from '@/dialogs/base-alert-dialog/base-alert-dialog';
 
 export interface DialogContext {
@@ -16,6 +17,34 @@ export interface DialogContext {
     openExportSQLDialog: (params: { targetDatabaseType: DatabaseType }) => void;
     closeExportSQLDialog: () => void;
 
+    // Export migration dialog
+    openExportMigrationDialog: () => void;
+    closeExportMigrationDialog: () => void;
+
+    // Export script dialog
+    openExportScriptDialog: (params: { format: ExportScriptFormat }) => void;
+    closeExportScriptDialog: () => void;
+
+    // Export code dialog
+    openExportCodeDialog: () => void;
+    closeExportCodeDialog: () => void;
+
+    // Import diagram dialog
+    openImportDiagramDialog: () => void;
+    closeImportDiagramDialog: () => void;
+
+    // Import data dictionary dialog
+    openImportDictionaryDialog: () => void;
+    closeImportDictionaryDialog: () => void;
+
+    // Restore workspace dialog
+    openRestoreWorkspaceDialog: () => void;
+    closeRestoreWorkspaceDialog: () => void;
+
+    // Compare diagram dialog
+    openCompareDiagramDialog: () => void;
+    closeCompareDiagramDialog: () => void;
+
     // Alert dialog
     showAlert: (params: BaseAlertDialogProps) => void;
     closeAlert: () => void;
@@ -36,6 +65,20 @@ export const dialogContext = createContext<DialogContext>({
     closeOpenDiagramDialog: emptyFn,
     openExportSQLDialog: emptyFn,
     closeExportSQLDialog: emptyFn,
+    openExportMigrationDialog: emptyFn,
+    closeExportMigrationDialog: emptyFn,
+    openExportScriptDialog: emptyFn,
+    closeExportScriptDialog: emptyFn,
+    openExportCodeDialog: emptyFn,
+    closeExportCodeDialog: emptyFn,
+    openImportDiagramDialog: emptyFn,
+    closeImportDiagramDialog: emptyFn,
+    openImportDictionaryDialog: emptyFn,
+    closeImportDictionaryDialog: emptyFn,
+    openRestoreWorkspaceDialog: emptyFn,
+    closeRestoreWorkspaceDialog: emptyFn,
+    openCompareDiagramDialog: emptyFn,
+    closeCompareDiagramDialog: emptyFn,
     closeAlert: emptyFn,
     showAlert: emptyFn,
     closeCreateRelationshipDialog: emptyFn,
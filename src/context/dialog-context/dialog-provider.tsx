@@ -3,7 +3,15 @@ import { DialogContext, dialogContext } from './dialog-context';
 import { CreateDiagramDialog } from '@/dialogs/create-diagram-dialog/create-diagram-dialog';
 import { OpenDiagramDialog } from '@/dialogs/open-diagram-dialog/open-diagram-dialog';
 import { ExportSQLDialog } from '@/dialogs/export-sql-dialog/export-sql-dialog';
+import { ExportMigrationDialog } from '@/dialogs/export-migration-dialog/export-migration-dialog';
+import { ExportScriptDialog } from '@/dialogs/export-script-dialog/export-script-dialog';
+import { ExportCodeDialog } from '@/dialogs/export-code-dialog/export-code-dialog';
+import { ImportDiagramDialog } from '@/dialogs/import-diagram-dialog/import-diagram-dialog';
+import { ImportDictionaryDialog } from '@/dialogs/import-dictionary-dialog/import-dictionary-dialog';
+import { RestoreWorkspaceDialog } from '@/dialogs/restore-workspace-dialog/restore-workspace-dialog';
+import { CompareDiagramDialog } from '@/dialogs/compare-diagram-dialog/compare-diagram-dialog';
 import { DatabaseType } from '@/lib/domain/database-type';
+import type { ExportScriptFormat } from '@/lib/data/export-metadata/export-script-formats';
 import {
     BaseAlertDialog,
     BaseAlertDialogProps,
@@ -20,6 +28,20 @@ export const DialogProvider: React.FC<React.PropsWithChildren> = ({
     const [openExportSQLDialogParams, setOpenExportSQLDialogParams] = useState<{
         targetDatabaseType: DatabaseType;
     }>({ targetDatabaseType: DatabaseType.GENERIC });
+    const [openExportMigrationDialog, setOpenExportMigrationDialog] =
+        useState(false);
+    const [openExportScriptDialog, setOpenExportScriptDialog] = useState(false);
+    const [openExportScriptDialogParams, setOpenExportScriptDialogParams] =
+        useState<{ format: ExportScriptFormat }>({ format: 'dbml' });
+    const [openExportCodeDialog, setOpenExportCodeDialog] = useState(false);
+    const [openImportDiagramDialog, setOpenImportDiagramDialog] =
+        useState(false);
+    const [openImportDictionaryDialog, setOpenImportDictionaryDialog] =
+        useState(false);
+    const [openRestoreWorkspaceDialog, setOpenRestoreWorkspaceDialog] =
+        useState(false);
+    const [openCompareDiagramDialog, setOpenCompareDiagramDialog] =
+        useState(false);
     const [openCreateRelationshipDialog, setOpenCreateRelationshipDialog] =
         useState(false);
     const [openImportDatabaseDialog, setOpenImportDatabaseDialog] =
@@ -42,6 +64,15 @@ export const DialogProvider: React.FC<React.PropsWithChildren> = ({
             [setOpenExportSQLDialog]
         );
 
+    const openExportScriptDialogHandler: DialogContext['openExportScriptDialog'] =
+        useCallback(
+            ({ format }) => {
+                setOpenExportScriptDialog(true);
+                setOpenExportScriptDialogParams({ format });
+            },
+            [setOpenExportScriptDialog]
+        );
+
     const openImportDatabaseDialogHandler: DialogContext['openImportDatabaseDialog'] =
         useCallback(
             ({ databaseType }) => {
@@ -72,6 +103,29 @@ export const DialogProvider: React.FC<React.PropsWithChildren> = ({
                 closeOpenDiagramDialog: () => setOpenOpenDiagramDialog(false),
                 openExportSQLDialog: openExportSQLDialogHandler,
                 closeExportSQLDialog: () => setOpenExportSQLDialog(false),
+                openExportMigrationDialog: () =>
+                    setOpenExportMigrationDialog(true),
+                closeExportMigrationDialog: () =>
+                    setOpenExportMigrationDialog(false),
+                openExportScriptDialog: openExportScriptDialogHandler,
+                closeExportScriptDialog: () => setOpenExportScriptDialog(false),
+                openExportCodeDialog: () => setOpenExportCodeDialog(true),
+                closeExportCodeDialog: () => setOpenExportCodeDialog(false),
+                openImportDiagramDialog: () => setOpenImportDiagramDialog(true),
+                closeImportDiagramDialog: () =>
+                    setOpenImportDiagramDialog(false),
+                openImportDictionaryDialog: () =>
+                    setOpenImportDictionaryDialog(true),
+                closeImportDictionaryDialog: () =>
+                    setOpenImportDictionaryDialog(false),
+                openRestoreWorkspaceDialog: () =>
+                    setOpenRestoreWorkspaceDialog(true),
+                closeRestoreWorkspaceDialog: () =>
+                    setOpenRestoreWorkspaceDialog(false),
+                openCompareDiagramDialog: () =>
+                    setOpenCompareDiagramDialog(true),
+                closeCompareDiagramDialog: () =>
+                    setOpenCompareDiagramDialog(false),
                 showAlert: showAlertHandler,
                 closeAlert: closeAlertHandler,
                 openCreateRelationshipDialog: () =>
@@ -90,6 +144,22 @@ export const DialogProvider: React.FC<React.PropsWithChildren> = ({
                 dialog={{ open: openExportSQLDialog }}
                 {...openExportSQLDialogParams}
             />
+            <ExportMigrationDialog
+                dialog={{ open: openExportMigrationDialog }}
+            />
+            <ExportScriptDialog
+                dialog={{ open: openExportScriptDialog }}
+                {...openExportScriptDialogParams}
+            />
+            <ExportCodeDialog dialog={{ open: openExportCodeDialog }} />
+            <ImportDiagramDialog dialog={{ open: openImportDiagramDialog }} />
+            <ImportDictionaryDialog
+                dialog={{ open: openImportDictionaryDialog }}
+            />
+            <RestoreWorkspaceDialog
+                dialog={{ open: openRestoreWorkspaceDialog }}
+            />
+            <CompareDiagramDialog dialog={{ open: openCompareDiagramDialog }} />
             <BaseAlertDialog dialog={{ open: showAlert }} {...alertParams} />
             <CreateRelationshipDialog
                 dialog={{ open: openCreateRelationshipDialog }}
@@ -14,22 +14,24 @@ export const KeyboardShortcutsProvider: React.FC<React.PropsWithChildren> = ({
 }) => {
     const { redo, undo } = useHistory();
     const { openOpenDiagramDialog } = useDialog();
-    const { updateDiagramUpdatedAt } = useChartDB();
+    const { updateDiagramUpdatedAt, readonly } = useChartDB();
     useHotkeys(
         keyboardShortcutsForOS[KeyboardShortcutAction.REDO].keyCombination,
         redo,
         {
             preventDefault: true,
+            enabled: !readonly,
         },
-        [redo]
+        [redo, readonly]
     );
     useHotkeys(
         keyboardShortcutsForOS[KeyboardShortcutAction.UNDO].keyCombination,
         undo,
         {
             preventDefault: true,
+            enabled: !readonly,
         },
-        [undo]
+        [undo, readonly]
     );
     useHotkeys(
         keyboardShortcutsForOS[KeyboardShortcutAction.OPEN_DIAGRAM]
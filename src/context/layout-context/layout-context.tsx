@@ -1,7 +1,7 @@
 import { emptyFn } from '@/lib/utils';
 import { createContext } from 'react';
 
-export type SidebarSection = 'tables' | 'relationships';
+export type SidebarSection = 'tables' | 'relationships' | 'versions';
 
 export interface LayoutContext {
     openedTableInSidebar: string | undefined;
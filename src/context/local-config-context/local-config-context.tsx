@@ -18,6 +18,9 @@ export interface LocalConfigContext {
 
     showCardinality: boolean;
     setShowCardinality: (showCardinality: boolean) => void;
+
+    saveVersionOnImport: boolean;
+    setSaveVersionOnImport: (saveVersionOnImport: boolean) => void;
 }
 
 export const LocalConfigContext = createContext<LocalConfigContext>({
@@ -32,4 +35,7 @@ export const LocalConfigContext = createContext<LocalConfigContext>({
 
     showCardinality: false,
     setShowCardinality: emptyFn,
+
+    saveVersionOnImport: true,
+    setSaveVersionOnImport: emptyFn,
 });
@@ -10,6 +10,7 @@ const themeKey = 'theme';
 const scrollActionKey = 'scroll_action';
 const schemasFilterKey = 'schemas_filter';
 const showCardinalityKey = 'show_cardinality';
+const saveVersionOnImportKey = 'save_version_on_import';
 
 export const LocalConfigProvider: React.FC<React.PropsWithChildren> = ({
     children,
@@ -32,6 +33,11 @@ export const LocalConfigProvider: React.FC<React.PropsWithChildren> = ({
         (localStorage.getItem(showCardinalityKey) || 'false') === 'true'
     );
 
+    const [saveVersionOnImport, setSaveVersionOnImport] =
+        React.useState<boolean>(
+            (localStorage.getItem(saveVersionOnImportKey) || 'true') === 'true'
+        );
+
     useEffect(() => {
         localStorage.setItem(themeKey, theme);
     }, [theme]);
@@ -48,6 +54,13 @@ export const LocalConfigProvider: React.FC<React.PropsWithChildren> = ({
         localStorage.setItem(showCardinalityKey, showCardinality.toString());
     }, [showCardinality]);
 
+    useEffect(() => {
+        localStorage.setItem(
+            saveVersionOnImportKey,
+            saveVersionOnImport.toString()
+        );
+    }, [saveVersionOnImport]);
+
     return (
         <LocalConfigContext.Provider
             value={{
@@ -59,6 +72,8 @@ export const LocalConfigProvider: React.FC<React.PropsWithChildren> = ({
                 setSchemasFilter,
                 showCardinality,
                 setShowCardinality,
+                saveVersionOnImport,
+                setSaveVersionOnImport,
             }}
         >
             {children}
@@ -4,6 +4,7 @@ import { emptyFn } from '@/lib/utils';
 import { DBRelationship } from '@/lib/domain/db-relationship';
 import { DBTable } from '@/lib/domain/db-table';
 import { ChartDBConfig } from '@/lib/domain/config';
+import { DiagramVersion } from '@/lib/domain/diagram-version';
 
 export interface StorageContext {
     // Config operations
@@ -63,6 +64,15 @@ export interface StorageContext {
     }) => Promise<void>;
     listRelationships: (diagramId: string) => Promise<DBRelationship[]>;
     deleteDiagramRelationships: (diagramId: string) => Promise<void>;
+
+    // Diagram versions operations
+    addDiagramVersion: (params: { version: DiagramVersion }) => Promise<void>;
+    getDiagramVersion: (id: string) => Promise<DiagramVersion | undefined>;
+    deleteDiagramVersion: (id: string) => Promise<void>;
+    listDiagramVersions: (diagramId: string) => Promise<DiagramVersion[]>;
+
+    // Runs the operations as one, a failure rolls all of them back
+    transaction: <T>(operations: () => Promise<T>) => Promise<T>;
 }
 
 export const storageContext = createContext<StorageContext>({
@@ -89,4 +99,11 @@ export const storageContext = createContext<StorageContext>({
     deleteRelationship: emptyFn,
     listRelationships: emptyFn,
     deleteDiagramRelationships: emptyFn,
+
+    addDiagramVersion: emptyFn,
+    getDiagramVersion: emptyFn,
+    deleteDiagramVersion: emptyFn,
+    listDiagramVersions: emptyFn,
+
+    transaction: emptyFn,
 });
@@ -8,6 +8,7 @@ import {
     determineCardinalities,
 } from '@/lib/domain/db-relationship';
 import { ChartDBConfig } from '@/lib/domain/config';
+import { DiagramVersion } from '@/lib/domain/diagram-version';
 
 export const StorageProvider: React.FC<React.PropsWithChildren> = ({
     children,
@@ -29,6 +30,10 @@ export const StorageProvider: React.FC<React.PropsWithChildren> = ({
             ChartDBConfig & { id: number },
             'id' // primary key "id" (for the typings only)
         >;
+        diagram_versions: EntityTable<
+            DiagramVersion,
+            'id' // primary key "id" (for the typings only)
+        >;
     };
 
     // Schema declaration:
@@ -106,6 +111,17 @@ export const StorageProvider: React.FC<React.PropsWithChildren> = ({
             })
     );
 
+    db.version(7).stores({
+        diagrams:
+            '++id, name, databaseType, databaseEdition, createdAt, updatedAt',
+        db_tables:
+            '++id, diagramId, name, schema, x, y, fields, indexes, color, createdAt, width, comment',
+        db_relationships:
+            '++id, diagramId, name, sourceSchema, sourceTableId, targetSchema, targetTableId, sourceFieldId, targetFieldId, createdAt',
+        config: '++id, defaultDiagramId',
+        diagram_versions: '++id, diagramId, name, createdAt',
+    });
+
     db.on('ready', async () => {
         const config = await getConfig();
 
@@ -233,6 +249,7 @@ export const StorageProvider: React.FC<React.PropsWithChildren> = ({
             db.diagrams.delete(id),
             db.db_tables.where('diagramId').equals(id).delete(),
             db.db_relationships.where('diagramId').equals(id).delete(),
+            db.diagram_versions.where('diagramId').equals(id).delete(),
         ]);
     };
 
@@ -374,6 +391,51 @@ export const StorageProvider: React.FC<React.PropsWithChildren> = ({
         });
     };
 
+    const addDiagramVersion: StorageContext['addDiagramVersion'] = async ({
+        version,
+    }: {
+        version: DiagramVersion;
+    }) => {
+        await db.diagram_versions.add(version);
+    };
+
+    const getDiagramVersion: StorageContext['getDiagramVersion'] = async (
+        id: string
+    ): Promise<DiagramVersion | undefined> => {
+        return await db.diagram_versions.get(id);
+    };
+
+    const deleteDiagramVersion: StorageContext['deleteDiagramVersion'] = async (
+        id: string
+    ) => {
+        await db.diagram_versions.delete(id);
+    };
+
+    const listDiagramVersions: StorageContext['listDiagramVersions'] = async (
+        diagramId: string
+    ): Promise<DiagramVersion[]> => {
+        // Sort versions from the newest to the oldest
+        return (
+            await db.diagram_versions
+                .where('diagramId')
+                .equals(diagramId)
+                .toArray()
+        ).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    };
+
+    const transaction: StorageContext['transaction'] = async (operations) =>
+        await db.transaction(
+            'rw',
+            [
+                db.diagrams,
+                db.db_tables,
+                db.db_relationships,
+                db.config,
+                db.diagram_versions,
+            ],
+            operations
+        );
+
     return (
         <storageContext.Provider
             value={{
@@ -397,6 +459,11 @@ export const StorageProvider: React.FC<React.PropsWithChildren> = ({
                 listRelationships,
                 deleteDiagramTables,
                 deleteDiagramRelationships,
+                addDiagramVersion,
+                getDiagramVersion,
+                deleteDiagramVersion,
+                listDiagramVersions,
+                transaction,
             }}
         >
             {children}
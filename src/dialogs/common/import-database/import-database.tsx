@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/button/button';
 import {
     DialogClose,
@@ -33,6 +33,12 @@ import {
     databaseTypeToClientsMap,
 } from '@/lib/domain/database-clients';
 import { isDatabaseMetadata } from '@/lib/data/import-metadata/metadata-types/database-metadata';
+import {
+    checkImportScript,
+    ImportMethod,
+} from '@/lib/data/import-metadata/import-method';
+import type { ImportScriptError } from '@/lib/data/import-metadata/import-script-error';
+import { Upload } from 'lucide-react';
 
 const errorScriptOutputMessage =
     'Invalid JSON. Please correct it or contact us at chartdb.io@gmail.com for help.';
@@ -48,10 +54,27 @@ export interface ImportDatabaseProps {
     setDatabaseEdition: React.Dispatch<
         React.SetStateAction<DatabaseEdition | undefined>
     >;
+    importMethod: ImportMethod;
+    setImportMethod: (importMethod: ImportMethod) => void;
     keepDialogAfterImport?: boolean;
     title: string;
 }
 
+const importMethods: ImportMethod[] = [
+    'query',
+    'ddl',
+    'dbml',
+    'prisma',
+    'mermaid',
+];
+
+const scriptFileExtensions: Record<Exclude<ImportMethod, 'query'>, string> = {
+    ddl: '.sql,.txt',
+    dbml: '.dbml,.txt',
+    prisma: '.prisma,.txt',
+    mermaid: '.mmd,.md,.txt',
+};
+
 export const ImportDatabase: React.FC<ImportDatabaseProps> = ({
     setScriptResult,
     goBack,
@@ -61,22 +84,46 @@ export const ImportDatabase: React.FC<ImportDatabaseProps> = ({
     databaseType,
     databaseEdition,
     setDatabaseEdition,
+    importMethod,
+    setImportMethod,
     keepDialogAfterImport,
     title,
 }) => {
     const databaseClients = databaseTypeToClientsMap[databaseType];
     const [errorMessage, setErrorMessage] = useState('');
+    const [scriptErrors, setScriptErrors] = useState<ImportScriptError[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     const [databaseClient, setDatabaseClient] = useState<
         DatabaseClient | undefined
     >();
     const { t } = useTranslation();
 
     useEffect(() => {
+        setScriptErrors([]);
+
         if (scriptResult.trim().length === 0) {
             setErrorMessage('');
             return;
         }
 
+        if (importMethod !== 'query') {
+            const { tableCount, errors } = checkImportScript({
+                importMethod,
+                script: scriptResult,
+                databaseType,
+            });
+
+            setScriptErrors(errors);
+            setErrorMessage(
+                tableCount === 0
+                    ? t(
+                          `new_diagram_dialog.import_database.${importMethod}_no_tables`
+                      )
+                    : ''
+            );
+            return;
+        }
+
         try {
             const parsedResult = JSON.parse(scriptResult);
 
@@ -88,7 +135,7 @@ export const ImportDatabase: React.FC<ImportDatabaseProps> = ({
         } catch (error) {
             setErrorMessage(errorScriptOutputMessage);
         }
-    }, [scriptResult]);
+    }, [scriptResult, importMethod, databaseType, t]);
 
     const handleImport = useCallback(() => {
         if (errorMessage.length === 0 && scriptResult.trim().length !== 0) {
@@ -104,6 +151,18 @@ export const ImportDatabase: React.FC<ImportDatabaseProps> = ({
         [setScriptResult]
     );
 
+    const handleFileChange = useCallback(
+        async (e: React.ChangeEvent<HTMLInputElement>) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+
+            if (file) {
+                setScriptResult(await file.text());
+            }
+        },
+        [setScriptResult]
+    );
+
     const renderHeader = useCallback(() => {
         return (
             <DialogHeader>
@@ -191,75 +250,148 @@ export const ImportDatabase: React.FC<ImportDatabaseProps> = ({
                         </ToggleGroup>
                     </div>
                 ) : null}
-                <div className="flex flex-col gap-1">
-                    <div className="flex flex-col gap-1 text-sm text-muted-foreground md:flex-row md:justify-between">
-                        <div>
-                            1. {t('new_diagram_dialog.import_database.step_1')}
-                        </div>
-                        {databaseType === DatabaseType.SQL_SERVER && (
-                            <SSMSInfo />
-                        )}
-                    </div>
-                    {databaseTypeToClientsMap[databaseType].length > 0 ? (
-                        <Tabs
-                            value={
-                                !databaseClient ? 'dbclient' : databaseClient
+                <div className="flex flex-col gap-1 md:flex-row">
+                    <p className="text-sm leading-6 text-muted-foreground">
+                        {t('new_diagram_dialog.import_database.import_method')}
+                    </p>
+                    <ToggleGroup
+                        type="single"
+                        className="ml-1 gap-2"
+                        value={importMethod}
+                        onValueChange={(value) => {
+                            if (value) {
+                                setImportMethod(value as ImportMethod);
                             }
-                            onValueChange={(value) => {
-                                setDatabaseClient(
-                                    value === 'dbclient'
-                                        ? undefined
-                                        : (value as DatabaseClient)
-                                );
-                            }}
-                        >
-                            <div className="flex flex-1">
-                                <TabsList className="h-8 justify-start rounded-none rounded-t-sm ">
-                                    <TabsTrigger
-                                        value="dbclient"
-                                        className="h-6 w-20"
-                                    >
-                                        DB Client
-                                    </TabsTrigger>
-
-                                    {databaseClients?.map((client) => (
+                        }}
+                    >
+                        {importMethods.map((method) => (
+                            <ToggleGroupItem
+                                value={method}
+                                key={method}
+                                variant="outline"
+                                className="h-6 gap-1 p-0 px-2 shadow-none"
+                            >
+                                {t(
+                                    `new_diagram_dialog.import_database.import_methods.${method}`
+                                )}
+                            </ToggleGroupItem>
+                        ))}
+                    </ToggleGroup>
+                </div>
+                {importMethod === 'query' ? (
+                    <div className="flex flex-col gap-1">
+                        <div className="flex flex-col gap-1 text-sm text-muted-foreground md:flex-row md:justify-between">
+                            <div>
+                                1.{' '}
+                                {t('new_diagram_dialog.import_database.step_1')}
+                            </div>
+                            {databaseType === DatabaseType.SQL_SERVER && (
+                                <SSMSInfo />
+                            )}
+                        </div>
+                        {databaseTypeToClientsMap[databaseType].length > 0 ? (
+                            <Tabs
+                                value={
+                                    !databaseClient
+                                        ? 'dbclient'
+                                        : databaseClient
+                                }
+                                onValueChange={(value) => {
+                                    setDatabaseClient(
+                                        value === 'dbclient'
+                                            ? undefined
+                                            : (value as DatabaseClient)
+                                    );
+                                }}
+                            >
+                                <div className="flex flex-1">
+                                    <TabsList className="h-8 justify-start rounded-none rounded-t-sm ">
                                         <TabsTrigger
-                                            key={client}
-                                            value={client}
-                                            className="h-6 !w-20"
+                                            value="dbclient"
+                                            className="h-6 w-20"
                                         >
-                                            {databaseClientToLabelMap[client]}
+                                            DB Client
                                         </TabsTrigger>
-                                    )) ?? []}
-                                </TabsList>
-                            </div>
+
+                                        {databaseClients?.map((client) => (
+                                            <TabsTrigger
+                                                key={client}
+                                                value={client}
+                                                className="h-6 !w-20"
+                                            >
+                                                {
+                                                    databaseClientToLabelMap[
+                                                        client
+                                                    ]
+                                                }
+                                            </TabsTrigger>
+                                        )) ?? []}
+                                    </TabsList>
+                                </div>
+                                <CodeSnippet
+                                    className="max-h-40 w-full"
+                                    code={importMetadataScripts[databaseType]({
+                                        databaseEdition,
+                                        databaseClient,
+                                    })}
+                                    language={databaseClient ? 'bash' : 'sql'}
+                                />
+                            </Tabs>
+                        ) : (
                             <CodeSnippet
                                 className="max-h-40 w-full"
                                 code={importMetadataScripts[databaseType]({
                                     databaseEdition,
-                                    databaseClient,
                                 })}
-                                language={databaseClient ? 'bash' : 'sql'}
                             />
-                        </Tabs>
-                    ) : (
-                        <CodeSnippet
-                            className="max-h-40 w-full"
-                            code={importMetadataScripts[databaseType]({
-                                databaseEdition,
-                            })}
-                        />
-                    )}
-                </div>
+                        )}
+                    </div>
+                ) : null}
                 <div className="flex h-48 flex-col gap-1">
-                    <p className="text-sm text-muted-foreground">
-                        2. {t('new_diagram_dialog.import_database.step_2')}
-                    </p>
+                    <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm text-muted-foreground">
+                            {importMethod === 'query'
+                                ? `2. ${t('new_diagram_dialog.import_database.step_2')}`
+                                : t(
+                                      `new_diagram_dialog.import_database.${importMethod}_step`
+                                  )}
+                        </p>
+                        {importMethod !== 'query' ? (
+                            <>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    className="h-6 gap-1 px-2 text-xs"
+                                    onClick={() =>
+                                        fileInputRef.current?.click()
+                                    }
+                                >
+                                    <Upload className="size-3" />
+                                    {t(
+                                        'new_diagram_dialog.import_database.upload_file'
+                                    )}
+                                </Button>
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept={scriptFileExtensions[importMethod]}
+                                    className="hidden"
+                                    onChange={handleFileChange}
+                                />
+                            </>
+                        ) : null}
+                    </div>
                     <Textarea
                         className="w-full flex-1 rounded-md bg-muted p-2 text-sm"
-                        placeholder={t(
-                            'new_diagram_dialog.import_database.script_results_placeholder'
-                        )}
+                        placeholder={
+                            importMethod === 'query'
+                                ? t(
+                                      'new_diagram_dialog.import_database.script_results_placeholder'
+                                  )
+                                : t(
+                                      `new_diagram_dialog.import_database.${importMethod}_placeholder`
+                                  )
+                        }
                         value={scriptResult}
                         onChange={handleInputChange}
                     />
@@ -269,6 +401,28 @@ export const ImportDatabase: React.FC<ImportDatabaseProps> = ({
                         </p>
                     )}
                 </div>
+                {scriptErrors.length > 0 ? (
+                    <div className="flex flex-col gap-1 text-sm text-amber-700">
+                        <p>
+                            {t(
+                                'new_diagram_dialog.import_database.script_errors'
+                            )}
+                        </p>
+                        <ul className="max-h-24 overflow-y-auto text-xs">
+                            {scriptErrors.map((error, index) => (
+                                <li key={index}>
+                                    {t(
+                                        'new_diagram_dialog.import_database.script_error_line',
+                                        {
+                                            line: error.line,
+                                            message: error.message,
+                                        }
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                ) : null}
             </div>
         );
     }, [
@@ -276,10 +430,14 @@ export const ImportDatabase: React.FC<ImportDatabaseProps> = ({
         databaseType,
         errorMessage,
         handleInputChange,
+        handleFileChange,
         scriptResult,
         setDatabaseEdition,
         databaseClients,
         databaseClient,
+        importMethod,
+        setImportMethod,
+        scriptErrors,
         t,
     ]);
 
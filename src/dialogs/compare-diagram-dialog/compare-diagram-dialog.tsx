@@ -0,0 +1,147 @@
+import { Button } from '@/components/button/button';
+import {
+    Dialog,
+    DialogClose,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/dialog/dialog';
+import { SelectBox, SelectBoxOption } from '@/components/select-box/select-box';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { useDialog } from '@/hooks/use-dialog';
+import { useLayout } from '@/hooks/use-layout';
+import { useStorage } from '@/hooks/use-storage';
+import { databaseTypeToLabelMap } from '@/lib/databases';
+import { Diagram } from '@/lib/domain/diagram';
+import { DialogProps } from '@radix-ui/react-dialog';
+import { GitCompareArrows } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+export interface CompareDiagramDialogProps {
+    dialog: DialogProps;
+}
+
+export const CompareDiagramDialog: React.FC<CompareDiagramDialogProps> = ({
+    dialog,
+}) => {
+    const { closeCompareDiagramDialog } = useDialog();
+    const { currentDiagram, versions, compareDiagram } = useChartDB();
+    const { listDiagrams, getDiagram } = useStorage();
+    const { showSidePanel } = useLayout();
+    const { t } = useTranslation();
+    const [diagrams, setDiagrams] = useState<Diagram[]>([]);
+    const [baseId, setBaseId] = useState<string>();
+
+    useEffect(() => {
+        if (!dialog.open) return;
+        setBaseId(undefined);
+
+        const fetchDiagrams = async () => {
+            const diagrams = await listDiagrams();
+            setDiagrams(
+                diagrams
+                    .filter((diagram) => diagram.id !== currentDiagram.id)
+                    .sort(
+                        (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+                    )
+            );
+        };
+        fetchDiagrams();
+    }, [dialog.open, listDiagrams, currentDiagram.id]);
+
+    const baseOptions: SelectBoxOption[] = useMemo(
+        () => [
+            ...versions.map((version) => ({
+                value: version.id,
+                label: version.name,
+                description: t('compare_diagram_dialog.version'),
+            })),
+            ...diagrams.map((diagram) => ({
+                value: diagram.id,
+                label: diagram.name,
+                description: databaseTypeToLabelMap[diagram.databaseType],
+            })),
+        ],
+        [versions, diagrams, t]
+    );
+
+    const compare = useCallback(async () => {
+        const version = versions.find((version) => version.id === baseId);
+        const baseDiagram = version
+            ? { ...version.diagram, name: version.name }
+            : await getDiagram(baseId ?? '', {
+                  includeTables: true,
+                  includeRelationships: true,
+              });
+
+        if (!baseDiagram) {
+            return;
+        }
+
+        compareDiagram(baseDiagram);
+        showSidePanel();
+        closeCompareDiagramDialog();
+    }, [
+        baseId,
+        versions,
+        getDiagram,
+        compareDiagram,
+        showSidePanel,
+        closeCompareDiagramDialog,
+    ]);
+
+    return (
+        <Dialog
+            {...dialog}
+            onOpenChange={(open) => {
+                if (!open) {
+                    closeCompareDiagramDialog();
+                }
+            }}
+        >
+            <DialogContent className="flex flex-col" showClose>
+                <DialogHeader>
+                    <DialogTitle>
+                        {t('compare_diagram_dialog.title')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {t('compare_diagram_dialog.description')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-col gap-2">
+                    <div className="flex gap-1 text-xs">
+                        <GitCompareArrows className="size-4 text-subtitle" />
+                        <div className="font-bold text-subtitle">
+                            {t('compare_diagram_dialog.compare_with')}
+                        </div>
+                    </div>
+                    <SelectBox
+                        className="flex h-8 min-h-8 w-full"
+                        options={baseOptions}
+                        placeholder={t(
+                            'compare_diagram_dialog.compare_with_placeholder'
+                        )}
+                        value={baseId}
+                        onChange={(value) => setBaseId(value as string)}
+                        emptyPlaceholder={t(
+                            'compare_diagram_dialog.no_diagrams_found'
+                        )}
+                    />
+                </div>
+                <DialogFooter className="flex !justify-between gap-2">
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">
+                            {t('compare_diagram_dialog.cancel')}
+                        </Button>
+                    </DialogClose>
+                    <Button type="button" disabled={!baseId} onClick={compare}>
+                        {t('compare_diagram_dialog.compare')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -3,13 +3,13 @@ import { Dialog, DialogContent } from '@/components/dialog/dialog';
 import { DialogProps } from '@radix-ui/react-dialog';
 import { DatabaseType } from '@/lib/domain/database-type';
 import { useStorage } from '@/hooks/use-storage';
-import { Diagram, loadFromDatabaseMetadata } from '@/lib/domain/diagram';
+import { Diagram } from '@/lib/domain/diagram';
 import { useNavigate } from 'react-router-dom';
 import { useConfig } from '@/hooks/use-config';
 import {
-    DatabaseMetadata,
-    loadDatabaseMetadata,
-} from '@/lib/data/import-metadata/metadata-types/database-metadata';
+    ImportMethod,
+    loadDiagramFromImportScript,
+} from '@/lib/data/import-metadata/import-method';
 import { generateDiagramId } from '@/lib/utils';
 import { useChartDB } from '@/hooks/use-chartdb';
 import { useDialog } from '@/hooks/use-dialog';
@@ -34,6 +34,7 @@ export const CreateDiagramDialog: React.FC<CreateDiagramDialogProps> = ({
     const { closeCreateDiagramDialog } = useDialog();
     const { updateConfig } = useConfig();
     const [scriptResult, setScriptResult] = useState('');
+    const [importMethod, setImportMethod] = useState<ImportMethod>('query');
     const [databaseEdition, setDatabaseEdition] = useState<
         DatabaseEdition | undefined
     >();
@@ -57,17 +58,16 @@ export const CreateDiagramDialog: React.FC<CreateDiagramDialogProps> = ({
         setDatabaseType(DatabaseType.GENERIC);
         setDatabaseEdition(undefined);
         setScriptResult('');
+        setImportMethod('query');
     }, [dialog.open]);
 
     const hasExistingDiagram = (diagramId ?? '').trim().length !== 0;
 
     const importNewDiagram = useCallback(async () => {
-        const databaseMetadata: DatabaseMetadata =
-            loadDatabaseMetadata(scriptResult);
-
-        const diagram = loadFromDatabaseMetadata({
+        const diagram = loadDiagramFromImportScript({
+            importMethod,
+            script: scriptResult,
             databaseType,
-            databaseMetadata,
             diagramNumber,
             databaseEdition:
                 databaseEdition?.trim().length === 0
@@ -87,6 +87,7 @@ export const CreateDiagramDialog: React.FC<CreateDiagramDialogProps> = ({
         navigate,
         updateConfig,
         scriptResult,
+        importMethod,
         diagramNumber,
     ]);
 
@@ -151,6 +152,8 @@ export const CreateDiagramDialog: React.FC<CreateDiagramDialogProps> = ({
                         databaseEdition={databaseEdition}
                         databaseType={databaseType}
                         scriptResult={scriptResult}
+                        importMethod={importMethod}
+                        setImportMethod={setImportMethod}
                         setDatabaseEdition={setDatabaseEdition}
                         goBack={() =>
                             setStep(CreateDiagramDialogStep.SELECT_DATABASE)
@@ -108,6 +108,7 @@ export const SelectDatabase: React.FC<SelectDatabaseProps> = ({
                     {renderDatabaseOption(DatabaseType.MARIADB)}
                     {renderDatabaseOption(DatabaseType.SQLITE)}
                     {renderDatabaseOption(DatabaseType.SQL_SERVER)}
+                    {renderDatabaseOption(DatabaseType.ORACLE)}
                     {renderExamplesOption()}
                 </ToggleGroup>
             </div>
@@ -0,0 +1,161 @@
+import { Button } from '@/components/button/button';
+import { CodeSnippet } from '@/components/code-snippet/code-snippet';
+import {
+    Dialog,
+    DialogClose,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/dialog/dialog';
+import { ToggleGroup, ToggleGroupItem } from '@/components/toggle/toggle-group';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { useDialog } from '@/hooks/use-dialog';
+import {
+    CodeFormat,
+    codeFormats,
+} from '@/lib/data/export-metadata/export-code/code-formats';
+import { downloadFile } from '@/lib/utils';
+import { createZip } from '@/lib/zip';
+import { DialogProps } from '@radix-ui/react-dialog';
+import { Download } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+export interface ExportCodeDialogProps {
+    dialog: DialogProps;
+}
+
+const codeFormatList = Object.keys(codeFormats) as CodeFormat[];
+
+export const ExportCodeDialog: React.FC<ExportCodeDialogProps> = ({
+    dialog,
+}) => {
+    const { closeExportCodeDialog } = useDialog();
+    const { currentDiagram } = useChartDB();
+    const { t } = useTranslation();
+    const [format, setFormat] = useState<CodeFormat>('typeorm');
+    const [selectedPath, setSelectedPath] = useState('');
+
+    const files = useMemo(
+        () =>
+            dialog.open ? codeFormats[format].exportCode(currentDiagram) : [],
+        [dialog.open, format, currentDiagram]
+    );
+
+    useEffect(() => {
+        setSelectedPath(files[0]?.path ?? '');
+    }, [files]);
+
+    const selectedFile = files.find((file) => file.path === selectedPath);
+
+    const download = useCallback(
+        () =>
+            downloadFile({
+                content: createZip(files),
+                fileName: `${currentDiagram.name}-${format}.zip`,
+            }),
+        [files, currentDiagram.name, format]
+    );
+
+    return (
+        <Dialog
+            {...dialog}
+            onOpenChange={(open) => {
+                if (!open) {
+                    closeExportCodeDialog();
+                }
+            }}
+        >
+            <DialogContent
+                className="flex max-h-[80vh] min-w-[500px] flex-col overflow-y-auto xl:min-w-[75vw]"
+                showClose
+            >
+                <DialogHeader>
+                    <DialogTitle>{t('export_code_dialog.title')}</DialogTitle>
+                    <DialogDescription>
+                        {t('export_code_dialog.description')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-col gap-4">
+                    <ToggleGroup
+                        type="single"
+                        className="flex-wrap justify-start gap-2"
+                        value={format}
+                        onValueChange={(value) => {
+                            if (value) {
+                                setFormat(value as CodeFormat);
+                            }
+                        }}
+                    >
+                        {codeFormatList.map((codeFormat) => (
+                            <ToggleGroupItem
+                                value={codeFormat}
+                                key={codeFormat}
+                                variant="outline"
+                                className="h-6 px-2 shadow-none"
+                            >
+                                {codeFormats[codeFormat].label}
+                            </ToggleGroupItem>
+                        ))}
+                    </ToggleGroup>
+                    {files.length > 0 ? (
+                        <div className="flex flex-col gap-2 md:flex-row">
+                            <div className="flex shrink-0 flex-col gap-1 md:w-48">
+                                <p className="text-xs text-muted-foreground">
+                                    {t('export_code_dialog.files', {
+                                        count: files.length,
+                                    })}
+                                </p>
+                                {files.map((file) => (
+                                    <Button
+                                        key={file.path}
+                                        type="button"
+                                        variant={
+                                            file.path === selectedPath
+                                                ? 'secondary'
+                                                : 'ghost'
+                                        }
+                                        className="h-7 justify-start truncate px-2 text-xs"
+                                        onClick={() =>
+                                            setSelectedPath(file.path)
+                                        }
+                                    >
+                                        {file.path}
+                                    </Button>
+                                ))}
+                            </div>
+                            <CodeSnippet
+                                className="max-h-96 w-full"
+                                code={selectedFile?.content ?? ''}
+                                language={codeFormats[format].language}
+                            />
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            {t('export_code_dialog.no_tables')}
+                        </p>
+                    )}
+                </div>
+
+                <DialogFooter className="flex !justify-between gap-2">
+                    <Button
+                        type="button"
+                        variant="outline"
+                        disabled={files.length === 0}
+                        onClick={download}
+                    >
+                        <Download className="mr-1 size-4" />
+                        {t('export_code_dialog.download')}
+                    </Button>
+                    <DialogClose asChild>
+                        <Button type="button">
+                            {t('export_code_dialog.close')}
+                        </Button>
+                    </DialogClose>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,225 @@
+import { Button } from '@/components/button/button';
+import { CodeSnippet } from '@/components/code-snippet/code-snippet';
+import {
+    Dialog,
+    DialogClose,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/dialog/dialog';
+import { Label } from '@/components/label/label';
+import { SelectBox, SelectBoxOption } from '@/components/select-box/select-box';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { useDialog } from '@/hooks/use-dialog';
+import { useStorage } from '@/hooks/use-storage';
+import { exportMigrationSQL } from '@/lib/data/export-metadata/export-migration-script';
+import { databaseTypeToLabelMap } from '@/lib/databases';
+import { Diagram } from '@/lib/domain/diagram';
+import { DialogProps } from '@radix-ui/react-dialog';
+import { GitCompareArrows } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+// Option values tell the current diagram, its saved versions and other diagrams apart
+const currentDiagramKey = 'current';
+const versionKeyPrefix = 'version:';
+const diagramKeyPrefix = 'diagram:';
+
+export interface ExportMigrationDialogProps {
+    dialog: DialogProps;
+}
+
+export const ExportMigrationDialog: React.FC<ExportMigrationDialogProps> = ({
+    dialog,
+}) => {
+    const { closeExportMigrationDialog } = useDialog();
+    const { currentDiagram, versions } = useChartDB();
+    const { listDiagrams } = useStorage();
+    const { t } = useTranslation();
+    const [diagrams, setDiagrams] = useState<Diagram[]>([]);
+    const [baseDiagramId, setBaseDiagramId] = useState<string>();
+    const [targetDiagramId, setTargetDiagramId] =
+        useState<string>(currentDiagramKey);
+
+    useEffect(() => {
+        if (!dialog.open) return;
+        setBaseDiagramId(undefined);
+        setTargetDiagramId(currentDiagramKey);
+
+        const fetchDiagrams = async () => {
+            const diagrams = await listDiagrams({
+                includeTables: true,
+                includeRelationships: true,
+            });
+            setDiagrams(
+                diagrams
+                    .filter((diagram) => diagram.id !== currentDiagram.id)
+                    .sort(
+                        (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+                    )
+            );
+        };
+        fetchDiagrams();
+    }, [dialog.open, listDiagrams, currentDiagram.id]);
+
+    // Saved versions of the current diagram, by option value
+    const versionDiagrams = useMemo(
+        () =>
+            new Map(
+                versions.map((version) => [
+                    `${versionKeyPrefix}${version.id}`,
+                    version.diagram,
+                ])
+            ),
+        [versions]
+    );
+
+    const versionOptions: SelectBoxOption[] = useMemo(
+        () =>
+            versions.map((version) => ({
+                value: `${versionKeyPrefix}${version.id}`,
+                label: version.name,
+                description: version.createdAt.toLocaleString(),
+            })),
+        [versions]
+    );
+
+    const baseOptions: SelectBoxOption[] = useMemo(
+        () => [
+            ...versionOptions,
+            ...diagrams.map((diagram) => ({
+                value: `${diagramKeyPrefix}${diagram.id}`,
+                label: diagram.name,
+                description: databaseTypeToLabelMap[diagram.databaseType],
+            })),
+        ],
+        [versionOptions, diagrams]
+    );
+
+    const targetOptions: SelectBoxOption[] = useMemo(
+        () => [
+            {
+                value: currentDiagramKey,
+                label: t('export_migration_dialog.current_diagram'),
+                description: currentDiagram.name,
+            },
+            ...versionOptions,
+        ],
+        [versionOptions, currentDiagram.name, t]
+    );
+
+    const script = useMemo(() => {
+        const findDiagram = (key?: string) =>
+            key === currentDiagramKey
+                ? currentDiagram
+                : (versionDiagrams.get(key ?? '') ??
+                  diagrams.find(
+                      (diagram) => `${diagramKeyPrefix}${diagram.id}` === key
+                  ));
+        const baseDiagram = findDiagram(baseDiagramId);
+        const targetDiagram = findDiagram(targetDiagramId);
+
+        if (!baseDiagram || !targetDiagram) {
+            return undefined;
+        }
+
+        return exportMigrationSQL({
+            oldDiagram: baseDiagram,
+            newDiagram: targetDiagram,
+            databaseType: currentDiagram.databaseType,
+        });
+    }, [
+        diagrams,
+        versionDiagrams,
+        baseDiagramId,
+        targetDiagramId,
+        currentDiagram,
+    ]);
+
+    return (
+        <Dialog
+            {...dialog}
+            onOpenChange={(open) => {
+                if (!open) {
+                    closeExportMigrationDialog();
+                }
+            }}
+        >
+            <DialogContent
+                className="flex max-h-[80vh] min-w-[500px] flex-col overflow-y-auto xl:min-w-[75vw]"
+                showClose
+            >
+                <DialogHeader>
+                    <DialogTitle>
+                        {t('export_migration_dialog.title')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {t('export_migration_dialog.description', {
+                            databaseType:
+                                databaseTypeToLabelMap[
+                                    currentDiagram.databaseType
+                                ],
+                        })}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-col gap-2">
+                    <div className="flex gap-1 text-xs">
+                        <GitCompareArrows className="size-4 text-subtitle" />
+                        <div className="font-bold text-subtitle">
+                            {t('export_migration_dialog.base_diagram')}
+                        </div>
+                    </div>
+                    <SelectBox
+                        className="flex h-8 min-h-8 w-full"
+                        options={baseOptions}
+                        placeholder={t(
+                            'export_migration_dialog.base_diagram_placeholder'
+                        )}
+                        value={baseDiagramId}
+                        onChange={(value) => setBaseDiagramId(value as string)}
+                        emptyPlaceholder={t(
+                            'export_migration_dialog.no_diagrams_found'
+                        )}
+                    />
+                    <div className="flex gap-1 text-xs">
+                        <GitCompareArrows className="size-4 text-subtitle" />
+                        <div className="font-bold text-subtitle">
+                            {t('export_migration_dialog.target_diagram')}
+                        </div>
+                    </div>
+                    <SelectBox
+                        className="flex h-8 min-h-8 w-full"
+                        options={targetOptions}
+                        value={targetDiagramId}
+                        onChange={(value) =>
+                            setTargetDiagramId(value as string)
+                        }
+                    />
+                </div>
+                <div className="flex flex-1 items-center justify-center">
+                    {script === undefined ? null : script.length === 0 ? (
+                        <Label className="text-sm">
+                            {t('export_migration_dialog.no_changes')}
+                        </Label>
+                    ) : (
+                        <CodeSnippet
+                            className="max-h-96 w-full"
+                            code={script}
+                        />
+                    )}
+                </div>
+
+                <DialogFooter className="flex !justify-between gap-2">
+                    <div />
+                    <DialogClose asChild>
+                        <Button type="button">
+                            {t('export_migration_dialog.close')}
+                        </Button>
+                    </DialogClose>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
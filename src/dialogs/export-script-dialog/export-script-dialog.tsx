@@ -0,0 +1,97 @@
+import { Button } from '@/components/button/button';
+import { CodeSnippet } from '@/components/code-snippet/code-snippet';
+import {
+    Dialog,
+    DialogClose,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/dialog/dialog';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { useDialog } from '@/hooks/use-dialog';
+import {
+    ExportScriptFormat,
+    exportScriptFormats,
+} from '@/lib/data/export-metadata/export-script-formats';
+import { downloadFile } from '@/lib/utils';
+import { DialogProps } from '@radix-ui/react-dialog';
+import { Download } from 'lucide-react';
+import React, { useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+
+export interface ExportScriptDialogProps {
+    dialog: DialogProps;
+    format: ExportScriptFormat;
+}
+
+export const ExportScriptDialog: React.FC<ExportScriptDialogProps> = ({
+    dialog,
+    format,
+}) => {
+    const { closeExportScriptDialog } = useDialog();
+    const { currentDiagram } = useChartDB();
+    const { t } = useTranslation();
+    const { label, fileExtension, mimeType, exportScript } =
+        exportScriptFormats[format];
+
+    const script = useMemo(
+        () => (dialog.open ? exportScript(currentDiagram) : ''),
+        [dialog.open, exportScript, currentDiagram]
+    );
+
+    const download = useCallback(
+        () =>
+            downloadFile({
+                content: script,
+                fileName: `${currentDiagram.name}.${fileExtension}`,
+                mimeType,
+            }),
+        [script, currentDiagram.name, fileExtension, mimeType]
+    );
+
+    return (
+        <Dialog
+            {...dialog}
+            onOpenChange={(open) => {
+                if (!open) {
+                    closeExportScriptDialog();
+                }
+            }}
+        >
+            <DialogContent
+                className="flex max-h-[80vh] min-w-[500px] flex-col overflow-y-auto xl:min-w-[75vw]"
+                showClose
+            >
+                <DialogHeader>
+                    <DialogTitle>
+                        {t('export_script_dialog.title', { format: label })}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {t(`export_script_dialog.descriptions.${format}`)}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-1 items-center justify-center">
+                    <CodeSnippet
+                        className="max-h-96 w-full"
+                        code={script}
+                        language="text"
+                    />
+                </div>
+
+                <DialogFooter className="flex !justify-between gap-2">
+                    <Button type="button" variant="outline" onClick={download}>
+                        <Download className="mr-1 size-4" />
+                        {t('export_script_dialog.download')}
+                    </Button>
+                    <DialogClose asChild>
+                        <Button type="button">
+                            {t('export_script_dialog.close')}
+                        </Button>
+                    </DialogClose>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -13,12 +13,15 @@ import { Label } from '@/components/label/label';
 import { Spinner } from '@/components/spinner/spinner';
 import { useChartDB } from '@/hooks/use-chartdb';
 import { useDialog } from '@/hooks/use-dialog';
+import { useConfig } from '@/hooks/use-config';
 import {
     exportBaseSQL,
     exportSQL,
+    polishSQLWithAI,
 } from '@/lib/data/export-metadata/export-sql-script';
 import { databaseTypeToLabelMap } from '@/lib/databases';
 import { DatabaseType } from '@/lib/domain/database-type';
+import { IS_CHARTDB_IO, OPENAI_API_KEY } from '@/lib/env';
 import { DialogProps } from '@radix-ui/react-dialog';
 import { Annoyed, Sparkles } from 'lucide-react';
 import React, { useCallback, useEffect } from 'react';
@@ -33,34 +36,74 @@ export const ExportSQLDialog: React.FC<ExportSQLDialogProps> = ({
     dialog,
     targetDatabaseType,
 }) => {
-    const { closeExportSQLDialog } = useDialog();
+    const { closeExportSQLDialog, showAlert } = useDialog();
     const { currentDiagram } = useChartDB();
+    const { config, updateConfig } = useConfig();
     const { t } = useTranslation();
     const [script, setScript] = React.useState<string>();
     const [error, setError] = React.useState<boolean>(false);
+    const [polishing, setPolishing] = React.useState<boolean>(false);
 
-    const exportSQLScript = useCallback(async () => {
-        if (targetDatabaseType === DatabaseType.GENERIC) {
-            return Promise.resolve(exportBaseSQL(currentDiagram));
-        } else {
-            return exportSQL(currentDiagram, targetDatabaseType);
-        }
-    }, [targetDatabaseType, currentDiagram]);
+    const canPolishWithAI =
+        !!OPENAI_API_KEY && targetDatabaseType !== DatabaseType.GENERIC;
 
     useEffect(() => {
         if (!dialog.open) return;
-        setScript(undefined);
         setError(false);
-        const fetchScript = async () => {
-            try {
-                const script = await exportSQLScript();
-                setScript(script);
-            } catch (e) {
-                setError(true);
+        setPolishing(false);
+        try {
+            setScript(
+                targetDatabaseType === DatabaseType.GENERIC
+                    ? exportBaseSQL(currentDiagram)
+                    : exportSQL(currentDiagram, targetDatabaseType)
+            );
+        } catch (e) {
+            setError(true);
+        }
+    }, [dialog.open, setScript, setError, currentDiagram, targetDatabaseType]);
+
+    const polishScript = useCallback(async () => {
+        if (!script) return;
+
+        if (IS_CHARTDB_IO) {
+            const now = new Date();
+            const lastExportsInLastHalfHour =
+                config?.exportActions?.filter(
+                    (date) => now.getTime() - date.getTime() < 30 * 60 * 1000
+                ) ?? [];
+
+            if (lastExportsInLastHalfHour.length >= 5) {
+                showAlert({
+                    title: t('export_sql_dialog.polish_limit.title'),
+                    description: t(
+                        'export_sql_dialog.polish_limit.description'
+                    ),
+                    closeLabel: t('export_sql_dialog.close'),
+                });
+                return;
             }
-        };
-        fetchScript();
-    }, [dialog.open, setScript, exportSQLScript, setError]);
+
+            updateConfig({
+                exportActions: [...lastExportsInLastHalfHour, now],
+            });
+        }
+
+        setPolishing(true);
+        try {
+            setScript(await polishSQLWithAI(script, targetDatabaseType));
+        } catch (e) {
+            setError(true);
+        } finally {
+            setPolishing(false);
+        }
+    }, [
+        script,
+        targetDatabaseType,
+        config?.exportActions,
+        updateConfig,
+        showAlert,
+        t,
+    ]);
 
     const renderError = useCallback(
         () => (
@@ -152,7 +195,7 @@ export const ExportSQLDialog: React.FC<ExportSQLDialogProps> = ({
                 <div className="flex flex-1 items-center justify-center">
                     {error ? (
                         renderError()
-                    ) : script === undefined ? (
+                    ) : script === undefined || polishing ? (
                         renderLoader()
                     ) : script.length === 0 ? (
                         renderError()
@@ -165,7 +208,19 @@ export const ExportSQLDialog: React.FC<ExportSQLDialogProps> = ({
                 </div>
 
                 <DialogFooter className="flex !justify-between gap-2">
-                    <div />
+                    {canPolishWithAI ? (
+                        <Button
+                            type="button"
+                            variant="outline"
+                            disabled={!script || polishing || error}
+                            onClick={polishScript}
+                        >
+                            <Sparkles className="mr-1 size-4" />
+                            {t('export_sql_dialog.polish_with_ai')}
+                        </Button>
+                    ) : (
+                        <div />
+                    )}
                     <DialogClose asChild>
                         <Button type="button">
                             {t('export_sql_dialog.close')}
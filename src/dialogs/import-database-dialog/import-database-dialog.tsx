@@ -7,14 +7,14 @@ import React, { useCallback, useEffect, useState } from 'react';
 import { ImportDatabase } from '../common/import-database/import-database';
 import { DatabaseEdition } from '@/lib/domain/database-edition';
 import {
-    DatabaseMetadata,
-    loadDatabaseMetadata,
-} from '@/lib/data/import-metadata/metadata-types/database-metadata';
-import { loadFromDatabaseMetadata } from '@/lib/domain/diagram';
+    ImportMethod,
+    loadDiagramFromImportScript,
+} from '@/lib/data/import-metadata/import-method';
 import { useChartDB } from '@/hooks/use-chartdb';
 import { useRedoUndoStack } from '@/hooks/use-redo-undo-stack';
 import { Trans, useTranslation } from 'react-i18next';
 import { useReactFlow } from '@xyflow/react';
+import { useLocalConfig } from '@/hooks/use-local-config';
 
 export interface ImportDatabaseDialogProps {
     dialog: DialogProps;
@@ -34,8 +34,13 @@ export const ImportDatabaseDialog: React.FC<ImportDatabaseDialogProps> = ({
         addTables,
         addRelationships,
         diagramName,
+        saveVersion,
+        readonly,
+        previewVersion,
     } = useChartDB();
+    const { saveVersionOnImport } = useLocalConfig();
     const [scriptResult, setScriptResult] = useState('');
+    const [importMethod, setImportMethod] = useState<ImportMethod>('query');
     const { resetRedoStack, resetUndoStack } = useRedoUndoStack();
     const { setNodes } = useReactFlow();
     const { t } = useTranslation();
@@ -47,15 +52,21 @@ export const ImportDatabaseDialog: React.FC<ImportDatabaseDialogProps> = ({
         if (!dialog.open) return;
         setDatabaseEdition(undefined);
         setScriptResult('');
+        setImportMethod('query');
     }, [dialog.open]);
 
-    const importDatabase = useCallback(async () => {
-        const databaseMetadata: DatabaseMetadata =
-            loadDatabaseMetadata(scriptResult);
+    // A previewed version or a comparison replaces the tables in context, the import works on the diagram itself
+    useEffect(() => {
+        if (dialog.open && readonly) {
+            previewVersion(undefined);
+        }
+    }, [dialog.open, readonly, previewVersion]);
 
-        const diagram = loadFromDatabaseMetadata({
+    const importDatabase = useCallback(async () => {
+        const diagram = loadDiagramFromImportScript({
+            importMethod,
+            script: scriptResult,
             databaseType,
-            databaseMetadata,
             databaseEdition:
                 databaseEdition?.trim().length === 0
                     ? undefined
@@ -272,6 +283,10 @@ export const ImportDatabaseDialog: React.FC<ImportDatabaseDialogProps> = ({
 
         if (!(await shouldRemove)) return;
 
+        if (saveVersionOnImport && tables.length > 0) {
+            await saveVersion(t('import_database_dialog.version_name'));
+        }
+
         await Promise.all([
             removeTables(tableIdsToRemove, { updateHistory: false }),
             removeRelationships(relationshipIdsToRemove, {
@@ -303,6 +318,7 @@ export const ImportDatabaseDialog: React.FC<ImportDatabaseDialogProps> = ({
         databaseEdition,
         databaseType,
         scriptResult,
+        importMethod,
         tables,
         addRelationships,
         addTables,
@@ -315,6 +331,8 @@ export const ImportDatabaseDialog: React.FC<ImportDatabaseDialogProps> = ({
         showAlert,
         setNodes,
         t,
+        saveVersion,
+        saveVersionOnImport,
     ]);
 
     return (
@@ -336,6 +354,8 @@ export const ImportDatabaseDialog: React.FC<ImportDatabaseDialogProps> = ({
                     setDatabaseEdition={setDatabaseEdition}
                     onImport={importDatabase}
                     scriptResult={scriptResult}
+                    importMethod={importMethod}
+                    setImportMethod={setImportMethod}
                     setScriptResult={setScriptResult}
                     keepDialogAfterImport
                     title={t('import_database_dialog.title', { diagramName })}
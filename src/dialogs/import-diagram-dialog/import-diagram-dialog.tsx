@@ -0,0 +1,149 @@
+import { Button } from '@/components/button/button';
+import {
+    Dialog,
+    DialogClose,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/dialog/dialog';
+import { Input } from '@/components/input/input';
+import { useConfig } from '@/hooks/use-config';
+import { useDialog } from '@/hooks/use-dialog';
+import { useLocalConfig } from '@/hooks/use-local-config';
+import { useStorage } from '@/hooks/use-storage';
+import {
+    diagramFileExtension,
+    importDiagramFile,
+    LoadedDiagramFile,
+} from '@/lib/data/diagram-file/diagram-file';
+import { DialogProps } from '@radix-ui/react-dialog';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+
+export interface ImportDiagramDialogProps {
+    dialog: DialogProps;
+}
+
+export const ImportDiagramDialog: React.FC<ImportDiagramDialogProps> = ({
+    dialog,
+}) => {
+    const { closeImportDiagramDialog } = useDialog();
+    const { addDiagram } = useStorage();
+    const { updateConfig } = useConfig();
+    const { setSchemasFilter } = useLocalConfig();
+    const navigate = useNavigate();
+    const { t } = useTranslation();
+    const [loadedFile, setLoadedFile] = useState<LoadedDiagramFile>();
+    const [errorMessage, setErrorMessage] = useState('');
+
+    useEffect(() => {
+        if (!dialog.open) return;
+        setLoadedFile(undefined);
+        setErrorMessage('');
+    }, [dialog.open]);
+
+    const handleFileChange = useCallback(
+        async (e: React.ChangeEvent<HTMLInputElement>) => {
+            const file = e.target.files?.[0];
+
+            setLoadedFile(undefined);
+            setErrorMessage('');
+
+            if (!file) return;
+
+            try {
+                setLoadedFile(importDiagramFile(await file.text()));
+            } catch (error) {
+                setErrorMessage((error as Error).message);
+            }
+        },
+        []
+    );
+
+    const importDiagram = useCallback(async () => {
+        if (!loadedFile) return;
+
+        const { diagram, schemasFilter } = loadedFile;
+
+        await addDiagram({ diagram });
+
+        if (schemasFilter) {
+            setSchemasFilter((prev) => ({
+                ...prev,
+                [diagram.id]: schemasFilter,
+            }));
+        }
+
+        await updateConfig({ defaultDiagramId: diagram.id });
+        closeImportDiagramDialog();
+        navigate(`/diagrams/${diagram.id}`);
+    }, [
+        loadedFile,
+        addDiagram,
+        setSchemasFilter,
+        updateConfig,
+        closeImportDiagramDialog,
+        navigate,
+    ]);
+
+    return (
+        <Dialog
+            {...dialog}
+            onOpenChange={(open) => {
+                if (!open) {
+                    closeImportDiagramDialog();
+                }
+            }}
+        >
+            <DialogContent className="flex flex-col" showClose>
+                <DialogHeader>
+                    <DialogTitle>
+                        {t('import_diagram_dialog.title')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {t('import_diagram_dialog.description')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-col gap-2">
+                    <Input
+                        type="file"
+                        accept={`${diagramFileExtension},.json`}
+                        onChange={handleFileChange}
+                    />
+                    {loadedFile ? (
+                        <p className="text-sm text-muted-foreground">
+                            {t('import_diagram_dialog.summary', {
+                                name: loadedFile.diagram.name,
+                                count: loadedFile.diagram.tables?.length ?? 0,
+                            })}
+                        </p>
+                    ) : null}
+                    {errorMessage ? (
+                        <p className="text-sm text-red-700">
+                            {t('import_diagram_dialog.error', {
+                                message: errorMessage,
+                            })}
+                        </p>
+                    ) : null}
+                </div>
+                <DialogFooter className="flex !justify-between gap-2">
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">
+                            {t('import_diagram_dialog.cancel')}
+                        </Button>
+                    </DialogClose>
+                    <Button
+                        type="button"
+                        disabled={!loadedFile}
+                        onClick={importDiagram}
+                    >
+                        {t('import_diagram_dialog.import')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
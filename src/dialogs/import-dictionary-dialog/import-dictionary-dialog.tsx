@@ -0,0 +1,207 @@
+import { Button } from '@/components/button/button';
+import {
+    Dialog,
+    DialogClose,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/dialog/dialog';
+import { Input } from '@/components/input/input';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/table/table';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { useDialog } from '@/hooks/use-dialog';
+import {
+    applyDictionaryChanges,
+    diffCSVDictionary,
+    DictionaryChange,
+} from '@/lib/data/import-metadata/csv-dictionary/csv-dictionary';
+import type { ImportScriptError } from '@/lib/data/import-metadata/import-script-error';
+import { DialogProps } from '@radix-ui/react-dialog';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+export interface ImportDictionaryDialogProps {
+    dialog: DialogProps;
+}
+
+export const ImportDictionaryDialog: React.FC<ImportDictionaryDialogProps> = ({
+    dialog,
+}) => {
+    const { closeImportDictionaryDialog } = useDialog();
+    const { tables, updateTablesState, readonly, previewVersion } =
+        useChartDB();
+    const { t } = useTranslation();
+    const [changes, setChanges] = useState<DictionaryChange[]>();
+    const [errors, setErrors] = useState<ImportScriptError[]>([]);
+
+    useEffect(() => {
+        if (!dialog.open) return;
+        setChanges(undefined);
+        setErrors([]);
+    }, [dialog.open]);
+
+    // A previewed version or a comparison replaces the tables in context, the dictionary applies to the diagram itself
+    useEffect(() => {
+        if (dialog.open && readonly) {
+            previewVersion(undefined);
+        }
+    }, [dialog.open, readonly, previewVersion]);
+
+    const handleFileChange = useCallback(
+        async (e: React.ChangeEvent<HTMLInputElement>) => {
+            const file = e.target.files?.[0];
+
+            setChanges(undefined);
+            setErrors([]);
+
+            if (!file) return;
+
+            const result = diffCSVDictionary({
+                csv: await file.text(),
+                tables,
+            });
+
+            setChanges(result.changes);
+            setErrors(result.errors);
+        },
+        [tables]
+    );
+
+    // All changes are applied in one update, so they are undone together
+    const applyChanges = useCallback(async () => {
+        if (!changes?.length) return;
+
+        await updateTablesState((currentTables) =>
+            applyDictionaryChanges(currentTables, changes)
+        );
+        closeImportDictionaryDialog();
+    }, [changes, updateTablesState, closeImportDictionaryDialog]);
+
+    return (
+        <Dialog
+            {...dialog}
+            onOpenChange={(open) => {
+                if (!open) {
+                    closeImportDictionaryDialog();
+                }
+            }}
+        >
+            <DialogContent
+                className="flex max-h-[80vh] flex-col md:min-w-[640px]"
+                showClose
+            >
+                <DialogHeader>
+                    <DialogTitle>
+                        {t('import_dictionary_dialog.title')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {t('import_dictionary_dialog.description')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex min-h-0 flex-col gap-2">
+                    <Input
+                        type="file"
+                        accept=".csv,.txt"
+                        onChange={handleFileChange}
+                    />
+                    {changes ? (
+                        <p className="text-sm text-muted-foreground">
+                            {t('import_dictionary_dialog.summary', {
+                                count: changes.length,
+                            })}
+                        </p>
+                    ) : null}
+                    {changes?.length ? (
+                        <div className="max-h-80 overflow-y-auto">
+                            <Table className="text-xs">
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>
+                                            {t('import_dictionary_dialog.name')}
+                                        </TableHead>
+                                        <TableHead>
+                                            {t(
+                                                'import_dictionary_dialog.attribute'
+                                            )}
+                                        </TableHead>
+                                        <TableHead>
+                                            {t(
+                                                'import_dictionary_dialog.old_value'
+                                            )}
+                                        </TableHead>
+                                        <TableHead>
+                                            {t(
+                                                'import_dictionary_dialog.new_value'
+                                            )}
+                                        </TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {changes.map((change, index) => (
+                                        <TableRow key={index}>
+                                            <TableCell className="font-mono">
+                                                {change.name}
+                                            </TableCell>
+                                            <TableCell>
+                                                {t(
+                                                    `import_dictionary_dialog.attributes.${change.attribute}`
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="whitespace-pre-wrap text-muted-foreground line-through">
+                                                {change.oldValue}
+                                            </TableCell>
+                                            <TableCell className="whitespace-pre-wrap">
+                                                {change.newValue}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    ) : null}
+                    {errors.length > 0 ? (
+                        <div className="flex flex-col gap-1 text-sm text-amber-700">
+                            <p>{t('import_dictionary_dialog.errors')}</p>
+                            <ul className="max-h-24 overflow-y-auto text-xs">
+                                {errors.map((error, index) => (
+                                    <li key={index}>
+                                        {t(
+                                            'import_dictionary_dialog.error_line',
+                                            {
+                                                line: error.line,
+                                                message: error.message,
+                                            }
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ) : null}
+                </div>
+                <DialogFooter className="flex !justify-between gap-2">
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">
+                            {t('import_dictionary_dialog.cancel')}
+                        </Button>
+                    </DialogClose>
+                    <Button
+                        type="button"
+                        disabled={!changes?.length}
+                        onClick={applyChanges}
+                    >
+                        {t('import_dictionary_dialog.apply')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,362 @@
+import { Button } from '@/components/button/button';
+import {
+    Dialog,
+    DialogClose,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/dialog/dialog';
+import { Input } from '@/components/input/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/toggle/toggle-group';
+import { useConfig } from '@/hooks/use-config';
+import { useDialog } from '@/hooks/use-dialog';
+import { useStorage } from '@/hooks/use-storage';
+import {
+    ConflictResolution,
+    copyBackedUpDiagram,
+    importWorkspaceBackup,
+    LoadedWorkspaceBackup,
+    RestoreMode,
+    workspaceBackupExtension,
+} from '@/lib/data/diagram-file/workspace-backup';
+import { Diagram } from '@/lib/domain/diagram';
+import { DialogProps } from '@radix-ui/react-dialog';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+export interface RestoreWorkspaceDialogProps {
+    dialog: DialogProps;
+}
+
+const restoreModes: RestoreMode[] = ['merge', 'replace'];
+const conflictResolutions: ConflictResolution[] = [
+    'keep_both',
+    'overwrite',
+    'skip',
+];
+
+export const RestoreWorkspaceDialog: React.FC<RestoreWorkspaceDialogProps> = ({
+    dialog,
+}) => {
+    const { closeRestoreWorkspaceDialog } = useDialog();
+    const {
+        listDiagrams,
+        addDiagram,
+        deleteDiagram,
+        addDiagramVersion,
+        transaction,
+    } = useStorage();
+    const { config, updateConfig } = useConfig();
+    const { t } = useTranslation();
+    const [backup, setBackup] = useState<LoadedWorkspaceBackup>();
+    const [errorMessage, setErrorMessage] = useState('');
+    const [existingDiagrams, setExistingDiagrams] = useState<Diagram[]>([]);
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [resolutions, setResolutions] = useState<
+        Record<string, ConflictResolution>
+    >({});
+    const [restoring, setRestoring] = useState(false);
+
+    useEffect(() => {
+        if (!dialog.open) return;
+        setBackup(undefined);
+        setErrorMessage('');
+        setMode('merge');
+        setResolutions({});
+        setRestoring(false);
+        listDiagrams().then(setExistingDiagrams);
+    }, [dialog.open, listDiagrams]);
+
+    const conflicts = useMemo(
+        () =>
+            (backup?.diagrams ?? []).filter((diagram) =>
+                existingDiagrams.some((existing) => existing.id === diagram.id)
+            ),
+        [backup, existingDiagrams]
+    );
+
+    const handleFileChange = useCallback(
+        async (e: React.ChangeEvent<HTMLInputElement>) => {
+            const file = e.target.files?.[0];
+
+            setBackup(undefined);
+            setErrorMessage('');
+            setResolutions({});
+
+            if (!file) return;
+
+            try {
+                setBackup(importWorkspaceBackup(await file.text()));
+            } catch (error) {
+                setErrorMessage(
+                    t('restore_workspace_dialog.error', {
+                        message: (error as Error).message,
+                    })
+                );
+            }
+        },
+        [t]
+    );
+
+    const restore = useCallback(async () => {
+        if (!backup) return;
+
+        setRestoring(true);
+        setErrorMessage('');
+
+        const versionsOf = (diagramId: string) =>
+            backup.versions.filter(
+                (version) => version.diagramId === diagramId
+            );
+
+        try {
+            // Replacing deletes the existing diagrams, so either everything is restored or nothing changes
+            const defaultDiagramId = await transaction(async () => {
+                const restored: Diagram[] = [];
+
+                if (mode === 'replace') {
+                    await Promise.all(
+                        existingDiagrams.map((diagram) =>
+                            deleteDiagram(diagram.id)
+                        )
+                    );
+                }
+
+                for (const diagram of backup.diagrams) {
+                    let versions = versionsOf(diagram.id);
+                    let toAdd = diagram;
+
+                    if (mode === 'merge' && conflicts.includes(diagram)) {
+                        const resolution =
+                            resolutions[diagram.id] ?? 'keep_both';
+
+                        if (resolution === 'skip') continue;
+
+                        if (resolution === 'overwrite') {
+                            await deleteDiagram(diagram.id);
+                        } else {
+                            ({ diagram: toAdd, versions } = copyBackedUpDiagram(
+                                {
+                                    diagram,
+                                    versions,
+                                }
+                            ));
+                        }
+                    }
+
+                    await addDiagram({ diagram: toAdd });
+                    await Promise.all(
+                        versions.map((version) =>
+                            addDiagramVersion({ version })
+                        )
+                    );
+                    restored.push(toAdd);
+                }
+
+                const keepCurrentDefault =
+                    mode === 'merge' &&
+                    existingDiagrams.some(
+                        (diagram) => diagram.id === config?.defaultDiagramId
+                    );
+                const defaultDiagramId = keepCurrentDefault
+                    ? config!.defaultDiagramId
+                    : (restored.find(
+                          (diagram) =>
+                              diagram.id === backup.config?.defaultDiagramId
+                      )?.id ??
+                      restored[0]?.id ??
+                      '');
+
+                await updateConfig({
+                    defaultDiagramId,
+                    exportActions:
+                        mode === 'merge'
+                            ? [
+                                  ...(config?.exportActions ?? []),
+                                  ...(backup.config?.exportActions ?? []),
+                              ]
+                            : backup.config?.exportActions,
+                });
+
+                return defaultDiagramId;
+            });
+
+            // Reload so every open context picks up the restored data
+            window.location.href = defaultDiagramId
+                ? `/diagrams/${defaultDiagramId}`
+                : '/';
+        } catch (error) {
+            setErrorMessage(
+                t('restore_workspace_dialog.restore_failed', {
+                    message: (error as Error).message,
+                })
+            );
+            setRestoring(false);
+        }
+    }, [
+        backup,
+        mode,
+        conflicts,
+        resolutions,
+        existingDiagrams,
+        config,
+        addDiagram,
+        deleteDiagram,
+        addDiagramVersion,
+        updateConfig,
+        transaction,
+        t,
+    ]);
+
+    return (
+        <Dialog
+            {...dialog}
+            onOpenChange={(open) => {
+                if (!open) {
+                    closeRestoreWorkspaceDialog();
+                }
+            }}
+        >
+            <DialogContent
+                className="flex max-h-[90vh] flex-col overflow-y-auto"
+                showClose
+            >
+                <DialogHeader>
+                    <DialogTitle>
+                        {t('restore_workspace_dialog.title')}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {t('restore_workspace_dialog.description')}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="flex flex-col gap-4">
+                    <Input
+                        type="file"
+                        accept={`${workspaceBackupExtension},.json`}
+                        onChange={handleFileChange}
+                    />
+                    {errorMessage ? (
+                        <p className="text-sm text-red-700">{errorMessage}</p>
+                    ) : null}
+                    {backup ? (
+                        <>
+                            <p className="text-sm text-muted-foreground">
+                                {t('restore_workspace_dialog.summary', {
+                                    count: backup.diagrams.length,
+                                    versions: backup.versions.length,
+                                })}
+                            </p>
+                            <div className="flex flex-col gap-1">
+                                <ToggleGroup
+                                    type="single"
+                                    className="justify-start gap-2"
+                                    value={mode}
+                                    onValueChange={(value) => {
+                                        if (value) {
+                                            setMode(value as RestoreMode);
+                                        }
+                                    }}
+                                >
+                                    {restoreModes.map((restoreMode) => (
+                                        <ToggleGroupItem
+                                            value={restoreMode}
+                                            key={restoreMode}
+                                            variant="outline"
+                                            className="h-6 px-2 shadow-none"
+                                        >
+                                            {t(
+                                                `restore_workspace_dialog.modes.${restoreMode}`
+                                            )}
+                                        </ToggleGroupItem>
+                                    ))}
+                                </ToggleGroup>
+                                <p className="text-xs text-muted-foreground">
+                                    {t(
+                                        `restore_workspace_dialog.mode_descriptions.${mode}`,
+                                        { count: existingDiagrams.length }
+                                    )}
+                                </p>
+                            </div>
+                            {mode === 'merge' && conflicts.length > 0 ? (
+                                <div className="flex flex-col gap-2">
+                                    <p className="text-sm text-amber-700">
+                                        {t(
+                                            'restore_workspace_dialog.conflicts',
+                                            { count: conflicts.length }
+                                        )}
+                                    </p>
+                                    {conflicts.map((diagram) => (
+                                        <div
+                                            key={diagram.id}
+                                            className="flex items-center justify-between gap-2"
+                                        >
+                                            <div className="flex min-w-0 flex-col">
+                                                <span className="truncate text-sm">
+                                                    {diagram.name}
+                                                </span>
+                                                <span className="truncate text-xs text-muted-foreground">
+                                                    {diagram.id}
+                                                </span>
+                                            </div>
+                                            <ToggleGroup
+                                                type="single"
+                                                className="gap-1"
+                                                value={
+                                                    resolutions[diagram.id] ??
+                                                    'keep_both'
+                                                }
+                                                onValueChange={(value) => {
+                                                    if (value) {
+                                                        setResolutions(
+                                                            (prev) => ({
+                                                                ...prev,
+                                                                [diagram.id]:
+                                                                    value as ConflictResolution,
+                                                            })
+                                                        );
+                                                    }
+                                                }}
+                                            >
+                                                {conflictResolutions.map(
+                                                    (resolution) => (
+                                                        <ToggleGroupItem
+                                                            value={resolution}
+                                                            key={resolution}
+                                                            variant="outline"
+                                                            className="h-6 px-2 text-xs shadow-none"
+                                                        >
+                                                            {t(
+                                                                `restore_workspace_dialog.resolutions.${resolution}`
+                                                            )}
+                                                        </ToggleGroupItem>
+                                                    )
+                                                )}
+                                            </ToggleGroup>
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : null}
+                        </>
+                    ) : null}
+                </div>
+                <DialogFooter className="flex !justify-between gap-2">
+                    <DialogClose asChild>
+                        <Button type="button" variant="secondary">
+                            {t('restore_workspace_dialog.cancel')}
+                        </Button>
+                    </DialogClose>
+                    <Button
+                        type="button"
+                        variant={mode === 'replace' ? 'destructive' : 'default'}
+                        disabled={!backup || restoring}
+                        onClick={restore}
+                    >
+                        {t('restore_workspace_dialog.restore')}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
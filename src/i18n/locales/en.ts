@@ -10,6 +10,16 @@ export const en = {
                 save: 'Save',
                 import_database: 'Import Database',
                 export_sql: 'Export SQL',
+                export_migration: 'Export Migration',
+                export_script: 'Export Schema as',
+                export_code: 'Export as Code...',
+                export_diagram: 'Export Diagram (JSON)',
+                import_diagram: 'Import Diagram',
+                import_dictionary: 'Import Data Dictionary',
+                backup_workspace: 'Backup Workspace',
+                restore_workspace: 'Restore Workspace...',
+                compare: 'Compare With...',
+                version_history: 'Version History',
                 export_as: 'Export as',
                 delete_diagram: 'Delete Diagram',
                 exit: 'Exit',
@@ -62,6 +72,23 @@ export const en = {
             cancel: 'Cancel',
         },
 
+        restore_version_alert: {
+            title: 'Restore Version',
+            description:
+                'The diagram will be replaced with the version "{{name}}". Changes that are not saved as a version will be lost.',
+            restore: 'Restore',
+            cancel: 'Cancel',
+            failed: 'Failed to restore the version',
+        },
+
+        delete_version_alert: {
+            title: 'Delete Version',
+            description:
+                'This action cannot be undone. The version "{{name}}" will be permanently deleted.',
+            delete: 'Delete',
+            cancel: 'Cancel',
+        },
+
         theme: {
             system: 'System',
             light: 'Light',
@@ -76,6 +103,8 @@ export const en = {
         last_saved: 'Last saved',
         saved: 'Saved',
         diagrams: 'Diagrams',
+        previewing_version: 'Previewing "{{name}}"',
+        comparing_with: 'Comparing with "{{name}}"',
         loading_diagram: 'Loading diagram...',
         deselect_all: 'Deselect All',
         select_all: 'Select All',
@@ -153,6 +182,55 @@ export const en = {
                     description: 'Create a relationship to connect tables',
                 },
             },
+            compare_section: {
+                exit: 'Exit Compare',
+                added_one: '{{count}} table added',
+                added_other: '{{count}} tables added',
+                removed_one: '{{count}} table removed',
+                removed_other: '{{count}} tables removed',
+                changed_one: '{{count}} table changed',
+                changed_other: '{{count}} tables changed',
+                renamed_from: 'Renamed from {{name}}',
+                index: 'Index {{name}}',
+                attributes: {
+                    name: 'name',
+                    type: 'type',
+                    characterMaximumLength: 'length',
+                    precision: 'precision',
+                    scale: 'scale',
+                    nullable: 'nullability',
+                    primaryKey: 'primary key',
+                    unique: 'unique',
+                    default: 'default',
+                    collation: 'collation',
+                    comments: 'comments',
+                },
+                empty_state: {
+                    title: 'No differences',
+                    description: 'Both diagrams have the same structure',
+                },
+            },
+            versions_section: {
+                versions: 'Versions',
+                version_name: 'Version name',
+                save_version: 'Save Version',
+                default_name: 'Version {{number}}',
+                save_version_on_import: 'Save a version before importing',
+                tables_count_one: '{{count}} table',
+                tables_count_other: '{{count}} tables',
+                version_actions: {
+                    title: 'Version Actions',
+                    restore: 'Restore',
+                    compare: 'Compare with Current',
+                    fork: 'Fork to New Diagram',
+                    delete: 'Delete',
+                },
+                empty_state: {
+                    title: 'No versions',
+                    description:
+                        'Save a version to keep a snapshot of the diagram',
+                },
+            },
         },
 
         toolbar: {
@@ -180,6 +258,29 @@ export const en = {
                 step_1: 'Run this script in your database:',
                 step_2: 'Paste the script result here:',
                 script_results_placeholder: 'Script results here...',
+                import_method: 'Import from:',
+                import_methods: {
+                    query: 'Metadata Query',
+                    ddl: 'SQL Script',
+                    dbml: 'DBML',
+                    prisma: 'Prisma',
+                    mermaid: 'Mermaid',
+                },
+                ddl_step: 'Paste your CREATE TABLE script (DDL) here:',
+                ddl_placeholder: 'CREATE TABLE ...',
+                ddl_no_tables: 'No CREATE TABLE statements were found.',
+                dbml_step: 'Paste your DBML here:',
+                dbml_placeholder: 'Table users { ... }',
+                dbml_no_tables: 'No Table definitions were found.',
+                prisma_step: 'Paste your Prisma schema here:',
+                prisma_placeholder: 'model User { ... }',
+                prisma_no_tables: 'No model definitions were found.',
+                mermaid_step: 'Paste your Mermaid erDiagram here:',
+                mermaid_placeholder: 'erDiagram ...',
+                mermaid_no_tables: 'No entities were found.',
+                upload_file: 'Upload file',
+                script_errors: 'Some parts could not be imported:',
+                script_error_line: 'Line {{line}}: {{message}}',
                 ssms_instructions: {
                     button_text: 'SSMS Instructions',
                     title: 'Instructions',
@@ -213,6 +314,12 @@ export const en = {
             description:
                 'Export your diagram schema to {{databaseType}} script',
             close: 'Close',
+            polish_with_ai: 'Polish with AI',
+            polish_limit: {
+                title: 'Export SQL Limit Reached',
+                description:
+                    'You have reached the limit of 5 AI polishes every 30 minutes. Feel free to use your own OPENAI_TOKEN.',
+            },
             loading: {
                 text: 'AI is generating SQL for {{databaseType}}...',
                 description: 'This should take up to 30 seconds.',
@@ -225,6 +332,125 @@ export const en = {
             },
         },
 
+        export_migration_dialog: {
+            title: 'Export Migration',
+            description:
+                'Generate a {{databaseType}} migration script between saved versions of the diagram, or from another diagram',
+            base_diagram: 'From',
+            base_diagram_placeholder: 'Select a version or diagram',
+            no_diagrams_found: 'No versions or diagrams found',
+            target_diagram: 'To',
+            current_diagram: 'Current diagram',
+            no_changes: 'No changes between the diagrams.',
+            close: 'Close',
+        },
+
+        export_script_dialog: {
+            title: 'Export {{format}}',
+            descriptions: {
+                dbml: 'Use the DBML script with dbdiagram.io, dbdocs.io or any other DBML tool',
+                prisma: 'Use the Prisma schema with Prisma Client and Prisma Migrate',
+                mermaid:
+                    'Paste the erDiagram into Markdown on GitHub, GitLab, Notion or any other Mermaid renderer',
+                plantuml:
+                    'Render the diagram with PlantUML or include it in your architecture docs',
+                markdown:
+                    'Keep the data dictionary next to your code, e.g. in a README or a wiki',
+                html: 'Open the data dictionary in any browser or publish it with your docs, no other files needed',
+                csv: 'Edit the column descriptions in a spreadsheet and import them back with File > Import Data Dictionary',
+            },
+            download: 'Download',
+            close: 'Close',
+        },
+
+        export_code_dialog: {
+            title: 'Export as Code',
+            description:
+                'Generate entity classes for your ORM from the tables and relationships of the diagram',
+            files_one: '{{count}} file',
+            files_other: '{{count}} files',
+            no_tables: 'The diagram has no tables to generate code for.',
+            download: 'Download ZIP',
+            close: 'Close',
+        },
+
+        import_diagram_dialog: {
+            title: 'Import Diagram',
+            description:
+                'Choose a .chartdb file exported from ChartDB. It will be added as a new diagram.',
+            summary_one: '"{{name}}" with {{count}} table',
+            summary_other: '"{{name}}" with {{count}} tables',
+            error: 'This file cannot be imported: {{message}}',
+            cancel: 'Cancel',
+            import: 'Import',
+        },
+
+        import_dictionary_dialog: {
+            title: 'Import Data Dictionary',
+            description:
+                'Choose a CSV data dictionary exported from this diagram and edited in a spreadsheet. Its comments, types and nullability are applied to the matching tables and columns.',
+            summary_one: '{{count}} change found',
+            summary_other: '{{count}} changes found',
+            name: 'Table / Column',
+            attribute: 'Attribute',
+            old_value: 'Current',
+            new_value: 'New',
+            attributes: {
+                type: 'Type',
+                nullable: 'Nullable',
+                comments: 'Comments',
+            },
+            errors: 'Some rows could not be applied:',
+            error_line: 'Line {{line}}: {{message}}',
+            cancel: 'Cancel',
+            apply: 'Apply Changes',
+        },
+
+        restore_workspace_dialog: {
+            title: 'Restore Workspace',
+            description:
+                'Choose a .chartdb-backup file to restore its diagrams, versions and settings.',
+            summary_one:
+                'The backup contains {{count}} diagram and {{versions}} versions.',
+            summary_other:
+                'The backup contains {{count}} diagrams and {{versions}} versions.',
+            modes: {
+                merge: 'Merge',
+                replace: 'Replace',
+            },
+            mode_descriptions: {
+                merge: 'Adds the backed up diagrams next to your current ones.',
+                replace:
+                    'Deletes your {{count}} current diagrams before restoring. This cannot be undone.',
+            },
+            conflicts_one:
+                '{{count}} diagram already exists here with the same id:',
+            conflicts_other:
+                '{{count}} diagrams already exist here with the same id:',
+            resolutions: {
+                keep_both: 'Keep both',
+                overwrite: 'Overwrite',
+                skip: 'Skip',
+            },
+            error: 'This file cannot be restored: {{message}}',
+            restore_failed:
+                'The workspace could not be restored, nothing was changed: {{message}}',
+            cancel: 'Cancel',
+            restore: 'Restore',
+        },
+
+        compare_diagram_dialog: {
+            title: 'Compare Diagram',
+            description:
+                'Highlight the changes between the current diagram and a saved version or another diagram',
+            compare_with: 'Compare with',
+            compare_with_placeholder: 'Select version or diagram',
+            no_diagrams_found: 'No versions or diagrams found',
+            version: 'Version',
+            cancel: 'Cancel',
+            compare: 'Compare',
+        },
+
         create_relationship_dialog: {
             title: 'Create Relationship',
             primary_table: 'Primary Table',
@@ -243,6 +469,7 @@ export const en = {
 
         import_database_dialog: {
             title: 'Import to Current Diagram',
+            version_name: 'Before import',
             override_alert: {
                 title: 'Import Database',
                 content: {
@@ -10,6 +10,16 @@ export const es: LanguageTranslation = {
                 save: 'Guardar',
                 import_database: 'Importar Base de Datos',
                 export_sql: 'Exportar SQL',
+                export_migration: 'Exportar Migración',
+                export_script: 'Exportar esquema como',
+                export_code: 'Exportar como código...',
+                export_diagram: 'Exportar Diagrama (JSON)',
+                import_diagram: 'Importar Diagrama',
+                import_dictionary: 'Importar Diccionario de Datos',
+                backup_workspace: 'Respaldar Espacio de Trabajo',
+                restore_workspace: 'Restaurar Espacio de Trabajo...',
+                compare: 'Comparar Con...',
+                version_history: 'Historial de Versiones',
                 export_as: 'Exportar como',
                 delete_diagram: 'Eliminar Diagrama',
                 exit: 'Salir',
@@ -62,6 +72,23 @@ export const es: LanguageTranslation = {
             cancel: 'Cancelar',
         },
 
+        restore_version_alert: {
+            title: 'Restaurar Versión',
+            description:
+                'El diagrama será reemplazado por la versión "{{name}}". Los cambios que no estén guardados como versión se perderán.',
+            restore: 'Restaurar',
+            cancel: 'Cancelar',
+            failed: 'No se pudo restaurar la versión',
+        },
+
+        delete_version_alert: {
+            title: 'Eliminar Versión',
+            description:
+                'Esta acción no se puede deshacer. La versión "{{name}}" se eliminará permanentemente.',
+            delete: 'Eliminar',
+            cancel: 'Cancelar',
+        },
+
         theme: {
             system: 'Sistema',
             light: 'Claro',
@@ -76,6 +103,8 @@ export const es: LanguageTranslation = {
         last_saved: 'Último guardado',
         saved: 'Guardado',
         diagrams: 'Diagramas',
+        previewing_version: 'Vista previa de "{{name}}"',
+        comparing_with: 'Comparando con "{{name}}"',
         loading_diagram: 'Cargando diagrama...',
         deselect_all: 'Deselect All', // TODO: Translate
         select_all: 'Select All', // TODO: Translate
@@ -153,6 +182,55 @@ export const es: LanguageTranslation = {
                     description: 'Crea una relación para conectar tablas',
                 },
             },
+            compare_section: {
+                exit: 'Salir de Comparación',
+                added_one: '{{count}} tabla agregada',
+                added_other: '{{count}} tablas agregadas',
+                removed_one: '{{count}} tabla eliminada',
+                removed_other: '{{count}} tablas eliminadas',
+                changed_one: '{{count}} tabla modificada',
+                changed_other: '{{count}} tablas modificadas',
+                renamed_from: 'Renombrada desde {{name}}',
+                index: 'Índice {{name}}',
+                attributes: {
+                    name: 'nombre',
+                    type: 'tipo',
+                    characterMaximumLength: 'longitud',
+                    precision: 'precisión',
+                    scale: 'escala',
+                    nullable: 'nulabilidad',
+                    primaryKey: 'clave primaria',
+                    unique: 'único',
+                    default: 'valor por defecto',
+                    collation: 'intercalación',
+                    comments: 'comentarios',
+                },
+                empty_state: {
+                    title: 'Sin diferencias',
+                    description: 'Ambos diagramas tienen la misma estructura',
+                },
+            },
+            versions_section: {
+                versions: 'Versiones',
+                version_name: 'Nombre de la versión',
+                save_version: 'Guardar Versión',
+                default_name: 'Versión {{number}}',
+                save_version_on_import: 'Guardar una versión antes de importar',
+                tables_count_one: '{{count}} tabla',
+                tables_count_other: '{{count}} tablas',
+                version_actions: {
+                    title: 'Acciones de Versión',
+                    restore: 'Restaurar',
+                    compare: 'Comparar con Actual',
+                    fork: 'Bifurcar a Nuevo Diagrama',
+                    delete: 'Eliminar',
+                },
+                empty_state: {
+                    title: 'No hay versiones',
+                    description:
+                        'Guarda una versión para conservar una instantánea del diagrama',
+                },
+            },
         },
 
         toolbar: {
@@ -180,6 +258,29 @@ export const es: LanguageTranslation = {
                 step_1: 'Ejecuta este script en tu base de datos:',
                 step_2: 'Pega el resultado del script aquí:',
                 script_results_placeholder: 'Resultados del script aquí...',
+                import_method: 'Importar desde:',
+                import_methods: {
+                    query: 'Consulta de Metadatos',
+                    ddl: 'Script SQL',
+                    dbml: 'DBML',
+                    prisma: 'Prisma',
+                    mermaid: 'Mermaid',
+                },
+                ddl_step: 'Pega aquí tu script CREATE TABLE (DDL):',
+                ddl_placeholder: 'CREATE TABLE ...',
+                ddl_no_tables: 'No se encontraron sentencias CREATE TABLE.',
+                dbml_step: 'Pega aquí tu DBML:',
+                dbml_placeholder: 'Table users { ... }',
+                dbml_no_tables: 'No se encontraron definiciones Table.',
+                prisma_step: 'Pega aquí tu esquema de Prisma:',
+                prisma_placeholder: 'model User { ... }',
+                prisma_no_tables: 'No se encontraron definiciones model.',
+                mermaid_step: 'Pega aquí tu erDiagram de Mermaid:',
+                mermaid_placeholder: 'erDiagram ...',
+                mermaid_no_tables: 'No se encontraron entidades.',
+                upload_file: 'Subir archivo',
+                script_errors: 'Algunas partes no se pudieron importar:',
+                script_error_line: 'Línea {{line}}: {{message}}',
                 ssms_instructions: {
                     button_text: 'Instrucciones SSMS',
                     title: 'Instrucciones',
@@ -214,6 +315,12 @@ export const es: LanguageTranslation = {
             description:
                 'Exporta el esquema de tu diagrama a un script {{databaseType}}',
             close: 'Cerrar',
+            polish_with_ai: 'Pulir con IA',
+            polish_limit: {
+                title: 'Límite de exportación SQL alcanzado',
+                description:
+                    'Has alcanzado el límite de 5 pulidos con IA cada 30 minutos. Siéntete libre de usar tu propio OPENAI_TOKEN.',
+            },
             loading: {
                 text: 'La IA está generando SQL para {{databaseType}}...',
                 description: 'Esto debería tomar hasta 30 segundos.',
@@ -226,6 +333,123 @@ export const es: LanguageTranslation = {
             },
         },
 
+        export_migration_dialog: {
+            title: 'Exportar Migración',
+            description:
+                'Genera un script de migración {{databaseType}} entre versiones guardadas del diagrama, o desde otro diagrama',
+            base_diagram: 'Desde',
+            base_diagram_placeholder: 'Seleccionar versión o diagrama',
+            no_diagrams_found: 'No se encontraron versiones ni diagramas',
+            target_diagram: 'Hasta',
+            current_diagram: 'Diagrama actual',
+            no_changes: 'No hay cambios entre los diagramas.',
+            close: 'Cerrar',
+        },
+
+        export_script_dialog: {
+            title: 'Exportar {{format}}',
+            descriptions: {
+                dbml: 'Usa el script DBML con dbdiagram.io, dbdocs.io o cualquier otra herramienta DBML',
+                prisma: 'Usa el esquema de Prisma con Prisma Client y Prisma Migrate',
+                mermaid:
+                    'Pega el erDiagram en Markdown en GitHub, GitLab, Notion o cualquier otro visor de Mermaid',
+                plantuml:
+                    'Renderiza el diagrama con PlantUML o inclúyelo en tu documentación de arquitectura',
+                markdown:
+                    'Guarda el diccionario de datos junto a tu código, por ejemplo en un README o una wiki',
+                html: 'Abre el diccionario de datos en cualquier navegador o publícalo con tu documentación, sin otros archivos',
+                csv: 'Edita las descripciones de las columnas en una hoja de cálculo e impórtalas con Archivo > Importar Diccionario de Datos',
+            },
+            download: 'Descargar',
+            close: 'Cerrar',
+        },
+
+        export_code_dialog: {
+            title: 'Exportar como código',
+            description:
+                'Genera clases de entidad para tu ORM a partir de las tablas y relaciones del diagrama',
+            files_one: '{{count}} archivo',
+            files_other: '{{count}} archivos',
+            no_tables: 'El diagrama no tiene tablas para generar código.',
+            download: 'Descargar ZIP',
+            close: 'Cerrar',
+        },
+
+        import_diagram_dialog: {
+            title: 'Importar Diagrama',
+            description:
+                'Elige un archivo .chartdb exportado desde ChartDB. Se añadirá como un diagrama nuevo.',
+            summary_one: '"{{name}}" con {{count}} tabla',
+            summary_other: '"{{name}}" con {{count}} tablas',
+            error: 'No se puede importar este archivo: {{message}}',
+            cancel: 'Cancelar',
+            import: 'Importar',
+        },
+
+        import_dictionary_dialog: {
+            title: 'Importar Diccionario de Datos',
+            description:
+                'Elige un diccionario de datos CSV exportado de este diagrama y editado en una hoja de cálculo. Sus comentarios, tipos y nulabilidad se aplican a las tablas y columnas correspondientes.',
+            summary_one: '{{count}} cambio encontrado',
+            summary_other: '{{count}} cambios encontrados',
+            name: 'Tabla / Columna',
+            attribute: 'Atributo',
+            old_value: 'Actual',
+            new_value: 'Nuevo',
+            attributes: {
+                type: 'Tipo',
+                nullable: 'Nulable',
+                comments: 'Comentarios',
+            },
+            errors: 'Algunas filas no se pudieron aplicar:',
+            error_line: 'Línea {{line}}: {{message}}',
+            cancel: 'Cancelar',
+            apply: 'Aplicar Cambios',
+        },
+
+        restore_workspace_dialog: {
+            title: 'Restaurar Espacio de Trabajo',
+            description:
+                'Elige un archivo .chartdb-backup para restaurar sus diagramas, versiones y ajustes.',
+            summary_one:
+                'El respaldo contiene {{count}} diagrama y {{versions}} versiones.',
+            summary_other:
+                'El respaldo contiene {{count}} diagramas y {{versions}} versiones.',
+            modes: {
+                merge: 'Combinar',
+                replace: 'Reemplazar',
+            },
+            mode_descriptions: {
+                merge: 'Añade los diagramas respaldados junto a los actuales.',
+                replace:
+                    'Elimina tus {{count}} diagramas actuales antes de restaurar. Esto no se puede deshacer.',
+            },
+            conflicts_one: 'Ya existe {{count}} diagrama con el mismo id:',
+            conflicts_other: 'Ya existen {{count}} diagramas con el mismo id:',
+            resolutions: {
+                keep_both: 'Conservar ambos',
+                overwrite: 'Sobrescribir',
+                skip: 'Omitir',
+            },
+            error: 'No se puede restaurar este archivo: {{message}}',
+            restore_failed:
+                'No se pudo restaurar el espacio de trabajo, no se cambió nada: {{message}}',
+            cancel: 'Cancelar',
+            restore: 'Restaurar',
+        },
+
+        compare_diagram_dialog: {
+            title: 'Comparar Diagrama',
+            description:
+                'Resalta los cambios entre el diagrama actual y una versión guardada u otro diagrama',
+            compare_with: 'Comparar con',
+            compare_with_placeholder: 'Seleccionar versión o diagrama',
+            no_diagrams_found: 'No se encontraron versiones ni diagramas',
+            version: 'Versión',
+            cancel: 'Cancelar',
+            compare: 'Comparar',
+        },
+
         create_relationship_dialog: {
             cancel: 'Cancelar',
             create: 'Crear',
@@ -244,6 +468,7 @@ export const es: LanguageTranslation = {
 
         import_database_dialog: {
             title: 'Importar a Diagrama Actual',
+            version_name: 'Antes de importar',
             override_alert: {
                 title: 'Importar Base de Datos',
                 content: {
@@ -313,6 +313,49 @@ export const sqliteDataTypes: readonly DataType[] = [
     { name: 'decimal', id: 'decimal' },
 ] as const;
 
+export const oracleDataTypes: readonly DataType[] = [
+    // Numeric Types
+    { name: 'number', id: 'number' },
+    { name: 'integer', id: 'integer' },
+    { name: 'float', id: 'float' },
+    { name: 'binary_float', id: 'binary_float' },
+    { name: 'binary_double', id: 'binary_double' },
+
+    // Character Types
+    { name: 'char', id: 'char' },
+    { name: 'nchar', id: 'nchar' },
+    { name: 'varchar2', id: 'varchar2' },
+    { name: 'nvarchar2', id: 'nvarchar2' },
+    { name: 'clob', id: 'clob' },
+    { name: 'nclob', id: 'nclob' },
+    { name: 'long', id: 'long' },
+
+    // Date/Time Types
+    { name: 'date', id: 'date' },
+    { name: 'timestamp', id: 'timestamp' },
+    { name: 'timestamp with time zone', id: 'timestamp_with_time_zone' },
+    {
+        name: 'timestamp with local time zone',
+        id: 'timestamp_with_local_time_zone',
+    },
+    { name: 'interval year to month', id: 'interval_year_to_month' },
+    { name: 'interval day to second', id: 'interval_day_to_second' },
+
+    // Binary Types
+    { name: 'raw', id: 'raw' },
+    { name: 'long raw', id: 'long_raw' },
+    { name: 'blob', id: 'blob' },
+    { name: 'bfile', id: 'bfile' },
+
+    // Other Types
+    { name: 'boolean', id: 'boolean' },
+    { name: 'json', id: 'json' },
+    { name: 'xmltype', id: 'xmltype' },
+    { name: 'rowid', id: 'rowid' },
+    { name: 'urowid', id: 'urowid' },
+    { name: 'sdo_geometry', id: 'sdo_geometry' },
+] as const;
+
 export const dataTypeMap: Record<DatabaseType, readonly DataType[]> = {
     [DatabaseType.GENERIC]: genericDataTypes,
     [DatabaseType.POSTGRESQL]: postgresDataTypes,
@@ -320,4 +363,68 @@ export const dataTypeMap: Record<DatabaseType, readonly DataType[]> = {
     [DatabaseType.SQL_SERVER]: sqlServerDataTypes,
     [DatabaseType.MARIADB]: mariadbDataTypes,
     [DatabaseType.SQLITE]: sqliteDataTypes,
+    [DatabaseType.ORACLE]: oracleDataTypes,
 } as const;
+
+// Language neutral kinds of column data, used when generating application code
+export type DataTypeCategory =
+    | 'string'
+    | 'uuid'
+    | 'integer'
+    | 'bigint'
+    | 'float'
+    | 'decimal'
+    | 'boolean'
+    | 'date'
+    | 'time'
+    | 'datetime'
+    | 'json'
+    | 'binary'
+    | 'unknown';
+
+const dataTypeCategoryPatterns: [RegExp, DataTypeCategory][] = [
+    [/^(uuid|uniqueidentifier)$/, 'uuid'],
+    [/^(bool|boolean|bit)$/, 'boolean'],
+    [/^(bigint|int8|bigserial|serial8)$/, 'bigint'],
+    [
+        /^(int|integer|int2|int4|smallint|mediumint|tinyint|serial|serial4|smallserial|serial2|year|oid)$/,
+        'integer',
+    ],
+    [/^(decimal|dec|numeric|number|money|smallmoney)$/, 'decimal'],
+    [
+        /^(float|float4|float8|double|double precision|real|binary_float|binary_double)$/,
+        'float',
+    ],
+    [/^date$/, 'date'],
+    [/^(time|timetz|time with(out)? time zone)$/, 'time'],
+    [
+        /^(timestamp|timestamptz|timestamp with(out| local)? time zone|datetime|datetime2|smalldatetime|datetimeoffset)$/,
+        'datetime',
+    ],
+    [/^jsonb?$/, 'json'],
+    [
+        /^(bytea|binary|varbinary|image|(tiny|medium|long)?blob|bit varying|varbit|raw|long raw|bfile)$/,
+        'binary',
+    ],
+    [
+        /^(n?char|n?varchar|character( varying)?|(tiny|medium|long|n)?text|citext|enum|set|xml|inet|cidr|macaddr8?|interval|tsvector|tsquery|string|n?clob|n?varchar2|long)$/,
+        'string',
+    ],
+];
+
+export const isArrayDataType = (typeName: string): boolean =>
+    /\[\]$/.test(typeName.trim()) || typeName.trim().toLowerCase() === 'array';
+
+export const dataTypeCategory = (typeName: string): DataTypeCategory => {
+    const baseName = typeName
+        .toLowerCase()
+        .replace(/\[\]$/, '')
+        .replace(/\(.*\)/, '')
+        .trim();
+
+    return (
+        dataTypeCategoryPatterns.find(([pattern]) =>
+            pattern.test(baseName)
+        )?.[1] ?? 'unknown'
+    );
+};
@@ -0,0 +1,385 @@
+import { DatabaseEdition } from '@/lib/domain/database-edition';
+import { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBIndex } from '@/lib/domain/db-index';
+import type { Cardinality, DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import { cloneDiagram, Diagram } from '@/lib/domain/diagram';
+
+export const diagramFileFormat = 'chartdb';
+export const diagramFileVersion = 1;
+export const diagramFileExtension = '.chartdb';
+
+// Dates are stored as ISO strings, everything else as in the domain
+export type SerializedDiagram = Omit<Diagram, 'createdAt' | 'updatedAt'> & {
+    createdAt: string;
+    updatedAt: string;
+};
+
+export interface DiagramFile {
+    format: typeof diagramFileFormat;
+    version: number;
+    exportedAt: string;
+    diagram: SerializedDiagram;
+    schemasFilter?: string[];
+}
+
+export interface LoadedDiagramFile {
+    diagram: Diagram;
+    schemasFilter?: string[];
+}
+
+export const serializeDiagram = (diagram: Diagram): SerializedDiagram => ({
+    ...diagram,
+    tables: diagram.tables ?? [],
+    relationships: diagram.relationships ?? [],
+    createdAt: diagram.createdAt.toISOString(),
+    updatedAt: diagram.updatedAt.toISOString(),
+});
+
+export const exportDiagramFile = ({
+    diagram,
+    schemasFilter,
+}: {
+    diagram: Diagram;
+    schemasFilter?: string[];
+}): string => {
+    const file: DiagramFile = {
+        format: diagramFileFormat,
+        version: diagramFileVersion,
+        exportedAt: new Date().toISOString(),
+        diagram: serializeDiagram(diagram),
+        ...(schemasFilter ? { schemasFilter } : {}),
+    };
+
+    return JSON.stringify(file, null, 2);
+};
+
+type Checker = (value: unknown) => boolean;
+
+export const isString: Checker = (value) => typeof value === 'string';
+export const isNumber: Checker = (value) =>
+    typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Checker = (value) => typeof value === 'boolean';
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+export const isOptional =
+    (checker: Checker): Checker =>
+    (value) =>
+        value === undefined || value === null || checker(value);
+const isOneOf =
+    (values: readonly string[]): Checker =>
+    (value) =>
+        isString(value) && values.includes(value as string);
+export const isStringArray: Checker = (value) =>
+    Array.isArray(value) && value.every(isString);
+export const isDateString: Checker = (value) =>
+    isString(value) && !Number.isNaN(Date.parse(value as string));
+
+const cardinalities = ['one', 'many'] as const;
+
+const fieldShape: Record<string, Checker> = {
+    id: isString,
+    name: isString,
+    primaryKey: isBoolean,
+    unique: isBoolean,
+    nullable: isBoolean,
+    createdAt: isNumber,
+    characterMaximumLength: isOptional(isString),
+    precision: isOptional(isNumber),
+    scale: isOptional(isNumber),
+    default: isOptional(isString),
+    collation: isOptional(isString),
+    comments: isOptional(isString),
+};
+
+const indexShape: Record<string, Checker> = {
+    id: isString,
+    name: isString,
+    unique: isBoolean,
+    fieldIds: isStringArray,
+    createdAt: isNumber,
+};
+
+const tableShape: Record<string, Checker> = {
+    id: isString,
+    name: isString,
+    schema: isOptional(isString),
+    x: isNumber,
+    y: isNumber,
+    color: isString,
+    isView: isBoolean,
+    createdAt: isNumber,
+    width: isOptional(isNumber),
+    comments: isOptional(isString),
+    hidden: isOptional(isBoolean),
+    rowCount: isOptional(isNumber),
+};
+
+const relationshipShape: Record<string, Checker> = {
+    id: isString,
+    name: isString,
+    sourceSchema: isOptional(isString),
+    sourceTableId: isString,
+    targetSchema: isOptional(isString),
+    targetTableId: isString,
+    sourceFieldId: isString,
+    targetFieldId: isString,
+    sourceCardinality: isOneOf(cardinalities),
+    targetCardinality: isOneOf(cardinalities),
+    createdAt: isNumber,
+};
+
+const diagramShape: Record<string, Checker> = {
+    id: isString,
+    name: isString,
+    databaseType: isOneOf(Object.values(DatabaseType)),
+    databaseEdition: isOptional(isOneOf(Object.values(DatabaseEdition))),
+    createdAt: isDateString,
+    updatedAt: isDateString,
+};
+
+export const checkShape = (
+    value: unknown,
+    shape: Record<string, Checker>,
+    path: string
+): Record<string, unknown> => {
+    if (!isObject(value)) {
+        throw new Error(`${path} must be an object`);
+    }
+
+    Object.entries(shape).forEach(([key, checker]) => {
+        if (!checker(value[key])) {
+            throw new Error(
+                value[key] === undefined
+                    ? `${path}.${key} is missing`
+                    : `${path}.${key} has an invalid value`
+            );
+        }
+    });
+
+    return value;
+};
+
+export const checkArray = (value: unknown, path: string): unknown[] => {
+    if (!Array.isArray(value)) {
+        throw new Error(`${path} must be a list`);
+    }
+
+    return value;
+};
+
+// Copies the optional keys that are set, null is read as a missing value
+export const optionalValues = <T>(
+    value: Record<string, unknown>,
+    keys: (keyof T & string)[]
+): Partial<T> =>
+    Object.fromEntries(
+        keys
+            .filter((key) => value[key] !== undefined && value[key] !== null)
+            .map((key) => [key, value[key]])
+    ) as Partial<T>;
+
+const loadField = (value: unknown, path: string): DBField => {
+    const field = checkShape(value, fieldShape, path);
+    const type = field.type;
+
+    if (!isObject(type) || !isString(type.id) || !isString(type.name)) {
+        throw new Error(`${path}.type has an invalid value`);
+    }
+
+    return {
+        id: field.id as string,
+        name: field.name as string,
+        type: { id: type.id as string, name: type.name as string },
+        primaryKey: field.primaryKey as boolean,
+        unique: field.unique as boolean,
+        nullable: field.nullable as boolean,
+        createdAt: field.createdAt as number,
+        ...optionalValues<DBField>(field, [
+            'characterMaximumLength',
+            'precision',
+            'scale',
+            'default',
+            'collation',
+            'comments',
+        ]),
+    };
+};
+
+const loadIndex = (value: unknown, path: string): DBIndex => {
+    const index = checkShape(value, indexShape, path);
+
+    return {
+        id: index.id as string,
+        name: index.name as string,
+        unique: index.unique as boolean,
+        fieldIds: index.fieldIds as string[],
+        createdAt: index.createdAt as number,
+    };
+};
+
+const loadTable = (value: unknown, path: string): DBTable => {
+    const table = checkShape(value, tableShape, path);
+    const fields = checkArray(table.fields, `${path}.fields`).map((item, i) =>
+        loadField(item, `${path}.fields[${i}]`)
+    );
+    const indexes = checkArray(table.indexes, `${path}.indexes`).map(
+        (item, i) => loadIndex(item, `${path}.indexes[${i}]`)
+    );
+
+    indexes.forEach((index, i) => {
+        const missing = index.fieldIds.find(
+            (fieldId) => !fields.some((field) => field.id === fieldId)
+        );
+
+        if (missing) {
+            throw new Error(
+                `${path}.indexes[${i}] refers to unknown field "${missing}"`
+            );
+        }
+    });
+
+    return {
+        id: table.id as string,
+        name: table.name as string,
+        x: table.x as number,
+        y: table.y as number,
+        fields,
+        indexes,
+        color: table.color as string,
+        isView: table.isView as boolean,
+        createdAt: table.createdAt as number,
+        ...optionalValues<DBTable>(table, [
+            'schema',
+            'width',
+            'comments',
+            'hidden',
+            'rowCount',
+        ]),
+    };
+};
+
+const loadRelationship = (
+    value: unknown,
+    path: string,
+    tables: DBTable[]
+): DBRelationship => {
+    const checked = checkShape(value, relationshipShape, path);
+    const relationship: DBRelationship = {
+        id: checked.id as string,
+        name: checked.name as string,
+        sourceTableId: checked.sourceTableId as string,
+        targetTableId: checked.targetTableId as string,
+        sourceFieldId: checked.sourceFieldId as string,
+        targetFieldId: checked.targetFieldId as string,
+        sourceCardinality: checked.sourceCardinality as Cardinality,
+        targetCardinality: checked.targetCardinality as Cardinality,
+        createdAt: checked.createdAt as number,
+        ...optionalValues<DBRelationship>(checked, [
+            'sourceSchema',
+            'targetSchema',
+        ]),
+    };
+
+    const hasField = (tableId: string, fieldId: string) =>
+        tables
+            .find((table) => table.id === tableId)
+            ?.fields.some((field) => field.id === fieldId);
+
+    if (!hasField(relationship.sourceTableId, relationship.sourceFieldId)) {
+        throw new Error(`${path} refers to an unknown source table or field`);
+    }
+
+    if (!hasField(relationship.targetTableId, relationship.targetFieldId)) {
+        throw new Error(`${path} refers to an unknown target table or field`);
+    }
+
+    return relationship;
+};
+
+// Checks the envelope shared by the ChartDB file formats and returns its content
+export const readVersionedFile = ({
+    content,
+    format,
+    version,
+    label,
+}: {
+    content: string;
+    format: string;
+    version: number;
+    label: string;
+}): Record<string, unknown> => {
+    let file: unknown;
+
+    try {
+        file = JSON.parse(content);
+    } catch (error) {
+        throw new Error(
+            `The file is not valid JSON: ${(error as Error).message}`
+        );
+    }
+
+    if (!isObject(file) || file.format !== format) {
+        throw new Error(`The file is not a ${label}`);
+    }
+
+    if (!isNumber(file.version) || (file.version as number) < 1) {
+        throw new Error('The file has an invalid format version');
+    }
+
+    if ((file.version as number) > version) {
+        throw new Error(
+            `The file was created by a newer version of ChartDB (format version ${file.version})`
+        );
+    }
+
+    return file;
+};
+
+// Validates a serialized diagram, keeping its ids
+export const loadSerializedDiagram = (
+    value: unknown,
+    path: string
+): Diagram => {
+    const diagram = checkShape(value, diagramShape, path);
+    const tables = checkArray(diagram.tables ?? [], `${path}.tables`).map(
+        (table, i) => loadTable(table, `${path}.tables[${i}]`)
+    );
+    const relationships = checkArray(
+        diagram.relationships ?? [],
+        `${path}.relationships`
+    ).map((relationship, i) =>
+        loadRelationship(relationship, `${path}.relationships[${i}]`, tables)
+    );
+
+    return {
+        id: diagram.id as string,
+        name: diagram.name as string,
+        databaseType: diagram.databaseType as DatabaseType,
+        ...optionalValues<Diagram>(diagram, ['databaseEdition']),
+        tables,
+        relationships,
+        createdAt: new Date(diagram.createdAt as string),
+        updatedAt: new Date(diagram.updatedAt as string),
+    };
+};
+
+// Validates a .chartdb file and returns its diagram with fresh ids, so it never collides with stored diagrams
+export const importDiagramFile = (content: string): LoadedDiagramFile => {
+    const file = readVersionedFile({
+        content,
+        format: diagramFileFormat,
+        version: diagramFileVersion,
+        label: 'ChartDB diagram',
+    });
+
+    if (!isOptional(isStringArray)(file.schemasFilter)) {
+        throw new Error('schemasFilter has an invalid value');
+    }
+
+    return {
+        diagram: cloneDiagram(loadSerializedDiagram(file.diagram, 'diagram')),
+        schemasFilter: (file.schemasFilter as string[] | null) ?? undefined,
+    };
+};
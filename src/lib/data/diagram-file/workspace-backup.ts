@@ -0,0 +1,175 @@
+import type { ChartDBConfig } from '@/lib/domain/config';
+import { cloneDiagram, Diagram } from '@/lib/domain/diagram';
+import type { DiagramVersion } from '@/lib/domain/diagram-version';
+import { generateId } from '@/lib/utils';
+import {
+    checkArray,
+    checkShape,
+    isDateString,
+    isOptional,
+    isString,
+    loadSerializedDiagram,
+    readVersionedFile,
+    SerializedDiagram,
+    serializeDiagram,
+} from './diagram-file';
+
+export const workspaceBackupFormat = 'chartdb-workspace';
+export const workspaceBackupVersion = 1;
+export const workspaceBackupExtension = '.chartdb-backup';
+
+export interface WorkspaceBackup {
+    format: typeof workspaceBackupFormat;
+    version: number;
+    exportedAt: string;
+    config?: Omit<ChartDBConfig, 'exportActions'> & {
+        exportActions?: string[];
+    };
+    diagrams: SerializedDiagram[];
+    versions: (Omit<DiagramVersion, 'diagram' | 'createdAt'> & {
+        diagram: SerializedDiagram;
+        createdAt: string;
+    })[];
+}
+
+export interface LoadedWorkspaceBackup {
+    config?: ChartDBConfig;
+    diagrams: Diagram[];
+    versions: DiagramVersion[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// What to do with a backed up diagram whose id is already stored
+export type ConflictResolution = 'keep_both' | 'overwrite' | 'skip';
+
+export const exportWorkspaceBackup = ({
+    config,
+    diagrams,
+    versions,
+}: LoadedWorkspaceBackup): string => {
+    const backup: WorkspaceBackup = {
+        format: workspaceBackupFormat,
+        version: workspaceBackupVersion,
+        exportedAt: new Date().toISOString(),
+        ...(config
+            ? {
+                  config: {
+                      ...config,
+                      exportActions: config.exportActions?.map((date) =>
+                          new Date(date).toISOString()
+                      ),
+                  },
+              }
+            : {}),
+        diagrams: diagrams.map(serializeDiagram),
+        versions: versions.map((version) => ({
+            ...version,
+            diagram: serializeDiagram(version.diagram),
+            createdAt: version.createdAt.toISOString(),
+        })),
+    };
+
+    return JSON.stringify(backup, null, 2);
+};
+
+const configShape = {
+    defaultDiagramId: isString,
+    exportActions: isOptional(
+        (value) => Array.isArray(value) && value.every(isDateString)
+    ),
+};
+
+const versionShape = {
+    id: isString,
+    diagramId: isString,
+    name: isString,
+    createdAt: isDateString,
+};
+
+export const importWorkspaceBackup = (
+    content: string
+): LoadedWorkspaceBackup => {
+    const file = readVersionedFile({
+        content,
+        format: workspaceBackupFormat,
+        version: workspaceBackupVersion,
+        label: 'ChartDB workspace backup',
+    });
+
+    const config =
+        file.config === undefined
+            ? undefined
+            : checkShape(file.config, configShape, 'config');
+    const diagrams = checkArray(file.diagrams, 'diagrams').map((diagram, i) =>
+        loadSerializedDiagram(diagram, `diagrams[${i}]`)
+    );
+    const versions = checkArray(file.versions ?? [], 'versions').map(
+        (value, i) => {
+            const version = checkShape(value, versionShape, `versions[${i}]`);
+
+            return {
+                id: version.id as string,
+                diagramId: version.diagramId as string,
+                name: version.name as string,
+                diagram: loadSerializedDiagram(
+                    version.diagram,
+                    `versions[${i}].diagram`
+                ),
+                createdAt: new Date(version.createdAt as string),
+            };
+        }
+    );
+
+    const duplicate = diagrams.find(
+        (diagram, i) => diagrams.findIndex((d) => d.id === diagram.id) !== i
+    );
+
+    if (duplicate) {
+        throw new Error(`Diagram id "${duplicate.id}" appears more than once`);
+    }
+
+    return {
+        config: config
+            ? {
+                  defaultDiagramId: config.defaultDiagramId as string,
+                  exportActions: (
+                      config.exportActions as string[] | undefined
+                  )?.map((date) => new Date(date)),
+              }
+            : undefined,
+        diagrams,
+        versions,
+    };
+};
+
+// Copies a backed up diagram and its versions under a new id so both copies can be kept
+export const copyBackedUpDiagram = ({
+    diagram,
+    versions,
+}: {
+    diagram: Diagram;
+    versions: DiagramVersion[];
+}): { diagram: Diagram; versions: DiagramVersion[] } => {
+    const idMap = new Map<string, string>();
+    const copy = {
+        ...cloneDiagram(diagram, undefined, idMap),
+        createdAt: diagram.createdAt,
+        updatedAt: diagram.updatedAt,
+    };
+
+    return {
+        diagram: copy,
+        versions: versions.map((version) => ({
+            ...version,
+            id: generateId(),
+            diagramId: copy.id,
+            diagram: {
+                ...cloneDiagram(version.diagram, undefined, idMap),
+                id: copy.id,
+                createdAt: version.diagram.createdAt,
+                updatedAt: version.diagram.updatedAt,
+            },
+        })),
+    };
+};
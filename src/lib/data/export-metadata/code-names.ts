@@ -0,0 +1,72 @@
+// Splits a table or column name into words, e.g. "order_items" or "OrderItems" into ["order", "items"]
+const nameWords = (name: string): string[] =>
+    name
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length > 0);
+
+const capitalize = (word: string) =>
+    word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+export const toPascalCase = (name: string): string => {
+    const pascal = nameWords(name).map(capitalize).join('');
+
+    return /^\d/.test(pascal) ? `_${pascal}` : pascal || '_';
+};
+
+export const toCamelCase = (name: string): string => {
+    const pascal = toPascalCase(name);
+
+    return pascal.startsWith('_')
+        ? pascal
+        : pascal.charAt(0).toLowerCase() + pascal.slice(1);
+};
+
+export const toSnakeCase = (name: string): string => {
+    const snake = nameWords(name)
+        .map((word) => word.toLowerCase())
+        .join('_');
+
+    return /^\d/.test(snake) ? `_${snake}` : snake || '_';
+};
+
+// Keeps the name when it is already a valid identifier, otherwise replaces the invalid characters
+export const toIdentifier = (name: string): string => {
+    const identifier = name.replace(/[^A-Za-z0-9_]/g, '_');
+
+    return /^[A-Za-z_]/.test(identifier) ? identifier : `_${identifier}`;
+};
+
+// Names a list of related objects, e.g. Post becomes posts
+export const toPluralName = (
+    name: string,
+    toCase: (name: string) => string = toCamelCase
+): string => {
+    const plural = toCase(name);
+    return plural.endsWith('s') ? plural : `${plural}s`;
+};
+
+// Names a related object after its foreign key column, e.g. author_id becomes author
+export const toRelationName = (
+    foreignKeyName: string,
+    referencedName: string,
+    toCase: (name: string) => string = toCamelCase
+): string => {
+    const name = foreignKeyName.replace(/(_id|_ID|(?<=[a-z\d])Id)$/, '');
+
+    return name && name !== foreignKeyName
+        ? toCase(name)
+        : toCase(referencedName);
+};
+
+// Appends a counter to names that are already taken in the same scope
+export const uniqueName = (name: string, usedNames: Set<string>): string => {
+    let unique = name;
+
+    for (let i = 2; usedNames.has(unique); i++) {
+        unique = `${name}${i}`;
+    }
+
+    usedNames.add(unique);
+    return unique;
+};
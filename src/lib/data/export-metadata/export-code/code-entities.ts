@@ -0,0 +1,321 @@
+import { isArrayDataType } from '@/lib/data/data-types';
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { Diagram } from '@/lib/domain/diagram';
+import {
+    toCamelCase,
+    toPascalCase,
+    toPluralName,
+    toRelationName,
+    toSnakeCase,
+    uniqueName,
+} from '../code-names';
+import {
+    hasTypeLength,
+    isIdentityClause,
+    isUnboundedLength,
+} from '../export-sql-script';
+
+export interface CodeFile {
+    path: string;
+    content: string;
+}
+
+export interface CodeEntity {
+    table: DBTable;
+    // The table schema, unless it is the default schema of the database
+    schema?: string;
+    className: string;
+    // Property names by field id
+    properties: Map<string, string>;
+    relations: CodeRelation[];
+    usedNames: Set<string>;
+}
+
+export type CodeRelationKind =
+    | 'many_to_one'
+    | 'one_to_many'
+    | 'one_to_one'
+    | 'many_to_many';
+
+export interface CodeRelation {
+    kind: CodeRelationKind;
+    name: string;
+    target: CodeEntity;
+    // The property of the target entity that points back to this one
+    inverseName: string;
+    // The owner holds the foreign key, or the join table of a many to many relation
+    owner: boolean;
+    // The foreign key column on the owning side and the column it references
+    field: DBField;
+    referencedField: DBField;
+    nullable: boolean;
+    relationship: DBRelationship;
+}
+
+export interface CodeNaming {
+    className: (name: string) => string;
+    propertyName: (name: string) => string;
+    // Names that would clash with the language or the framework
+    reservedNames?: string[];
+}
+
+const defaultNaming: CodeNaming = {
+    className: toPascalCase,
+    propertyName: toCamelCase,
+};
+
+const addRelations = (
+    relationship: DBRelationship,
+    entities: Map<string, CodeEntity>,
+    naming: CodeNaming
+) => {
+    const source = entities.get(relationship.sourceTableId);
+    const target = entities.get(relationship.targetTableId);
+
+    if (!source || !target) {
+        return;
+    }
+
+    // The foreign key lives on the "many" side, or on the source for one to one
+    const reversed =
+        relationship.sourceCardinality === 'one' &&
+        relationship.targetCardinality === 'many';
+    const owner = reversed ? target : source;
+    const inverse = reversed ? source : target;
+    const field = owner.table.fields.find(
+        (f) =>
+            f.id ===
+            (reversed ? relationship.targetFieldId : relationship.sourceFieldId)
+    );
+    const referencedField = inverse.table.fields.find(
+        (f) =>
+            f.id ===
+            (reversed ? relationship.sourceFieldId : relationship.targetFieldId)
+    );
+
+    if (!field || !referencedField) {
+        return;
+    }
+
+    const manyToMany =
+        relationship.sourceCardinality === 'many' &&
+        relationship.targetCardinality === 'many';
+    const oneToOne =
+        relationship.sourceCardinality === 'one' &&
+        relationship.targetCardinality === 'one';
+
+    const ownerName = uniqueName(
+        manyToMany
+            ? toPluralName(inverse.className, naming.propertyName)
+            : toRelationName(
+                  field.name,
+                  inverse.className,
+                  naming.propertyName
+              ),
+        owner.usedNames
+    );
+    const inverseName = uniqueName(
+        oneToOne
+            ? naming.propertyName(owner.className)
+            : toPluralName(owner.className, naming.propertyName),
+        inverse.usedNames
+    );
+
+    owner.relations.push({
+        kind: manyToMany
+            ? 'many_to_many'
+            : oneToOne
+              ? 'one_to_one'
+              : 'many_to_one',
+        name: ownerName,
+        target: inverse,
+        inverseName,
+        owner: true,
+        field,
+        referencedField,
+        nullable: field.nullable,
+        relationship,
+    });
+    inverse.relations.push({
+        kind: manyToMany
+            ? 'many_to_many'
+            : oneToOne
+              ? 'one_to_one'
+              : 'one_to_many',
+        name: inverseName,
+        target: owner,
+        inverseName: ownerName,
+        owner: false,
+        field,
+        referencedField,
+        nullable: true,
+        relationship,
+    });
+};
+
+// Names the classes and properties of the diagram tables and pairs up both sides of every relationship
+export const buildCodeEntities = (
+    diagram: Diagram,
+    naming: CodeNaming = defaultNaming
+): CodeEntity[] => {
+    const usedClassNames = new Set<string>();
+    const entities = new Map<string, CodeEntity>();
+
+    (diagram.tables ?? [])
+        .filter((table) => !table.isView && table.fields.length > 0)
+        .forEach((table) => {
+            const usedNames = new Set(naming.reservedNames);
+            const properties = new Map(
+                table.fields.map((field) => [
+                    field.id,
+                    uniqueName(naming.propertyName(field.name), usedNames),
+                ])
+            );
+
+            entities.set(table.id, {
+                table,
+                schema:
+                    table.schema !== defaultSchemas[diagram.databaseType]
+                        ? table.schema
+                        : undefined,
+                className: uniqueName(
+                    naming.className(table.name),
+                    usedClassNames
+                ),
+                properties,
+                relations: [],
+                usedNames,
+            });
+        });
+
+    (diagram.relationships ?? []).forEach((relationship) =>
+        addRelations(relationship, entities, naming)
+    );
+
+    return [...entities.values()];
+};
+
+export type CodeDefault =
+    | { kind: 'string'; value: string }
+    | { kind: 'number'; value: string }
+    | { kind: 'boolean'; value: boolean }
+    | { kind: 'expression'; value: string };
+
+// SQL Server wraps defaults in parentheses, e.g. ((0)) or ('active')
+const unwrapParentheses = (value: string): string => {
+    if (!value.startsWith('(') || !value.endsWith(')')) {
+        return value;
+    }
+
+    let depth = 0;
+
+    for (let i = 0; i < value.length - 1; i++) {
+        if (value[i] === '(') depth++;
+        if (value[i] === ')') depth--;
+        if (depth === 0) return value;
+    }
+
+    return unwrapParentheses(value.slice(1, -1).trim());
+};
+
+// Splits a column default into a plain value or a database expression
+export const fieldDefault = (field: DBField): CodeDefault | undefined => {
+    const value = unwrapParentheses((field.default ?? '').trim());
+
+    if (!value || /^null$/i.test(value) || isIdentityClause(value)) {
+        return undefined;
+    }
+
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+        return { kind: 'number', value };
+    }
+
+    if (/^(true|false)$/i.test(value)) {
+        return { kind: 'boolean', value: value.toLowerCase() === 'true' };
+    }
+
+    const stringMatch = value.match(/^N?'((?:[^']|'')*)'(::[\w\s]+)?$/);
+
+    if (stringMatch) {
+        return { kind: 'string', value: stringMatch[1].replace(/''/g, "'") };
+    }
+
+    return { kind: 'expression', value };
+};
+
+// The column type with its length or precision, e.g. varchar(255) or numeric(10,2)
+export const columnType = (field: DBField): string => {
+    const array = isArrayDataType(field.type.name) ? '[]' : '';
+    const type = field.type.name.replace(/\[\]$/, '');
+
+    if (
+        field.characterMaximumLength &&
+        hasTypeLength(type) &&
+        !isUnboundedLength(field.characterMaximumLength)
+    ) {
+        return `${type}(${field.characterMaximumLength})${array}`;
+    }
+
+    if (field.precision) {
+        return field.scale !== undefined
+            ? `${type}(${field.precision},${field.scale})${array}`
+            : `${type}(${field.precision})${array}`;
+    }
+
+    return `${type}${array}`;
+};
+
+// Unique columns covered by a single column unique index are declared with the index
+export const hasUniqueIndex = (table: DBTable, field: DBField): boolean =>
+    table.indexes.some(
+        (index) =>
+            index.unique &&
+            index.fieldIds.length === 1 &&
+            index.fieldIds[0] === field.id
+    );
+
+export interface CodeJoinTable {
+    name: string;
+    // Key columns pointing at the owner and at the target of the relation
+    ownerColumn: string;
+    targetColumn: string;
+}
+
+// Many to many relations go through a table named after both tables
+export const joinTable = (
+    owner: CodeEntity,
+    relation: CodeRelation
+): CodeJoinTable => {
+    const usedNames = new Set<string>();
+    const column = (entity: CodeEntity, field: DBField) =>
+        uniqueName(
+            toSnakeCase(`${entity.table.name}_${field.name}`),
+            usedNames
+        );
+
+    return {
+        name: `${owner.table.name}_${relation.target.table.name}`,
+        ownerColumn: column(owner, relation.field),
+        targetColumn: column(relation.target, relation.referencedField),
+    };
+};
+
+// The column default as SQL, with string values quoted again
+export const fieldDefaultSql = (field: DBField): string | undefined => {
+    const value = fieldDefault(field);
+
+    switch (value?.kind) {
+        case 'string':
+            return `'${value.value.replace(/'/g, "''")}'`;
+        case 'number':
+        case 'expression':
+            return value.value;
+        case 'boolean':
+            return `${value.value}`;
+        default:
+            return undefined;
+    }
+};
@@ -0,0 +1,120 @@
+import type { Diagram } from '@/lib/domain/diagram';
+import type { CodeFile } from './code-entities';
+import { exportDjango } from './export-django';
+import { exportDrizzle } from './export-drizzle';
+import { exportEFCore } from './export-ef-core';
+import { exportFlyway } from './export-flyway';
+import { exportGraphQL } from './export-graphql';
+import { exportJPA } from './export-jpa';
+import { exportJSONSchema, exportOpenAPI } from './export-json-schema';
+import { exportLiquibaseXML, exportLiquibaseYAML } from './export-liquibase';
+import { exportMikroORM } from './export-mikroorm';
+import { exportSQLAlchemy } from './export-sqlalchemy';
+import { exportTypeORM } from './export-typeorm';
+import { exportTypeScriptTypes } from './export-typescript-types';
+
+export type CodeFormat =
+    | 'typeorm'
+    | 'mikroorm'
+    | 'drizzle'
+    | 'sqlalchemy'
+    | 'django'
+    | 'jpa'
+    | 'efcore'
+    | 'typescript'
+    | 'jsonschema'
+    | 'openapi'
+    | 'graphql'
+    | 'liquibase_yaml'
+    | 'liquibase_xml'
+    | 'flyway';
+
+export type CodeLanguage =
+    | 'typescript'
+    | 'python'
+    | 'java'
+    | 'csharp'
+    | 'json'
+    | 'graphql'
+    | 'yaml'
+    | 'xml'
+    | 'sql';
+
+export interface CodeFormatInfo {
+    label: string;
+    language: CodeLanguage;
+    exportCode: (diagram: Diagram) => CodeFile[];
+}
+
+export const codeFormats: Record<CodeFormat, CodeFormatInfo> = {
+    typeorm: {
+        label: 'TypeORM',
+        language: 'typescript',
+        exportCode: exportTypeORM,
+    },
+    mikroorm: {
+        label: 'MikroORM',
+        language: 'typescript',
+        exportCode: exportMikroORM,
+    },
+    drizzle: {
+        label: 'Drizzle',
+        language: 'typescript',
+        exportCode: exportDrizzle,
+    },
+    sqlalchemy: {
+        label: 'SQLAlchemy',
+        language: 'python',
+        exportCode: exportSQLAlchemy,
+    },
+    django: {
+        label: 'Django',
+        language: 'python',
+        exportCode: exportDjango,
+    },
+    jpa: {
+        label: 'JPA',
+        language: 'java',
+        exportCode: exportJPA,
+    },
+    efcore: {
+        label: 'EF Core',
+        language: 'csharp',
+        exportCode: exportEFCore,
+    },
+    typescript: {
+        label: 'TypeScript + Zod',
+        language: 'typescript',
+        exportCode: exportTypeScriptTypes,
+    },
+    jsonschema: {
+        label: 'JSON Schema',
+        language: 'json',
+        exportCode: exportJSONSchema,
+    },
+    openapi: {
+        label: 'OpenAPI',
+        language: 'json',
+        exportCode: exportOpenAPI,
+    },
+    graphql: {
+        label: 'GraphQL',
+        language: 'graphql',
+        exportCode: exportGraphQL,
+    },
+    liquibase_yaml: {
+        label: 'Liquibase (YAML)',
+        language: 'yaml',
+        exportCode: exportLiquibaseYAML,
+    },
+    liquibase_xml: {
+        label: 'Liquibase (XML)',
+        language: 'xml',
+        exportCode: exportLiquibaseXML,
+    },
+    flyway: {
+        label: 'Flyway',
+        language: 'sql',
+        exportCode: exportFlyway,
+    },
+};
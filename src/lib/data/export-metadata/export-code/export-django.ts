@@ -0,0 +1,363 @@
+import {
+    dataTypeCategory,
+    DataTypeCategory,
+    isArrayDataType,
+} from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toPascalCase, toSnakeCase } from '../code-names';
+import { isAutoIncrementField } from '../export-sql-script';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+    fieldDefault,
+    hasUniqueIndex,
+} from './code-entities';
+import {
+    pythonCall,
+    pythonImport,
+    pythonImportBlock,
+    PythonImports,
+    pythonReservedNames,
+    pythonString,
+} from './python-code';
+
+const djangoFields: Record<
+    DataTypeCategory,
+    (field: DBField, typeName: string) => [string, string[]]
+> = {
+    string: (field, typeName) =>
+        /^\d+$/.test(field.characterMaximumLength ?? '')
+            ? ['CharField', [`max_length=${field.characterMaximumLength}`]]
+            : /inet|cidr/.test(typeName)
+              ? ['GenericIPAddressField', []]
+              : ['TextField', []],
+    uuid: () => ['UUIDField', []],
+    integer: (_, typeName) => [
+        /^(smallint|int2|tinyint|smallserial|serial2)$/.test(typeName)
+            ? 'SmallIntegerField'
+            : 'IntegerField',
+        [],
+    ],
+    bigint: () => ['BigIntegerField', []],
+    float: () => ['FloatField', []],
+    decimal: (field) => [
+        'DecimalField',
+        [
+            `max_digits=${field.precision ?? 19}`,
+            `decimal_places=${field.scale ?? 0}`,
+        ],
+    ],
+    boolean: () => ['BooleanField', []],
+    date: () => ['DateField', []],
+    time: () => ['TimeField', []],
+    datetime: () => ['DateTimeField', []],
+    json: () => ['JSONField', []],
+    binary: () => ['BinaryField', []],
+    unknown: () => ['TextField', []],
+};
+
+const autoFields: Partial<Record<DataTypeCategory, string>> = {
+    integer: 'AutoField',
+    bigint: 'BigAutoField',
+};
+
+const djangoDefault = (
+    imports: PythonImports,
+    field: DBField
+): string | undefined => {
+    const value = fieldDefault(field);
+
+    switch (value?.kind) {
+        case 'string':
+            return `default=${pythonString(value.value)}`;
+        case 'number':
+            return dataTypeCategory(field.type.name) === 'decimal'
+                ? `default=${pythonImport(imports, 'decimal', 'Decimal')}(${pythonString(value.value)})`
+                : `default=${value.value}`;
+        case 'boolean':
+            return `default=${value.value ? 'True' : 'False'}`;
+        case 'expression':
+            // Only the current time has a portable database default
+            return /^(now\(\)|current_timestamp(\(\))?|getdate\(\))$/i.test(
+                value.value
+            )
+                ? `db_default=${pythonImport(imports, 'django.db.models.functions', 'Now')}()`
+                : undefined;
+        default:
+            return undefined;
+    }
+};
+
+const exportField = (
+    imports: PythonImports,
+    entity: CodeEntity,
+    field: DBField
+): string => {
+    const primaryKeys = entity.table.fields.filter((f) => f.primaryKey);
+    const singlePrimaryKey = primaryKeys.length === 1 && field.primaryKey;
+    const typeName = field.type.name.replace(/\[\]$/, '').toLowerCase();
+    const category = dataTypeCategory(typeName);
+    const autoField =
+        singlePrimaryKey && isAutoIncrementField(field)
+            ? (autoFields[category] ?? 'AutoField')
+            : undefined;
+    const [fieldClass, typeArgs] = autoField
+        ? [autoField, []]
+        : djangoFields[category](field, typeName);
+    const name = entity.properties.get(field.id)!;
+    const isArray = isArrayDataType(field.type.name);
+    // Array columns wrap the element field, which takes the type arguments
+    const args = isArray
+        ? [`models.${fieldClass}(${typeArgs.join(', ')})`]
+        : [...typeArgs];
+
+    if (singlePrimaryKey) {
+        args.push('primary_key=True');
+    }
+
+    if (name !== field.name) {
+        args.push(`db_column=${pythonString(field.name)}`);
+    }
+
+    if (field.nullable && !field.primaryKey) {
+        args.push('null=True', 'blank=True');
+    }
+
+    if (
+        field.unique &&
+        !field.primaryKey &&
+        !hasUniqueIndex(entity.table, field)
+    ) {
+        args.push('unique=True');
+    }
+
+    const defaultValue = autoField ? undefined : djangoDefault(imports, field);
+
+    if (defaultValue) {
+        args.push(defaultValue);
+    }
+
+    if (field.comments) {
+        args.push(`db_comment=${pythonString(field.comments)}`);
+    }
+
+    const call = isArray
+        ? pythonImport(imports, 'django.contrib.postgres.fields', 'ArrayField')
+        : `models.${fieldClass}`;
+    const line = `    ${pythonCall(`${name} = ${call}`, args, '    ')}`;
+
+    return category === 'unknown' && !autoField
+        ? `    # ${field.name} is a ${field.type.name} column\n${line}`
+        : line;
+};
+
+const exportForeignKey = (
+    entity: CodeEntity,
+    relation: CodeRelation
+): string => {
+    const target =
+        relation.target === entity
+            ? '"self"'
+            : pythonString(relation.target.className);
+    const args = [target];
+
+    if (relation.kind === 'many_to_many') {
+        args.push(
+            `related_name=${pythonString(relation.inverseName)}`,
+            `db_table=${pythonString(`${entity.table.name}_${relation.target.table.name}`)}`
+        );
+
+        return `    ${pythonCall(`${relation.name} = models.ManyToManyField`, args, '    ')}`;
+    }
+
+    // Nullable foreign keys are cleared when the referenced row goes away
+    args.push(
+        relation.nullable
+            ? 'on_delete=models.SET_NULL'
+            : 'on_delete=models.CASCADE'
+    );
+
+    if (!relation.referencedField.primaryKey) {
+        args.push(
+            `to_field=${pythonString(relation.target.properties.get(relation.referencedField.id)!)}`
+        );
+    }
+
+    if (
+        relation.field.primaryKey &&
+        entity.table.fields.filter((field) => field.primaryKey).length === 1
+    ) {
+        args.push('primary_key=True');
+    }
+
+    if (`${relation.name}_id` !== relation.field.name) {
+        args.push(`db_column=${pythonString(relation.field.name)}`);
+    }
+
+    args.push(`related_name=${pythonString(relation.inverseName)}`);
+
+    if (relation.nullable) {
+        args.push('null=True', 'blank=True');
+    }
+
+    if (relation.field.comments) {
+        args.push(`db_comment=${pythonString(relation.field.comments)}`);
+    }
+
+    const fieldClass =
+        relation.kind === 'one_to_one' ? 'OneToOneField' : 'ForeignKey';
+
+    return `    ${pythonCall(`${relation.name} = models.${fieldClass}`, args, '    ')}`;
+};
+
+// Foreign key columns are declared by their relation, which Django names without the _id suffix
+const owningRelation = (entity: CodeEntity, field: DBField) =>
+    entity.relations.find(
+        (relation) =>
+            relation.owner &&
+            relation.kind !== 'many_to_many' &&
+            relation.field.id === field.id
+    );
+
+const exportMeta = (entity: CodeEntity): string => {
+    const { table } = entity;
+    const name = (fieldId: string) => {
+        const field = table.fields.find((f) => f.id === fieldId);
+        return field
+            ? (owningRelation(entity, field)?.name ??
+                  entity.properties.get(fieldId))
+            : undefined;
+    };
+    const fieldList = (fieldIds: string[]) =>
+        `[${fieldIds
+            .map(name)
+            .filter((fieldName): fieldName is string => !!fieldName)
+            .map(pythonString)
+            .join(', ')}]`;
+    const lines = [`        db_table = ${pythonString(table.name)}`];
+
+    if (table.comments) {
+        lines.push(
+            `        db_table_comment = ${pythonString(table.comments)}`
+        );
+    }
+
+    const indexes = table.indexes.filter(
+        (index) => !index.unique && index.fieldIds.some(name)
+    );
+    const constraints = table.indexes.filter(
+        (index) => index.unique && index.fieldIds.some(name)
+    );
+
+    if (indexes.length > 0) {
+        lines.push(
+            `        indexes = [\n${indexes
+                .map(
+                    (index) =>
+                        `            ${pythonCall(
+                            'models.Index',
+                            [
+                                `fields=${fieldList(index.fieldIds)}`,
+                                `name=${pythonString(index.name)}`,
+                            ],
+                            '            '
+                        )},`
+                )
+                .join('\n')}\n        ]`
+        );
+    }
+
+    if (constraints.length > 0) {
+        lines.push(
+            `        constraints = [\n${constraints
+                .map(
+                    (index) =>
+                        `            ${pythonCall(
+                            'models.UniqueConstraint',
+                            [
+                                `fields=${fieldList(index.fieldIds)}`,
+                                `name=${pythonString(index.name)}`,
+                            ],
+                            '            '
+                        )},`
+                )
+                .join('\n')}\n        ]`
+        );
+    }
+
+    return `    class Meta:\n${lines.join('\n')}`;
+};
+
+const exportModel = (imports: PythonImports, entity: CodeEntity): string => {
+    const { table } = entity;
+    const primaryKeys = table.fields.filter((field) => field.primaryKey);
+    const members: string[] = [];
+
+    // Django has no schema option, the table has to be on the search path
+    if (entity.schema) {
+        members.push(`    # Schema: ${entity.schema}`);
+    }
+
+    if (primaryKeys.length > 1) {
+        members.push(
+            `    pk = ${pythonCall(
+                'models.CompositePrimaryKey',
+                primaryKeys.map((field) =>
+                    pythonString(
+                        owningRelation(entity, field)?.name ??
+                            entity.properties.get(field.id)!
+                    )
+                ),
+                '    '
+            )}`
+        );
+    }
+
+    table.fields.forEach((field) => {
+        const relation = owningRelation(entity, field);
+
+        members.push(
+            relation
+                ? exportForeignKey(entity, relation)
+                : exportField(imports, entity, field)
+        );
+    });
+
+    entity.relations
+        .filter(
+            (relation) => relation.kind === 'many_to_many' && relation.owner
+        )
+        .forEach((relation) =>
+            members.push(exportForeignKey(entity, relation))
+        );
+
+    return `class ${entity.className}(models.Model):\n${members.join('\n')}\n\n${exportMeta(entity)}`;
+};
+
+// Builds a Django models.py for the diagram tables
+export const exportDjango = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram, {
+        className: toPascalCase,
+        propertyName: toSnakeCase,
+        reservedNames: [...pythonReservedNames, 'objects', 'pk'],
+    });
+
+    if (entities.length === 0) {
+        return [];
+    }
+
+    const imports: PythonImports = new Map();
+    const models = entities.map((entity) => exportModel(imports, entity));
+
+    pythonImport(imports, 'django.db', 'models');
+
+    return [
+        {
+            path: 'models.py',
+            content: `${[pythonImportBlock(imports), ...models].join('\n\n\n')}\n`,
+        },
+    ];
+};
@@ -0,0 +1,605 @@
+import { dataTypeCategory, isArrayDataType } from '@/lib/data/data-types';
+import { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toCamelCase } from '../code-names';
+import { isAutoIncrementField } from '../export-sql-script';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+    fieldDefault,
+    hasUniqueIndex,
+} from './code-entities';
+import {
+    jsDoc,
+    typescriptImports,
+    typescriptObject,
+    typescriptString,
+    typescriptType,
+} from './typescript-code';
+
+type DrizzleDialect = 'pg' | 'mysql' | 'sqlite';
+
+interface DrizzleColumnBuilder {
+    name: string;
+    options?: (field: DBField) => [string, string][];
+}
+
+interface DrizzleDialectInfo {
+    module: string;
+    table: string;
+    schema?: string;
+    anyColumn: string;
+    builders: Record<string, DrizzleColumnBuilder>;
+}
+
+const lengthOption =
+    (fallback?: number) =>
+    (field: DBField): [string, string][] => {
+        const length = /^\d+$/.test(field.characterMaximumLength ?? '')
+            ? field.characterMaximumLength
+            : fallback?.toString();
+
+        return length ? [['length', length]] : [];
+    };
+
+const precisionOptions = (field: DBField): [string, string][] =>
+    field.precision
+        ? [
+              ['precision', `${field.precision}`],
+              ...(field.scale !== undefined
+                  ? [['scale', `${field.scale}`] as [string, string]]
+                  : []),
+          ]
+        : [];
+
+const numberMode = (): [string, string][] => [['mode', "'number'"]];
+
+const withTimezone = (): [string, string][] => [['withTimezone', 'true']];
+
+const pgBuilders: Record<string, DrizzleColumnBuilder> = {
+    smallint: { name: 'smallint' },
+    int2: { name: 'smallint' },
+    integer: { name: 'integer' },
+    int: { name: 'integer' },
+    int4: { name: 'integer' },
+    bigint: { name: 'bigint', options: numberMode },
+    int8: { name: 'bigint', options: numberMode },
+    decimal: { name: 'numeric', options: precisionOptions },
+    numeric: { name: 'numeric', options: precisionOptions },
+    real: { name: 'real' },
+    float4: { name: 'real' },
+    float: { name: 'doublePrecision' },
+    float8: { name: 'doublePrecision' },
+    double: { name: 'doublePrecision' },
+    'double precision': { name: 'doublePrecision' },
+    smallserial: { name: 'smallserial' },
+    serial: { name: 'serial' },
+    bigserial: { name: 'bigserial', options: numberMode },
+    char: { name: 'char', options: lengthOption() },
+    character: { name: 'char', options: lengthOption() },
+    varchar: { name: 'varchar', options: lengthOption() },
+    'character varying': { name: 'varchar', options: lengthOption() },
+    text: { name: 'text' },
+    date: { name: 'date' },
+    datetime: { name: 'timestamp' },
+    timestamp: { name: 'timestamp' },
+    'timestamp without time zone': { name: 'timestamp' },
+    timestamptz: { name: 'timestamp', options: withTimezone },
+    'timestamp with time zone': { name: 'timestamp', options: withTimezone },
+    time: { name: 'time' },
+    'time without time zone': { name: 'time' },
+    timetz: { name: 'time', options: withTimezone },
+    'time with time zone': { name: 'time', options: withTimezone },
+    interval: { name: 'interval' },
+    bool: { name: 'boolean' },
+    boolean: { name: 'boolean' },
+    point: { name: 'point' },
+    line: { name: 'line' },
+    cidr: { name: 'cidr' },
+    inet: { name: 'inet' },
+    macaddr: { name: 'macaddr' },
+    macaddr8: { name: 'macaddr8' },
+    uuid: { name: 'uuid' },
+    json: { name: 'json' },
+    jsonb: { name: 'jsonb' },
+};
+
+const mysqlBuilders: Record<string, DrizzleColumnBuilder> = {
+    tinyint: { name: 'tinyint' },
+    smallint: { name: 'smallint' },
+    mediumint: { name: 'mediumint' },
+    int: { name: 'int' },
+    integer: { name: 'int' },
+    bigint: { name: 'bigint', options: numberMode },
+    serial: { name: 'serial' },
+    decimal: { name: 'decimal', options: precisionOptions },
+    numeric: { name: 'decimal', options: precisionOptions },
+    float: { name: 'float' },
+    real: { name: 'real' },
+    double: { name: 'double' },
+    bool: { name: 'boolean' },
+    boolean: { name: 'boolean' },
+    date: { name: 'date' },
+    datetime: { name: 'datetime' },
+    timestamp: { name: 'timestamp' },
+    time: { name: 'time' },
+    year: { name: 'year' },
+    char: { name: 'char', options: lengthOption() },
+    varchar: { name: 'varchar', options: lengthOption(255) },
+    binary: { name: 'binary', options: lengthOption() },
+    varbinary: { name: 'varbinary', options: lengthOption(255) },
+    tinytext: { name: 'tinytext' },
+    text: { name: 'text' },
+    mediumtext: { name: 'mediumtext' },
+    longtext: { name: 'longtext' },
+    json: { name: 'json' },
+};
+
+const sqliteBuilders: Record<string, DrizzleColumnBuilder> = {
+    integer: { name: 'integer' },
+    int: { name: 'integer' },
+    bigint: { name: 'integer' },
+    smallint: { name: 'integer' },
+    tinyint: { name: 'integer' },
+    serial: { name: 'integer' },
+    boolean: {
+        name: 'integer',
+        options: () => [['mode', "'boolean'"]],
+    },
+    real: { name: 'real' },
+    float: { name: 'real' },
+    double: { name: 'real' },
+    numeric: { name: 'numeric' },
+    decimal: { name: 'numeric' },
+    text: { name: 'text' },
+    varchar: { name: 'text', options: lengthOption() },
+    char: { name: 'text', options: lengthOption() },
+    uuid: { name: 'text' },
+    json: { name: 'text', options: () => [['mode', "'json'"]] },
+    date: { name: 'text' },
+    datetime: { name: 'text' },
+    timestamp: { name: 'text' },
+    time: { name: 'text' },
+    blob: { name: 'blob', options: () => [['mode', "'buffer'"]] },
+};
+
+const drizzleDialects: Record<DrizzleDialect, DrizzleDialectInfo> = {
+    pg: {
+        module: 'drizzle-orm/pg-core',
+        table: 'pgTable',
+        schema: 'pgSchema',
+        anyColumn: 'AnyPgColumn',
+        builders: pgBuilders,
+    },
+    mysql: {
+        module: 'drizzle-orm/mysql-core',
+        table: 'mysqlTable',
+        schema: 'mysqlSchema',
+        anyColumn: 'AnyMySqlColumn',
+        builders: mysqlBuilders,
+    },
+    sqlite: {
+        module: 'drizzle-orm/sqlite-core',
+        table: 'sqliteTable',
+        anyColumn: 'AnySQLiteColumn',
+        builders: sqliteBuilders,
+    },
+};
+
+// Drizzle has no SQL Server or Oracle dialect, so those diagrams get PostgreSQL tables
+const databaseDialects: Record<DatabaseType, DrizzleDialect> = {
+    [DatabaseType.GENERIC]: 'pg',
+    [DatabaseType.POSTGRESQL]: 'pg',
+    [DatabaseType.MYSQL]: 'mysql',
+    [DatabaseType.SQL_SERVER]: 'pg',
+    [DatabaseType.MARIADB]: 'mysql',
+    [DatabaseType.SQLITE]: 'sqlite',
+    [DatabaseType.ORACLE]: 'pg',
+};
+
+const serialBuilders: Record<string, DrizzleColumnBuilder> = {
+    smallint: { name: 'smallserial' },
+    bigint: { name: 'bigserial', options: numberMode },
+};
+
+interface DrizzleSchemaContext {
+    dialect: DrizzleDialect;
+    info: DrizzleDialectInfo;
+    builders: Set<string>;
+    // Column types without a Drizzle builder, declared with customType()
+    customTypes: Map<string, { name: string; dataType: string; data: string }>;
+    usesSql: boolean;
+    usesAnyColumn: boolean;
+}
+
+const typeKey = (field: DBField) =>
+    field.type.name.replace(/\[\]$/, '').toLowerCase();
+
+const columnBuilder = (
+    context: DrizzleSchemaContext,
+    field: DBField,
+    autoIncrement: boolean
+): string => {
+    const key = typeKey(field);
+    let builder = context.info.builders[key];
+
+    if (autoIncrement && context.dialect === 'pg' && !/serial/.test(key)) {
+        builder = serialBuilders[builder?.name ?? ''] ?? { name: 'serial' };
+    }
+
+    const name = typescriptString(field.name);
+
+    if (!builder) {
+        const dataType = `${key}${
+            field.characterMaximumLength
+                ? `(${field.characterMaximumLength})`
+                : field.precision
+                  ? `(${[field.precision, field.scale].filter((n) => n !== undefined).join(', ')})`
+                  : ''
+        }`;
+        let customType = context.customTypes.get(dataType);
+
+        if (!customType) {
+            customType = {
+                name: `${toCamelCase(dataType)}Type`,
+                dataType,
+                data: typescriptType(field).replace(/\[\]$/, ''),
+            };
+            context.customTypes.set(dataType, customType);
+        }
+
+        return `${customType.name}(${name})`;
+    }
+
+    context.builders.add(builder.name);
+
+    const options = builder.options?.(field) ?? [];
+
+    return options.length > 0
+        ? `${builder.name}(${name}, ${typescriptObject(options, '    ')})`
+        : `${builder.name}(${name})`;
+};
+
+const columnDefault = (
+    context: DrizzleSchemaContext,
+    field: DBField
+): string | undefined => {
+    const value = fieldDefault(field);
+
+    switch (value?.kind) {
+        case 'string':
+            return typescriptString(value.value);
+        case 'number':
+            // Drizzle reads decimal columns as strings
+            return dataTypeCategory(field.type.name) === 'decimal'
+                ? typescriptString(value.value)
+                : value.value;
+        case 'boolean':
+            return `${value.value}`;
+        case 'expression':
+            context.usesSql = true;
+            return `sql\`${value.value.replace(/[`\\]/g, '\\$&').replace(/\$\{/g, '\\${')}\``;
+        default:
+            return undefined;
+    }
+};
+
+// Single column foreign keys are declared on the column itself
+const columnReference = (
+    context: DrizzleSchemaContext,
+    entity: CodeEntity,
+    field: DBField
+): string | undefined => {
+    const relation = entity.relations.find(
+        (r) => r.owner && r.kind !== 'many_to_many' && r.field.id === field.id
+    );
+
+    if (!relation) {
+        return undefined;
+    }
+
+    const column = `${relation.target.className}.${relation.target.properties.get(relation.referencedField.id)}`;
+
+    // Self references need an explicit return type to type check
+    if (relation.target === entity) {
+        context.usesAnyColumn = true;
+        return `.references((): ${context.info.anyColumn} => ${column})`;
+    }
+
+    return `.references(() => ${column})`;
+};
+
+const exportColumn = (
+    context: DrizzleSchemaContext,
+    entity: CodeEntity,
+    field: DBField
+): string => {
+    const primaryKeys = entity.table.fields.filter((f) => f.primaryKey);
+    const singlePrimaryKey = primaryKeys.length === 1 && field.primaryKey;
+    const autoIncrement = singlePrimaryKey && isAutoIncrementField(field);
+    let column = columnBuilder(context, field, autoIncrement);
+
+    if (isArrayDataType(field.type.name) && context.dialect === 'pg') {
+        column += '.array()';
+    }
+
+    if (singlePrimaryKey) {
+        column +=
+            autoIncrement && context.dialect === 'sqlite'
+                ? '.primaryKey({ autoIncrement: true })'
+                : '.primaryKey()';
+    }
+
+    if (
+        autoIncrement &&
+        context.dialect === 'mysql' &&
+        typeKey(field) !== 'serial'
+    ) {
+        column += '.autoincrement()';
+    }
+
+    if (!field.nullable && !singlePrimaryKey) {
+        column += '.notNull()';
+    }
+
+    if (
+        field.unique &&
+        !field.primaryKey &&
+        !hasUniqueIndex(entity.table, field)
+    ) {
+        column += '.unique()';
+    }
+
+    const defaultValue = autoIncrement
+        ? undefined
+        : columnDefault(context, field);
+
+    if (defaultValue) {
+        column += `.default(${defaultValue})`;
+    }
+
+    column += columnReference(context, entity, field) ?? '';
+
+    const line = `    ${entity.properties.get(field.id)}: ${column},`;
+
+    return field.comments ? `${jsDoc(field.comments, '    ')}\n${line}` : line;
+};
+
+const exportTable = (
+    context: DrizzleSchemaContext,
+    entity: CodeEntity,
+    schemaNames: Map<string, string>
+): string => {
+    const { table } = entity;
+    const column = (fieldId: string) =>
+        `table.${entity.properties.get(fieldId)}`;
+    const primaryKeys = table.fields.filter((field) => field.primaryKey);
+    const constraints: string[] = [];
+
+    if (primaryKeys.length > 1) {
+        context.builders.add('primaryKey');
+        constraints.push(
+            `primaryKey({ columns: [${primaryKeys.map((field) => column(field.id)).join(', ')}] })`
+        );
+    }
+
+    table.indexes.forEach((index) => {
+        const columns = index.fieldIds
+            .filter((fieldId) => entity.properties.has(fieldId))
+            .map(column);
+
+        if (columns.length === 0) {
+            return;
+        }
+
+        const builder = index.unique ? 'uniqueIndex' : 'index';
+        context.builders.add(builder);
+        constraints.push(
+            `${builder}(${typescriptString(index.name)}).on(${columns.join(', ')})`
+        );
+    });
+
+    const schemaName = entity.schema
+        ? schemaNames.get(entity.schema)
+        : undefined;
+    const tableBuilder = schemaName
+        ? `${schemaName}.table`
+        : context.info.table;
+
+    if (!schemaName) {
+        context.builders.add(context.info.table);
+    }
+
+    const columns = table.fields
+        .map((field) => exportColumn(context, entity, field))
+        .join('\n');
+    const extraConfig =
+        constraints.length > 0
+            ? `, (table) => [\n${constraints.map((constraint) => `    ${constraint},`).join('\n')}\n]`
+            : '';
+
+    return `${table.comments ? `${jsDoc(table.comments, '')}\n` : ''}export const ${entity.className} = ${tableBuilder}(${typescriptString(table.name)}, {
+${columns}
+}${extraConfig});`;
+};
+
+const exportRelation = (
+    entity: CodeEntity,
+    relation: CodeRelation
+): string | undefined => {
+    const target = relation.target.className;
+    const options: [string, string][] = [];
+
+    // Drizzle maps many to many relations through an explicit junction table
+    if (relation.kind === 'many_to_many') {
+        return `    // ${relation.name}: many to many relations need a junction table`;
+    }
+
+    if (relation.owner) {
+        options.push(
+            [
+                'fields',
+                `[${entity.className}.${entity.properties.get(relation.field.id)}]`,
+            ],
+            [
+                'references',
+                `[${target}.${relation.target.properties.get(relation.referencedField.id)}]`,
+            ]
+        );
+    }
+
+    // Several relations between the same tables are told apart by name
+    if (
+        entity.relations.filter(
+            (r) => r.target === relation.target && r.kind !== 'many_to_many'
+        ).length > 1
+    ) {
+        options.push([
+            'relationName',
+            typescriptString(relation.relationship.name),
+        ]);
+    }
+
+    const helper = relation.kind === 'one_to_many' ? 'many' : 'one';
+
+    return options.length > 0
+        ? `    ${relation.name}: ${helper}(${target}, ${typescriptObject(options, '    ')}),`
+        : `    ${relation.name}: ${helper}(${target}),`;
+};
+
+const exportRelations = (entity: CodeEntity): string | undefined => {
+    if (entity.relations.length === 0) {
+        return undefined;
+    }
+
+    const members = entity.relations
+        .map((relation) => exportRelation(entity, relation))
+        .filter((member): member is string => !!member);
+    const helpers = ['one', 'many'].filter((helper) =>
+        members.some((member) => member.includes(`: ${helper}(`))
+    );
+
+    return `export const ${entity.className}Relations = relations(${entity.className}, (${
+        helpers.length > 0 ? `{ ${helpers.join(', ')} }` : ''
+    }) => ({
+${members.join('\n')}
+}));`;
+};
+
+// Table constants must not shadow the imported Drizzle functions
+const importedNames = new Set([
+    'relations',
+    'sql',
+    'customType',
+    'index',
+    'uniqueIndex',
+    'primaryKey',
+    ...Object.values(drizzleDialects).flatMap((info) => [
+        info.table,
+        ...Object.values(info.builders).map((builder) => builder.name),
+    ]),
+]);
+
+const tableName = (name: string) => {
+    const camel = toCamelCase(name);
+    return importedNames.has(camel) ? `${camel}Table` : camel;
+};
+
+// Builds a Drizzle schema module for the dialect of the diagram
+export const exportDrizzle = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram, {
+        className: tableName,
+        propertyName: toCamelCase,
+    });
+
+    if (entities.length === 0) {
+        return [];
+    }
+
+    const dialect = databaseDialects[diagram.databaseType];
+    const context: DrizzleSchemaContext = {
+        dialect,
+        info: drizzleDialects[dialect],
+        builders: new Set(),
+        customTypes: new Map(),
+        usesSql: false,
+        usesAnyColumn: false,
+    };
+
+    const schemaNames = new Map<string, string>();
+    const usedNames = new Set(entities.map((entity) => entity.className));
+
+    if (context.info.schema) {
+        entities.forEach(({ schema }) => {
+            if (schema && !schemaNames.has(schema)) {
+                let name = `${toCamelCase(schema)}Schema`;
+
+                for (let i = 2; usedNames.has(name); i++) {
+                    name = `${toCamelCase(schema)}Schema${i}`;
+                }
+
+                usedNames.add(name);
+                schemaNames.set(schema, name);
+            }
+        });
+    }
+
+    const tables = entities.map((entity) =>
+        exportTable(context, entity, schemaNames)
+    );
+    const relationBlocks = entities
+        .map(exportRelations)
+        .filter((block): block is string => !!block);
+
+    if (schemaNames.size > 0) {
+        context.builders.add(context.info.schema!);
+    }
+
+    if (context.customTypes.size > 0) {
+        context.builders.add('customType');
+    }
+
+    const declarations = [
+        ...[...schemaNames].map(
+            ([schema, name]) =>
+                `export const ${name} = ${context.info.schema}(${typescriptString(schema)});`
+        ),
+        ...[...context.customTypes.values()].map(
+            ({ name, dataType, data }) =>
+                `const ${name} = customType<{ data: ${data} }>({\n    dataType: () => ${typescriptString(dataType)},\n});`
+        ),
+    ];
+
+    const imports = [
+        typescriptImports('drizzle-orm', [
+            ...(relationBlocks.length > 0 ? ['relations'] : []),
+            ...(context.usesSql ? ['sql'] : []),
+        ]),
+        typescriptImports(context.info.module, context.builders),
+        context.usesAnyColumn
+            ? `import type { ${context.info.anyColumn} } from '${context.info.module}';`
+            : '',
+    ].filter((line) => line.length > 0);
+
+    const header =
+        diagram.databaseType === DatabaseType.SQL_SERVER
+            ? [
+                  '// Drizzle has no SQL Server dialect, these are PostgreSQL tables',
+              ]
+            : [];
+
+    return [
+        {
+            path: 'schema.ts',
+            content: `${[
+                [...header, ...imports].join('\n'),
+                ...(declarations.length > 0 ? [declarations.join('\n')] : []),
+                ...tables,
+                ...relationBlocks,
+            ].join('\n\n')}\n`,
+        },
+    ];
+};
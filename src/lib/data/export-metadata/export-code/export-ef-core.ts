@@ -0,0 +1,366 @@
+import {
+    dataTypeCategory,
+    DataTypeCategory,
+    isArrayDataType,
+} from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toPascalCase, uniqueName } from '../code-names';
+import { isAutoIncrementField } from '../export-sql-script';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+    fieldDefaultSql,
+    hasUniqueIndex,
+    joinTable,
+} from './code-entities';
+
+const csharpString = (value: string): string =>
+    `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Value types get a ? when nullable, reference types are nullable reference types
+const csharpTypes: Record<DataTypeCategory, [type: string, value: boolean]> = {
+    string: ['string', false],
+    uuid: ['Guid', true],
+    integer: ['int', true],
+    bigint: ['long', true],
+    float: ['double', true],
+    decimal: ['decimal', true],
+    boolean: ['bool', true],
+    date: ['DateOnly', true],
+    time: ['TimeOnly', true],
+    datetime: ['DateTime', true],
+    json: ['string', false],
+    binary: ['byte[]', false],
+    unknown: ['string', false],
+};
+
+const csharpType = (field: DBField): [type: string, value: boolean] => {
+    const typeName = field.type.name.replace(/\[\]$/, '').toLowerCase();
+    const category = dataTypeCategory(typeName);
+    const value = csharpTypes[category][1];
+    let type = csharpTypes[category][0];
+
+    if (/^(smallint|int2|smallserial|serial2)$/.test(typeName)) {
+        type = 'short';
+    } else if (typeName === 'tinyint') {
+        type = 'byte';
+    } else if (
+        category === 'datetime' &&
+        /tz|with time zone|offset/.test(typeName)
+    ) {
+        type = 'DateTimeOffset';
+    }
+
+    return isArrayDataType(field.type.name)
+        ? [`${type}[]`, false]
+        : [type, value];
+};
+
+const summary = (comments: string, indent: string) =>
+    [
+        '/// <summary>',
+        ...comments.split('\n').map((line) => `/// ${line}`),
+        '/// </summary>',
+    ]
+        .map((line) => `${indent}${line}`)
+        .join('\n');
+
+const propertyName = (entity: CodeEntity, field: DBField) =>
+    entity.properties.get(field.id)!;
+
+const exportProperty = (entity: CodeEntity, field: DBField): string => {
+    const [type, value] = csharpType(field);
+    const nullable = field.nullable && !field.primaryKey;
+    const declaration = nullable
+        ? `    public ${type}? ${propertyName(entity, field)} { get; set; }`
+        : `    public ${type} ${propertyName(entity, field)} { get; set; }${value ? '' : ' = null!;'}`;
+
+    return field.comments
+        ? `${summary(field.comments, '    ')}\n${declaration}`
+        : declaration;
+};
+
+const exportNavigation = (relation: CodeRelation): string => {
+    const target = relation.target.className;
+
+    if (relation.kind === 'one_to_many' || relation.kind === 'many_to_many') {
+        return `    public virtual ICollection<${target}> ${relation.name} { get; set; } = new List<${target}>();`;
+    }
+
+    return relation.owner && !relation.nullable
+        ? `    public virtual ${target} ${relation.name} { get; set; } = null!;`
+        : `    public virtual ${target}? ${relation.name} { get; set; }`;
+};
+
+const exportEntity = (entity: CodeEntity, namespace: string): CodeFile => {
+    const members = [
+        ...entity.table.fields.map((field) => exportProperty(entity, field)),
+        ...entity.relations.map(exportNavigation),
+    ];
+
+    return {
+        path: `${entity.className}.cs`,
+        content: `using System;
+using System.Collections.Generic;
+
+namespace ${namespace};
+
+${entity.table.comments ? `${summary(entity.table.comments, '')}\n` : ''}public partial class ${entity.className}
+{
+${members.join('\n\n')}
+}
+`,
+    };
+};
+
+const keySelector = (entity: CodeEntity, fields: DBField[]) =>
+    fields.length === 1
+        ? `e => e.${propertyName(entity, fields[0])}`
+        : `e => new { ${fields.map((field) => `e.${propertyName(entity, field)}`).join(', ')} }`;
+
+const exportPropertyConfiguration = (
+    entity: CodeEntity,
+    field: DBField
+): string => {
+    const primaryKeys = entity.table.fields.filter((f) => f.primaryKey);
+    const category = dataTypeCategory(field.type.name);
+    const generated =
+        primaryKeys.length === 1 &&
+        field.primaryKey &&
+        isAutoIncrementField(field);
+    const calls: string[] = [];
+
+    // Single integer keys are generated by convention, unless told otherwise
+    if (
+        primaryKeys.length === 1 &&
+        field.primaryKey &&
+        !generated &&
+        (category === 'integer' || category === 'bigint')
+    ) {
+        calls.push('ValueGeneratedNever()');
+    }
+
+    calls.push(`HasColumnName(${csharpString(field.name)})`);
+
+    if (
+        category === 'string' &&
+        /^\d+$/.test(field.characterMaximumLength ?? '')
+    ) {
+        calls.push(`HasMaxLength(${field.characterMaximumLength})`);
+    }
+
+    if (category === 'decimal' && field.precision) {
+        calls.push(
+            `HasPrecision(${[field.precision, field.scale].filter((n) => n !== undefined).join(', ')})`
+        );
+    }
+
+    if (category === 'unknown') {
+        calls.push(`HasColumnType(${csharpString(field.type.name)})`);
+    }
+
+    const defaultValue = generated ? undefined : fieldDefaultSql(field);
+
+    if (defaultValue) {
+        calls.push(`HasDefaultValueSql(${csharpString(defaultValue)})`);
+    }
+
+    if (field.comments) {
+        calls.push(`HasComment(${csharpString(field.comments)})`);
+    }
+
+    const property = `            entity.Property(e => e.${propertyName(entity, field)})`;
+
+    return calls.length === 1
+        ? `${property}.${calls[0]};`
+        : `${property}\n${calls.map((call) => `                .${call}`).join('\n')};`;
+};
+
+const exportRelationConfiguration = (
+    entity: CodeEntity,
+    relation: CodeRelation
+): string => {
+    const target = relation.target;
+
+    if (relation.kind === 'many_to_many') {
+        const table = joinTable(entity, relation);
+
+        return `            entity.HasMany(d => d.${relation.name}).WithMany(p => p.${relation.inverseName})
+                .UsingEntity<Dictionary<string, object>>(
+                    ${csharpString(table.name)},
+                    r => r.HasOne<${target.className}>().WithMany().HasForeignKey(${csharpString(table.targetColumn)}),
+                    l => l.HasOne<${entity.className}>().WithMany().HasForeignKey(${csharpString(table.ownerColumn)}),
+                    j => j.HasKey(${csharpString(table.ownerColumn)}, ${csharpString(table.targetColumn)}));`;
+    }
+
+    const oneToOne = relation.kind === 'one_to_one';
+    const calls = [
+        oneToOne
+            ? `HasForeignKey<${entity.className}>(d => d.${propertyName(entity, relation.field)})`
+            : `HasForeignKey(d => d.${propertyName(entity, relation.field)})`,
+    ];
+
+    if (!relation.referencedField.primaryKey) {
+        calls.push(
+            oneToOne
+                ? `HasPrincipalKey<${target.className}>(p => p.${propertyName(target, relation.referencedField)})`
+                : `HasPrincipalKey(p => p.${propertyName(target, relation.referencedField)})`
+        );
+    }
+
+    calls.push(
+        `HasConstraintName(${csharpString(relation.relationship.name)})`
+    );
+
+    return `            entity.HasOne(d => d.${relation.name}).${oneToOne ? 'WithOne' : 'WithMany'}(p => p.${relation.inverseName})\n${calls.map((call) => `                .${call}`).join('\n')};`;
+};
+
+const exportEntityConfiguration = (entity: CodeEntity): string => {
+    const { table } = entity;
+    const primaryKeys = table.fields.filter((field) => field.primaryKey);
+    const statements = [
+        primaryKeys.length > 0
+            ? `            entity.HasKey(${keySelector(entity, primaryKeys)});`
+            : '            entity.HasNoKey();',
+    ];
+    const toTableArgs = [csharpString(table.name)];
+
+    if (entity.schema) {
+        toTableArgs.push(csharpString(entity.schema));
+    }
+
+    if (table.comments) {
+        toTableArgs.push(
+            `tb => tb.HasComment(${csharpString(table.comments)})`
+        );
+    }
+
+    statements.push(`            entity.ToTable(${toTableArgs.join(', ')});`);
+
+    table.indexes.forEach((index) => {
+        const fields = index.fieldIds
+            .map((fieldId) => table.fields.find((f) => f.id === fieldId))
+            .filter((field): field is DBField => !!field);
+
+        if (fields.length > 0) {
+            statements.push(
+                `            entity.HasIndex(${keySelector(entity, fields)}, ${csharpString(index.name)})${index.unique ? '.IsUnique()' : ''};`
+            );
+        }
+    });
+
+    table.fields
+        .filter(
+            (field) =>
+                field.unique &&
+                !field.primaryKey &&
+                !hasUniqueIndex(table, field)
+        )
+        .forEach((field) =>
+            statements.push(
+                `            entity.HasIndex(${keySelector(entity, [field])}).IsUnique();`
+            )
+        );
+
+    statements.push(
+        ...table.fields.map((field) =>
+            exportPropertyConfiguration(entity, field)
+        ),
+        ...entity.relations
+            .filter((relation) => relation.owner)
+            .map((relation) => exportRelationConfiguration(entity, relation))
+    );
+
+    return `        modelBuilder.Entity<${entity.className}>(entity =>
+        {
+${statements.join('\n\n')}
+        });`;
+};
+
+const exportDbContext = (
+    entities: CodeEntity[],
+    namespace: string,
+    contextName: string
+): CodeFile => ({
+    path: `${contextName}.cs`,
+    content: `using System;
+using System.Collections.Generic;
+using Microsoft.EntityFrameworkCore;
+
+namespace ${namespace};
+
+public partial class ${contextName} : DbContext
+{
+    public ${contextName}(DbContextOptions<${contextName}> options)
+        : base(options)
+    {
+    }
+
+${entities
+    .map(
+        (entity) =>
+            `    public virtual DbSet<${entity.className}> ${entity.className} { get; set; }`
+    )
+    .join('\n\n')}
+
+    protected override void OnModelCreating(ModelBuilder modelBuilder)
+    {
+${entities.map(exportEntityConfiguration).join('\n\n')}
+    }
+}
+`,
+});
+
+// C# members cannot have the name of their class
+const renameClassNameMembers = (entity: CodeEntity) => {
+    entity.properties.forEach((name, fieldId) => {
+        if (name === entity.className) {
+            entity.properties.set(fieldId, uniqueName(name, entity.usedNames));
+        }
+    });
+
+    entity.relations.forEach((relation) => {
+        if (relation.name !== entity.className) {
+            return;
+        }
+
+        const name = uniqueName(`${relation.name}Navigation`, entity.usedNames);
+
+        relation.target.relations
+            .filter(
+                (inverse) =>
+                    inverse.relationship === relation.relationship &&
+                    inverse.inverseName === relation.name
+            )
+            .forEach((inverse) => (inverse.inverseName = name));
+        relation.name = name;
+    });
+};
+
+// Builds EF Core entity classes and a DbContext configuring them with the fluent API
+export const exportEFCore = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram, {
+        className: toPascalCase,
+        propertyName: toPascalCase,
+    });
+
+    if (entities.length === 0) {
+        return [];
+    }
+
+    entities.forEach(renameClassNameMembers);
+
+    const namespace = toPascalCase(diagram.name);
+    const contextName = uniqueName(
+        `${namespace}Context`,
+        new Set(entities.map((entity) => entity.className))
+    );
+
+    return [
+        ...entities.map((entity) => exportEntity(entity, namespace)),
+        exportDbContext(entities, namespace, contextName),
+    ];
+};
@@ -0,0 +1,14 @@
+import type { Diagram } from '@/lib/domain/diagram';
+import { exportSQL } from '../export-sql-script';
+import type { CodeFile } from './code-entities';
+
+// Flyway runs versioned migrations in order, so the whole schema goes into the first one
+export const exportFlyway = (diagram: Diagram): CodeFile[] => {
+    const sql = exportSQL(diagram, diagram.databaseType);
+
+    if (!sql.trim()) {
+        return [];
+    }
+
+    return [{ path: 'db/migration/V1__init.sql', content: sql }];
+};
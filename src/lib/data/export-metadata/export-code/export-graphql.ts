@@ -0,0 +1,130 @@
+import {
+    dataTypeCategory,
+    DataTypeCategory,
+    isArrayDataType,
+} from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toCamelCase, toPascalCase } from '../code-names';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+} from './code-entities';
+
+// Built-in scalars where GraphQL has one, custom scalars for the rest
+const graphqlScalars: Record<DataTypeCategory, string | undefined> = {
+    string: 'String',
+    uuid: 'UUID',
+    integer: 'Int',
+    bigint: 'BigInt',
+    float: 'Float',
+    decimal: 'Decimal',
+    boolean: 'Boolean',
+    date: 'Date',
+    time: 'Time',
+    datetime: 'DateTime',
+    json: 'JSON',
+    binary: 'Bytes',
+    unknown: undefined,
+};
+
+const builtInScalars = ['String', 'Int', 'Float', 'Boolean', 'ID'];
+
+// Types the dialect has no category for become a scalar of their own, e.g. geometry becomes Geometry
+const graphqlScalar = (field: DBField, scalars: Set<string>): string => {
+    const typeName = field.type.name.replace(/\[\]$/, '');
+    const scalar =
+        graphqlScalars[dataTypeCategory(typeName)] ??
+        (toPascalCase(typeName) || 'String');
+
+    if (!builtInScalars.includes(scalar)) {
+        scalars.add(scalar);
+    }
+
+    return scalar;
+};
+
+const description = (comments: string, indent: string): string =>
+    comments.includes('\n')
+        ? `${indent}"""\n${comments
+              .replace(/"""/g, '\\"""')
+              .split('\n')
+              .map((line) => `${indent}${line}`.trimEnd())
+              .join('\n')}\n${indent}"""`
+        : `${indent}${JSON.stringify(comments)}`;
+
+const exportField = (
+    entity: CodeEntity,
+    field: DBField,
+    scalars: Set<string>
+): string => {
+    const scalar = graphqlScalar(field, scalars);
+    const type = isArrayDataType(field.type.name) ? `[${scalar}]` : scalar;
+    const nonNull = !field.nullable || field.primaryKey ? '!' : '';
+    const line = `  ${entity.properties.get(field.id)}: ${type}${nonNull}`;
+
+    return field.comments
+        ? `${description(field.comments, '  ')}\n${line}`
+        : line;
+};
+
+// Lists for the "many" side of each relationship, an object for the "one" side
+const exportRelation = (relation: CodeRelation): string => {
+    const target = relation.target.className;
+
+    switch (relation.kind) {
+        case 'one_to_many':
+        case 'many_to_many':
+            return `  ${relation.name}: [${target}!]!`;
+        default:
+            return `  ${relation.name}: ${target}${relation.owner && !relation.nullable ? '!' : ''}`;
+    }
+};
+
+const exportType = (entity: CodeEntity, scalars: Set<string>): string => {
+    const fields = [
+        ...entity.table.fields.map((field) =>
+            exportField(entity, field, scalars)
+        ),
+        ...entity.relations.map(exportRelation),
+    ];
+    const type = `type ${entity.className} {\n${fields.join('\n')}\n}`;
+
+    return entity.table.comments
+        ? `${description(entity.table.comments, '')}\n${type}`
+        : type;
+};
+
+// Builds GraphQL object types for the diagram tables, with fields following both sides of every relationship
+export const exportGraphQL = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram, {
+        className: toPascalCase,
+        propertyName: toCamelCase,
+    });
+
+    if (entities.length === 0) {
+        return [];
+    }
+
+    const scalars = new Set<string>();
+    const types = entities.map((entity) => exportType(entity, scalars));
+
+    return [
+        {
+            path: 'schema.graphql',
+            content: `${[
+                ...(scalars.size > 0
+                    ? [
+                          [...scalars]
+                              .sort()
+                              .map((scalar) => `scalar ${scalar}`)
+                              .join('\n'),
+                      ]
+                    : []),
+                ...types,
+            ].join('\n\n')}\n`,
+        },
+    ];
+};
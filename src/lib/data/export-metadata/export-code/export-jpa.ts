@@ -0,0 +1,542 @@
+import {
+    dataTypeCategory,
+    DataTypeCategory,
+    isArrayDataType,
+} from '@/lib/data/data-types';
+import { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toCamelCase, toPascalCase, uniqueName } from '../code-names';
+import { isAutoIncrementField } from '../export-sql-script';
+import { quoteIdentifier } from '../sql-dialects';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+    fieldDefaultSql,
+    hasUniqueIndex,
+    joinTable,
+} from './code-entities';
+
+const javaReservedNames = [
+    'abstract',
+    'assert',
+    'boolean',
+    'break',
+    'byte',
+    'case',
+    'catch',
+    'char',
+    'class',
+    'const',
+    'continue',
+    'default',
+    'do',
+    'double',
+    'else',
+    'enum',
+    'extends',
+    'false',
+    'final',
+    'finally',
+    'float',
+    'for',
+    'goto',
+    'if',
+    'implements',
+    'import',
+    'instanceof',
+    'int',
+    'interface',
+    'long',
+    'native',
+    'new',
+    'null',
+    'package',
+    'private',
+    'protected',
+    'public',
+    'return',
+    'short',
+    'static',
+    'strictfp',
+    'super',
+    'switch',
+    'synchronized',
+    'this',
+    'throw',
+    'throws',
+    'transient',
+    'true',
+    'try',
+    'void',
+    'volatile',
+    'while',
+];
+
+const javaString = (value: string): string =>
+    `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Writes an annotation on one line, or one element per line when it gets long
+const javaAnnotation = (
+    name: string,
+    elements: [string, string][],
+    indent: string
+): string => {
+    if (elements.length === 0) {
+        return `@${name}`;
+    }
+
+    const values = elements.map(([key, value]) => `${key} = ${value}`);
+    const inline = `@${name}(${values.join(', ')})`;
+
+    return inline.length + indent.length <= 100
+        ? inline
+        : `@${name}(\n${values.map((value) => `${indent}    ${value}`).join(',\n')}\n${indent})`;
+};
+
+const javaTypes: Record<DataTypeCategory, string> = {
+    string: 'String',
+    uuid: 'java.util.UUID',
+    integer: 'Integer',
+    bigint: 'Long',
+    float: 'Double',
+    decimal: 'java.math.BigDecimal',
+    boolean: 'Boolean',
+    date: 'java.time.LocalDate',
+    time: 'java.time.LocalTime',
+    datetime: 'java.time.LocalDateTime',
+    json: 'String',
+    binary: 'byte[]',
+    unknown: 'String',
+};
+
+interface JavaClassContext {
+    imports: Set<string>;
+    databaseType: DatabaseType;
+}
+
+// Hibernate passes names to the database as they are, names that need quoting get quotes it understands
+const sqlName = (context: JavaClassContext, name: string): string => {
+    if (quoteIdentifier(name, context.databaseType) === name) {
+        return name;
+    }
+
+    return context.databaseType === DatabaseType.MYSQL ||
+        context.databaseType === DatabaseType.MARIADB
+        ? quoteIdentifier(name, context.databaseType)
+        : `"${name.replace(/"/g, '""')}"`;
+};
+
+const sqlNameString = (context: JavaClassContext, name: string): string =>
+    javaString(sqlName(context, name));
+
+// Records the import of a qualified class name and returns its simple name
+const javaImport = (context: JavaClassContext, name: string): string => {
+    const simpleName = name.slice(name.lastIndexOf('.') + 1);
+
+    if (name.includes('.')) {
+        context.imports.add(name);
+    }
+
+    return simpleName;
+};
+
+const persistence = (context: JavaClassContext, name: string) =>
+    javaImport(context, `jakarta.persistence.${name}`);
+
+const javaType = (context: JavaClassContext, field: DBField): string => {
+    const category = dataTypeCategory(field.type.name);
+    const type = javaImport(
+        context,
+        category === 'datetime' &&
+            /tz|with time zone|offset/i.test(field.type.name)
+            ? 'java.time.OffsetDateTime'
+            : javaTypes[category]
+    );
+
+    return isArrayDataType(field.type.name) ? `${type}[]` : type;
+};
+
+interface JavaMember {
+    annotations: string[];
+    type: string;
+    name: string;
+    initializer?: string;
+}
+
+const exportColumn = (
+    context: JavaClassContext,
+    entity: CodeEntity,
+    field: DBField
+): JavaMember => {
+    const primaryKeys = entity.table.fields.filter((f) => f.primaryKey);
+    const generated =
+        primaryKeys.length === 1 &&
+        field.primaryKey &&
+        isAutoIncrementField(field);
+    const category = dataTypeCategory(field.type.name);
+    const annotations: string[] = [];
+    const elements: [string, string][] = [
+        ['name', sqlNameString(context, field.name)],
+    ];
+
+    if (field.primaryKey) {
+        annotations.push(`@${persistence(context, 'Id')}`);
+    }
+
+    if (generated) {
+        annotations.push(
+            `@${persistence(context, 'GeneratedValue')}(strategy = ${persistence(context, 'GenerationType')}.IDENTITY)`
+        );
+    }
+
+    if (!field.nullable) {
+        elements.push(['nullable', 'false']);
+    }
+
+    if (
+        field.unique &&
+        !field.primaryKey &&
+        !hasUniqueIndex(entity.table, field)
+    ) {
+        elements.push(['unique', 'true']);
+    }
+
+    if (
+        category === 'string' &&
+        /^\d+$/.test(field.characterMaximumLength ?? '')
+    ) {
+        elements.push(['length', field.characterMaximumLength!]);
+    }
+
+    if (category === 'decimal' && field.precision) {
+        elements.push(['precision', `${field.precision}`]);
+
+        if (field.scale !== undefined) {
+            elements.push(['scale', `${field.scale}`]);
+        }
+    }
+
+    // Types without a Java counterpart keep their database definition
+    if (category === 'unknown') {
+        elements.push(['columnDefinition', javaString(field.type.name)]);
+    }
+
+    annotations.push(
+        javaAnnotation(persistence(context, 'Column'), elements, '    ')
+    );
+
+    const defaultValue = generated ? undefined : fieldDefaultSql(field);
+
+    if (defaultValue) {
+        annotations.push(
+            `@${javaImport(context, 'org.hibernate.annotations.ColumnDefault')}(${javaString(defaultValue)})`
+        );
+    }
+
+    if (field.comments) {
+        annotations.push(
+            `@${javaImport(context, 'org.hibernate.annotations.Comment')}(${javaString(field.comments)})`
+        );
+    }
+
+    return {
+        annotations,
+        type: javaType(context, field),
+        name: entity.properties.get(field.id)!,
+    };
+};
+
+const relationAnnotations: Record<CodeRelation['kind'], string> = {
+    many_to_one: 'ManyToOne',
+    one_to_many: 'OneToMany',
+    one_to_one: 'OneToOne',
+    many_to_many: 'ManyToMany',
+};
+
+const exportRelation = (
+    context: JavaClassContext,
+    entity: CodeEntity,
+    relation: CodeRelation
+): JavaMember => {
+    const target = relation.target.className;
+    const annotations: string[] = [];
+    const collection =
+        relation.kind === 'one_to_many' || relation.kind === 'many_to_many';
+    const annotation = persistence(context, relationAnnotations[relation.kind]);
+
+    if (!relation.owner) {
+        annotations.push(
+            `@${annotation}(mappedBy = ${javaString(relation.inverseName)})`
+        );
+    } else if (relation.kind === 'many_to_many') {
+        const table = joinTable(entity, relation);
+        const joinColumn = persistence(context, 'JoinColumn');
+
+        annotations.push(
+            `@${annotation}`,
+            javaAnnotation(
+                persistence(context, 'JoinTable'),
+                [
+                    ['name', sqlNameString(context, table.name)],
+                    [
+                        'joinColumns',
+                        `@${joinColumn}(name = ${sqlNameString(context, table.ownerColumn)})`,
+                    ],
+                    [
+                        'inverseJoinColumns',
+                        `@${joinColumn}(name = ${sqlNameString(context, table.targetColumn)})`,
+                    ],
+                ],
+                '    '
+            )
+        );
+    } else {
+        const elements: [string, string][] = [
+            ['name', sqlNameString(context, relation.field.name)],
+        ];
+
+        if (!relation.referencedField.primaryKey) {
+            elements.push([
+                'referencedColumnName',
+                sqlNameString(context, relation.referencedField.name),
+            ]);
+        }
+
+        if (!relation.nullable) {
+            elements.push(['nullable', 'false']);
+        }
+
+        // Key columns are written through their own @Id field
+        if (relation.field.primaryKey) {
+            elements.push(['insertable', 'false'], ['updatable', 'false']);
+        }
+
+        annotations.push(
+            javaAnnotation(
+                annotation,
+                [
+                    ['fetch', `${persistence(context, 'FetchType')}.LAZY`],
+                    ...(relation.nullable
+                        ? []
+                        : ([['optional', 'false']] as [string, string][])),
+                ],
+                '    '
+            ),
+            javaAnnotation(persistence(context, 'JoinColumn'), elements, '    ')
+        );
+
+        if (relation.field.comments) {
+            annotations.push(
+                `@${javaImport(context, 'org.hibernate.annotations.Comment')}(${javaString(relation.field.comments)})`
+            );
+        }
+    }
+
+    if (collection) {
+        return {
+            annotations,
+            type: `${javaImport(context, 'java.util.List')}<${target}>`,
+            name: relation.name,
+            initializer: `new ${javaImport(context, 'java.util.ArrayList')}<>()`,
+        };
+    }
+
+    return { annotations, type: target, name: relation.name };
+};
+
+const accessors = ({ type, name }: JavaMember): string => {
+    const suffix = name.charAt(0).toUpperCase() + name.slice(1);
+
+    return `    public ${type} get${suffix}() {
+        return ${name};
+    }
+
+    public void set${suffix}(${type} ${name}) {
+        this.${name} = ${name};
+    }`;
+};
+
+const javaClass = (
+    context: JavaClassContext,
+    annotations: string[],
+    declaration: string,
+    members: JavaMember[],
+    extra: string[] = []
+): string => {
+    const fields = members.map(({ annotations, type, name, initializer }) =>
+        [
+            ...annotations.map((annotation) => `    ${annotation}`),
+            `    private ${type} ${name}${initializer ? ` = ${initializer}` : ''};`,
+        ].join('\n')
+    );
+    const imports = [...context.imports].sort();
+
+    return `${imports.map((name) => `import ${name};`).join('\n')}
+
+${[...annotations, declaration].join('\n')} {
+${[...fields, ...extra, ...members.map(accessors)].join('\n\n')}
+}
+`;
+};
+
+// Composite keys are declared with @IdClass, which needs a class holding the key fields
+const exportIdClass = (
+    entity: CodeEntity,
+    idClassName: string,
+    databaseType: DatabaseType
+): CodeFile => {
+    const context: JavaClassContext = { imports: new Set(), databaseType };
+    const members = entity.table.fields
+        .filter((field) => field.primaryKey)
+        .map((field) => ({
+            annotations: [],
+            type: javaType(context, field),
+            name: entity.properties.get(field.id)!,
+        }));
+    const serializable = javaImport(context, 'java.io.Serializable');
+    const objects = javaImport(context, 'java.util.Objects');
+    const equals = `    @Override
+    public boolean equals(Object o) {
+        if (this == o) return true;
+        if (!(o instanceof ${idClassName} other)) return false;
+        return ${members.map(({ name }) => `${objects}.equals(${name}, other.${name})`).join('\n            && ')};
+    }
+
+    @Override
+    public int hashCode() {
+        return ${objects}.hash(${members.map(({ name }) => name).join(', ')});
+    }`;
+
+    return {
+        path: `${idClassName}.java`,
+        content: javaClass(
+            context,
+            [],
+            `public class ${idClassName} implements ${serializable}`,
+            members,
+            [equals]
+        ),
+    };
+};
+
+const exportEntity = (
+    entity: CodeEntity,
+    databaseType: DatabaseType,
+    idClassName?: string
+): CodeFile => {
+    const { table } = entity;
+    const context: JavaClassContext = { imports: new Set(), databaseType };
+    const tableElements: [string, string][] = [
+        ['name', sqlNameString(context, table.name)],
+    ];
+
+    if (entity.schema) {
+        tableElements.push(['schema', sqlNameString(context, entity.schema)]);
+    }
+
+    const indexes = table.indexes
+        .map((index) => {
+            const columns = index.fieldIds
+                .map((fieldId) => table.fields.find((f) => f.id === fieldId))
+                .filter((field): field is DBField => !!field)
+                .map((field) => sqlName(context, field.name));
+
+            return columns.length > 0
+                ? javaAnnotation(
+                      persistence(context, 'Index'),
+                      [
+                          ['name', javaString(index.name)],
+                          ['columnList', javaString(columns.join(', '))],
+                          ...(index.unique
+                              ? ([['unique', 'true']] as [string, string][])
+                              : []),
+                      ],
+                      '        '
+                  )
+                : undefined;
+        })
+        .filter((index): index is string => !!index);
+
+    if (indexes.length > 0) {
+        tableElements.push([
+            'indexes',
+            `{\n${indexes.map((index) => `        ${index}`).join(',\n')}\n    }`,
+        ]);
+    }
+
+    const annotations = [
+        `@${persistence(context, 'Entity')}`,
+        indexes.length > 0
+            ? `@${persistence(context, 'Table')}(\n${tableElements.map(([key, value]) => `    ${key} = ${value}`).join(',\n')}\n)`
+            : javaAnnotation(persistence(context, 'Table'), tableElements, ''),
+    ];
+
+    if (idClassName) {
+        annotations.push(
+            `@${persistence(context, 'IdClass')}(${idClassName}.class)`
+        );
+    }
+
+    if (table.comments) {
+        annotations.push(
+            `@${javaImport(context, 'org.hibernate.annotations.Comment')}(${javaString(table.comments)})`
+        );
+    }
+
+    // Foreign key columns are mapped by their relation, unless they are part of the key
+    const members = [
+        ...table.fields
+            .filter(
+                (field) =>
+                    field.primaryKey ||
+                    !entity.relations.some(
+                        (relation) =>
+                            relation.owner &&
+                            relation.kind !== 'many_to_many' &&
+                            relation.field.id === field.id
+                    )
+            )
+            .map((field) => exportColumn(context, entity, field)),
+        ...entity.relations.map((relation) =>
+            exportRelation(context, entity, relation)
+        ),
+    ];
+
+    return {
+        path: `${entity.className}.java`,
+        content: javaClass(
+            context,
+            annotations,
+            `public class ${entity.className}`,
+            members
+        ),
+    };
+};
+
+// Builds JPA entity classes, mapped with Jakarta Persistence and Hibernate annotations
+export const exportJPA = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram, {
+        className: toPascalCase,
+        propertyName: toCamelCase,
+        reservedNames: javaReservedNames,
+    });
+    const classNames = new Set(entities.map((entity) => entity.className));
+
+    return entities.flatMap((entity) => {
+        if (
+            entity.table.fields.filter((field) => field.primaryKey).length < 2
+        ) {
+            return [exportEntity(entity, diagram.databaseType)];
+        }
+
+        const idClassName = uniqueName(`${entity.className}Id`, classNames);
+
+        return [
+            exportEntity(entity, diagram.databaseType, idClassName),
+            exportIdClass(entity, idClassName, diagram.databaseType),
+        ];
+    });
+};
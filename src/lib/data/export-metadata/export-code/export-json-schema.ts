@@ -0,0 +1,149 @@
+import {
+    dataTypeCategory,
+    DataTypeCategory,
+    isArrayDataType,
+} from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toPascalCase } from '../code-names';
+import { buildCodeEntities, CodeEntity, CodeFile } from './code-entities';
+
+type JSONSchema = { [key: string]: unknown };
+
+// Types without a JSON equivalent accept any value
+const jsonSchemaTypes: Record<
+    DataTypeCategory,
+    { type?: string; format?: string; contentEncoding?: string }
+> = {
+    string: { type: 'string' },
+    uuid: { type: 'string', format: 'uuid' },
+    integer: { type: 'integer' },
+    bigint: { type: 'integer' },
+    float: { type: 'number' },
+    decimal: { type: 'number' },
+    boolean: { type: 'boolean' },
+    date: { type: 'string', format: 'date' },
+    time: { type: 'string', format: 'time' },
+    datetime: { type: 'string', format: 'date-time' },
+    json: {},
+    binary: { type: 'string', contentEncoding: 'base64' },
+    unknown: {},
+};
+
+const fieldSchema = (field: DBField): JSONSchema => {
+    const scalar: JSONSchema = {
+        ...jsonSchemaTypes[dataTypeCategory(field.type.name)],
+    };
+
+    if (
+        scalar.type === 'string' &&
+        !scalar.format &&
+        /^\d+$/.test(field.characterMaximumLength ?? '')
+    ) {
+        scalar.maxLength = Number(field.characterMaximumLength);
+    }
+
+    const schema: JSONSchema = isArrayDataType(field.type.name)
+        ? { type: 'array', items: scalar }
+        : scalar;
+    const nullable = field.nullable && !field.primaryKey;
+
+    return {
+        ...schema,
+        ...(nullable && typeof schema.type === 'string'
+            ? { type: [schema.type, 'null'] }
+            : {}),
+        ...(field.comments ? { description: field.comments } : {}),
+    };
+};
+
+// Foreign keys also get a property linking to the schema of the referenced table
+const entitySchema = (
+    entity: CodeEntity,
+    ref: (entity: CodeEntity) => string
+): JSONSchema => {
+    const properties: JSONSchema = Object.fromEntries(
+        entity.table.fields.map((field) => [field.name, fieldSchema(field)])
+    );
+
+    entity.relations
+        .filter(
+            (relation) =>
+                relation.owner &&
+                (relation.kind === 'many_to_one' ||
+                    relation.kind === 'one_to_one')
+        )
+        .forEach((relation) => {
+            properties[relation.name] = {
+                $ref: ref(relation.target),
+                description: `The ${relation.target.table.name} row referenced by ${relation.field.name}`,
+            };
+        });
+
+    const required = entity.table.fields
+        .filter((field) => !field.nullable || field.primaryKey)
+        .map((field) => field.name);
+
+    return {
+        title: entity.table.name,
+        ...(entity.table.comments
+            ? { description: entity.table.comments }
+            : {}),
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+    };
+};
+
+const jsonFile = (path: string, content: unknown): CodeFile => ({
+    path,
+    content: `${JSON.stringify(content, null, 2)}\n`,
+});
+
+// Relation properties are named after the foreign key, e.g. author for author_id
+const buildEntities = (diagram: Diagram) =>
+    buildCodeEntities(diagram, {
+        className: toPascalCase,
+        propertyName: (name) => name,
+    });
+
+const schemaFileName = (entity: CodeEntity) =>
+    `${entity.className}.schema.json`;
+
+// Builds a JSON Schema (draft 2020-12) document per table
+export const exportJSONSchema = (diagram: Diagram): CodeFile[] =>
+    buildEntities(diagram).map((entity) =>
+        jsonFile(schemaFileName(entity), {
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            $id: schemaFileName(entity),
+            ...entitySchema(entity, schemaFileName),
+        })
+    );
+
+// Builds an OpenAPI 3.1 document holding a components schema per table
+export const exportOpenAPI = (diagram: Diagram): CodeFile[] => {
+    const entities = buildEntities(diagram);
+
+    if (entities.length === 0) {
+        return [];
+    }
+
+    return [
+        jsonFile('openapi.json', {
+            openapi: '3.1.0',
+            info: { title: diagram.name, version: '1.0.0' },
+            components: {
+                schemas: Object.fromEntries(
+                    entities.map((entity) => [
+                        entity.className,
+                        entitySchema(
+                            entity,
+                            (target) =>
+                                `#/components/schemas/${target.className}`
+                        ),
+                    ])
+                ),
+            },
+        }),
+    ];
+};
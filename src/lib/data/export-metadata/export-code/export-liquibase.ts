@@ -0,0 +1,313 @@
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toSnakeCase, uniqueName } from '../code-names';
+import {
+    isAutoIncrementField,
+    isForeignKeyRelationship,
+} from '../export-sql-script';
+import {
+    CodeFile,
+    columnType,
+    fieldDefault,
+    hasUniqueIndex,
+} from './code-entities';
+
+type ChangeValue = string | number | boolean;
+
+type ChangeAttributes = Record<string, ChangeValue | undefined>;
+
+interface ChangeColumn {
+    attributes: ChangeAttributes;
+    constraints?: ChangeAttributes;
+}
+
+interface Change {
+    type:
+        | 'createTable'
+        | 'setTableRemarks'
+        | 'createIndex'
+        | 'addForeignKeyConstraint';
+    attributes: ChangeAttributes;
+    columns?: ChangeColumn[];
+}
+
+interface ChangeSet {
+    id: string;
+    change: Change;
+}
+
+const author = 'chartdb';
+
+// Literal defaults keep their type, anything else is passed to the database as is
+const defaultAttributes = (field: DBField): ChangeAttributes => {
+    const value = fieldDefault(field);
+
+    switch (value?.kind) {
+        case 'string':
+            return { defaultValue: value.value };
+        case 'number':
+            return { defaultValueNumeric: value.value };
+        case 'boolean':
+            return { defaultValueBoolean: value.value };
+        case 'expression':
+            return { defaultValueComputed: value.value };
+        default:
+            return {};
+    }
+};
+
+const createTableColumn = (table: DBTable, field: DBField): ChangeColumn => {
+    const autoIncrement = isAutoIncrementField(field);
+    const constraints: ChangeAttributes = {
+        primaryKey: field.primaryKey || undefined,
+        nullable: !field.nullable || field.primaryKey ? false : undefined,
+        unique:
+            field.unique && !field.primaryKey && !hasUniqueIndex(table, field)
+                ? true
+                : undefined,
+    };
+
+    return {
+        attributes: {
+            name: field.name,
+            type: columnType(field),
+            autoIncrement: autoIncrement || undefined,
+            ...(autoIncrement ? {} : defaultAttributes(field)),
+            remarks: field.comments || undefined,
+        },
+        constraints: Object.values(constraints).some(
+            (value) => value !== undefined
+        )
+            ? constraints
+            : undefined,
+    };
+};
+
+// Changeset ids come from object names, so exporting the same diagram again gives the same ids
+const buildChangeSets = (diagram: Diagram): ChangeSet[] => {
+    const tables = (diagram.tables ?? []).filter((table) => !table.isView);
+    const defaultSchema = defaultSchemas[diagram.databaseType];
+    const schemaName = (schema?: string) =>
+        schema && schema !== defaultSchema ? schema : undefined;
+    const tableAttributes = (table: DBTable) => ({
+        schemaName: schemaName(table.schema),
+        tableName: table.name,
+    });
+    const usedIds = new Set<string>();
+    const changeSets: ChangeSet[] = [];
+    const addChangeSet = (id: string, change: Change) =>
+        changeSets.push({
+            id: uniqueName(toSnakeCase(id).replace(/_/g, '-'), usedIds),
+            change,
+        });
+    const tableId = (table: DBTable) =>
+        [schemaName(table.schema), table.name].filter(Boolean).join('-');
+
+    tables.forEach((table) => {
+        addChangeSet(`create-table-${tableId(table)}`, {
+            type: 'createTable',
+            attributes: tableAttributes(table),
+            columns: table.fields.map((field) =>
+                createTableColumn(table, field)
+            ),
+        });
+
+        if (table.comments) {
+            addChangeSet(`set-table-remarks-${tableId(table)}`, {
+                type: 'setTableRemarks',
+                attributes: {
+                    ...tableAttributes(table),
+                    remarks: table.comments,
+                },
+            });
+        }
+    });
+
+    tables.forEach((table) => {
+        table.indexes.forEach((index) => {
+            const fields = index.fieldIds
+                .map((fieldId) =>
+                    table.fields.find((field) => field.id === fieldId)
+                )
+                .filter((field): field is DBField => !!field);
+
+            if (fields.length === 0) {
+                return;
+            }
+
+            addChangeSet(`create-index-${tableId(table)}-${index.name}`, {
+                type: 'createIndex',
+                attributes: {
+                    indexName: index.name,
+                    ...tableAttributes(table),
+                    unique: index.unique || undefined,
+                },
+                columns: fields.map((field) => ({
+                    attributes: { name: field.name },
+                })),
+            });
+        });
+    });
+
+    (diagram.relationships ?? []).forEach((relationship) => {
+        const sourceTable = tables.find(
+            (table) => table.id === relationship.sourceTableId
+        );
+        const targetTable = tables.find(
+            (table) => table.id === relationship.targetTableId
+        );
+        const sourceField = sourceTable?.fields.find(
+            (field) => field.id === relationship.sourceFieldId
+        );
+        const targetField = targetTable?.fields.find(
+            (field) => field.id === relationship.targetFieldId
+        );
+
+        if (
+            !sourceTable ||
+            !targetTable ||
+            !sourceField ||
+            !targetField ||
+            !isForeignKeyRelationship(relationship)
+        ) {
+            return;
+        }
+
+        const constraintName =
+            relationship.name || `fk_${sourceTable.name}_${sourceField.name}`;
+
+        addChangeSet(
+            `add-foreign-key-${tableId(sourceTable)}-${constraintName}`,
+            {
+                type: 'addForeignKeyConstraint',
+                attributes: {
+                    constraintName,
+                    baseTableSchemaName: schemaName(sourceTable.schema),
+                    baseTableName: sourceTable.name,
+                    baseColumnNames: sourceField.name,
+                    referencedTableSchemaName: schemaName(targetTable.schema),
+                    referencedTableName: targetTable.name,
+                    referencedColumnNames: targetField.name,
+                },
+            }
+        );
+    });
+
+    return changeSets;
+};
+
+const definedAttributes = (attributes: ChangeAttributes) =>
+    Object.entries(attributes).filter(
+        (entry): entry is [string, ChangeValue] => entry[1] !== undefined
+    );
+
+// Plain scalars only when YAML can't read them as something else, e.g. yes or 1.0
+const yamlValue = (value: ChangeValue): string =>
+    typeof value !== 'string' ||
+    (/^[A-Za-z_][\w ().,-]*$/.test(value) &&
+        !/\s$/.test(value) &&
+        !/^(true|false|yes|no|on|off|y|n|null)$/i.test(value))
+        ? `${value}`
+        : JSON.stringify(value);
+
+const yamlAttributes = (attributes: ChangeAttributes, indent: string) =>
+    definedAttributes(attributes).map(
+        ([key, value]) => `${indent}${key}: ${yamlValue(value)}`
+    );
+
+const yamlColumn = (column: ChangeColumn): string[] => [
+    '              - column:',
+    ...yamlAttributes(column.attributes, '                  '),
+    ...(column.constraints
+        ? [
+              '                  constraints:',
+              ...yamlAttributes(column.constraints, '                    '),
+          ]
+        : []),
+];
+
+const yamlChangeSet = ({ id, change }: ChangeSet): string =>
+    [
+        '  - changeSet:',
+        `      id: ${yamlValue(id)}`,
+        `      author: ${author}`,
+        '      changes:',
+        `        - ${change.type}:`,
+        ...yamlAttributes(change.attributes, '            '),
+        ...(change.columns
+            ? ['            columns:', ...change.columns.flatMap(yamlColumn)]
+            : []),
+    ].join('\n');
+
+const escapeXML = (value: ChangeValue): string =>
+    `${value}`
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\r?\n/g, '&#10;');
+
+const xmlAttributes = (attributes: ChangeAttributes) =>
+    definedAttributes(attributes)
+        .map(([key, value]) => ` ${key}="${escapeXML(value)}"`)
+        .join('');
+
+const xmlColumn = (column: ChangeColumn): string =>
+    column.constraints
+        ? `            <column${xmlAttributes(column.attributes)}>
+                <constraints${xmlAttributes(column.constraints)}/>
+            </column>`
+        : `            <column${xmlAttributes(column.attributes)}/>`;
+
+const xmlChangeSet = ({ id, change }: ChangeSet): string => {
+    const element = change.columns
+        ? `        <${change.type}${xmlAttributes(change.attributes)}>
+${change.columns.map(xmlColumn).join('\n')}
+        </${change.type}>`
+        : `        <${change.type}${xmlAttributes(change.attributes)}/>`;
+
+    return `    <changeSet id="${escapeXML(id)}" author="${author}">
+${element}
+    </changeSet>`;
+};
+
+// Builds a Liquibase YAML changelog creating the diagram tables, indexes and foreign keys
+export const exportLiquibaseYAML = (diagram: Diagram): CodeFile[] => {
+    const changeSets = buildChangeSets(diagram);
+
+    if (changeSets.length === 0) {
+        return [];
+    }
+
+    return [
+        {
+            path: 'db.changelog-master.yaml',
+            content: `databaseChangeLog:\n${changeSets.map(yamlChangeSet).join('\n')}\n`,
+        },
+    ];
+};
+
+// Builds the same changelog as XML
+export const exportLiquibaseXML = (diagram: Diagram): CodeFile[] => {
+    const changeSets = buildChangeSets(diagram);
+
+    if (changeSets.length === 0) {
+        return [];
+    }
+
+    return [
+        {
+            path: 'db.changelog-master.xml',
+            content: `<?xml version="1.0" encoding="UTF-8"?>
+<databaseChangeLog
+    xmlns="http://www.liquibase.org/xml/ns/dbchangelog"
+    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+    xsi:schemaLocation="http://www.liquibase.org/xml/ns/dbchangelog http://www.liquibase.org/xml/ns/dbchangelog/dbchangelog-latest.xsd">
+${changeSets.map(xmlChangeSet).join('\n\n')}
+</databaseChangeLog>
+`,
+        },
+    ];
+};
@@ -0,0 +1,265 @@
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { isAutoIncrementField } from '../export-sql-script';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+    columnType,
+    fieldDefault,
+    hasUniqueIndex,
+} from './code-entities';
+import {
+    typescriptImports,
+    typescriptIndexFile,
+    typescriptObject,
+    typescriptString,
+    typescriptType,
+} from './typescript-code';
+
+const relationDecorators: Record<CodeRelation['kind'], string> = {
+    many_to_one: 'ManyToOne',
+    one_to_many: 'OneToMany',
+    one_to_one: 'OneToOne',
+    many_to_many: 'ManyToMany',
+};
+
+// Foreign key columns are mapped by their relation instead of a scalar property
+const owningRelation = (entity: CodeEntity, field: DBField) =>
+    entity.relations.find(
+        (relation) =>
+            relation.owner &&
+            relation.kind !== 'many_to_many' &&
+            relation.field.id === field.id
+    );
+
+const propertyName = (entity: CodeEntity, field: DBField) =>
+    owningRelation(entity, field)?.name ?? entity.properties.get(field.id)!;
+
+const defaultOption = (field: DBField): [string, string] | undefined => {
+    const value = fieldDefault(field);
+
+    switch (value?.kind) {
+        case 'string':
+            return ['default', typescriptString(value.value)];
+        case 'number':
+        case 'boolean':
+            return ['default', `${value.value}`];
+        case 'expression':
+            return ['defaultRaw', typescriptString(value.value)];
+        default:
+            return undefined;
+    }
+};
+
+const exportProperty = (
+    entity: CodeEntity,
+    field: DBField,
+    decorators: Set<string>
+): string => {
+    const primaryKeys = entity.table.fields.filter((f) => f.primaryKey);
+    const autoIncrement =
+        primaryKeys.length === 1 &&
+        field.primaryKey &&
+        isAutoIncrementField(field);
+    const decorator = field.primaryKey ? 'PrimaryKey' : 'Property';
+    const options: [string, string][] = [
+        ['fieldName', typescriptString(field.name)],
+        ['columnType', typescriptString(columnType(field))],
+    ];
+
+    if (autoIncrement) {
+        options.push(['autoincrement', 'true']);
+    }
+
+    if (field.nullable && !field.primaryKey) {
+        options.push(['nullable', 'true']);
+    }
+
+    if (
+        field.unique &&
+        !field.primaryKey &&
+        !hasUniqueIndex(entity.table, field)
+    ) {
+        options.push(['unique', 'true']);
+    }
+
+    const defaultValue = autoIncrement ? undefined : defaultOption(field);
+
+    if (defaultValue) {
+        options.push(defaultValue);
+    }
+
+    if (field.comments) {
+        options.push(['comment', typescriptString(field.comments)]);
+    }
+
+    decorators.add(decorator);
+
+    const name = entity.properties.get(field.id)!;
+    const type = typescriptType(field);
+
+    return [
+        `    @${decorator}(${typescriptObject(options, '    ')})`,
+        field.nullable && !field.primaryKey
+            ? `    ${name}?: ${type};`
+            : `    ${name}!: ${type};`,
+    ].join('\n');
+};
+
+const exportRelation = (
+    entity: CodeEntity,
+    relation: CodeRelation,
+    decorators: Set<string>
+): string => {
+    const decorator = relationDecorators[relation.kind];
+    const target = relation.target.className;
+    const options: [string, string][] = [['entity', `() => ${target}`]];
+
+    if (!relation.owner) {
+        options.push(['mappedBy', typescriptString(relation.inverseName)]);
+    } else if (relation.kind === 'many_to_many') {
+        options.push(
+            ['owner', 'true'],
+            ['inversedBy', typescriptString(relation.inverseName)],
+            [
+                'pivotTable',
+                typescriptString(
+                    `${entity.table.name}_${relation.target.table.name}`
+                ),
+            ]
+        );
+    } else {
+        if (relation.kind === 'one_to_one') {
+            options.push(['owner', 'true']);
+        }
+
+        options.push(
+            ['inversedBy', typescriptString(relation.inverseName)],
+            ['fieldName', typescriptString(relation.field.name)]
+        );
+
+        if (!relation.referencedField.primaryKey) {
+            options.push([
+                'referenceColumnName',
+                typescriptString(relation.referencedField.name),
+            ]);
+        }
+
+        if (relation.field.primaryKey) {
+            options.push(['primary', 'true']);
+        }
+
+        if (relation.nullable) {
+            options.push(['nullable', 'true']);
+        }
+    }
+
+    decorators.add(decorator);
+
+    const declaration =
+        relation.kind === 'one_to_many' || relation.kind === 'many_to_many'
+            ? `${relation.name} = new Collection<${target}>(this);`
+            : relation.nullable
+              ? `${relation.name}?: ${target};`
+              : `${relation.name}!: ${target};`;
+
+    if (declaration.includes('Collection')) {
+        decorators.add('Collection');
+    }
+
+    return [
+        `    @${decorator}(${typescriptObject(options, '    ')})`,
+        `    ${declaration}`,
+    ].join('\n');
+};
+
+const exportEntity = (entity: CodeEntity): CodeFile => {
+    const { table } = entity;
+    const decorators = new Set<string>(['Entity']);
+    const entityOptions: [string, string][] = [
+        ['tableName', typescriptString(table.name)],
+    ];
+
+    if (table.schema) {
+        entityOptions.push(['schema', typescriptString(table.schema)]);
+    }
+
+    if (table.comments) {
+        entityOptions.push(['comment', typescriptString(table.comments)]);
+    }
+
+    const classDecorators = [`@Entity(${typescriptObject(entityOptions, '')})`];
+
+    table.indexes.forEach((index) => {
+        const properties = index.fieldIds
+            .map((fieldId) => table.fields.find((f) => f.id === fieldId))
+            .filter((field): field is DBField => !!field)
+            .map((field) => propertyName(entity, field));
+
+        if (properties.length === 0) {
+            return;
+        }
+
+        const decorator = index.unique ? 'Unique' : 'Index';
+        decorators.add(decorator);
+        classDecorators.push(
+            `@${decorator}(${typescriptObject(
+                [
+                    ['name', typescriptString(index.name)],
+                    [
+                        'properties',
+                        `[${properties.map(typescriptString).join(', ')}]`,
+                    ],
+                ],
+                ''
+            )})`
+        );
+    });
+
+    const members = [
+        ...table.fields
+            .filter((field) => !owningRelation(entity, field))
+            .map((field) => exportProperty(entity, field, decorators)),
+        ...entity.relations.map((relation) =>
+            exportRelation(entity, relation, decorators)
+        ),
+    ];
+    const relatedClasses = [
+        ...new Set(
+            entity.relations
+                .map((relation) => relation.target.className)
+                .filter((className) => className !== entity.className)
+        ),
+    ].sort();
+
+    const imports = [
+        typescriptImports('@mikro-orm/core', decorators),
+        ...relatedClasses.map((className) =>
+            typescriptImports(`./${className}`, [className])
+        ),
+    ];
+
+    return {
+        path: `${entity.className}.ts`,
+        content: `${imports.join('\n')}
+
+${classDecorators.join('\n')}
+export class ${entity.className} {
+${members.join('\n\n')}
+}
+`,
+    };
+};
+
+export const exportMikroORM = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram);
+
+    return entities.length > 0
+        ? [
+              ...entities.map(exportEntity),
+              typescriptIndexFile(entities.map((entity) => entity.className)),
+          ]
+        : [];
+};
@@ -0,0 +1,416 @@
+import {
+    dataTypeCategory,
+    DataTypeCategory,
+    isArrayDataType,
+} from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toPascalCase, toSnakeCase, uniqueName } from '../code-names';
+import { isAutoIncrementField } from '../export-sql-script';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+    fieldDefault,
+    hasUniqueIndex,
+    joinTable,
+} from './code-entities';
+import {
+    pythonCall,
+    pythonImport,
+    pythonImportBlock,
+    PythonImports,
+    pythonReservedNames,
+    pythonString,
+} from './python-code';
+
+const pythonTypes: Record<DataTypeCategory, [module: string, name: string]> = {
+    string: ['', 'str'],
+    uuid: ['uuid', 'UUID'],
+    integer: ['', 'int'],
+    bigint: ['', 'int'],
+    float: ['', 'float'],
+    decimal: ['decimal', 'Decimal'],
+    boolean: ['', 'bool'],
+    date: ['datetime', 'date'],
+    time: ['datetime', 'time'],
+    datetime: ['datetime', 'datetime'],
+    json: ['typing', 'Any'],
+    binary: ['', 'bytes'],
+    unknown: ['typing', 'Any'],
+};
+
+const pythonType = (imports: PythonImports, field: DBField): string => {
+    const [module, name] = pythonTypes[dataTypeCategory(field.type.name)];
+    const type = module ? pythonImport(imports, module, name) : name;
+
+    return isArrayDataType(field.type.name) ? `list[${type}]` : type;
+};
+
+const sqlalchemyScalarType = (
+    imports: PythonImports,
+    field: DBField
+): string => {
+    const typeName = field.type.name.replace(/\[\]$/, '').toLowerCase();
+    const type = (name: string) => pythonImport(imports, 'sqlalchemy', name);
+
+    switch (dataTypeCategory(typeName)) {
+        case 'string':
+            return /^\d+$/.test(field.characterMaximumLength ?? '')
+                ? `${type('String')}(${field.characterMaximumLength})`
+                : /char|string/.test(typeName)
+                  ? type('String')
+                  : type('Text');
+        case 'uuid':
+            return type('Uuid');
+        case 'integer':
+            return /^(smallint|int2|tinyint|smallserial|serial2)$/.test(
+                typeName
+            )
+                ? type('SmallInteger')
+                : type('Integer');
+        case 'bigint':
+            return type('BigInteger');
+        case 'float':
+            return type('Float');
+        case 'decimal':
+            return field.precision
+                ? `${type('Numeric')}(${[field.precision, field.scale].filter((n) => n !== undefined).join(', ')})`
+                : type('Numeric');
+        case 'boolean':
+            return type('Boolean');
+        case 'date':
+            return type('Date');
+        case 'time':
+            return type('Time');
+        case 'datetime':
+            return /tz|with time zone|offset/.test(typeName)
+                ? `${type('DateTime')}(timezone=True)`
+                : type('DateTime');
+        case 'json':
+            return typeName === 'jsonb'
+                ? pythonImport(
+                      imports,
+                      'sqlalchemy.dialects.postgresql',
+                      'JSONB'
+                  )
+                : type('JSON');
+        case 'binary':
+            return type('LargeBinary');
+        default:
+            return pythonImport(imports, 'sqlalchemy.types', 'NullType') + '()';
+    }
+};
+
+const sqlalchemyType = (imports: PythonImports, field: DBField): string => {
+    const type = sqlalchemyScalarType(imports, field);
+
+    return isArrayDataType(field.type.name)
+        ? `${pythonImport(imports, 'sqlalchemy', 'ARRAY')}(${type})`
+        : type;
+};
+
+const serverDefault = (
+    imports: PythonImports,
+    field: DBField
+): string | undefined => {
+    const value = fieldDefault(field);
+
+    switch (value?.kind) {
+        case 'string':
+            return pythonString(value.value);
+        case 'number':
+        case 'expression':
+            return `${pythonImport(imports, 'sqlalchemy', 'text')}(${pythonString(value.value)})`;
+        case 'boolean':
+            return `${pythonImport(imports, 'sqlalchemy', 'text')}(${pythonString(`${value.value}`)})`;
+        default:
+            return undefined;
+    }
+};
+
+const qualifiedName = (entity: CodeEntity, name: string) =>
+    [entity.schema, entity.table.name, name].filter(Boolean).join('.');
+
+const exportColumn = (
+    imports: PythonImports,
+    entity: CodeEntity,
+    field: DBField
+): string => {
+    const primaryKeys = entity.table.fields.filter((f) => f.primaryKey);
+    const autoIncrement =
+        primaryKeys.length === 1 &&
+        field.primaryKey &&
+        isAutoIncrementField(field);
+    const name = entity.properties.get(field.id)!;
+    const args: string[] = [];
+
+    if (name !== field.name) {
+        args.push(pythonString(field.name));
+    }
+
+    args.push(sqlalchemyType(imports, field));
+
+    const relation = entity.relations.find(
+        (r) => r.owner && r.kind !== 'many_to_many' && r.field.id === field.id
+    );
+
+    if (relation) {
+        args.push(
+            `${pythonImport(imports, 'sqlalchemy', 'ForeignKey')}(${pythonString(
+                qualifiedName(relation.target, relation.referencedField.name)
+            )})`
+        );
+    }
+
+    if (field.primaryKey) {
+        args.push('primary_key=True');
+    }
+
+    if (autoIncrement) {
+        args.push('autoincrement=True');
+    }
+
+    if (
+        field.unique &&
+        !field.primaryKey &&
+        !hasUniqueIndex(entity.table, field)
+    ) {
+        args.push('unique=True');
+    }
+
+    const defaultValue = autoIncrement
+        ? undefined
+        : serverDefault(imports, field);
+
+    if (defaultValue) {
+        args.push(`server_default=${defaultValue}`);
+    }
+
+    if (field.comments) {
+        args.push(`comment=${pythonString(field.comments)}`);
+    }
+
+    const type = pythonType(imports, field);
+    const annotation =
+        field.nullable && !field.primaryKey
+            ? `Mapped[${pythonImport(imports, 'typing', 'Optional')}[${type}]]`
+            : `Mapped[${type}]`;
+
+    return `    ${pythonCall(`${name}: ${annotation} = mapped_column`, args, '    ')}`;
+};
+
+const exportRelationship = (
+    imports: PythonImports,
+    entity: CodeEntity,
+    relation: CodeRelation,
+    associationTables: Map<CodeRelation['relationship'], string>
+): string => {
+    const target = pythonString(relation.target.className);
+    const args = [`back_populates=${pythonString(relation.inverseName)}`];
+    let annotation: string;
+
+    if (relation.kind === 'one_to_many' || relation.kind === 'many_to_many') {
+        annotation = `Mapped[list[${target}]]`;
+    } else if (relation.owner && !relation.nullable) {
+        annotation = `Mapped[${target}]`;
+    } else {
+        annotation = `Mapped[${pythonImport(imports, 'typing', 'Optional')}[${target}]]`;
+    }
+
+    if (relation.kind === 'many_to_many') {
+        args.push(`secondary=${associationTables.get(relation.relationship)}`);
+    } else {
+        const owner = relation.owner ? entity : relation.target;
+
+        // Several foreign keys between the same tables need to be told apart
+        if (
+            entity.relations.filter(
+                (r) => r.target === relation.target && r.kind !== 'many_to_many'
+            ).length > 1
+        ) {
+            args.push(
+                `foreign_keys=${pythonString(`${owner.className}.${owner.properties.get(relation.field.id)}`)}`
+            );
+        }
+
+        if (relation.owner && relation.target === entity) {
+            args.push(
+                `remote_side=${pythonString(`${entity.className}.${entity.properties.get(relation.referencedField.id)}`)}`
+            );
+        }
+    }
+
+    return `    ${pythonCall(`${relation.name}: ${annotation} = relationship`, args, '    ')}`;
+};
+
+const exportTableArgs = (imports: PythonImports, entity: CodeEntity) => {
+    const { table } = entity;
+    const args = table.indexes
+        .map((index) => {
+            const columns = index.fieldIds
+                .map((fieldId) => table.fields.find((f) => f.id === fieldId))
+                .filter((field): field is DBField => !!field)
+                .map((field) => pythonString(field.name));
+
+            return columns.length > 0
+                ? pythonCall(
+                      pythonImport(imports, 'sqlalchemy', 'Index'),
+                      [
+                          pythonString(index.name),
+                          ...columns,
+                          ...(index.unique ? ['unique=True'] : []),
+                      ],
+                      '        '
+                  )
+                : undefined;
+        })
+        .filter((arg): arg is string => !!arg);
+    const options = [
+        ...(entity.schema ? [`"schema": ${pythonString(entity.schema)}`] : []),
+        ...(table.comments
+            ? [`"comment": ${pythonString(table.comments)}`]
+            : []),
+    ];
+
+    if (args.length === 0) {
+        return options.length > 0
+            ? `    __table_args__ = {${options.join(', ')}}`
+            : undefined;
+    }
+
+    if (options.length > 0) {
+        args.push(`{${options.join(', ')}}`);
+    }
+
+    return `    __table_args__ = (\n${args.map((arg) => `        ${arg},`).join('\n')}\n    )`;
+};
+
+const exportModel = (
+    imports: PythonImports,
+    entity: CodeEntity,
+    associationTables: Map<CodeRelation['relationship'], string>
+): string => {
+    const { table } = entity;
+    const header = [`    __tablename__ = ${pythonString(table.name)}`];
+    const tableArgs = exportTableArgs(imports, entity);
+
+    if (tableArgs) {
+        header.push(tableArgs);
+    }
+
+    const blocks = [
+        header.join('\n'),
+        table.fields
+            .map((field) => exportColumn(imports, entity, field))
+            .join('\n'),
+    ];
+
+    if (entity.relations.length > 0) {
+        blocks.push(
+            entity.relations
+                .map((relation) =>
+                    exportRelationship(
+                        imports,
+                        entity,
+                        relation,
+                        associationTables
+                    )
+                )
+                .join('\n')
+        );
+    }
+
+    return `class ${entity.className}(Base):\n${blocks.join('\n\n')}`;
+};
+
+const exportAssociationTable = (
+    imports: PythonImports,
+    relation: CodeRelation,
+    name: string,
+    owner: CodeEntity
+): string => {
+    const table = joinTable(owner, relation);
+    const column = (columnName: string, entity: CodeEntity, field: DBField) =>
+        pythonCall(
+            pythonImport(imports, 'sqlalchemy', 'Column'),
+            [
+                pythonString(columnName),
+                `${pythonImport(imports, 'sqlalchemy', 'ForeignKey')}(${pythonString(qualifiedName(entity, field.name))})`,
+                'primary_key=True',
+            ],
+            '    '
+        );
+
+    return `${name} = ${pythonImport(imports, 'sqlalchemy', 'Table')}(
+    ${pythonString(table.name)},
+    Base.metadata,
+    ${column(table.ownerColumn, owner, relation.field)},
+    ${column(table.targetColumn, relation.target, relation.referencedField)},
+)`;
+};
+
+// Builds SQLAlchemy 2.0 declarative models for the diagram tables
+export const exportSQLAlchemy = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram, {
+        className: toPascalCase,
+        propertyName: toSnakeCase,
+        reservedNames: [...pythonReservedNames, 'metadata', 'registry'],
+    });
+
+    if (entities.length === 0) {
+        return [];
+    }
+
+    const imports: PythonImports = new Map();
+    const usedNames = new Set(['Base']);
+    entities.forEach((entity) => usedNames.add(entity.className));
+
+    const associationTables = new Map<CodeRelation['relationship'], string>();
+    const associationBlocks: string[] = [];
+
+    entities.forEach((entity) =>
+        entity.relations
+            .filter(
+                (relation) => relation.kind === 'many_to_many' && relation.owner
+            )
+            .forEach((relation) => {
+                const name = uniqueName(
+                    toSnakeCase(
+                        `${entity.table.name}_${relation.target.table.name}`
+                    ),
+                    usedNames
+                );
+
+                associationTables.set(relation.relationship, name);
+                associationBlocks.push(
+                    exportAssociationTable(imports, relation, name, entity)
+                );
+            })
+    );
+
+    const models = entities.map((entity) =>
+        exportModel(imports, entity, associationTables)
+    );
+
+    ['DeclarativeBase', 'Mapped', 'mapped_column'].forEach((name) =>
+        pythonImport(imports, 'sqlalchemy.orm', name)
+    );
+
+    if (entities.some((entity) => entity.relations.length > 0)) {
+        pythonImport(imports, 'sqlalchemy.orm', 'relationship');
+    }
+
+    return [
+        {
+            path: 'models.py',
+            content: `${[
+                pythonImportBlock(imports),
+                'class Base(DeclarativeBase):\n    pass',
+                ...associationBlocks,
+                ...models,
+            ].join('\n\n\n')}\n`,
+        },
+    ];
+};
@@ -0,0 +1,263 @@
+import { isArrayDataType } from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toCamelCase } from '../code-names';
+import { isAutoIncrementField } from '../export-sql-script';
+import {
+    buildCodeEntities,
+    CodeEntity,
+    CodeFile,
+    CodeRelation,
+    fieldDefault,
+    hasUniqueIndex,
+} from './code-entities';
+import {
+    typescriptImports,
+    typescriptIndexFile,
+    typescriptObject,
+    typescriptString,
+    typescriptType,
+} from './typescript-code';
+
+// TypeORM takes the integer type of generated columns, not the serial pseudo type
+const generatedColumnType = (typeName: string) =>
+    typeName
+        .toLowerCase()
+        .replace(/^bigserial$/, 'bigint')
+        .replace(/^smallserial$/, 'smallint')
+        .replace(/^serial$/, 'integer');
+
+const columnDefault = (field: DBField): string | undefined => {
+    const value = fieldDefault(field);
+
+    switch (value?.kind) {
+        case 'string':
+            return typescriptString(value.value);
+        case 'number':
+        case 'boolean':
+            return `${value.value}`;
+        case 'expression':
+            return `() => ${typescriptString(value.value)}`;
+        default:
+            return undefined;
+    }
+};
+
+const exportColumn = (
+    entity: CodeEntity,
+    field: DBField,
+    decorators: Set<string>
+): string => {
+    const primaryKeys = entity.table.fields.filter((f) => f.primaryKey);
+    const generated =
+        primaryKeys.length === 1 &&
+        field.primaryKey &&
+        isAutoIncrementField(field);
+    const isArray = isArrayDataType(field.type.name);
+    const options: [string, string][] = [
+        [
+            'type',
+            typescriptString(
+                generated
+                    ? generatedColumnType(field.type.name)
+                    : field.type.name.replace(/\[\]$/, '')
+            ),
+        ],
+        ['name', typescriptString(field.name)],
+    ];
+
+    if (isArray) {
+        options.push(['array', 'true']);
+    }
+
+    if (field.characterMaximumLength) {
+        options.push([
+            'length',
+            /^\d+$/.test(field.characterMaximumLength)
+                ? field.characterMaximumLength
+                : typescriptString(field.characterMaximumLength),
+        ]);
+    }
+
+    if (field.precision) {
+        options.push(['precision', `${field.precision}`]);
+    }
+
+    if (field.scale !== undefined && field.precision) {
+        options.push(['scale', `${field.scale}`]);
+    }
+
+    if (field.nullable && !field.primaryKey) {
+        options.push(['nullable', 'true']);
+    }
+
+    if (
+        field.unique &&
+        !field.primaryKey &&
+        !hasUniqueIndex(entity.table, field)
+    ) {
+        options.push(['unique', 'true']);
+    }
+
+    const defaultValue = generated ? undefined : columnDefault(field);
+
+    if (defaultValue) {
+        options.push(['default', defaultValue]);
+    }
+
+    if (field.comments) {
+        options.push(['comment', typescriptString(field.comments)]);
+    }
+
+    const decorator = generated
+        ? 'PrimaryGeneratedColumn'
+        : field.primaryKey
+          ? 'PrimaryColumn'
+          : 'Column';
+    const type = typescriptType(field);
+
+    decorators.add(decorator);
+
+    return [
+        `    @${decorator}(${typescriptObject(options, '    ')})`,
+        `    ${entity.properties.get(field.id)}!: ${field.nullable && !field.primaryKey ? `${type} | null` : type};`,
+    ].join('\n');
+};
+
+const relationDecorators: Record<CodeRelation['kind'], string> = {
+    many_to_one: 'ManyToOne',
+    one_to_many: 'OneToMany',
+    one_to_one: 'OneToOne',
+    many_to_many: 'ManyToMany',
+};
+
+const exportRelation = (
+    entity: CodeEntity,
+    relation: CodeRelation,
+    decorators: Set<string>
+): string => {
+    const decorator = relationDecorators[relation.kind];
+    const target = relation.target.className;
+    const parameter = toCamelCase(target);
+    const lines = [
+        `    @${decorator}(() => ${target}, (${parameter}) => ${parameter}.${relation.inverseName}${
+            relation.owner && relation.kind !== 'many_to_many'
+                ? `, { nullable: ${relation.nullable} }`
+                : ''
+        })`,
+    ];
+
+    decorators.add(decorator);
+
+    if (relation.owner && relation.kind === 'many_to_many') {
+        decorators.add('JoinTable');
+        lines.push(
+            `    @JoinTable({ name: ${typescriptString(`${entity.table.name}_${relation.target.table.name}`)} })`
+        );
+    } else if (relation.owner) {
+        decorators.add('JoinColumn');
+        lines.push(
+            `    @JoinColumn(${typescriptObject(
+                [
+                    ['name', typescriptString(relation.field.name)],
+                    [
+                        'referencedColumnName',
+                        typescriptString(
+                            relation.target.properties.get(
+                                relation.referencedField.id
+                            )!
+                        ),
+                    ],
+                ],
+                '    '
+            )})`
+        );
+    }
+
+    const type =
+        relation.kind === 'one_to_many' || relation.kind === 'many_to_many'
+            ? `${target}[]`
+            : relation.nullable
+              ? `${target} | null`
+              : target;
+
+    lines.push(`    ${relation.name}!: ${type};`);
+
+    return lines.join('\n');
+};
+
+const exportEntity = (entity: CodeEntity): CodeFile => {
+    const { table } = entity;
+    const decorators = new Set<string>(['Entity']);
+    const entityOptions: [string, string][] = [
+        ['name', typescriptString(table.name)],
+    ];
+
+    if (table.schema) {
+        entityOptions.push(['schema', typescriptString(table.schema)]);
+    }
+
+    if (table.comments) {
+        entityOptions.push(['comment', typescriptString(table.comments)]);
+    }
+
+    const classDecorators = [`@Entity(${typescriptObject(entityOptions, '')})`];
+
+    table.indexes.forEach((index) => {
+        const properties = index.fieldIds
+            .map((fieldId) => entity.properties.get(fieldId))
+            .filter((property): property is string => !!property);
+
+        if (properties.length === 0) {
+            return;
+        }
+
+        decorators.add('Index');
+        classDecorators.push(
+            `@Index(${typescriptString(index.name)}, [${properties.map(typescriptString).join(', ')}]${index.unique ? ', { unique: true }' : ''})`
+        );
+    });
+
+    const members = [
+        ...table.fields.map((field) => exportColumn(entity, field, decorators)),
+        ...entity.relations.map((relation) =>
+            exportRelation(entity, relation, decorators)
+        ),
+    ];
+    const relatedClasses = [
+        ...new Set(
+            entity.relations
+                .map((relation) => relation.target.className)
+                .filter((className) => className !== entity.className)
+        ),
+    ].sort();
+
+    const imports = [
+        typescriptImports('typeorm', decorators),
+        ...relatedClasses.map((className) =>
+            typescriptImports(`./${className}`, [className])
+        ),
+    ];
+
+    return {
+        path: `${entity.className}.ts`,
+        content: `${imports.join('\n')}
+
+${classDecorators.join('\n')}
+export class ${entity.className} {
+${members.join('\n\n')}
+}
+`,
+    };
+};
+
+export const exportTypeORM = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram);
+
+    return entities.length > 0
+        ? [
+              ...entities.map(exportEntity),
+              typescriptIndexFile(entities.map((entity) => entity.className)),
+          ]
+        : [];
+};
@@ -0,0 +1,133 @@
+import { dataTypeCategory, isArrayDataType } from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toCamelCase, toPascalCase } from '../code-names';
+import { buildCodeEntities, CodeEntity, CodeFile } from './code-entities';
+import {
+    jsDoc,
+    typescriptImports,
+    typescriptString,
+    typescriptType,
+} from './typescript-code';
+
+// Enum and set types keep their values in the type name, e.g. enum('draft','published')
+const enumValues = (field: DBField): string[] | undefined => {
+    const match = field.type.name.match(/^(?:enum|set)\s*\((.*)\)$/i);
+    const values = [...(match?.[1] ?? '').matchAll(/'((?:[^']|'')*)'/g)].map(
+        (value) => value[1].replace(/''/g, "'")
+    );
+
+    return values.length > 0 ? values : undefined;
+};
+
+const propertyKey = (name: string) =>
+    /^[A-Za-z_$][\w$]*$/.test(name) ? name : typescriptString(name);
+
+const fieldType = (field: DBField): string => {
+    const values = enumValues(field);
+    const type = values
+        ? values.map(typescriptString).join(' | ')
+        : typescriptType(field);
+
+    return field.nullable && !field.primaryKey ? `${type} | null` : type;
+};
+
+const exportInterface = (entity: CodeEntity): string => {
+    const members = entity.table.fields.map((field) => {
+        const member = `    ${propertyKey(field.name)}: ${fieldType(field)};`;
+
+        return field.comments
+            ? `${jsDoc(field.comments, '    ')}\n${member}`
+            : member;
+    });
+    const declaration = `export interface ${entity.className} {\n${members.join('\n')}\n}`;
+
+    return entity.table.comments
+        ? `${jsDoc(entity.table.comments, '')}\n${declaration}`
+        : declaration;
+};
+
+const zodScalar = (field: DBField): string => {
+    const values = enumValues(field);
+
+    if (values) {
+        return `z.enum([${values.map(typescriptString).join(', ')}])`;
+    }
+
+    switch (dataTypeCategory(field.type.name)) {
+        case 'string':
+            return /^\d+$/.test(field.characterMaximumLength ?? '')
+                ? `z.string().max(${field.characterMaximumLength})`
+                : 'z.string()';
+        case 'uuid':
+            return 'z.string().uuid()';
+        case 'integer':
+            return 'z.number().int()';
+        case 'float':
+            return 'z.number()';
+        case 'bigint':
+        case 'decimal':
+        case 'time':
+            return 'z.string()';
+        case 'boolean':
+            return 'z.boolean()';
+        case 'date':
+        case 'datetime':
+            return 'z.date()';
+        case 'binary':
+            return 'z.instanceof(Buffer)';
+        default:
+            return 'z.unknown()';
+    }
+};
+
+const zodType = (field: DBField): string => {
+    const scalar = zodScalar(field);
+    const type = isArrayDataType(field.type.name)
+        ? `z.array(${scalar})`
+        : scalar;
+    const nullable = field.nullable && !field.primaryKey ? '.nullable()' : '';
+    const description = field.comments
+        ? `.describe(${typescriptString(field.comments)})`
+        : '';
+
+    return `${type}${nullable}${description}`;
+};
+
+// The satisfies check keeps the schema and the interface from drifting apart
+const exportSchema = (entity: CodeEntity): string =>
+    `export const ${toCamelCase(entity.className)}Schema = z.object({
+${entity.table.fields.map((field) => `    ${propertyKey(field.name)}: ${zodType(field)},`).join('\n')}
+}) satisfies z.ZodType<${entity.className}>;`;
+
+// Builds a TypeScript interface per table and a Zod schema module validating the same shape
+export const exportTypeScriptTypes = (diagram: Diagram): CodeFile[] => {
+    const entities = buildCodeEntities(diagram, {
+        className: toPascalCase,
+        propertyName: (name) => name,
+    });
+
+    if (entities.length === 0) {
+        return [];
+    }
+
+    const typeImports = typescriptImports(
+        './types',
+        entities.map((entity) => entity.className)
+    ).replace(/^import /, 'import type ');
+
+    return [
+        {
+            path: 'types.ts',
+            content: `${entities.map(exportInterface).join('\n\n')}\n`,
+        },
+        {
+            path: 'schemas.ts',
+            content: `import { z } from 'zod';
+${typeImports}
+
+${entities.map(exportSchema).join('\n\n')}
+`,
+        },
+    ];
+};
@@ -0,0 +1,98 @@
+export const pythonReservedNames = [
+    'False',
+    'None',
+    'True',
+    'and',
+    'as',
+    'assert',
+    'async',
+    'await',
+    'break',
+    'class',
+    'continue',
+    'def',
+    'del',
+    'elif',
+    'else',
+    'except',
+    'finally',
+    'for',
+    'from',
+    'global',
+    'if',
+    'import',
+    'in',
+    'is',
+    'lambda',
+    'nonlocal',
+    'not',
+    'or',
+    'pass',
+    'raise',
+    'return',
+    'try',
+    'while',
+    'with',
+    'yield',
+];
+
+export const pythonString = (value: string): string =>
+    `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Writes a call on one line, or one argument per line when the line gets too long
+export const pythonCall = (
+    callee: string,
+    args: string[],
+    indent: string
+): string => {
+    const inline = `${callee}(${args.join(', ')})`;
+
+    return inline.length + indent.length <= 79
+        ? inline
+        : `${callee}(\n${args.map((arg) => `${indent}    ${arg},`).join('\n')}\n${indent})`;
+};
+
+const pythonImports = (module: string, names: Iterable<string>): string => {
+    const sorted = [...new Set(names)].sort();
+
+    if (sorted.length === 0) {
+        return '';
+    }
+
+    const inline = `from ${module} import ${sorted.join(', ')}`;
+
+    return inline.length <= 79
+        ? inline
+        : `from ${module} import (\n${sorted.map((name) => `    ${name},`).join('\n')}\n)`;
+};
+
+// Imported names by module, collected while the code is generated
+export type PythonImports = Map<string, Set<string>>;
+
+export const pythonImport = (
+    imports: PythonImports,
+    module: string,
+    name: string
+): string => {
+    imports.set(module, (imports.get(module) ?? new Set()).add(name));
+    return name;
+};
+
+const standardModules = new Set(['datetime', 'decimal', 'typing', 'uuid']);
+
+// Lists the standard library imports before the third party ones, as isort does
+export const pythonImportBlock = (imports: PythonImports): string => {
+    const modules = [...imports.keys()].sort();
+
+    return [
+        modules.filter((module) => standardModules.has(module)),
+        modules.filter((module) => !standardModules.has(module)),
+    ]
+        .filter((group) => group.length > 0)
+        .map((group) =>
+            group
+                .map((module) => pythonImports(module, imports.get(module)!))
+                .join('\n')
+        )
+        .join('\n\n');
+};
@@ -0,0 +1,88 @@
+import {
+    dataTypeCategory,
+    DataTypeCategory,
+    isArrayDataType,
+} from '@/lib/data/data-types';
+import type { DBField } from '@/lib/domain/db-field';
+import type { CodeFile } from './code-entities';
+
+// Drivers return bigint and decimal columns as strings to keep their precision
+const typescriptTypes: Record<DataTypeCategory, string> = {
+    string: 'string',
+    uuid: 'string',
+    integer: 'number',
+    bigint: 'string',
+    float: 'number',
+    decimal: 'string',
+    boolean: 'boolean',
+    date: 'Date',
+    time: 'string',
+    datetime: 'Date',
+    json: 'unknown',
+    binary: 'Buffer',
+    unknown: 'unknown',
+};
+
+export const typescriptType = (field: DBField): string => {
+    const type = typescriptTypes[dataTypeCategory(field.type.name)];
+    return isArrayDataType(field.type.name) ? `${type}[]` : type;
+};
+
+export const typescriptString = (value: string): string =>
+    `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+// Block comment on one line, or one line per comment line; a "*/" inside is escaped
+export const jsDoc = (comments: string, indent: string) => {
+    const lines = comments.replace(/\*\//g, '*\\/').split('\n');
+
+    return lines.length === 1
+        ? `${indent}/** ${lines[0]} */`
+        : [
+              `${indent}/**`,
+              ...lines.map((line) => `${indent} * ${line}`.trimEnd()),
+              `${indent} */`,
+          ].join('\n');
+};
+
+// Writes an object literal on one line, or one property per line when it gets long
+export const typescriptObject = (
+    entries: [string, string][],
+    indent: string
+): string => {
+    const properties = entries.map(([key, value]) => `${key}: ${value}`);
+    const inline = `{ ${properties.join(', ')} }`;
+
+    return inline.length + indent.length <= 60
+        ? inline
+        : `{\n${properties.map((property) => `${indent}    ${property},`).join('\n')}\n${indent}}`;
+};
+
+export const typescriptImports = (
+    module: string,
+    names: Iterable<string>
+): string => {
+    const sorted = [...new Set(names)].sort();
+
+    if (sorted.length === 0) {
+        return '';
+    }
+
+    const inline = `import { ${sorted.join(', ')} } from '${module}';`;
+
+    return inline.length <= 80
+        ? inline
+        : `import {\n${sorted.map((name) => `    ${name},`).join('\n')}\n} from '${module}';`;
+};
+
+// Re-exports every entity class and lists them for the ORM configuration
+export const typescriptIndexFile = (classNames: string[]): CodeFile => ({
+    path: 'index.ts',
+    content: `${classNames
+        .map((className) => typescriptImports(`./${className}`, [className]))
+        .join('\n')}
+
+export { ${classNames.join(', ')} };
+
+export const entities = [${classNames.join(', ')}];
+`,
+});
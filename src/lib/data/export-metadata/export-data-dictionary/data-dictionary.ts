@@ -0,0 +1,222 @@
+import { databaseTypeToLabelMap } from '@/lib/databases';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { Diagram } from '@/lib/domain/diagram';
+
+export interface DictionaryColumn {
+    name: string;
+    type: string;
+    nullable: boolean;
+    default?: string;
+    keys: string[];
+    collation?: string;
+    comments?: string;
+}
+
+export interface DictionaryIndex {
+    name: string;
+    columns: string[];
+    unique: boolean;
+}
+
+export interface DictionaryRelationship {
+    name: string;
+    column: string;
+    // The table on the other side, with its anchor and column
+    table: string;
+    anchor: string;
+    referencedColumn: string;
+    cardinality: string;
+}
+
+export interface DictionaryTable {
+    name: string;
+    schema?: string;
+    anchor: string;
+    isView: boolean;
+    comments?: string;
+    rowCount?: number;
+    columns: DictionaryColumn[];
+    indexes: DictionaryIndex[];
+    outgoing: DictionaryRelationship[];
+    incoming: DictionaryRelationship[];
+}
+
+export interface DictionarySchema {
+    name?: string;
+    anchor: string;
+    tables: DictionaryTable[];
+}
+
+export interface DataDictionary {
+    title: string;
+    databaseType: string;
+    schemas: DictionarySchema[];
+}
+
+// Anchors are lowercase slugs, numbered when two names share one
+const uniqueAnchor = (name: string, usedAnchors: Set<string>): string => {
+    const slug =
+        name
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}]+/gu, '-')
+            .replace(/^-+|-+$/g, '') || 'table';
+    let anchor = slug;
+
+    for (let i = 2; usedAnchors.has(anchor); i++) {
+        anchor = `${slug}-${i}`;
+    }
+
+    usedAnchors.add(anchor);
+    return anchor;
+};
+
+export const dictionaryType = (field: DBField): string => {
+    const size =
+        field.characterMaximumLength ??
+        (field.precision !== undefined
+            ? [field.precision, field.scale]
+                  .filter((n) => n !== undefined)
+                  .join(', ')
+            : undefined);
+
+    return size ? `${field.type.name}(${size})` : field.type.name;
+};
+
+const dictionaryRelationship = (
+    relationship: DBRelationship,
+    incoming: boolean,
+    tables: Map<string, DBTable>,
+    anchors: Map<string, string>
+): DictionaryRelationship | undefined => {
+    const source = tables.get(relationship.sourceTableId);
+    const target = tables.get(relationship.targetTableId);
+    const sourceField = source?.fields.find(
+        (field) => field.id === relationship.sourceFieldId
+    );
+    const targetField = target?.fields.find(
+        (field) => field.id === relationship.targetFieldId
+    );
+
+    if (!source || !target || !sourceField || !targetField) {
+        return undefined;
+    }
+
+    const [own, other] = incoming
+        ? [targetField, { table: source, field: sourceField }]
+        : [sourceField, { table: target, field: targetField }];
+
+    return {
+        name: relationship.name,
+        column: own.name,
+        table: other.table.schema
+            ? `${other.table.schema}.${other.table.name}`
+            : other.table.name,
+        anchor: anchors.get(other.table.id)!,
+        referencedColumn: other.field.name,
+        cardinality: incoming
+            ? `${relationship.targetCardinality} to ${relationship.sourceCardinality}`
+            : `${relationship.sourceCardinality} to ${relationship.targetCardinality}`,
+    };
+};
+
+// Collects what the Markdown and HTML dictionaries show, one section per schema and table
+export const buildDataDictionary = (diagram: Diagram): DataDictionary => {
+    const tables = [...(diagram.tables ?? [])].sort(
+        (a, b) =>
+            (a.schema ?? '').localeCompare(b.schema ?? '') ||
+            a.name.localeCompare(b.name)
+    );
+    const relationships = diagram.relationships ?? [];
+    const tableById = new Map(tables.map((table) => [table.id, table]));
+    const usedAnchors = new Set<string>();
+    const anchors = new Map(
+        tables.map((table) => [
+            table.id,
+            uniqueAnchor(
+                table.schema ? `${table.schema}-${table.name}` : table.name,
+                usedAnchors
+            ),
+        ])
+    );
+    const foreignKeys = new Set(
+        relationships.map((relationship) => relationship.sourceFieldId)
+    );
+    const schemas = new Map<string | undefined, DictionaryTable[]>();
+
+    tables.forEach((table) => {
+        const fieldName = (fieldId: string) =>
+            table.fields.find((field) => field.id === fieldId)?.name;
+
+        const dictionaryTable: DictionaryTable = {
+            name: table.name,
+            schema: table.schema,
+            anchor: anchors.get(table.id)!,
+            isView: table.isView,
+            comments: table.comments,
+            rowCount: table.rowCount,
+            columns: table.fields.map((field) => ({
+                name: field.name,
+                type: dictionaryType(field),
+                nullable: field.nullable,
+                default: field.default,
+                keys: [
+                    ...(field.primaryKey ? ['PK'] : []),
+                    ...(foreignKeys.has(field.id) ? ['FK'] : []),
+                    ...(field.unique && !field.primaryKey ? ['Unique'] : []),
+                ],
+                collation: field.collation,
+                comments: field.comments,
+            })),
+            indexes: table.indexes.map((index) => ({
+                name: index.name,
+                columns: index.fieldIds
+                    .map(fieldName)
+                    .filter((name): name is string => !!name),
+                unique: index.unique,
+            })),
+            outgoing: relationships
+                .filter(
+                    (relationship) => relationship.sourceTableId === table.id
+                )
+                .map((relationship) =>
+                    dictionaryRelationship(
+                        relationship,
+                        false,
+                        tableById,
+                        anchors
+                    )
+                )
+                .filter((r): r is DictionaryRelationship => !!r),
+            incoming: relationships
+                .filter(
+                    (relationship) => relationship.targetTableId === table.id
+                )
+                .map((relationship) =>
+                    dictionaryRelationship(
+                        relationship,
+                        true,
+                        tableById,
+                        anchors
+                    )
+                )
+                .filter((r): r is DictionaryRelationship => !!r),
+        };
+
+        schemas.set(table.schema, [
+            ...(schemas.get(table.schema) ?? []),
+            dictionaryTable,
+        ]);
+    });
+
+    return {
+        title: diagram.name,
+        databaseType: databaseTypeToLabelMap[diagram.databaseType],
+        schemas: [...schemas.entries()].map(([name, schemaTables]) => ({
+            name,
+            anchor: uniqueAnchor(`schema-${name ?? 'tables'}`, usedAnchors),
+            tables: schemaTables,
+        })),
+    };
+};
@@ -0,0 +1,41 @@
+import type { Diagram } from '@/lib/domain/diagram';
+import { buildDataDictionary } from './data-dictionary';
+
+// The CSV dictionary import reads the same columns back
+export const csvDictionaryHeaders = [
+    'schema',
+    'table',
+    'column',
+    'type',
+    'nullable',
+    'default',
+    'comments',
+] as const;
+
+const csvValue = (value?: string): string =>
+    value && /[",\r\n]/.test(value)
+        ? `"${value.replace(/"/g, '""')}"`
+        : (value ?? '');
+
+// Builds one row per column, preceded by a row without a column that holds the table comments
+export const exportCSVDictionary = (diagram: Diagram): string => {
+    const dictionary = buildDataDictionary(diagram);
+    const rows = dictionary.schemas.flatMap((schema) =>
+        schema.tables.flatMap((table) => [
+            [schema.name, table.name, '', '', '', '', table.comments],
+            ...table.columns.map((column) => [
+                schema.name,
+                table.name,
+                column.name,
+                column.type,
+                column.nullable ? 'yes' : 'no',
+                column.default,
+                column.comments,
+            ]),
+        ])
+    );
+
+    return `${[[...csvDictionaryHeaders], ...rows]
+        .map((row) => row.map(csvValue).join(','))
+        .join('\r\n')}\r\n`;
+};
@@ -0,0 +1,195 @@
+import type { Diagram } from '@/lib/domain/diagram';
+import {
+    buildDataDictionary,
+    DictionaryRelationship,
+    DictionarySchema,
+    DictionaryTable,
+} from './data-dictionary';
+
+const escapeHTML = (value?: string): string =>
+    (value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+const code = (value?: string): string =>
+    value ? `<code>${escapeHTML(value)}</code>` : '';
+
+const text = (value?: string): string =>
+    escapeHTML(value).replace(/\r?\n/g, '<br>');
+
+const htmlTable = (headers: string[], rows: string[][]): string =>
+    `<table>
+<thead><tr>${headers.map((header) => `<th>${header}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.map((row) => `<tr>${row.map((value) => `<td>${value}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`;
+
+const relationshipRow = (
+    direction: string,
+    relationship: DictionaryRelationship
+): string[] => [
+    direction,
+    text(relationship.name),
+    code(relationship.column),
+    `<a href="#${relationship.anchor}">${escapeHTML(relationship.table)}</a>.${code(relationship.referencedColumn)}`,
+    relationship.cardinality,
+];
+
+// The search box matches table and column names
+const searchText = (table: DictionaryTable): string =>
+    [table.schema, table.name, ...table.columns.map((column) => column.name)]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+
+const exportTable = (table: DictionaryTable): string => {
+    const blocks = [
+        `<h3><a href="#${table.anchor}">#</a> ${table.isView ? 'View' : 'Table'} ${code(table.name)}</h3>`,
+    ];
+
+    if (table.comments) {
+        blocks.push(`<p>${text(table.comments)}</p>`);
+    }
+
+    if (table.rowCount !== undefined) {
+        blocks.push(
+            `<p class="rows">Rows: ${table.rowCount.toLocaleString('en-US')}</p>`
+        );
+    }
+
+    blocks.push(
+        htmlTable(
+            [
+                'Column',
+                'Type',
+                'Nullable',
+                'Default',
+                'Key',
+                'Collation',
+                'Comments',
+            ],
+            table.columns.map((column) => [
+                code(column.name),
+                code(column.type),
+                column.nullable ? 'Yes' : 'No',
+                code(column.default),
+                column.keys.join(', '),
+                text(column.collation),
+                text(column.comments),
+            ])
+        )
+    );
+
+    if (table.indexes.length > 0) {
+        blocks.push(
+            `<h4>Indexes</h4>\n${htmlTable(
+                ['Name', 'Columns', 'Unique'],
+                table.indexes.map((index) => [
+                    code(index.name),
+                    index.columns.map(code).join(', '),
+                    index.unique ? 'Yes' : 'No',
+                ])
+            )}`
+        );
+    }
+
+    if (table.outgoing.length > 0 || table.incoming.length > 0) {
+        blocks.push(
+            `<h4>Relationships</h4>\n${htmlTable(
+                ['Direction', 'Name', 'Column', 'References', 'Cardinality'],
+                [
+                    ...table.outgoing.map((relationship) =>
+                        relationshipRow('Outgoing', relationship)
+                    ),
+                    ...table.incoming.map((relationship) =>
+                        relationshipRow('Incoming', relationship)
+                    ),
+                ]
+            )}`
+        );
+    }
+
+    return `<section id="${table.anchor}" data-search="${escapeHTML(searchText(table))}">
+${blocks.join('\n')}
+</section>`;
+};
+
+const style = `
+body { margin: 0; font: 14px/1.5 system-ui, -apple-system, sans-serif; color: #1f2937; }
+nav { position: fixed; top: 0; bottom: 0; left: 0; width: 260px; overflow-y: auto; padding: 16px; border-right: 1px solid #e5e7eb; background: #f9fafb; box-sizing: border-box; }
+nav input { width: 100%; padding: 6px 8px; margin-bottom: 12px; border: 1px solid #d1d5db; border-radius: 6px; box-sizing: border-box; }
+nav ul { list-style: none; margin: 0; padding-left: 12px; }
+nav > ul { padding-left: 0; }
+nav a { color: inherit; text-decoration: none; }
+nav a:hover { text-decoration: underline; }
+main { margin-left: 260px; padding: 24px 32px; }
+h3 a { color: #9ca3af; text-decoration: none; }
+section { margin-bottom: 32px; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 12px; }
+th, td { border: 1px solid #e5e7eb; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+code { font-family: ui-monospace, monospace; font-size: 13px; }
+.rows { color: #6b7280; }
+[hidden] { display: none !important; }`;
+
+const script = `
+document.getElementById('search').addEventListener('input', function (event) {
+    var query = event.target.value.trim().toLowerCase();
+    document.querySelectorAll('[data-search]').forEach(function (element) {
+        element.hidden = query !== '' && element.getAttribute('data-search').indexOf(query) === -1;
+    });
+});`;
+
+const exportContents = (schema: DictionarySchema): string => {
+    const items = schema.tables.map(
+        (table) =>
+            `<li data-search="${escapeHTML(searchText(table))}"><a href="#${table.anchor}">${escapeHTML(table.name)}</a></li>`
+    );
+
+    return `<li><a href="#${schema.anchor}">${escapeHTML(schema.name ?? 'Tables')}</a>\n<ul>\n${items.join('\n')}\n</ul>\n</li>`;
+};
+
+const exportSchema = (schema: DictionarySchema): string => {
+    const heading = schema.name ? `Schema ${code(schema.name)}` : 'Tables';
+
+    return `<h2 id="${schema.anchor}">${heading}</h2>\n${schema.tables.map(exportTable).join('\n')}`;
+};
+
+// Builds a single HTML page with a searchable table of contents and an anchor for each table
+export const exportHTMLDictionary = (diagram: Diagram): string => {
+    const dictionary = buildDataDictionary(diagram);
+    const title = escapeHTML(`${dictionary.title} data dictionary`);
+    const contents = dictionary.schemas.map(exportContents).join('\n');
+    const sections = dictionary.schemas.map(exportSchema).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${style}
+</style>
+</head>
+<body>
+<nav>
+<input id="search" type="search" placeholder="Search tables and columns">
+<ul>
+${contents}
+</ul>
+</nav>
+<main>
+<h1>${title}</h1>
+<p>Database: ${escapeHTML(dictionary.databaseType)}</p>
+${sections}
+</main>
+<script>${script}
+</script>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,133 @@
+import type { Diagram } from '@/lib/domain/diagram';
+import {
+    buildDataDictionary,
+    DictionaryRelationship,
+    DictionaryTable,
+} from './data-dictionary';
+
+// Table cells cannot hold pipes or line breaks
+const cell = (value?: string): string =>
+    (value ?? '')
+        .replace(/\|/g, '\\|')
+        .replace(/</g, '&lt;')
+        .replace(/\r?\n/g, '<br>');
+
+const code = (value?: string): string =>
+    value
+        ? `\`${value
+              .replace(/\|/g, '\\|')
+              .replace(/`/g, "'")
+              .replace(/\s*\n\s*/g, ' ')}\``
+        : '';
+
+const markdownTable = (headers: string[], rows: string[][]): string =>
+    [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${row.join(' | ')} |`),
+    ].join('\n');
+
+const relationshipRow = (
+    direction: string,
+    relationship: DictionaryRelationship
+): string[] => [
+    direction,
+    cell(relationship.name),
+    code(relationship.column),
+    `[${cell(relationship.table)}](#${relationship.anchor}).${code(relationship.referencedColumn)}`,
+    relationship.cardinality,
+];
+
+const exportTable = (table: DictionaryTable): string => {
+    const blocks = [
+        `<a id="${table.anchor}"></a>\n\n### ${table.isView ? 'View' : 'Table'} ${code(table.name)}`,
+    ];
+
+    if (table.comments) {
+        blocks.push(table.comments);
+    }
+
+    if (table.rowCount !== undefined) {
+        blocks.push(`Rows: ${table.rowCount.toLocaleString('en-US')}`);
+    }
+
+    blocks.push(
+        markdownTable(
+            [
+                'Column',
+                'Type',
+                'Nullable',
+                'Default',
+                'Key',
+                'Collation',
+                'Comments',
+            ],
+            table.columns.map((column) => [
+                code(column.name),
+                code(column.type),
+                column.nullable ? 'Yes' : 'No',
+                code(column.default),
+                column.keys.join(', '),
+                cell(column.collation),
+                cell(column.comments),
+            ])
+        )
+    );
+
+    if (table.indexes.length > 0) {
+        blocks.push(
+            `#### Indexes\n\n${markdownTable(
+                ['Name', 'Columns', 'Unique'],
+                table.indexes.map((index) => [
+                    code(index.name),
+                    index.columns.map(code).join(', '),
+                    index.unique ? 'Yes' : 'No',
+                ])
+            )}`
+        );
+    }
+
+    if (table.outgoing.length > 0 || table.incoming.length > 0) {
+        blocks.push(
+            `#### Relationships\n\n${markdownTable(
+                ['Direction', 'Name', 'Column', 'References', 'Cardinality'],
+                [
+                    ...table.outgoing.map((relationship) =>
+                        relationshipRow('Outgoing', relationship)
+                    ),
+                    ...table.incoming.map((relationship) =>
+                        relationshipRow('Incoming', relationship)
+                    ),
+                ]
+            )}`
+        );
+    }
+
+    return blocks.join('\n\n');
+};
+
+// Builds a Markdown data dictionary with a table of contents linking to each table
+export const exportMarkdownDictionary = (diagram: Diagram): string => {
+    const dictionary = buildDataDictionary(diagram);
+    const contents = dictionary.schemas.map((schema) =>
+        [
+            `- [${cell(schema.name ?? 'Tables')}](#${schema.anchor})`,
+            ...schema.tables.map(
+                (table) => `  - [${cell(table.name)}](#${table.anchor})`
+            ),
+        ].join('\n')
+    );
+    const sections = dictionary.schemas.map((schema) =>
+        [
+            `<a id="${schema.anchor}"></a>\n\n## ${schema.name ? `Schema ${code(schema.name)}` : 'Tables'}`,
+            ...schema.tables.map(exportTable),
+        ].join('\n\n')
+    );
+
+    return `${[
+        `# ${dictionary.title} data dictionary`,
+        `Database: ${dictionary.databaseType}`,
+        ...(contents.length > 0 ? ['## Contents', contents.join('\n')] : []),
+        ...sections,
+    ].join('\n\n')}\n`;
+};
@@ -0,0 +1,224 @@
+import { databaseTypeToLabelMap } from '@/lib/databases';
+import { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Cardinality } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { Diagram } from '@/lib/domain/diagram';
+import { isAutoIncrementField, isIdentityClause } from './export-sql-script';
+
+const dbmlIdentifier = (name: string): string =>
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(name)
+        ? name
+        : `"${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const dbmlTableName = (table: DBTable): string =>
+    table.schema
+        ? `${dbmlIdentifier(table.schema)}.${dbmlIdentifier(table.name)}`
+        : dbmlIdentifier(table.name);
+
+const dbmlString = (value: string): string =>
+    value.includes('\n')
+        ? `'''${value.replace(/\\/g, '\\\\').replace(/'''/g, "\\'''")}'''`
+        : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const dbmlType = (field: DBField): string => {
+    let type = field.type.name;
+
+    if (field.characterMaximumLength) {
+        type += `(${field.characterMaximumLength})`;
+    } else if (field.precision && field.scale) {
+        type += `(${field.precision},${field.scale})`;
+    } else if (field.precision) {
+        type += `(${field.precision})`;
+    }
+
+    return /^\w+(\([\w, ]*\))?$/.test(type) ? type : `"${type}"`;
+};
+
+// Numbers, booleans and strings keep their value, anything else becomes an expression
+const dbmlDefault = (value: string): string => {
+    const trimmed = value.trim();
+    const stringMatch = trimmed.match(/^'((?:[^']|'')*)'(::[\w\s]+)?$/);
+
+    if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+        return trimmed;
+    }
+
+    if (/^(true|false|null)$/i.test(trimmed)) {
+        return trimmed.toLowerCase();
+    }
+
+    if (stringMatch) {
+        return dbmlString(stringMatch[1].replace(/''/g, "'"));
+    }
+
+    return `\`${trimmed.replace(/`/g, '\\`')}\``;
+};
+
+// Composite primary keys are declared in the indexes block instead
+const fieldSettings = (
+    field: DBField,
+    compositePrimaryKey: boolean
+): string[] => {
+    const settings: string[] = [];
+    const increment = !compositePrimaryKey && isAutoIncrementField(field);
+    const primaryKey = field.primaryKey && !compositePrimaryKey;
+
+    if (primaryKey) {
+        settings.push('pk');
+    }
+
+    if (increment) {
+        settings.push('increment');
+    }
+
+    if (!field.nullable && !primaryKey) {
+        settings.push('not null');
+    }
+
+    if (field.unique && !field.primaryKey) {
+        settings.push('unique');
+    }
+
+    // The sequence or identity clause behind an auto increment column is implied by the increment setting
+    if (
+        field.default &&
+        !isIdentityClause(field.default) &&
+        !(increment && /nextval/i.test(field.default))
+    ) {
+        settings.push(`default: ${dbmlDefault(field.default)}`);
+    }
+
+    if (field.comments) {
+        settings.push(`note: ${dbmlString(field.comments)}`);
+    }
+
+    return settings;
+};
+
+const relationshipOperator = (
+    sourceCardinality: Cardinality,
+    targetCardinality: Cardinality
+): string => {
+    if (sourceCardinality === 'many') {
+        return targetCardinality === 'many' ? '<>' : '>';
+    }
+
+    return targetCardinality === 'many' ? '<' : '-';
+};
+
+const exportTable = (table: DBTable): string => {
+    const lines = [`Table ${dbmlTableName(table)} {`];
+    const primaryKeyFields = table.fields.filter((field) => field.primaryKey);
+    const compositePrimaryKey = primaryKeyFields.length > 1;
+
+    table.fields.forEach((field) => {
+        const settings = fieldSettings(field, compositePrimaryKey);
+
+        lines.push(
+            `  ${dbmlIdentifier(field.name)} ${dbmlType(field)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`
+        );
+    });
+
+    const indexes = table.indexes
+        .map((index) => ({
+            ...index,
+            fields: index.fieldIds
+                .map((fieldId) => table.fields.find((f) => f.id === fieldId))
+                .filter((field): field is DBField => field !== undefined),
+        }))
+        .filter((index) => index.fields.length > 0);
+
+    if (indexes.length > 0 || compositePrimaryKey) {
+        lines.push('', '  indexes {');
+        if (compositePrimaryKey) {
+            lines.push(
+                `    (${primaryKeyFields.map((field) => dbmlIdentifier(field.name)).join(', ')}) [pk]`
+            );
+        }
+        indexes.forEach((index) => {
+            const columns = index.fields.map((field) =>
+                dbmlIdentifier(field.name)
+            );
+            const settings = [
+                ...(index.unique ? ['unique'] : []),
+                `name: ${dbmlString(index.name)}`,
+            ];
+
+            lines.push(
+                `    ${columns.length === 1 ? columns[0] : `(${columns.join(', ')})`} [${settings.join(', ')}]`
+            );
+        });
+        lines.push('  }');
+    }
+
+    if (table.comments) {
+        lines.push('', `  Note: ${dbmlString(table.comments)}`);
+    }
+
+    lines.push('}');
+
+    return lines.join('\n');
+};
+
+export const exportDBML = (diagram: Diagram): string => {
+    const tables = (diagram.tables ?? []).filter((table) => !table.isView);
+    const blocks: string[] = [];
+
+    blocks.push(
+        diagram.databaseType === DatabaseType.GENERIC
+            ? `Project ${dbmlIdentifier(diagram.name)} {}`
+            : `Project ${dbmlIdentifier(diagram.name)} {\n  database_type: ${dbmlString(databaseTypeToLabelMap[diagram.databaseType])}\n}`
+    );
+
+    tables.forEach((table) => blocks.push(exportTable(table)));
+
+    const refs = (diagram.relationships ?? []).flatMap((relationship) => {
+        const sourceTable = tables.find(
+            (table) => table.id === relationship.sourceTableId
+        );
+        const targetTable = tables.find(
+            (table) => table.id === relationship.targetTableId
+        );
+        const sourceField = sourceTable?.fields.find(
+            (field) => field.id === relationship.sourceFieldId
+        );
+        const targetField = targetTable?.fields.find(
+            (field) => field.id === relationship.targetFieldId
+        );
+
+        if (!sourceTable || !targetTable || !sourceField || !targetField) {
+            return [];
+        }
+
+        return [
+            `Ref${relationship.name ? ` ${dbmlIdentifier(relationship.name)}` : ''}: ${dbmlTableName(sourceTable)}.${dbmlIdentifier(sourceField.name)} ${relationshipOperator(relationship.sourceCardinality, relationship.targetCardinality)} ${dbmlTableName(targetTable)}.${dbmlIdentifier(targetField.name)}`,
+        ];
+    });
+
+    if (refs.length > 0) {
+        blocks.push(refs.join('\n'));
+    }
+
+    const schemas = [
+        ...new Set(
+            tables
+                .map((table) => table.schema)
+                .filter((schema): schema is string => !!schema)
+        ),
+    ];
+
+    schemas.forEach((schema) =>
+        blocks.push(
+            [
+                `TableGroup ${dbmlIdentifier(schema)} {`,
+                ...tables
+                    .filter((table) => table.schema === schema)
+                    .map((table) => `  ${dbmlTableName(table)}`),
+                '}',
+            ].join('\n')
+        )
+    );
+
+    return `${blocks.join('\n\n')}\n`;
+};
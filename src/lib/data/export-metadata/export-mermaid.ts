@@ -0,0 +1,125 @@
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toIdentifier, uniqueName } from './code-names';
+
+// Mermaid attribute types allow letters, digits, hyphens, underscores, parentheses and brackets only,
+// so a scale is joined to the precision with an underscore, e.g. numeric(10_2)
+const mermaidType = (field: DBField): string => {
+    const type = field.type.name.trim().replace(/\s+/g, '_');
+    const size =
+        field.characterMaximumLength ??
+        (field.precision !== undefined && field.scale !== undefined
+            ? `${field.precision}_${field.scale}`
+            : field.precision);
+
+    return `${type.replace(/[^\w\-()[\]]/g, '')}${size !== undefined && /^\d+(_\d+)?$/.test(`${size}`) ? `(${size})` : ''}`;
+};
+
+const mermaidComment = (comments: string) =>
+    `"${comments.replace(/"/g, "'").replace(/\s*\n\s*/g, ' ')}"`;
+
+const foreignKeyFieldIds = (relationships: DBRelationship[]) =>
+    new Set(
+        relationships.flatMap((relationship) =>
+            relationship.sourceCardinality === 'one' &&
+            relationship.targetCardinality === 'many'
+                ? [relationship.targetFieldId]
+                : [relationship.sourceFieldId]
+        )
+    );
+
+const exportAttribute = (field: DBField, foreignKeys: Set<string>) => {
+    const keys = [
+        ...(field.primaryKey ? ['PK'] : []),
+        ...(foreignKeys.has(field.id) ? ['FK'] : []),
+        ...(field.unique && !field.primaryKey ? ['UK'] : []),
+    ];
+
+    return [
+        `        ${mermaidType(field)} ${toIdentifier(field.name)}`,
+        ...(keys.length > 0 ? [keys.join(', ')] : []),
+        ...(field.comments ? [mermaidComment(field.comments)] : []),
+    ].join(' ');
+};
+
+// The "many" side of a relationship allows zero or more rows, the "one" side follows the nullability of the foreign key
+const exportRelationship = (
+    relationship: DBRelationship,
+    entityNames: Map<string, string>,
+    tables: Map<string, DBTable>
+): string | undefined => {
+    const source = tables.get(relationship.sourceTableId);
+    const target = tables.get(relationship.targetTableId);
+
+    if (!source || !target) {
+        return undefined;
+    }
+
+    const sourceField = source.fields.find(
+        (field) => field.id === relationship.sourceFieldId
+    );
+    const targetField = target.fields.find(
+        (field) => field.id === relationship.targetFieldId
+    );
+    const optional = (sourceField?.nullable ?? true) || !targetField;
+    const left = relationship.sourceCardinality === 'many' ? '}o' : '|o';
+    const right =
+        relationship.targetCardinality === 'many'
+            ? 'o{'
+            : optional
+              ? 'o|'
+              : '||';
+    // A solid line marks an identifying relationship, where the foreign key is part of the primary key
+    const line = sourceField?.primaryKey ? '--' : '..';
+
+    return `    ${entityNames.get(source.id)} ${left}${line}${right} ${entityNames.get(target.id)} : ${mermaidComment(relationship.name)}`;
+};
+
+export const exportMermaid = (diagram: Diagram): string => {
+    const tables = (diagram.tables ?? []).filter((table) => !table.isView);
+    const tableById = new Map(tables.map((table) => [table.id, table]));
+    const relationships = diagram.relationships ?? [];
+    const foreignKeys = foreignKeyFieldIds(relationships);
+    const usedNames = new Set<string>();
+    const entityNames = new Map<string, string>();
+    const lines = ['erDiagram'];
+
+    tables.forEach((table) => {
+        const schema =
+            table.schema &&
+            table.schema !== defaultSchemas[diagram.databaseType]
+                ? table.schema
+                : undefined;
+        const displayName = schema ? `${schema}.${table.name}` : table.name;
+        const name = uniqueName(toIdentifier(displayName), usedNames);
+
+        entityNames.set(table.id, name);
+
+        // Names that are not valid Mermaid identifiers are kept as an alias
+        const header =
+            name === displayName ? name : `${name}["${displayName}"]`;
+
+        if (table.comments) {
+            lines.push(`    %% ${table.comments.replace(/\s*\n\s*/g, ' ')}`);
+        }
+
+        lines.push(
+            table.fields.length > 0
+                ? `    ${header} {\n${table.fields.map((field) => exportAttribute(field, foreignKeys)).join('\n')}\n    }`
+                : `    ${header}`
+        );
+    });
+
+    relationships.forEach((relationship) => {
+        const line = exportRelationship(relationship, entityNames, tableById);
+
+        if (line) {
+            lines.push(line);
+        }
+    });
+
+    return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,642 @@
+import { Diagram } from '@/lib/domain/diagram';
+import { DatabaseType } from '@/lib/domain/database-type';
+import { DBTable } from '@/lib/domain/db-table';
+import { DBField } from '@/lib/domain/db-field';
+import { DBIndex } from '@/lib/domain/db-index';
+import { DBRelationship } from '@/lib/domain/db-relationship';
+import {
+    diffDiagrams,
+    FieldDiff,
+    isDiagramDiffEmpty,
+    TableDiff,
+} from '@/lib/domain/diagram-diff';
+import {
+    exportSQL,
+    isAutoIncrementField,
+    isForeignKeyRelationship,
+    sqlColumnDefinition,
+    sqlDefaultValue,
+    sqlFieldType,
+    toLineComment,
+} from './export-sql-script';
+import {
+    escapeSQLString,
+    qualifiedTableName,
+    quoteIdentifier,
+} from './sql-dialects';
+
+interface ForeignKey {
+    name: string;
+    sourceTable: DBTable;
+    sourceField: DBField;
+    targetTable: DBTable;
+    targetField: DBField;
+}
+
+const resolveForeignKey = (
+    relationship: DBRelationship,
+    tables: DBTable[]
+): ForeignKey | null => {
+    const sourceTable = tables.find(
+        (table) => table.id === relationship.sourceTableId
+    );
+    const targetTable = tables.find(
+        (table) => table.id === relationship.targetTableId
+    );
+    const sourceField = sourceTable?.fields.find(
+        (field) => field.id === relationship.sourceFieldId
+    );
+    const targetField = targetTable?.fields.find(
+        (field) => field.id === relationship.targetFieldId
+    );
+
+    if (
+        !sourceTable ||
+        !targetTable ||
+        !sourceField ||
+        !targetField ||
+        !isForeignKeyRelationship(relationship)
+    ) {
+        return null;
+    }
+
+    return {
+        name: relationship.name || `fk_${sourceTable.name}_${sourceField.name}`,
+        sourceTable,
+        sourceField,
+        targetTable,
+        targetField,
+    };
+};
+
+export const exportMigrationSQL = ({
+    oldDiagram,
+    newDiagram,
+    databaseType,
+}: {
+    oldDiagram: Diagram;
+    newDiagram: Diagram;
+    databaseType: DatabaseType;
+}): string => {
+    const withoutViews = (diagram: Diagram): Diagram => ({
+        ...diagram,
+        tables: (diagram.tables ?? []).filter((table) => !table.isView),
+    });
+    const from = withoutViews(oldDiagram);
+    const to = withoutViews(newDiagram);
+    const diff = diffDiagrams({ oldDiagram: from, newDiagram: to });
+
+    if (isDiagramDiffEmpty(diff)) {
+        return '';
+    }
+
+    const isMySQL =
+        databaseType === DatabaseType.MYSQL ||
+        databaseType === DatabaseType.MARIADB;
+    const isSQLite = databaseType === DatabaseType.SQLITE;
+    const isSQLServer = databaseType === DatabaseType.SQL_SERVER;
+    const isOracle = databaseType === DatabaseType.ORACLE;
+
+    const quote = (name: string) => quoteIdentifier(name, databaseType);
+    const tableName = (table: DBTable) =>
+        qualifiedTableName(table.name, table.schema, databaseType);
+    // sp_rename and sp_*extendedproperty take plain dotted names
+    const plainName = (...parts: string[]) => escapeSQLString(parts.join('.'));
+    const ifExists =
+        databaseType === DatabaseType.GENERIC || isOracle ? '' : 'IF EXISTS ';
+    // Oracle clears a comment by setting it to an empty string, it has no NULL comments
+    const emptyComment = isOracle ? "''" : 'NULL';
+
+    const sections: { title: string; statements: string[] }[] = [];
+    const section = (title: string) => {
+        const statements: string[] = [];
+        sections.push({ title, statements });
+        return statements;
+    };
+
+    const dropForeignKeys = section('Drop foreign keys');
+    const dropIndexes = section('Drop indexes');
+    const dropTables = section('Drop tables');
+    const renameTables = section('Rename tables');
+    const createTables = section('Create tables');
+    const alterTables = section('Alter tables');
+    const createIndexes = section('Create indexes');
+    const addForeignKeys = section('Add foreign keys');
+
+    const oldTables = from.tables ?? [];
+    const newTables = to.tables ?? [];
+    const addedTables = diff.tables
+        .filter((tableDiff) => tableDiff.type === 'added')
+        .map((tableDiff) => tableDiff.table);
+    const addedTableIds = new Set(addedTables.map((table) => table.id));
+
+    const dropForeignKey = (fk: ForeignKey) => {
+        if (isSQLite) {
+            dropForeignKeys.push(
+                `-- SQLite cannot drop foreign key ${fk.name} from ${fk.sourceTable.name}, the table has to be recreated`
+            );
+        } else if (isMySQL) {
+            dropForeignKeys.push(
+                `ALTER TABLE ${tableName(fk.sourceTable)} DROP FOREIGN KEY ${quote(fk.name)};`
+            );
+        } else {
+            dropForeignKeys.push(
+                `ALTER TABLE ${tableName(fk.sourceTable)} DROP CONSTRAINT ${quote(fk.name)};`
+            );
+        }
+    };
+
+    const addForeignKey = (fk: ForeignKey) => {
+        if (isSQLite) {
+            addForeignKeys.push(
+                `-- SQLite cannot add foreign key ${fk.name} to ${fk.sourceTable.name}, the table has to be recreated`
+            );
+        } else {
+            addForeignKeys.push(
+                `ALTER TABLE ${tableName(fk.sourceTable)} ADD CONSTRAINT ${quote(fk.name)} FOREIGN KEY (${quote(fk.sourceField.name)}) REFERENCES ${tableName(fk.targetTable)} (${quote(fk.targetField.name)});`
+            );
+        }
+    };
+
+    const dropIndex = (table: DBTable, index: DBIndex) => {
+        if (isMySQL || isSQLServer) {
+            dropIndexes.push(
+                `DROP INDEX ${quote(index.name)} ON ${tableName(table)};`
+            );
+        } else {
+            dropIndexes.push(
+                `DROP INDEX ${ifExists}${qualifiedTableName(index.name, table.schema, databaseType)};`
+            );
+        }
+    };
+
+    const createIndex = (table: DBTable, index: DBIndex) => {
+        const columns = index.fieldIds
+            .map((fieldId) =>
+                table.fields.find((field) => field.id === fieldId)
+            )
+            .filter((field): field is DBField => !!field)
+            .map((field) => quote(field.name))
+            .join(', ');
+
+        if (columns) {
+            createIndexes.push(
+                `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quote(index.name)} ON ${tableName(table)} (${columns});`
+            );
+        }
+    };
+
+    // Foreign keys are dropped first and recreated last, so every table change in between is allowed
+    diff.relationships.forEach((relationshipDiff) => {
+        if (relationshipDiff.type === 'removed') {
+            const fk = resolveForeignKey(
+                relationshipDiff.relationship,
+                oldTables
+            );
+            if (fk) dropForeignKey(fk);
+        } else if (relationshipDiff.type === 'changed') {
+            const oldFk = resolveForeignKey(
+                relationshipDiff.oldRelationship,
+                oldTables
+            );
+            const newFk = resolveForeignKey(
+                relationshipDiff.newRelationship,
+                newTables
+            );
+            if (oldFk) dropForeignKey(oldFk);
+            if (newFk) addForeignKey(newFk);
+        } else {
+            const fk = resolveForeignKey(
+                relationshipDiff.relationship,
+                newTables
+            );
+
+            // SQLite declares foreign keys between new tables inline
+            if (
+                fk &&
+                !(
+                    isSQLite &&
+                    addedTableIds.has(fk.sourceTable.id) &&
+                    addedTableIds.has(fk.targetTable.id)
+                )
+            ) {
+                addForeignKey(fk);
+            }
+        }
+    });
+
+    const renameTableStatements = (
+        tableDiff: Extract<TableDiff, { type: 'changed' }>
+    ): string[] => {
+        const { oldTable, newTable, renamed, schemaChanged } = tableDiff;
+        const statements: string[] = [];
+        let current = oldTable;
+
+        if (schemaChanged) {
+            const moved = { ...oldTable, schema: newTable.schema };
+
+            if (isSQLServer) {
+                statements.push(
+                    `ALTER SCHEMA ${quote(newTable.schema ?? 'dbo')} TRANSFER ${tableName(oldTable)};`
+                );
+                current = moved;
+            } else if (
+                databaseType === DatabaseType.POSTGRESQL ||
+                databaseType === DatabaseType.GENERIC
+            ) {
+                statements.push(
+                    `ALTER TABLE ${tableName(oldTable)} SET SCHEMA ${quote(newTable.schema ?? 'public')};`
+                );
+                current = moved;
+            }
+        }
+
+        if (renamed) {
+            if (isSQLServer) {
+                statements.push(
+                    `EXEC sp_rename N'${plainName(current.schema ?? 'dbo', current.name)}', N'${escapeSQLString(newTable.name)}';`
+                );
+            } else if (isMySQL) {
+                statements.push(
+                    `RENAME TABLE ${tableName(current)} TO ${quote(newTable.name)};`
+                );
+            } else {
+                statements.push(
+                    `ALTER TABLE ${tableName(current)} RENAME TO ${quote(newTable.name)};`
+                );
+            }
+        }
+
+        return statements;
+    };
+
+    const alterTableStatements = (
+        tableDiff: Extract<TableDiff, { type: 'changed' }>
+    ): string[] => {
+        const { oldTable, newTable, fields } = tableDiff;
+        const table = tableName(newTable);
+        const statements: string[] = [];
+        const changedFields = fields.filter(
+            (fieldDiff): fieldDiff is Extract<FieldDiff, { type: 'changed' }> =>
+                fieldDiff.type === 'changed'
+        );
+
+        const oldPrimaryKey = oldTable.fields.filter(
+            (field) => field.primaryKey
+        );
+        const newPrimaryKey = newTable.fields.filter(
+            (field) => field.primaryKey
+        );
+        const primaryKeyChanged = fields.some((fieldDiff) =>
+            fieldDiff.type === 'changed'
+                ? fieldDiff.changes.includes('primaryKey')
+                : fieldDiff.field.primaryKey
+        );
+
+        if (primaryKeyChanged && oldPrimaryKey.length > 0) {
+            if (databaseType === DatabaseType.POSTGRESQL) {
+                statements.push(
+                    `ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${quote(`${oldTable.name}_pkey`)};`
+                );
+            } else if (isMySQL || isOracle) {
+                statements.push(`ALTER TABLE ${table} DROP PRIMARY KEY;`);
+            } else {
+                statements.push(
+                    `-- Drop the primary key constraint of ${newTable.name} before adding the new one`
+                );
+            }
+        }
+
+        changedFields
+            .filter((fieldDiff) => fieldDiff.changes.includes('name'))
+            .forEach(({ oldField, newField }) => {
+                if (isSQLServer) {
+                    statements.push(
+                        `EXEC sp_rename N'${plainName(newTable.schema ?? 'dbo', newTable.name, oldField.name)}', N'${escapeSQLString(newField.name)}', N'COLUMN';`
+                    );
+                } else {
+                    statements.push(
+                        `ALTER TABLE ${table} RENAME COLUMN ${quote(oldField.name)} TO ${quote(newField.name)};`
+                    );
+                }
+            });
+
+        fields.forEach((fieldDiff) => {
+            if (fieldDiff.type !== 'added') return;
+
+            const definition = sqlColumnDefinition(
+                fieldDiff.field,
+                databaseType,
+                {
+                    autoIncrement:
+                        newPrimaryKey.length === 1 &&
+                        isAutoIncrementField(fieldDiff.field),
+                    primaryKey: false,
+                    unique: fieldDiff.field.unique && !isSQLite,
+                }
+            );
+
+            statements.push(
+                `ALTER TABLE ${table} ADD ${isSQLServer || isOracle ? '' : 'COLUMN '}${definition};`
+            );
+
+            // SQLite can't add a column with a UNIQUE constraint
+            if (isSQLite && fieldDiff.field.unique) {
+                statements.push(
+                    `CREATE UNIQUE INDEX IF NOT EXISTS ${quote(`${newTable.name}_${fieldDiff.field.name}_key`)} ON ${table} (${quote(fieldDiff.field.name)});`
+                );
+            }
+        });
+
+        changedFields.forEach(({ oldField, newField, changes }) => {
+            statements.push(
+                ...alterColumnStatements(newTable, oldField, newField, changes)
+            );
+        });
+
+        fields.forEach((fieldDiff) => {
+            if (fieldDiff.type !== 'removed') return;
+
+            statements.push(
+                `ALTER TABLE ${table} DROP COLUMN ${quote(fieldDiff.field.name)};`
+            );
+        });
+
+        if (primaryKeyChanged && newPrimaryKey.length > 0) {
+            statements.push(
+                isSQLite
+                    ? `-- SQLite cannot change the primary key of ${newTable.name}, the table has to be recreated`
+                    : `ALTER TABLE ${table} ADD PRIMARY KEY (${newPrimaryKey.map((field) => quote(field.name)).join(', ')});`
+            );
+        }
+
+        if (tableDiff.commentsChanged) {
+            statements.push(...tableCommentStatements(oldTable, newTable));
+        }
+
+        return statements;
+    };
+
+    const alterColumnStatements = (
+        table: DBTable,
+        oldField: DBField,
+        newField: DBField,
+        changes: string[]
+    ): string[] => {
+        const name = tableName(table);
+        const column = quote(newField.name);
+        const statements: string[] = [];
+        const typeChanged = [
+            'type',
+            'characterMaximumLength',
+            'precision',
+            'scale',
+            'collation',
+        ].some((attribute) => changes.includes(attribute));
+        const nullableChanged = changes.includes('nullable');
+        const defaultChanged = changes.includes('default');
+        const commentsChanged = changes.includes('comments');
+        const collate = newField.collation
+            ? ` COLLATE ${newField.collation}`
+            : '';
+
+        if (changes.includes('unique')) {
+            if (newField.unique) {
+                statements.push(
+                    isSQLite
+                        ? `CREATE UNIQUE INDEX IF NOT EXISTS ${quote(`${table.name}_${newField.name}_key`)} ON ${name} (${column});`
+                        : `ALTER TABLE ${name} ADD CONSTRAINT ${quote(`${table.name}_${newField.name}_key`)} UNIQUE (${column});`
+                );
+            } else if (databaseType === DatabaseType.POSTGRESQL) {
+                statements.push(
+                    `ALTER TABLE ${name} DROP CONSTRAINT IF EXISTS ${quote(`${table.name}_${oldField.name}_key`)};`
+                );
+            } else if (isMySQL) {
+                statements.push(
+                    `ALTER TABLE ${name} DROP INDEX ${quote(oldField.name)};`
+                );
+            } else if (isOracle) {
+                statements.push(`ALTER TABLE ${name} DROP UNIQUE (${column});`);
+            } else {
+                statements.push(
+                    `-- Drop the unique constraint of ${table.name}.${newField.name}`
+                );
+            }
+        }
+
+        if (
+            !typeChanged &&
+            !nullableChanged &&
+            !defaultChanged &&
+            !(isMySQL && commentsChanged)
+        ) {
+            if (commentsChanged) {
+                statements.push(
+                    ...columnCommentStatements(table, oldField, newField)
+                );
+            }
+            return statements;
+        }
+
+        if (isSQLite) {
+            statements.push(
+                `-- SQLite cannot alter column ${table.name}.${newField.name} (${changes.join(', ')}), the table has to be recreated`
+            );
+            return statements;
+        }
+
+        if (isMySQL) {
+            // MODIFY restates the full column, including its comment
+            statements.push(
+                `ALTER TABLE ${name} MODIFY COLUMN ${sqlColumnDefinition(
+                    newField,
+                    databaseType,
+                    {
+                        autoIncrement:
+                            table.fields.filter((field) => field.primaryKey)
+                                .length === 1 && isAutoIncrementField(newField),
+                        primaryKey: false,
+                        unique: false,
+                    }
+                )};`
+            );
+            return statements;
+        }
+
+        if (isSQLServer) {
+            if (typeChanged || nullableChanged) {
+                statements.push(
+                    `ALTER TABLE ${name} ALTER COLUMN ${column} ${sqlFieldType(newField, databaseType, false)}${collate} ${newField.nullable && !newField.primaryKey ? 'NULL' : 'NOT NULL'};`
+                );
+            }
+            if (defaultChanged) {
+                statements.push(
+                    `-- Replace the default constraint of ${table.name}.${newField.name}${newField.default ? ` with ${sqlDefaultValue(newField.default, databaseType)}` : ''}`
+                );
+            }
+        } else if (isOracle) {
+            if (typeChanged) {
+                statements.push(
+                    `ALTER TABLE ${name} MODIFY ${column} ${sqlFieldType(newField, databaseType, false)}${collate};`
+                );
+            }
+            if (nullableChanged) {
+                statements.push(
+                    `ALTER TABLE ${name} MODIFY ${column} ${newField.nullable && !newField.primaryKey ? 'NULL' : 'NOT NULL'};`
+                );
+            }
+            if (defaultChanged) {
+                statements.push(
+                    `ALTER TABLE ${name} MODIFY ${column} DEFAULT ${newField.default ? sqlDefaultValue(newField.default, databaseType) : 'NULL'};`
+                );
+            }
+        } else {
+            if (typeChanged) {
+                statements.push(
+                    `ALTER TABLE ${name} ALTER COLUMN ${column} TYPE ${sqlFieldType(newField, databaseType, false)}${collate};`
+                );
+            }
+            if (nullableChanged) {
+                statements.push(
+                    `ALTER TABLE ${name} ALTER COLUMN ${column} ${newField.nullable ? 'DROP' : 'SET'} NOT NULL;`
+                );
+            }
+            if (defaultChanged) {
+                statements.push(
+                    newField.default
+                        ? `ALTER TABLE ${name} ALTER COLUMN ${column} SET DEFAULT ${sqlDefaultValue(newField.default, databaseType)};`
+                        : `ALTER TABLE ${name} ALTER COLUMN ${column} DROP DEFAULT;`
+                );
+            }
+        }
+
+        if (commentsChanged) {
+            statements.push(
+                ...columnCommentStatements(table, oldField, newField)
+            );
+        }
+
+        return statements;
+    };
+
+    const extendedPropertyStatement = (
+        oldValue: string | undefined,
+        newValue: string | undefined,
+        target: string
+    ): string => {
+        if (!newValue) {
+            return `EXEC sp_dropextendedproperty N'MS_Description', ${target};`;
+        }
+
+        return `EXEC ${oldValue ? 'sp_updateextendedproperty' : 'sp_addextendedproperty'} N'MS_Description', N'${escapeSQLString(newValue)}', ${target};`;
+    };
+
+    const tableCommentStatements = (
+        oldTable: DBTable,
+        newTable: DBTable
+    ): string[] => {
+        const comment = newTable.comments
+            ? `'${escapeSQLString(newTable.comments)}'`
+            : emptyComment;
+
+        if (isMySQL) {
+            return [
+                `ALTER TABLE ${tableName(newTable)} COMMENT = ${newTable.comments ? comment : "''"};`,
+            ];
+        }
+
+        if (isSQLServer) {
+            return [
+                extendedPropertyStatement(
+                    oldTable.comments,
+                    newTable.comments,
+                    `N'SCHEMA', N'${escapeSQLString(newTable.schema ?? 'dbo')}', N'TABLE', N'${escapeSQLString(newTable.name)}'`
+                ),
+            ];
+        }
+
+        if (isSQLite) {
+            return newTable.comments
+                ? [`-- ${toLineComment(newTable.comments)}`]
+                : [];
+        }
+
+        return [`COMMENT ON TABLE ${tableName(newTable)} IS ${comment};`];
+    };
+
+    const columnCommentStatements = (
+        table: DBTable,
+        oldField: DBField,
+        newField: DBField
+    ): string[] => {
+        if (isSQLServer) {
+            return [
+                extendedPropertyStatement(
+                    oldField.comments,
+                    newField.comments,
+                    `N'SCHEMA', N'${escapeSQLString(table.schema ?? 'dbo')}', N'TABLE', N'${escapeSQLString(table.name)}', N'COLUMN', N'${escapeSQLString(newField.name)}'`
+                ),
+            ];
+        }
+
+        if (isSQLite || isMySQL) {
+            return [];
+        }
+
+        return [
+            `COMMENT ON COLUMN ${tableName(table)}.${quote(newField.name)} IS ${newField.comments ? `'${escapeSQLString(newField.comments)}'` : emptyComment};`,
+        ];
+    };
+
+    diff.tables.forEach((tableDiff) => {
+        if (tableDiff.type === 'removed') {
+            dropTables.push(
+                `DROP TABLE ${ifExists}${tableName(tableDiff.table)};`
+            );
+        } else if (tableDiff.type === 'changed') {
+            tableDiff.indexes.forEach((indexDiff) => {
+                if (indexDiff.type === 'removed') {
+                    dropIndex(tableDiff.oldTable, indexDiff.index);
+                } else if (indexDiff.type === 'changed') {
+                    dropIndex(tableDiff.oldTable, indexDiff.oldIndex);
+                    createIndex(tableDiff.newTable, indexDiff.newIndex);
+                } else {
+                    createIndex(tableDiff.newTable, indexDiff.index);
+                }
+            });
+
+            renameTables.push(...renameTableStatements(tableDiff));
+            alterTables.push(...alterTableStatements(tableDiff));
+        }
+    });
+
+    if (addedTables.length > 0) {
+        const createScript = exportSQL(
+            {
+                ...to,
+                databaseType,
+                tables: addedTables,
+                relationships: isSQLite
+                    ? (to.relationships ?? []).filter(
+                          (relationship) =>
+                              addedTableIds.has(relationship.sourceTableId) &&
+                              addedTableIds.has(relationship.targetTableId)
+                      )
+                    : [],
+            },
+            databaseType
+        );
+
+        createTables.push(createScript.trimEnd());
+    }
+
+    return (
+        sections
+            .filter(({ statements }) => statements.length > 0)
+            .map(
+                ({ title, statements }) =>
+                    `-- ${title}\n${statements.join('\n')}`
+            )
+            .join('\n\n') + '\n'
+    );
+};
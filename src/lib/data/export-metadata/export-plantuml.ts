@@ -0,0 +1,179 @@
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { Diagram } from '@/lib/domain/diagram';
+import { toIdentifier, uniqueName } from './code-names';
+
+const plantUMLString = (value: string) =>
+    `"${value.replace(/"/g, "'").replace(/\s*\n\s*/g, ' ')}"`;
+
+const plantUMLType = (field: DBField): string => {
+    const size =
+        field.characterMaximumLength ??
+        (field.precision !== undefined
+            ? [field.precision, field.scale]
+                  .filter((n) => n !== undefined)
+                  .join(',')
+            : undefined);
+
+    return size ? `${field.type.name}(${size})` : field.type.name;
+};
+
+const foreignKeyFieldIds = (relationships: DBRelationship[]) =>
+    new Set(
+        relationships.flatMap((relationship) =>
+            relationship.sourceCardinality === 'one' &&
+            relationship.targetCardinality === 'many'
+                ? [relationship.targetFieldId]
+                : [relationship.sourceFieldId]
+        )
+    );
+
+// Mandatory columns are starred, as in the IE notation, and comments are set in italics
+const exportAttribute = (field: DBField, foreignKeys: Set<string>) => {
+    const stereotypes = [
+        ...(field.primaryKey ? ['<<PK>>'] : []),
+        ...(foreignKeys.has(field.id) ? ['<<FK>>'] : []),
+    ];
+
+    return [
+        `${field.nullable && !field.primaryKey ? '' : '* '}${field.name} : ${plantUMLType(field)}`,
+        ...stereotypes,
+        ...(field.comments
+            ? [`//${field.comments.replace(/\s*\n\s*/g, ' ')}//`]
+            : []),
+    ].join(' ');
+};
+
+// Primary keys are listed above the separator line
+const exportEntity = (
+    table: DBTable,
+    alias: string,
+    foreignKeys: Set<string>,
+    indent: string
+): string => {
+    const keys = table.fields.filter((field) => field.primaryKey);
+    const columns = table.fields.filter((field) => !field.primaryKey);
+    const body = [
+        ...keys.map((field) => exportAttribute(field, foreignKeys)),
+        ...(keys.length > 0 && columns.length > 0 ? ['--'] : []),
+        ...columns.map((field) => exportAttribute(field, foreignKeys)),
+    ];
+    const header = [
+        'entity',
+        plantUMLString(table.name),
+        'as',
+        alias,
+        ...(table.isView ? ['<<view>>'] : []),
+        ...(table.color ? [table.color] : []),
+    ].join(' ');
+    const lines = [`${header} {`, ...body.map((line) => `    ${line}`), '}'];
+
+    if (table.comments) {
+        lines.push(
+            `note bottom of ${alias} : ${table.comments.replace(/\s*\n\s*/g, '\\n')}`
+        );
+    }
+
+    return lines.map((line) => `${indent}${line}`).join('\n');
+};
+
+// The "many" side of a relationship allows zero or more rows, the "one" side follows the nullability of the foreign key
+const exportRelationship = (
+    relationship: DBRelationship,
+    aliases: Map<string, string>,
+    tables: Map<string, DBTable>
+): string | undefined => {
+    const source = tables.get(relationship.sourceTableId);
+    const target = tables.get(relationship.targetTableId);
+
+    if (!source || !target) {
+        return undefined;
+    }
+
+    const sourceField = source.fields.find(
+        (field) => field.id === relationship.sourceFieldId
+    );
+    const optional = sourceField?.nullable ?? true;
+    const left = relationship.sourceCardinality === 'many' ? '}o' : '|o';
+    const right =
+        relationship.targetCardinality === 'many'
+            ? 'o{'
+            : optional
+              ? 'o|'
+              : '||';
+    // A solid line marks an identifying relationship, where the foreign key is part of the primary key
+    const line = sourceField?.primaryKey ? '--' : '..';
+
+    return `${aliases.get(source.id)} ${left}${line}${right} ${aliases.get(target.id)} : ${relationship.name}`;
+};
+
+export const exportPlantUML = (diagram: Diagram): string => {
+    const tables = diagram.tables ?? [];
+    const tableById = new Map(tables.map((table) => [table.id, table]));
+    const relationships = diagram.relationships ?? [];
+    const foreignKeys = foreignKeyFieldIds(relationships);
+    const usedNames = new Set<string>();
+    const aliases = new Map<string, string>();
+    const schemas = new Map<string, DBTable[]>();
+    const blocks: string[] = [];
+
+    tables.forEach((table) => {
+        aliases.set(
+            table.id,
+            uniqueName(
+                toIdentifier(
+                    table.schema ? `${table.schema}.${table.name}` : table.name
+                ),
+                usedNames
+            )
+        );
+
+        if (table.schema) {
+            schemas.set(table.schema, [
+                ...(schemas.get(table.schema) ?? []),
+                table,
+            ]);
+        }
+    });
+
+    schemas.forEach((schemaTables, schema) =>
+        blocks.push(
+            `package ${plantUMLString(schema)} {\n${schemaTables
+                .map((table) =>
+                    exportEntity(
+                        table,
+                        aliases.get(table.id)!,
+                        foreignKeys,
+                        '    '
+                    )
+                )
+                .join('\n\n')}\n}`
+        )
+    );
+
+    tables
+        .filter((table) => !table.schema)
+        .forEach((table) =>
+            blocks.push(
+                exportEntity(table, aliases.get(table.id)!, foreignKeys, '')
+            )
+        );
+
+    const lines = relationships
+        .map((relationship) =>
+            exportRelationship(relationship, aliases, tableById)
+        )
+        .filter((line): line is string => !!line);
+
+    if (lines.length > 0) {
+        blocks.push(lines.join('\n'));
+    }
+
+    return `${[
+        '@startuml',
+        'hide circle\nskinparam linetype ortho',
+        ...blocks,
+        '@enduml',
+    ].join('\n\n')}\n`;
+};
@@ -0,0 +1,587 @@
+import { dataTypeCategory, DataTypeCategory } from '@/lib/data/data-types';
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { Diagram } from '@/lib/domain/diagram';
+import {
+    toCamelCase,
+    toPascalCase,
+    toPluralName,
+    toRelationName,
+    uniqueName,
+} from './code-names';
+import { isAutoIncrementField, isIdentityClause } from './export-sql-script';
+
+type PrismaProvider = 'postgresql' | 'mysql' | 'sqlserver' | 'sqlite';
+
+const prismaProviders: Record<DatabaseType, PrismaProvider> = {
+    [DatabaseType.GENERIC]: 'postgresql',
+    [DatabaseType.POSTGRESQL]: 'postgresql',
+    [DatabaseType.MYSQL]: 'mysql',
+    [DatabaseType.SQL_SERVER]: 'sqlserver',
+    [DatabaseType.MARIADB]: 'mysql',
+    [DatabaseType.SQLITE]: 'sqlite',
+    // Prisma has no Oracle connector
+    [DatabaseType.ORACLE]: 'postgresql',
+};
+
+const scalarTypes: Record<DataTypeCategory, string | undefined> = {
+    string: 'String',
+    uuid: 'String',
+    integer: 'Int',
+    bigint: 'BigInt',
+    float: 'Float',
+    decimal: 'Decimal',
+    boolean: 'Boolean',
+    date: 'DateTime',
+    time: 'DateTime',
+    datetime: 'DateTime',
+    json: 'Json',
+    binary: 'Bytes',
+    unknown: undefined,
+};
+
+interface NativeType {
+    name: string;
+    // Which field attributes become the native type arguments
+    args?: 'length' | 'precision';
+}
+
+// Types that are the default for their scalar type are left out
+const nativeTypes: Record<
+    Exclude<PrismaProvider, 'sqlite'>,
+    Record<string, NativeType>
+> = {
+    postgresql: {
+        varchar: { name: 'VarChar', args: 'length' },
+        'character varying': { name: 'VarChar', args: 'length' },
+        char: { name: 'Char', args: 'length' },
+        character: { name: 'Char', args: 'length' },
+        uuid: { name: 'Uuid' },
+        smallint: { name: 'SmallInt' },
+        int2: { name: 'SmallInt' },
+        decimal: { name: 'Decimal', args: 'precision' },
+        numeric: { name: 'Decimal', args: 'precision' },
+        money: { name: 'Money' },
+        real: { name: 'Real' },
+        float4: { name: 'Real' },
+        date: { name: 'Date' },
+        time: { name: 'Time', args: 'precision' },
+        'time without time zone': { name: 'Time', args: 'precision' },
+        timetz: { name: 'Timetz', args: 'precision' },
+        'time with time zone': { name: 'Timetz', args: 'precision' },
+        timestamp: { name: 'Timestamp', args: 'precision' },
+        'timestamp without time zone': {
+            name: 'Timestamp',
+            args: 'precision',
+        },
+        timestamptz: { name: 'Timestamptz', args: 'precision' },
+        'timestamp with time zone': { name: 'Timestamptz', args: 'precision' },
+        json: { name: 'Json' },
+        xml: { name: 'Xml' },
+        inet: { name: 'Inet' },
+        citext: { name: 'Citext' },
+    },
+    mysql: {
+        varchar: { name: 'VarChar', args: 'length' },
+        char: { name: 'Char', args: 'length' },
+        text: { name: 'Text' },
+        tinytext: { name: 'TinyText' },
+        mediumtext: { name: 'MediumText' },
+        longtext: { name: 'LongText' },
+        tinyint: { name: 'TinyInt' },
+        smallint: { name: 'SmallInt' },
+        mediumint: { name: 'MediumInt' },
+        decimal: { name: 'Decimal', args: 'precision' },
+        numeric: { name: 'Decimal', args: 'precision' },
+        float: { name: 'Float' },
+        date: { name: 'Date' },
+        time: { name: 'Time', args: 'precision' },
+        datetime: { name: 'DateTime', args: 'precision' },
+        timestamp: { name: 'Timestamp', args: 'precision' },
+        year: { name: 'Year' },
+        binary: { name: 'Binary', args: 'length' },
+        varbinary: { name: 'VarBinary', args: 'length' },
+        tinyblob: { name: 'TinyBlob' },
+        blob: { name: 'Blob' },
+        mediumblob: { name: 'MediumBlob' },
+    },
+    sqlserver: {
+        varchar: { name: 'VarChar', args: 'length' },
+        nvarchar: { name: 'NVarChar', args: 'length' },
+        char: { name: 'Char', args: 'length' },
+        nchar: { name: 'NChar', args: 'length' },
+        text: { name: 'Text' },
+        ntext: { name: 'NText' },
+        tinyint: { name: 'TinyInt' },
+        smallint: { name: 'SmallInt' },
+        decimal: { name: 'Decimal', args: 'precision' },
+        numeric: { name: 'Decimal', args: 'precision' },
+        money: { name: 'Money' },
+        smallmoney: { name: 'SmallMoney' },
+        real: { name: 'Real' },
+        date: { name: 'Date' },
+        time: { name: 'Time' },
+        datetime: { name: 'DateTime' },
+        smalldatetime: { name: 'SmallDateTime' },
+        datetimeoffset: { name: 'DateTimeOffset' },
+        uniqueidentifier: { name: 'UniqueIdentifier' },
+        binary: { name: 'Binary', args: 'length' },
+        varbinary: { name: 'VarBinary', args: 'length' },
+        image: { name: 'Image' },
+        xml: { name: 'Xml' },
+    },
+};
+
+interface PrismaField {
+    name: string;
+    type: string;
+    attributes: string[];
+    comments?: string;
+}
+
+interface PrismaModel {
+    table: DBTable;
+    name: string;
+    fields: PrismaField[];
+    fieldNames: Map<string, string>;
+    usedNames: Set<string>;
+    blockAttributes: string[];
+}
+
+const prismaString = (value: string) => JSON.stringify(value);
+
+const nativeTypeAttribute = (
+    field: DBField,
+    provider: PrismaProvider
+): string | undefined => {
+    if (provider === 'sqlite') {
+        return undefined;
+    }
+
+    const baseType = field.type.name.toLowerCase().replace(/\(.*\)$/, '');
+    const nativeType = nativeTypes[provider][baseType];
+
+    if (!nativeType) {
+        return undefined;
+    }
+
+    let args: string | undefined;
+
+    if (nativeType.args === 'length' && field.characterMaximumLength) {
+        args = /^max$/i.test(field.characterMaximumLength)
+            ? 'Max'
+            : field.characterMaximumLength;
+    } else if (nativeType.args === 'precision' && field.precision) {
+        args = field.scale
+            ? `${field.precision}, ${field.scale}`
+            : `${field.precision}`;
+    }
+
+    // Only PostgreSQL accepts unbounded lengths
+    if (nativeType.args === 'length' && !args && provider !== 'postgresql') {
+        return undefined;
+    }
+
+    return `@db.${nativeType.name}${args ? `(${args})` : ''}`;
+};
+
+const prismaDefault = (
+    field: DBField,
+    scalarType: string | undefined
+): string | undefined => {
+    if (isAutoIncrementField(field)) {
+        return 'autoincrement()';
+    }
+
+    if (field.default && isIdentityClause(field.default)) {
+        return undefined;
+    }
+
+    // SQL Server wraps defaults in parentheses, e.g. ((0))
+    const value = (field.default ?? '').trim().replace(/^\((.*)\)$/, '$1');
+    const unwrapped = value.replace(/^\((.*)\)$/, '$1');
+    const stringMatch = unwrapped.match(/^N?'((?:[^']|'')*)'(::[\w\s]+)?$/);
+
+    if (!unwrapped || /^null$/i.test(unwrapped)) {
+        return undefined;
+    }
+
+    if (/^-?\d+(\.\d+)?$/.test(unwrapped)) {
+        return scalarType === 'Boolean'
+            ? `${unwrapped !== '0'}`
+            : scalarType === 'String'
+              ? prismaString(unwrapped)
+              : unwrapped;
+    }
+
+    if (/^(true|false)$/i.test(unwrapped)) {
+        return unwrapped.toLowerCase();
+    }
+
+    if (
+        scalarType === 'DateTime' &&
+        /^(now\(\)|current_timestamp(\(\d*\))?|getdate\(\)|sysdatetime\(\)|localtimestamp)$/i.test(
+            unwrapped
+        )
+    ) {
+        return 'now()';
+    }
+
+    if (stringMatch && scalarType === 'String') {
+        return prismaString(stringMatch[1].replace(/''/g, "'"));
+    }
+
+    return `dbgenerated(${prismaString(unwrapped)})`;
+};
+
+const scalarField = (
+    field: DBField,
+    provider: PrismaProvider,
+    name: string,
+    singlePrimaryKey: boolean
+): PrismaField => {
+    const isList = provider === 'postgresql' && field.type.name.endsWith('[]');
+    const category = dataTypeCategory(field.type.name);
+    const scalarType =
+        provider === 'sqlite' && category === 'json'
+            ? 'String'
+            : scalarTypes[category];
+    const type = scalarType ?? `Unsupported(${prismaString(field.type.name)})`;
+    const attributes: string[] = [];
+
+    if (field.primaryKey && singlePrimaryKey) {
+        attributes.push('@id');
+    }
+
+    if (field.unique && !field.primaryKey) {
+        attributes.push('@unique');
+    }
+
+    const defaultValue = isList ? undefined : prismaDefault(field, scalarType);
+
+    if (defaultValue) {
+        attributes.push(`@default(${defaultValue})`);
+    }
+
+    if (name !== field.name) {
+        attributes.push(`@map(${prismaString(field.name)})`);
+    }
+
+    const nativeType = scalarType
+        ? nativeTypeAttribute(field, provider)
+        : undefined;
+
+    if (nativeType) {
+        attributes.push(nativeType);
+    }
+
+    return {
+        name,
+        type: isList
+            ? `${type}[]`
+            : `${type}${field.nullable && !field.primaryKey ? '?' : ''}`,
+        attributes,
+        comments: field.comments,
+    };
+};
+
+const createModel = (
+    table: DBTable,
+    name: string,
+    provider: PrismaProvider,
+    schema: string | undefined
+): PrismaModel => {
+    const primaryKeys = table.fields.filter((field) => field.primaryKey);
+    const usedNames = new Set<string>();
+    const fieldNames = new Map<string, string>();
+    const fields = table.fields.map((field) => {
+        const fieldName = uniqueName(toCamelCase(field.name), usedNames);
+        fieldNames.set(field.id, fieldName);
+
+        return scalarField(
+            field,
+            provider,
+            fieldName,
+            primaryKeys.length === 1
+        );
+    });
+    const blockAttributes: string[] = [];
+    const fieldList = (fieldIds: string[]) =>
+        fieldIds.map((fieldId) => fieldNames.get(fieldId)).join(', ');
+
+    if (primaryKeys.length > 1) {
+        blockAttributes.push(
+            `@@id([${fieldList(primaryKeys.map((field) => field.id))}])`
+        );
+    }
+
+    table.indexes.forEach((index) => {
+        const fieldIds = index.fieldIds.filter((fieldId) =>
+            fieldNames.has(fieldId)
+        );
+        const map = `map: ${prismaString(index.name)}`;
+
+        if (fieldIds.length === 0) {
+            return;
+        }
+
+        if (index.unique && fieldIds.length === 1) {
+            const field = fields.find(
+                (f) => f.name === fieldNames.get(fieldIds[0])
+            )!;
+
+            if (field.attributes.includes('@id')) {
+                return;
+            }
+
+            // A field takes @unique once, further unique indexes on it become block attributes
+            if (!field.attributes.some((attr) => attr.startsWith('@unique('))) {
+                field.attributes = [
+                    ...field.attributes.filter((attr) => attr !== '@unique'),
+                    `@unique(${map})`,
+                ];
+                return;
+            }
+        }
+
+        blockAttributes.push(
+            `@@${index.unique ? 'unique' : 'index'}([${fieldList(fieldIds)}], ${map})`
+        );
+    });
+
+    if (name !== table.name) {
+        blockAttributes.push(`@@map(${prismaString(table.name)})`);
+    }
+
+    if (schema) {
+        blockAttributes.push(`@@schema(${prismaString(schema)})`);
+    }
+
+    return {
+        table,
+        name,
+        fields,
+        fieldNames,
+        usedNames,
+        blockAttributes,
+    };
+};
+
+// Prisma only needs a relation name to tell apart several relations between the same two models
+const addRelation = (
+    relationship: DBRelationship,
+    models: Map<string, PrismaModel>,
+    ambiguous: boolean
+) => {
+    const sourceModel = models.get(relationship.sourceTableId);
+    const targetModel = models.get(relationship.targetTableId);
+
+    if (!sourceModel || !targetModel) {
+        return;
+    }
+
+    const relationName = ambiguous ? prismaString(relationship.name) : '';
+    const inverseAttributes = ambiguous ? [`@relation(${relationName})`] : [];
+
+    if (
+        relationship.sourceCardinality === 'many' &&
+        relationship.targetCardinality === 'many'
+    ) {
+        sourceModel.fields.push({
+            name: uniqueName(
+                toPluralName(targetModel.name),
+                sourceModel.usedNames
+            ),
+            type: `${targetModel.name}[]`,
+            attributes: inverseAttributes,
+        });
+        targetModel.fields.push({
+            name: uniqueName(
+                toPluralName(sourceModel.name),
+                targetModel.usedNames
+            ),
+            type: `${sourceModel.name}[]`,
+            attributes: inverseAttributes,
+        });
+        return;
+    }
+
+    // The foreign key lives on the "many" side, or on the source for one to one
+    const reversed =
+        relationship.sourceCardinality === 'one' &&
+        relationship.targetCardinality === 'many';
+    const holder = reversed ? targetModel : sourceModel;
+    const referenced = reversed ? sourceModel : targetModel;
+    const holderFieldId = reversed
+        ? relationship.targetFieldId
+        : relationship.sourceFieldId;
+    const referencedFieldId = reversed
+        ? relationship.sourceFieldId
+        : relationship.targetFieldId;
+    const holderField = holder.table.fields.find((f) => f.id === holderFieldId);
+    const holderFieldName = holder.fieldNames.get(holderFieldId);
+    const referencedFieldName = referenced.fieldNames.get(referencedFieldId);
+
+    if (!holderField || !holderFieldName || !referencedFieldName) {
+        return;
+    }
+
+    const oneToOne =
+        relationship.sourceCardinality === 'one' &&
+        relationship.targetCardinality === 'one';
+
+    // Prisma requires the foreign key of a one to one relation to be unique
+    if (oneToOne) {
+        const field = holder.fields.find((f) => f.name === holderFieldName)!;
+
+        if (
+            !field.attributes.some(
+                (attr) => attr === '@id' || attr.startsWith('@unique')
+            )
+        ) {
+            field.attributes.splice(0, 0, '@unique');
+        }
+    }
+
+    holder.fields.push({
+        name: uniqueName(
+            toRelationName(holderField.name, referenced.name),
+            holder.usedNames
+        ),
+        type: `${referenced.name}${holderField.nullable ? '?' : ''}`,
+        attributes: [
+            `@relation(${relationName ? `${relationName}, ` : ''}fields: [${holderFieldName}], references: [${referencedFieldName}], map: ${prismaString(relationship.name)})`,
+        ],
+    });
+    referenced.fields.push({
+        name: uniqueName(
+            oneToOne ? toCamelCase(holder.name) : toPluralName(holder.name),
+            referenced.usedNames
+        ),
+        type: oneToOne ? `${holder.name}?` : `${holder.name}[]`,
+        attributes: inverseAttributes,
+    });
+};
+
+const docComment = (comments: string, indent: string) =>
+    comments
+        .split('\n')
+        .map((line) => `${indent}/// ${line}`)
+        .join('\n');
+
+// Fields are aligned in columns the way prisma format does
+const exportModel = (model: PrismaModel): string => {
+    const nameWidth = Math.max(...model.fields.map((f) => f.name.length));
+    const typeWidth = Math.max(...model.fields.map((f) => f.type.length));
+    const lines: string[] = [];
+
+    if (model.table.comments) {
+        lines.push(docComment(model.table.comments, ''));
+    }
+
+    lines.push(`model ${model.name} {`);
+
+    model.fields.forEach((field) => {
+        if (field.comments) {
+            lines.push(docComment(field.comments, '  '));
+        }
+
+        lines.push(
+            `  ${field.name.padEnd(nameWidth)} ${field.type.padEnd(typeWidth)} ${field.attributes.join(' ')}`.trimEnd()
+        );
+    });
+
+    if (model.blockAttributes.length > 0) {
+        lines.push('');
+        model.blockAttributes.forEach((attribute) =>
+            lines.push(`  ${attribute}`)
+        );
+    }
+
+    lines.push('}');
+
+    return lines.join('\n');
+};
+
+export const exportPrisma = (diagram: Diagram): string => {
+    const provider = prismaProviders[diagram.databaseType];
+    const tables = (diagram.tables ?? []).filter(
+        (table) => !table.isView && table.fields.length > 0
+    );
+    const schemas = [
+        ...new Set(
+            tables
+                .map((table) => table.schema)
+                .filter((schema): schema is string => !!schema)
+        ),
+    ];
+    const multiSchema =
+        provider !== 'sqlite' &&
+        (schemas.length > 1 ||
+            schemas.some(
+                (schema) => schema !== defaultSchemas[diagram.databaseType]
+            ));
+
+    const usedModelNames = new Set<string>();
+    const models = new Map<string, PrismaModel>();
+
+    tables.forEach((table) =>
+        models.set(
+            table.id,
+            createModel(
+                table,
+                uniqueName(toPascalCase(table.name), usedModelNames),
+                provider,
+                multiSchema ? table.schema : undefined
+            )
+        )
+    );
+
+    const relationships = diagram.relationships ?? [];
+    const modelPair = (relationship: DBRelationship) =>
+        [relationship.sourceTableId, relationship.targetTableId]
+            .sort()
+            .join(' ');
+    const pairCounts = new Map<string, number>();
+
+    relationships.forEach((relationship) =>
+        pairCounts.set(
+            modelPair(relationship),
+            (pairCounts.get(modelPair(relationship)) ?? 0) + 1
+        )
+    );
+    relationships.forEach((relationship) =>
+        addRelation(
+            relationship,
+            models,
+            pairCounts.get(modelPair(relationship))! > 1
+        )
+    );
+
+    const blocks = [
+        [
+            'generator client {',
+            '  provider = "prisma-client-js"',
+            ...(multiSchema ? ['  previewFeatures = ["multiSchema"]'] : []),
+            '}',
+        ].join('\n'),
+        [
+            ...(diagram.databaseType === DatabaseType.GENERIC
+                ? ['// Generic diagram, set the provider of your database']
+                : []),
+            'datasource db {',
+            `  provider = ${prismaString(provider)}`,
+            '  url      = env("DATABASE_URL")',
+            ...(multiSchema
+                ? [`  schemas  = [${schemas.map(prismaString).join(', ')}]`]
+                : []),
+            '}',
+        ].join('\n'),
+        ...[...models.values()].map(exportModel),
+    ];
+
+    return `${blocks.join('\n\n')}\n`;
+};
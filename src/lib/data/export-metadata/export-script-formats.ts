@@ -0,0 +1,68 @@
+import type { Diagram } from '@/lib/domain/diagram';
+import { exportCSVDictionary } from './export-data-dictionary/export-csv-dictionary';
+import { exportHTMLDictionary } from './export-data-dictionary/export-html-dictionary';
+import { exportMarkdownDictionary } from './export-data-dictionary/export-markdown-dictionary';
+import { exportDBML } from './export-dbml';
+import { exportMermaid } from './export-mermaid';
+import { exportPlantUML } from './export-plantuml';
+import { exportPrisma } from './export-prisma';
+
+export type ExportScriptFormat =
+    | 'dbml'
+    | 'prisma'
+    | 'mermaid'
+    | 'plantuml'
+    | 'markdown'
+    | 'html'
+    | 'csv';
+
+export interface ExportScriptFormatInfo {
+    label: string;
+    fileExtension: string;
+    mimeType?: string;
+    exportScript: (diagram: Diagram) => string;
+}
+
+export const exportScriptFormats: Record<
+    ExportScriptFormat,
+    ExportScriptFormatInfo
+> = {
+    dbml: {
+        label: 'DBML',
+        fileExtension: 'dbml',
+        exportScript: exportDBML,
+    },
+    prisma: {
+        label: 'Prisma',
+        fileExtension: 'prisma',
+        exportScript: exportPrisma,
+    },
+    mermaid: {
+        label: 'Mermaid',
+        fileExtension: 'mmd',
+        exportScript: exportMermaid,
+    },
+    plantuml: {
+        label: 'PlantUML',
+        fileExtension: 'puml',
+        exportScript: exportPlantUML,
+    },
+    markdown: {
+        label: 'Data Dictionary (Markdown)',
+        fileExtension: 'md',
+        mimeType: 'text/markdown',
+        exportScript: exportMarkdownDictionary,
+    },
+    html: {
+        label: 'Data Dictionary (HTML)',
+        fileExtension: 'html',
+        mimeType: 'text/html',
+        exportScript: exportHTMLDictionary,
+    },
+    csv: {
+        label: 'Data Dictionary (CSV)',
+        fileExtension: 'csv',
+        mimeType: 'text/csv',
+        exportScript: exportCSVDictionary,
+    },
+};
@@ -4,39 +4,86 @@ import { Diagram } from '../../domain/diagram';
 import { OPENAI_API_KEY } from '@/lib/env';
 import { DatabaseType } from '@/lib/domain/database-type';
 import { DBTable } from '@/lib/domain/db-table';
+import { DBField } from '@/lib/domain/db-field';
+import {
+    DBRelationship,
+    determineRelationshipType,
+} from '@/lib/domain/db-relationship';
+import { deepCopy } from '@/lib/utils';
 import { DataType } from '../data-types';
+import { defaultSchemas } from '../default-schemas';
+import {
+    escapeSQLString,
+    qualifiedTableName,
+    quoteIdentifier,
+    sqlDialectMap,
+} from './sql-dialects';
 
 const openai = createOpenAI({
     apiKey: OPENAI_API_KEY,
 });
 
+// A many to many relationship has no foreign key column, it would need a join table the diagram doesn't have
+export const isForeignKeyRelationship = (
+    relationship: DBRelationship
+): boolean => determineRelationshipType(relationship) !== 'many_to_many';
+
 export const exportBaseSQL = (diagram: Diagram): string => {
-    const { tables, relationships } = diagram;
+    const { tables, relationships } = deepCopy(diagram);
 
     if (!tables || tables.length === 0) {
         return '';
     }
 
+    // Identifiers are quoted the way the diagram database expects them
+    const { databaseType } = diagram;
+    const quote = (name: string) => quoteIdentifier(name, databaseType);
+    const tableName = (name: string, schema?: string) =>
+        qualifiedTableName(name, schema, databaseType);
+
     // Filter out the tables that are views
     const nonViewTables = tables.filter((table) => !table.isView);
 
     // Align the data types based on foreign key relationships
-    alignForeignKeyDataTypes(diagram);
+    alignForeignKeyDataTypes({ ...diagram, tables, relationships });
 
     // Initialize the SQL script string
     let sqlScript = '';
 
+    // Create the non default schemas used by the tables
+    if (sqlDialectMap[databaseType].supportsSchemas) {
+        const schemas = new Set(
+            nonViewTables
+                .map((table) => table.schema)
+                .filter(
+                    (schema): schema is string =>
+                        !!schema && schema !== defaultSchemas[databaseType]
+                )
+        );
+
+        schemas.forEach((schema) => {
+            sqlScript += `CREATE SCHEMA ${quote(schema)};\n`;
+        });
+
+        if (schemas.size > 0) {
+            sqlScript += '\n';
+        }
+    }
+
     // Loop through each non-view table to generate the SQL statements
     nonViewTables.forEach((table) => {
-        sqlScript += `CREATE TABLE ${table.name} (\n`;
+        const qualifiedName = tableName(table.name, table.schema);
 
-        table.fields.forEach((field, index) => {
-            sqlScript += `  ${field.name} ${field.type.name}`;
+        // A table needs at least one column
+        if (table.fields.length === 0) {
+            sqlScript += `-- Table ${qualifiedName} has no columns and is skipped\n\n`;
+            return;
+        }
 
-            // Add size for character types
-            if (field.characterMaximumLength) {
-                sqlScript += `(${field.characterMaximumLength})`;
-            }
+        sqlScript += `CREATE TABLE ${qualifiedName} (\n`;
+
+        table.fields.forEach((field, index) => {
+            sqlScript += `  ${quote(field.name)} ${baseFieldType(field, databaseType)}`;
 
             // Add precision and scale for numeric types
             if (field.precision && field.scale) {
@@ -50,16 +97,30 @@ export const exportBaseSQL = (diagram: Diagram): string => {
                 sqlScript += ' NOT NULL';
             }
 
-            // Handle DEFAULT value
-            if (field.default) {
+            // Handle DEFAULT value, an identity clause is written as it was declared
+            const identityClause =
+                field.default && isIdentityClause(field.default)
+                    ? ` ${field.default}`
+                    : '';
+
+            if (field.default && !identityClause) {
                 sqlScript += ` DEFAULT ${field.default}`;
             }
 
+            // SQLite only takes AUTOINCREMENT after PRIMARY KEY
+            if (databaseType !== DatabaseType.SQLITE) {
+                sqlScript += identityClause;
+            }
+
             // Handle PRIMARY KEY constraint
             if (field.primaryKey) {
                 sqlScript += ' PRIMARY KEY';
             }
 
+            if (databaseType === DatabaseType.SQLITE) {
+                sqlScript += identityClause;
+            }
+
             // Add a comma after each field except the last one
             if (index < table.fields.length - 1) {
                 sqlScript += ',\n';
@@ -70,13 +131,13 @@ export const exportBaseSQL = (diagram: Diagram): string => {
 
         // Add table comment
         if (table.comments) {
-            sqlScript += `COMMENT ON TABLE ${table.name} IS '${table.comments}';\n`;
+            sqlScript += `COMMENT ON TABLE ${qualifiedName} IS '${escapeSQLString(table.comments)}';\n`;
         }
 
         table.fields.forEach((field) => {
             // Add column comment
             if (field.comments) {
-                sqlScript += `COMMENT ON COLUMN ${table.name}.${field.name} IS '${field.comments}';\n`;
+                sqlScript += `COMMENT ON COLUMN ${qualifiedName}.${quote(field.name)} IS '${escapeSQLString(field.comments)}';\n`;
             }
         });
 
@@ -87,11 +148,12 @@ export const exportBaseSQL = (diagram: Diagram): string => {
                     (fieldId) =>
                         table.fields.find((field) => field.id === fieldId)?.name
                 )
-                .filter(Boolean)
+                .filter((name): name is string => !!name)
+                .map(quote)
                 .join(', ');
 
             if (fieldNames) {
-                sqlScript += `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${index.name} ON ${table.name} (${fieldNames});\n`;
+                sqlScript += `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${quote(index.name)} ON ${qualifiedName} (${fieldNames});\n`;
             }
         });
 
@@ -118,20 +180,315 @@ export const exportBaseSQL = (diagram: Diagram): string => {
             sourceTable &&
             targetTable &&
             sourceTableField &&
-            targetTableField
+            targetTableField &&
+            isForeignKeyRelationship(relationship)
         ) {
-            sqlScript += `ALTER TABLE ${sourceTable.name} ADD CONSTRAINT ${relationship.name} FOREIGN KEY (${sourceTableField.name}) REFERENCES ${targetTable.name} (${targetTableField.name});\n`;
+            const sourceTableName = tableName(
+                sourceTable.name,
+                relationship.sourceSchema ?? sourceTable.schema
+            );
+            const targetTableName = tableName(
+                targetTable.name,
+                relationship.targetSchema ?? targetTable.schema
+            );
+
+            sqlScript += `ALTER TABLE ${sourceTableName} ADD CONSTRAINT ${quote(relationship.name)} FOREIGN KEY (${quote(sourceTableField.name)}) REFERENCES ${targetTableName} (${quote(targetTableField.name)});\n`;
         }
     });
 
     return sqlScript;
 };
 
-export const exportSQL = async (
+export const exportSQL = (
     diagram: Diagram,
     databaseType: DatabaseType
+): string => {
+    const { tables, relationships } = deepCopy(diagram);
+
+    if (!tables || tables.length === 0) {
+        return '';
+    }
+
+    const dialect = sqlDialectMap[databaseType];
+    const nonViewTables = tables.filter((table) => !table.isView);
+
+    // Move tables from the source default schema into the target default schema
+    if (diagram.databaseType !== databaseType) {
+        nonViewTables.forEach((table) => {
+            if (table.schema === defaultSchemas[diagram.databaseType]) {
+                table.schema = defaultSchemas[databaseType];
+            }
+        });
+    }
+
+    alignForeignKeyDataTypes({
+        ...diagram,
+        tables: nonViewTables,
+        relationships,
+    });
+
+    const tableName = (table: DBTable) =>
+        qualifiedTableName(table.name, table.schema, databaseType);
+    const quote = (name: string) => quoteIdentifier(name, databaseType);
+
+    const foreignKeys = (relationships ?? [])
+        .map((relationship) => {
+            const sourceTable = nonViewTables.find(
+                (table) => table.id === relationship.sourceTableId
+            );
+            const targetTable = nonViewTables.find(
+                (table) => table.id === relationship.targetTableId
+            );
+            const sourceField = sourceTable?.fields.find(
+                (field) => field.id === relationship.sourceFieldId
+            );
+            const targetField = targetTable?.fields.find(
+                (field) => field.id === relationship.targetFieldId
+            );
+
+            if (
+                !sourceTable ||
+                !targetTable ||
+                !sourceField ||
+                !targetField ||
+                !isForeignKeyRelationship(relationship)
+            ) {
+                return null;
+            }
+
+            return {
+                name:
+                    relationship.name ||
+                    `fk_${sourceTable.name}_${sourceField.name}`,
+                sourceTable,
+                targetTable,
+                sourceField,
+                targetField,
+            };
+        })
+        .filter((fk) => fk !== null);
+
+    let sqlScript = '';
+
+    // Create the schemas used by the tables
+    if (dialect.supportsSchemas) {
+        const schemas = [
+            ...new Set(
+                nonViewTables
+                    .map((table) => table.schema)
+                    .filter((schema): schema is string => !!schema)
+            ),
+        ].filter((schema) => schema !== defaultSchemas[databaseType]);
+
+        schemas.forEach((schema) => {
+            if (databaseType === DatabaseType.ORACLE) {
+                // Oracle schemas are database users, which a DDL script should not create
+                sqlScript += `-- Schema ${quote(schema)} must exist as a database user\n`;
+            } else if (databaseType === DatabaseType.SQL_SERVER) {
+                sqlScript += `IF SCHEMA_ID(N'${escapeSQLString(schema)}') IS NULL EXEC(N'CREATE SCHEMA ${escapeSQLString(quote(schema))}');\n`;
+            } else {
+                sqlScript += `CREATE SCHEMA ${dialect.supportsCreateSchemaIfNotExists ? 'IF NOT EXISTS ' : ''}${quote(schema)};\n`;
+            }
+        });
+
+        if (schemas.length > 0) {
+            sqlScript += '\n';
+        }
+    }
+
+    nonViewTables.forEach((table) => {
+        // A table needs at least one column
+        if (table.fields.length === 0) {
+            sqlScript += `-- Table ${tableName(table)} has no columns and is skipped\n\n`;
+            return;
+        }
+
+        const primaryKeyFields = table.fields.filter(
+            (field) => field.primaryKey
+        );
+        const hasCompositePrimaryKey = primaryKeyFields.length > 1;
+        const isMySQL =
+            databaseType === DatabaseType.MYSQL ||
+            databaseType === DatabaseType.MARIADB;
+
+        // SQLite has no comments in the catalog, keep them as SQL comments
+        if (databaseType === DatabaseType.SQLITE) {
+            if (table.comments) {
+                sqlScript += `-- ${toLineComment(table.comments)}\n`;
+            }
+            table.fields
+                .filter((field) => field.comments)
+                .forEach((field) => {
+                    sqlScript += `-- ${table.name}.${field.name}: ${toLineComment(field.comments!)}\n`;
+                });
+        }
+
+        if (databaseType === DatabaseType.SQL_SERVER) {
+            sqlScript += `IF OBJECT_ID(N'${escapeSQLString(tableName(table))}', N'U') IS NULL\n`;
+        }
+
+        sqlScript += `CREATE TABLE ${dialect.supportsCreateTableIfNotExists ? 'IF NOT EXISTS ' : ''}${tableName(table)} (\n`;
+
+        const definitions = table.fields.map(
+            (field) =>
+                `  ${sqlColumnDefinition(field, databaseType, {
+                    autoIncrement:
+                        !hasCompositePrimaryKey && isAutoIncrementField(field),
+                    primaryKey: field.primaryKey && !hasCompositePrimaryKey,
+                    unique:
+                        field.unique &&
+                        !table.indexes.some(
+                            (index) =>
+                                index.unique &&
+                                index.fieldIds.length === 1 &&
+                                index.fieldIds[0] === field.id
+                        ),
+                })}`
+        );
+
+        if (hasCompositePrimaryKey) {
+            definitions.push(
+                `  PRIMARY KEY (${primaryKeyFields.map((field) => quote(field.name)).join(', ')})`
+            );
+        }
+
+        if (dialect.inlineForeignKeys) {
+            foreignKeys
+                .filter((fk) => fk.sourceTable.id === table.id)
+                .forEach((fk) => {
+                    definitions.push(
+                        `  FOREIGN KEY (${quote(fk.sourceField.name)}) REFERENCES ${tableName(fk.targetTable)} (${quote(fk.targetField.name)})`
+                    );
+                });
+        }
+
+        sqlScript += definitions.join(',\n');
+        sqlScript += '\n)';
+
+        if (isMySQL && table.comments) {
+            sqlScript += ` COMMENT='${escapeSQLString(table.comments)}'`;
+        }
+
+        sqlScript += ';\n\n';
+
+        // Comments and indexes follow the table, separated by a blank line when there are any
+        const tableStatementsStart = sqlScript.length;
+
+        if (
+            databaseType === DatabaseType.POSTGRESQL ||
+            databaseType === DatabaseType.ORACLE
+        ) {
+            if (table.comments) {
+                sqlScript += `COMMENT ON TABLE ${tableName(table)} IS '${escapeSQLString(table.comments)}';\n`;
+            }
+
+            table.fields.forEach((field) => {
+                if (field.comments) {
+                    sqlScript += `COMMENT ON COLUMN ${tableName(table)}.${quote(field.name)} IS '${escapeSQLString(field.comments)}';\n`;
+                }
+            });
+        }
+
+        if (databaseType === DatabaseType.SQL_SERVER) {
+            const schema = escapeSQLString(table.schema ?? 'dbo');
+            const name = escapeSQLString(table.name);
+
+            if (table.comments) {
+                sqlScript += `EXEC sp_addextendedproperty N'MS_Description', N'${escapeSQLString(table.comments)}', N'SCHEMA', N'${schema}', N'TABLE', N'${name}';\n`;
+            }
+
+            table.fields.forEach((field) => {
+                if (field.comments) {
+                    sqlScript += `EXEC sp_addextendedproperty N'MS_Description', N'${escapeSQLString(field.comments)}', N'SCHEMA', N'${schema}', N'TABLE', N'${name}', N'COLUMN', N'${escapeSQLString(field.name)}';\n`;
+                }
+            });
+        }
+
+        // A unique index on the primary key or on an already unique column list is redundant, Oracle rejects it (ORA-01408)
+        const uniqueColumnLists = new Set<string>(
+            primaryKeyFields.length > 0
+                ? [primaryKeyFields.map((field) => field.id).join(',')]
+                : []
+        );
+
+        table.indexes.forEach((index) => {
+            const indexFields = index.fieldIds
+                .map((fieldId) =>
+                    table.fields.find((field) => field.id === fieldId)
+                )
+                .filter((field): field is DBField => !!field);
+
+            if (indexFields.length === 0) {
+                return;
+            }
+
+            // MySQL can't index TEXT/BLOB columns without a prefix length
+            if (
+                isMySQL &&
+                indexFields.some((field) =>
+                    /text|blob/.test(
+                        sqlFieldType(field, databaseType, false).toLowerCase()
+                    )
+                )
+            ) {
+                sqlScript += `-- Index ${index.name} skipped: TEXT/BLOB columns require a prefix length\n`;
+                return;
+            }
+
+            // Oracle can't index LOB or LONG columns at all
+            if (
+                databaseType === DatabaseType.ORACLE &&
+                indexFields.some((field) =>
+                    /lob|long/.test(
+                        sqlFieldType(field, databaseType, false).toLowerCase()
+                    )
+                )
+            ) {
+                sqlScript += `-- Index ${index.name} skipped: LOB columns can't be indexed\n`;
+                return;
+            }
+
+            if (index.unique) {
+                const columnList = indexFields
+                    .map((field) => field.id)
+                    .join(',');
+
+                if (uniqueColumnLists.has(columnList)) {
+                    return;
+                }
+
+                uniqueColumnLists.add(columnList);
+            }
+
+            const columns = indexFields
+                .map((field) => quote(field.name))
+                .join(', ');
+
+            if (databaseType === DatabaseType.SQL_SERVER) {
+                sqlScript += `IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = N'${escapeSQLString(index.name)}' AND object_id = OBJECT_ID(N'${escapeSQLString(tableName(table))}'))\n`;
+            }
+
+            sqlScript += `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${dialect.supportsCreateIndexIfNotExists ? 'IF NOT EXISTS ' : ''}${quote(index.name)} ON ${tableName(table)} (${columns});\n`;
+        });
+
+        if (sqlScript.length > tableStatementsStart) {
+            sqlScript += '\n';
+        }
+    });
+
+    if (!dialect.inlineForeignKeys) {
+        foreignKeys.forEach((fk) => {
+            sqlScript += `ALTER TABLE ${tableName(fk.sourceTable)} ADD CONSTRAINT ${quote(fk.name)} FOREIGN KEY (${quote(fk.sourceField.name)}) REFERENCES ${tableName(fk.targetTable)} (${quote(fk.targetField.name)});\n`;
+        });
+    }
+
+    return sqlScript.trimEnd() + '\n';
+};
+
+export const polishSQLWithAI = async (
+    sqlScript: string,
+    databaseType: DatabaseType
 ): Promise<string> => {
-    const sqlScript = exportBaseSQL(diagram);
     const prompt = generateSQLPrompt(databaseType, sqlScript);
 
     const { text } = await generateText({
@@ -142,6 +499,201 @@ export const exportSQL = async (
     return text;
 };
 
+export const sqlColumnDefinition = (
+    field: DBField,
+    databaseType: DatabaseType,
+    {
+        autoIncrement,
+        primaryKey,
+        unique,
+    }: { autoIncrement: boolean; primaryKey: boolean; unique: boolean }
+): string => {
+    let definition = `${quoteIdentifier(field.name, databaseType)} ${sqlFieldType(field, databaseType, autoIncrement)}`;
+
+    if (field.collation && databaseType !== DatabaseType.SQLITE) {
+        definition += ` COLLATE ${quoteIdentifier(field.collation, databaseType)}`;
+    }
+
+    const notNull = !field.nullable || field.primaryKey ? ' NOT NULL' : '';
+    let valueClause = '';
+
+    if (autoIncrement) {
+        valueClause = {
+            [DatabaseType.POSTGRESQL]: field.type.name
+                .toLowerCase()
+                .includes('serial')
+                ? ''
+                : ' GENERATED BY DEFAULT AS IDENTITY',
+            [DatabaseType.MYSQL]: ' AUTO_INCREMENT',
+            [DatabaseType.MARIADB]: ' AUTO_INCREMENT',
+            [DatabaseType.SQL_SERVER]: ' IDENTITY(1,1)',
+            [DatabaseType.SQLITE]: '',
+            [DatabaseType.ORACLE]: ' GENERATED BY DEFAULT AS IDENTITY',
+            [DatabaseType.GENERIC]: '',
+        }[databaseType];
+    } else if (field.default && !isIdentityClause(field.default)) {
+        valueClause = ` DEFAULT ${sqlDefaultValue(field.default, databaseType)}`;
+    }
+
+    // Oracle only accepts the default or identity clause before the constraints
+    definition +=
+        databaseType === DatabaseType.ORACLE
+            ? `${valueClause}${notNull}`
+            : `${notNull}${valueClause}`;
+
+    if (primaryKey) {
+        definition += ' PRIMARY KEY';
+
+        if (autoIncrement && databaseType === DatabaseType.SQLITE) {
+            definition += ' AUTOINCREMENT';
+        }
+    } else if (unique) {
+        definition += ' UNIQUE';
+    }
+
+    if (
+        (databaseType === DatabaseType.MYSQL ||
+            databaseType === DatabaseType.MARIADB) &&
+        field.comments
+    ) {
+        definition += ` COMMENT '${escapeSQLString(field.comments)}'`;
+    }
+
+    return definition;
+};
+
+export const toLineComment = (comment: string) =>
+    comment.replace(/\s*\n\s*/g, ' ');
+
+const integerTypeRegex = /int|serial|number/i;
+const autoIncrementDefaultRegex = /nextval|identity|auto_?increment/i;
+const identityClauseRegex =
+    /^(auto_?increment|identity\b.*|generated\b.*\bidentity\b.*)$/is;
+
+// Imported auto increment and identity clauses are kept as the default, they are not a default value
+export const isIdentityClause = (value: string): boolean =>
+    identityClauseRegex.test(value.trim());
+
+// The domain has no auto increment flag, so we derive it from the type and default
+export const isAutoIncrementField = (field: DBField): boolean =>
+    field.primaryKey &&
+    integerTypeRegex.test(field.type.name) &&
+    (/serial/i.test(field.type.name) ||
+        autoIncrementDefaultRegex.test(field.default ?? ''));
+
+// Only character and binary types take a length, metadata also reports one for e.g. MySQL text (65535)
+const lengthTypeRegex =
+    /^(n?char|n?varchar2?|character( varying)?|(var)?binary|raw|bit( varying)?|varbit)$/i;
+
+export const hasTypeLength = (typeName: string): boolean =>
+    lengthTypeRegex.test(typeName.replace(/\[\]$/, '').trim());
+
+// SQL Server metadata reports -1 for varchar(max)
+export const isUnboundedLength = (length: string): boolean =>
+    /^(-1|max)$/i.test(length.trim());
+
+// The type as the diagram database writes it, an unlimited length is spelled the way that database does
+const baseFieldType = (field: DBField, databaseType: DatabaseType): string => {
+    const typeName = field.type.name;
+
+    if (!field.characterMaximumLength || !hasTypeLength(typeName)) {
+        return typeName;
+    }
+
+    if (!isUnboundedLength(field.characterMaximumLength)) {
+        return `${typeName}(${field.characterMaximumLength})`;
+    }
+
+    return (
+        sqlDialectMap[databaseType].unboundedLengthTypes[
+            typeName.toLowerCase()
+        ] ?? typeName
+    );
+};
+
+export const sqlFieldType = (
+    field: DBField,
+    databaseType: DatabaseType,
+    autoIncrement: boolean
+): string => {
+    const { typeAliases, defaultTypeLengths, unboundedLengthTypes } =
+        sqlDialectMap[databaseType];
+    const originalType = field.type.name.toLowerCase();
+
+    // SQLite only auto increments INTEGER PRIMARY KEY columns
+    if (autoIncrement && databaseType === DatabaseType.SQLITE) {
+        return 'INTEGER';
+    }
+
+    const typeName = typeAliases[originalType] ?? field.type.name;
+
+    if (typeName.includes('(')) {
+        return typeName;
+    }
+
+    if (field.characterMaximumLength && hasTypeLength(typeName)) {
+        return isUnboundedLength(field.characterMaximumLength)
+            ? (unboundedLengthTypes[typeName.toLowerCase()] ?? typeName)
+            : `${typeName}(${field.characterMaximumLength})`;
+    }
+
+    if (field.precision && field.scale) {
+        return `${typeName}(${field.precision}, ${field.scale})`;
+    }
+
+    if (field.precision) {
+        return `${typeName}(${field.precision})`;
+    }
+
+    const defaultLength = defaultTypeLengths[typeName.toLowerCase()];
+
+    return defaultLength ? `${typeName}(${defaultLength})` : typeName;
+};
+
+// The current time as the databases spell it, SQL Server metadata wraps it in parentheses
+const currentTimestampRegex =
+    /^\(?(now\(\)|current_timestamp(\(\))?|localtimestamp|getdate\(\)|sysdatetime\(\)|sysdate|systimestamp|datetime\('now'\))\)?$/i;
+const sqliteLiteralRegex =
+    /^([+-]?\d+(\.\d+)?|'(?:[^']|'')*'|x'[0-9a-f]*'|null|true|false|current_(time|date|timestamp))$/i;
+
+export const sqlDefaultValue = (
+    value: string,
+    databaseType: DatabaseType
+): string => {
+    let defaultValue = value.trim();
+
+    // PostgreSQL casts (e.g. 'active'::character varying) are not portable
+    if (
+        databaseType !== DatabaseType.POSTGRESQL &&
+        databaseType !== DatabaseType.GENERIC
+    ) {
+        defaultValue = defaultValue.replace(/::[\w\s]+(\[\])?$/, '');
+    }
+
+    // Neither has a boolean column type, booleans are stored as numbers
+    if (
+        databaseType === DatabaseType.SQL_SERVER ||
+        databaseType === DatabaseType.ORACLE
+    ) {
+        if (/^true$/i.test(defaultValue)) return '1';
+        if (/^false$/i.test(defaultValue)) return '0';
+    }
+
+    if (currentTimestampRegex.test(defaultValue)) {
+        return sqlDialectMap[databaseType].currentTimestamp;
+    }
+
+    // SQLite only takes literals as they are, any other expression needs parentheses
+    if (
+        databaseType === DatabaseType.SQLITE &&
+        !sqliteLiteralRegex.test(defaultValue)
+    ) {
+        return `(${defaultValue})`;
+    }
+
+    return defaultValue;
+};
+
 function getMySQLDataTypeSize(type: DataType) {
     return (
         {
@@ -159,6 +711,16 @@ function getMySQLDataTypeSize(type: DataType) {
     );
 }
 
+// Serial types are integers that also auto increment, a referencing column only takes the integer type
+const serialBaseTypes: Record<string, DataType> = {
+    smallserial: { id: 'smallint', name: 'smallint' },
+    serial2: { id: 'smallint', name: 'smallint' },
+    serial: { id: 'integer', name: 'integer' },
+    serial4: { id: 'integer', name: 'integer' },
+    bigserial: { id: 'bigint', name: 'bigint' },
+    serial8: { id: 'bigint', name: 'bigint' },
+};
+
 function alignForeignKeyDataTypes(diagram: Diagram) {
     const { tables, relationships } = diagram;
 
@@ -177,7 +739,7 @@ function alignForeignKeyDataTypes(diagram: Diagram) {
         tableMap.set(table.id, table);
     });
 
-    // Iterate through each relationship to update the child table column data types
+    // Widen the referencing columns to the type they reference, the referenced key keeps its own type
     relationships.forEach((relationship) => {
         const { sourceTableId, sourceFieldId, targetTableId, targetFieldId } =
             relationship;
@@ -185,7 +747,11 @@ function alignForeignKeyDataTypes(diagram: Diagram) {
         const sourceTable = tableMap.get(sourceTableId);
         const targetTable = tableMap.get(targetTableId);
 
-        if (sourceTable && targetTable) {
+        if (
+            sourceTable &&
+            targetTable &&
+            isForeignKeyRelationship(relationship)
+        ) {
             const sourceField = sourceTable.fields.find(
                 (field: { id: string }) => field.id === sourceFieldId
             );
@@ -194,15 +760,15 @@ function alignForeignKeyDataTypes(diagram: Diagram) {
             );
 
             if (sourceField && targetField) {
-                const sourceSize = getMySQLDataTypeSize(sourceField.type);
-                const targetSize = getMySQLDataTypeSize(targetField.type);
-
-                if (sourceSize > targetSize) {
-                    // Adjust the child field data type to the larger data type
-                    targetField.type = sourceField.type;
-                } else if (targetSize > sourceSize) {
-                    // Adjust the child field data type to the larger data type
-                    sourceField.type = targetField.type;
+                const targetType =
+                    serialBaseTypes[targetField.type.name.toLowerCase()] ??
+                    targetField.type;
+
+                if (
+                    getMySQLDataTypeSize(targetType) >
+                    getMySQLDataTypeSize(sourceField.type)
+                ) {
+                    sourceField.type = targetType;
                 }
             }
         }
@@ -271,6 +837,15 @@ const generateSQLPrompt = (databaseType: DatabaseType, sqlScript: string) => {
         - **Adding Foreign Keys to Existing Tables**: If adding a foreign key to an existing table is required, suggest creating a new table with the foreign key constraint, migrating the data, and renaming the new table to the original name.
         - **General SQLite Constraints**: Remember, \`ALTER TABLE\` in SQLite is limited and cannot add constraints after the table is created.
         - **Conditional Logic**: Ensure the script uses SQLite-compatible syntax and does not include unsupported features.
+    `,
+        oracle: `
+        - **Identity Columns**: Use \`GENERATED BY DEFAULT AS IDENTITY\` for auto-incrementing primary key columns.
+        - **Column Clause Order**: Place \`DEFAULT\` and identity clauses before \`NOT NULL\` and other inline constraints.
+        - **Data Types**: Use \`VARCHAR2\`, \`NUMBER\`, \`CLOB\`, \`BLOB\` and \`TIMESTAMP\`. Store booleans as \`NUMBER(1)\`.
+        - **Avoid Unsupported Syntax**: Do not use \`IF NOT EXISTS\` or \`CREATE SCHEMA\`, as schemas are database users in Oracle.
+        - **Comments**: Use \`COMMENT ON TABLE\` and \`COMMENT ON COLUMN\` statements.
+
+        **Reminder**: Ensure all column names that conflict with reserved keywords (e.g., level, size, comment, date), escape the column name by enclosing it in double quotes.
     `,
     };
 
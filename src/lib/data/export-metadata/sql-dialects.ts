@@ -0,0 +1,810 @@
+import { DatabaseType } from '@/lib/domain/database-type';
+
+export interface SQLDialect {
+    openQuote: string;
+    closeQuote: string;
+    // Unquoted identifiers are folded to lower case (PostgreSQL), so mixed case names must be quoted
+    foldsToLowerCase: boolean;
+    supportsSchemas: boolean;
+    supportsCreateTableIfNotExists: boolean;
+    supportsCreateIndexIfNotExists: boolean;
+    supportsCreateSchemaIfNotExists: boolean;
+    // SQLite cannot add foreign keys to an existing table
+    inlineForeignKeys: boolean;
+    reservedWords: ReadonlySet<string>;
+    // Maps type names coming from other dialects onto this dialect
+    typeAliases: Record<string, string>;
+    // Length used for types that are invalid without one
+    defaultTypeLengths: Record<string, string>;
+    // Types written for an unlimited length (MAX, or -1 in metadata), without an entry the length is left off
+    unboundedLengthTypes: Record<string, string>;
+    // Default for the current time, now() and getdate() only exist in some databases
+    currentTimestamp: string;
+}
+
+const commonReservedWords = [
+    'add',
+    'all',
+    'alter',
+    'and',
+    'any',
+    'as',
+    'asc',
+    'authorization',
+    'between',
+    'both',
+    'by',
+    'case',
+    'cast',
+    'check',
+    'collate',
+    'column',
+    'constraint',
+    'create',
+    'cross',
+    'current_date',
+    'current_time',
+    'current_timestamp',
+    'current_user',
+    'default',
+    'delete',
+    'desc',
+    'distinct',
+    'drop',
+    'else',
+    'end',
+    'except',
+    'exists',
+    'false',
+    'fetch',
+    'for',
+    'foreign',
+    'from',
+    'full',
+    'grant',
+    'group',
+    'having',
+    'in',
+    'index',
+    'inner',
+    'insert',
+    'intersect',
+    'into',
+    'is',
+    'join',
+    'key',
+    'leading',
+    'left',
+    'like',
+    'limit',
+    'natural',
+    'not',
+    'null',
+    'offset',
+    'on',
+    'or',
+    'order',
+    'outer',
+    'primary',
+    'references',
+    'right',
+    'select',
+    'session_user',
+    'set',
+    'some',
+    'table',
+    'then',
+    'to',
+    'trailing',
+    'true',
+    'union',
+    'unique',
+    'update',
+    'user',
+    'using',
+    'values',
+    'when',
+    'where',
+    'with',
+];
+
+const postgresReservedWords = [
+    'analyse',
+    'analyze',
+    'array',
+    'asymmetric',
+    'binary',
+    'concurrently',
+    'current_role',
+    'deferrable',
+    'do',
+    'freeze',
+    'ilike',
+    'initially',
+    'isnull',
+    'lateral',
+    'localtime',
+    'localtimestamp',
+    'notnull',
+    'only',
+    'overlaps',
+    'placing',
+    'returning',
+    'similar',
+    'symmetric',
+    'tablesample',
+    'variadic',
+    'verbose',
+    'window',
+];
+
+const mysqlReservedWords = [
+    'accessible',
+    'before',
+    'bigint',
+    'binary',
+    'blob',
+    'call',
+    'cascade',
+    'change',
+    'char',
+    'character',
+    'condition',
+    'continue',
+    'convert',
+    'database',
+    'databases',
+    'dec',
+    'decimal',
+    'declare',
+    'delayed',
+    'describe',
+    'div',
+    'double',
+    'dual',
+    'each',
+    'enclosed',
+    'escaped',
+    'exit',
+    'explain',
+    'float',
+    'force',
+    'fulltext',
+    'high_priority',
+    'if',
+    'ignore',
+    'infile',
+    'int',
+    'integer',
+    'interval',
+    'keys',
+    'kill',
+    'lines',
+    'load',
+    'lock',
+    'long',
+    'longblob',
+    'longtext',
+    'loop',
+    'match',
+    'mediumint',
+    'mediumtext',
+    'mod',
+    'numeric',
+    'optimize',
+    'option',
+    'outfile',
+    'procedure',
+    'purge',
+    'range',
+    'read',
+    'real',
+    'regexp',
+    'release',
+    'rename',
+    'repeat',
+    'replace',
+    'require',
+    'restrict',
+    'return',
+    'revoke',
+    'rlike',
+    'schema',
+    'schemas',
+    'separator',
+    'show',
+    'smallint',
+    'spatial',
+    'sql',
+    'ssl',
+    'starting',
+    'tinyint',
+    'trigger',
+    'undo',
+    'unlock',
+    'unsigned',
+    'usage',
+    'use',
+    'varbinary',
+    'varchar',
+    'varying',
+    'while',
+    'write',
+    'xor',
+    'year_month',
+    'zerofill',
+];
+
+const sqlServerReservedWords = [
+    'backup',
+    'begin',
+    'break',
+    'browse',
+    'bulk',
+    'cascade',
+    'checkpoint',
+    'close',
+    'clustered',
+    'coalesce',
+    'commit',
+    'compute',
+    'contains',
+    'containstable',
+    'continue',
+    'convert',
+    'current',
+    'cursor',
+    'database',
+    'dbcc',
+    'deallocate',
+    'declare',
+    'deny',
+    'disk',
+    'distributed',
+    'double',
+    'dump',
+    'errlvl',
+    'escape',
+    'exec',
+    'execute',
+    'exit',
+    'external',
+    'file',
+    'fillfactor',
+    'freetext',
+    'freetexttable',
+    'function',
+    'goto',
+    'holdlock',
+    'identity',
+    'identity_insert',
+    'identitycol',
+    'if',
+    'kill',
+    'lineno',
+    'load',
+    'merge',
+    'national',
+    'nocheck',
+    'nonclustered',
+    'nullif',
+    'of',
+    'off',
+    'offsets',
+    'open',
+    'opendatasource',
+    'openquery',
+    'openrowset',
+    'openxml',
+    'option',
+    'over',
+    'percent',
+    'pivot',
+    'plan',
+    'precision',
+    'print',
+    'proc',
+    'procedure',
+    'public',
+    'raiserror',
+    'read',
+    'readtext',
+    'reconfigure',
+    'replication',
+    'restore',
+    'restrict',
+    'return',
+    'revert',
+    'revoke',
+    'rollback',
+    'rowcount',
+    'rowguidcol',
+    'rule',
+    'save',
+    'schema',
+    'securityaudit',
+    'semantickeyphrasetable',
+    'shutdown',
+    'statistics',
+    'system_user',
+    'textsize',
+    'top',
+    'tran',
+    'transaction',
+    'trigger',
+    'truncate',
+    'try_convert',
+    'tsequal',
+    'unpivot',
+    'updatetext',
+    'use',
+    'varying',
+    'view',
+    'waitfor',
+    'while',
+    'within',
+    'writetext',
+];
+
+const sqliteReservedWords = [
+    'abort',
+    'action',
+    'after',
+    'analyze',
+    'attach',
+    'autoincrement',
+    'before',
+    'begin',
+    'cascade',
+    'commit',
+    'conflict',
+    'database',
+    'deferrable',
+    'deferred',
+    'detach',
+    'each',
+    'escape',
+    'exclusive',
+    'explain',
+    'fail',
+    'glob',
+    'if',
+    'ignore',
+    'immediate',
+    'indexed',
+    'initially',
+    'instead',
+    'isnull',
+    'match',
+    'no',
+    'notnull',
+    'of',
+    'plan',
+    'pragma',
+    'query',
+    'raise',
+    'recursive',
+    'regexp',
+    'reindex',
+    'release',
+    'rename',
+    'replace',
+    'restrict',
+    'rollback',
+    'row',
+    'savepoint',
+    'temp',
+    'temporary',
+    'transaction',
+    'trigger',
+    'vacuum',
+    'view',
+    'virtual',
+    'without',
+];
+
+const oracleReservedWords = [
+    'access',
+    'audit',
+    'char',
+    'cluster',
+    'comment',
+    'compress',
+    'connect',
+    'current',
+    'date',
+    'decimal',
+    'exclusive',
+    'file',
+    'float',
+    'identified',
+    'immediate',
+    'increment',
+    'initial',
+    'integer',
+    'level',
+    'lock',
+    'long',
+    'maxextents',
+    'minus',
+    'mlslabel',
+    'mode',
+    'modify',
+    'noaudit',
+    'nocompress',
+    'nowait',
+    'number',
+    'of',
+    'offline',
+    'online',
+    'option',
+    'pctfree',
+    'prior',
+    'public',
+    'raw',
+    'rename',
+    'resource',
+    'revoke',
+    'row',
+    'rowid',
+    'rownum',
+    'rows',
+    'session',
+    'share',
+    'size',
+    'smallint',
+    'start',
+    'successful',
+    'synonym',
+    'sysdate',
+    'trigger',
+    'uid',
+    'validate',
+    'varchar',
+    'varchar2',
+    'view',
+    'whenever',
+];
+
+const postgresDialect: SQLDialect = {
+    openQuote: '"',
+    closeQuote: '"',
+    foldsToLowerCase: true,
+    supportsSchemas: true,
+    supportsCreateTableIfNotExists: true,
+    supportsCreateIndexIfNotExists: true,
+    supportsCreateSchemaIfNotExists: true,
+    inlineForeignKeys: false,
+    reservedWords: new Set([...commonReservedWords, ...postgresReservedWords]),
+    typeAliases: {
+        int: 'integer',
+        tinyint: 'smallint',
+        mediumint: 'integer',
+        double: 'double precision',
+        float: 'real',
+        datetime: 'timestamp',
+        datetime2: 'timestamp',
+        smalldatetime: 'timestamp',
+        datetimeoffset: 'timestamp with time zone',
+        bool: 'boolean',
+        bit: 'boolean',
+        blob: 'bytea',
+        tinyblob: 'bytea',
+        mediumblob: 'bytea',
+        longblob: 'bytea',
+        binary: 'bytea',
+        varbinary: 'bytea',
+        tinytext: 'text',
+        mediumtext: 'text',
+        longtext: 'text',
+        nvarchar: 'varchar',
+        nchar: 'char',
+        ntext: 'text',
+        uniqueidentifier: 'uuid',
+    },
+    defaultTypeLengths: {},
+    unboundedLengthTypes: {
+        char: 'text',
+        varchar: 'text',
+        character: 'text',
+        'character varying': 'text',
+        bit: 'varbit',
+        'bit varying': 'varbit',
+    },
+    currentTimestamp: 'CURRENT_TIMESTAMP',
+};
+
+const mysqlDialect: SQLDialect = {
+    openQuote: '`',
+    closeQuote: '`',
+    foldsToLowerCase: false,
+    supportsSchemas: false,
+    supportsCreateTableIfNotExists: true,
+    supportsCreateIndexIfNotExists: false,
+    supportsCreateSchemaIfNotExists: true,
+    inlineForeignKeys: false,
+    reservedWords: new Set([...commonReservedWords, ...mysqlReservedWords]),
+    typeAliases: {
+        integer: 'int',
+        serial: 'int',
+        smallserial: 'smallint',
+        bigserial: 'bigint',
+        'double precision': 'double',
+        boolean: 'tinyint(1)',
+        bool: 'tinyint(1)',
+        bytea: 'blob',
+        'character varying': 'varchar',
+        character: 'char',
+        'timestamp with time zone': 'timestamp',
+        'timestamp without time zone': 'datetime',
+        'time with time zone': 'time',
+        'time without time zone': 'time',
+        jsonb: 'json',
+        uuid: 'char(36)',
+        uniqueidentifier: 'char(36)',
+        nvarchar: 'varchar',
+        nchar: 'char',
+        ntext: 'text',
+        datetime2: 'datetime',
+        smalldatetime: 'datetime',
+        datetimeoffset: 'timestamp',
+        money: 'decimal(19,4)',
+    },
+    defaultTypeLengths: {
+        varchar: '255',
+        varbinary: '255',
+    },
+    unboundedLengthTypes: {
+        char: 'longtext',
+        nchar: 'longtext',
+        varchar: 'longtext',
+        nvarchar: 'longtext',
+        binary: 'longblob',
+        varbinary: 'longblob',
+    },
+    currentTimestamp: 'CURRENT_TIMESTAMP',
+};
+
+const sqlServerDialect: SQLDialect = {
+    openQuote: '[',
+    closeQuote: ']',
+    foldsToLowerCase: false,
+    supportsSchemas: true,
+    supportsCreateTableIfNotExists: false,
+    supportsCreateIndexIfNotExists: false,
+    supportsCreateSchemaIfNotExists: false,
+    inlineForeignKeys: false,
+    reservedWords: new Set([...commonReservedWords, ...sqlServerReservedWords]),
+    typeAliases: {
+        integer: 'int',
+        serial: 'int',
+        smallserial: 'smallint',
+        bigserial: 'bigint',
+        mediumint: 'int',
+        boolean: 'bit',
+        bool: 'bit',
+        double: 'float',
+        'double precision': 'float',
+        timestamp: 'datetime2',
+        'timestamp with time zone': 'datetimeoffset',
+        'timestamp without time zone': 'datetime2',
+        'time with time zone': 'time',
+        'time without time zone': 'time',
+        'character varying': 'varchar',
+        character: 'char',
+        bytea: 'varbinary(max)',
+        blob: 'varbinary(max)',
+        tinyblob: 'varbinary(max)',
+        mediumblob: 'varbinary(max)',
+        longblob: 'varbinary(max)',
+        tinytext: 'nvarchar(max)',
+        mediumtext: 'nvarchar(max)',
+        longtext: 'nvarchar(max)',
+        json: 'nvarchar(max)',
+        jsonb: 'nvarchar(max)',
+        uuid: 'uniqueidentifier',
+    },
+    defaultTypeLengths: {
+        varchar: 'max',
+        nvarchar: 'max',
+        varbinary: 'max',
+    },
+    unboundedLengthTypes: {
+        char: 'varchar(max)',
+        nchar: 'nvarchar(max)',
+        varchar: 'varchar(max)',
+        nvarchar: 'nvarchar(max)',
+        binary: 'varbinary(max)',
+        varbinary: 'varbinary(max)',
+    },
+    currentTimestamp: 'GETDATE()',
+};
+
+const sqliteDialect: SQLDialect = {
+    openQuote: '"',
+    closeQuote: '"',
+    foldsToLowerCase: false,
+    supportsSchemas: false,
+    supportsCreateTableIfNotExists: true,
+    supportsCreateIndexIfNotExists: true,
+    supportsCreateSchemaIfNotExists: false,
+    inlineForeignKeys: true,
+    reservedWords: new Set([...commonReservedWords, ...sqliteReservedWords]),
+    typeAliases: {
+        int: 'integer',
+        smallint: 'integer',
+        bigint: 'integer',
+        tinyint: 'integer',
+        mediumint: 'integer',
+        serial: 'integer',
+        smallserial: 'integer',
+        bigserial: 'integer',
+        bool: 'boolean',
+        bit: 'boolean',
+        'double precision': 'real',
+        double: 'real',
+        float: 'real',
+        bytea: 'blob',
+        varbinary: 'blob',
+        'character varying': 'varchar',
+        jsonb: 'text',
+        json: 'text',
+        uuid: 'text',
+        uniqueidentifier: 'text',
+        timestamp: 'datetime',
+        'timestamp with time zone': 'datetime',
+        'timestamp without time zone': 'datetime',
+        datetime2: 'datetime',
+    },
+    defaultTypeLengths: {},
+    unboundedLengthTypes: {
+        char: 'text',
+        nchar: 'text',
+        varchar: 'text',
+        nvarchar: 'text',
+        'character varying': 'text',
+        binary: 'blob',
+        varbinary: 'blob',
+    },
+    currentTimestamp: 'CURRENT_TIMESTAMP',
+};
+
+// Oracle folds unquoted names to upper case, so they are left unquoted to keep that convention
+const oracleDialect: SQLDialect = {
+    openQuote: '"',
+    closeQuote: '"',
+    foldsToLowerCase: false,
+    supportsSchemas: true,
+    supportsCreateTableIfNotExists: false,
+    supportsCreateIndexIfNotExists: false,
+    supportsCreateSchemaIfNotExists: false,
+    inlineForeignKeys: false,
+    reservedWords: new Set([...commonReservedWords, ...oracleReservedWords]),
+    typeAliases: {
+        int: 'number(10)',
+        integer: 'number(10)',
+        smallint: 'number(5)',
+        tinyint: 'number(3)',
+        mediumint: 'number(7)',
+        bigint: 'number(19)',
+        serial: 'number(10)',
+        smallserial: 'number(5)',
+        bigserial: 'number(19)',
+        year: 'number(4)',
+        boolean: 'number(1)',
+        bool: 'number(1)',
+        bit: 'number(1)',
+        decimal: 'number',
+        numeric: 'number',
+        money: 'number(19,4)',
+        real: 'binary_float',
+        float4: 'binary_float',
+        double: 'binary_double',
+        'double precision': 'binary_double',
+        float8: 'binary_double',
+        varchar: 'varchar2',
+        'character varying': 'varchar2',
+        nvarchar: 'nvarchar2',
+        character: 'char',
+        text: 'clob',
+        tinytext: 'clob',
+        mediumtext: 'clob',
+        longtext: 'clob',
+        ntext: 'nclob',
+        citext: 'clob',
+        bytea: 'blob',
+        binary: 'raw',
+        varbinary: 'raw',
+        tinyblob: 'blob',
+        mediumblob: 'blob',
+        longblob: 'blob',
+        image: 'blob',
+        datetime: 'timestamp',
+        datetime2: 'timestamp',
+        smalldatetime: 'timestamp',
+        'timestamp without time zone': 'timestamp',
+        timestamptz: 'timestamp with time zone',
+        datetimeoffset: 'timestamp with time zone',
+        time: 'interval day(0) to second',
+        'time without time zone': 'interval day(0) to second',
+        jsonb: 'json',
+        uuid: 'raw(16)',
+        uniqueidentifier: 'raw(16)',
+        xml: 'xmltype',
+    },
+    defaultTypeLengths: {
+        varchar2: '255',
+        nvarchar2: '255',
+        raw: '255',
+    },
+    unboundedLengthTypes: {
+        char: 'clob',
+        nchar: 'nclob',
+        varchar2: 'clob',
+        nvarchar2: 'nclob',
+        raw: 'blob',
+    },
+    currentTimestamp: 'SYSTIMESTAMP',
+};
+
+// Generic output follows ANSI SQL quoting and keeps the diagram types as they are
+const genericDialect: SQLDialect = {
+    openQuote: '"',
+    closeQuote: '"',
+    foldsToLowerCase: false,
+    supportsSchemas: true,
+    supportsCreateTableIfNotExists: false,
+    supportsCreateIndexIfNotExists: false,
+    supportsCreateSchemaIfNotExists: false,
+    inlineForeignKeys: false,
+    reservedWords: new Set(commonReservedWords),
+    typeAliases: {},
+    defaultTypeLengths: {},
+    unboundedLengthTypes: {},
+    currentTimestamp: 'CURRENT_TIMESTAMP',
+};
+
+export const sqlDialectMap: Record<DatabaseType, SQLDialect> = {
+    [DatabaseType.GENERIC]: genericDialect,
+    [DatabaseType.POSTGRESQL]: postgresDialect,
+    [DatabaseType.MYSQL]: mysqlDialect,
+    [DatabaseType.MARIADB]: mysqlDialect,
+    [DatabaseType.SQL_SERVER]: sqlServerDialect,
+    [DatabaseType.SQLITE]: sqliteDialect,
+    [DatabaseType.ORACLE]: oracleDialect,
+};
+
+const simpleIdentifierRegex = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const escapeSQLString = (value: string): string =>
+    value.replace(/'/g, "''");
+
+export const quoteIdentifier = (
+    name: string,
+    databaseType: DatabaseType
+): string => {
+    const { openQuote, closeQuote, reservedWords, foldsToLowerCase } =
+        sqlDialectMap[databaseType];
+
+    const needsQuotes =
+        !simpleIdentifierRegex.test(name) ||
+        reservedWords.has(name.toLowerCase()) ||
+        (foldsToLowerCase && name !== name.toLowerCase());
+
+    if (!needsQuotes) {
+        return name;
+    }
+
+    const escapedName = name.split(closeQuote).join(closeQuote + closeQuote);
+
+    return `${openQuote}${escapedName}${closeQuote}`;
+};
+
+export const qualifiedTableName = (
+    name: string,
+    schema: string | undefined,
+    databaseType: DatabaseType
+): string =>
+    schema && sqlDialectMap[databaseType].supportsSchemas
+        ? `${quoteIdentifier(schema, databaseType)}.${quoteIdentifier(name, databaseType)}`
+        : quoteIdentifier(name, databaseType);
@@ -0,0 +1,298 @@
+import { dictionaryType } from '@/lib/data/export-metadata/export-data-dictionary/data-dictionary';
+import { csvDictionaryHeaders } from '@/lib/data/export-metadata/export-data-dictionary/export-csv-dictionary';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBTable } from '@/lib/domain/db-table';
+import type { ImportScriptError } from '../import-script-error';
+
+export type DictionaryChangeAttribute = 'type' | 'nullable' | 'comments';
+
+export interface DictionaryChange {
+    tableId: string;
+    // Unset for changes to the table itself
+    fieldId?: string;
+    name: string;
+    attribute: DictionaryChangeAttribute;
+    oldValue: string;
+    newValue: string;
+}
+
+type CSVRow = { line: number; cells: string[] };
+
+// Splits RFC 4180 CSV, where quoted cells may hold delimiters, quotes and line breaks
+const parseCSV = (csv: string, delimiter: string): CSVRow[] => {
+    const rows: CSVRow[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let rowLine = 1;
+
+    for (let i = 0; i < csv.length; i++) {
+        const char = csv[i];
+
+        if (quoted) {
+            if (char === '"' && csv[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === delimiter) {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && csv[i + 1] === '\n') i++;
+            cells.push(cell);
+            rows.push({ line: rowLine, cells });
+            cells = [];
+            cell = '';
+            line++;
+            rowLine = line;
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || cells.length > 0) {
+        cells.push(cell);
+        rows.push({ line: rowLine, cells });
+    }
+
+    return rows.filter((row) => row.cells.some((value) => value.trim()));
+};
+
+const parseNullable = (value: string): boolean | undefined => {
+    const normalized = value.trim().toLowerCase();
+
+    if (['yes', 'y', 'true', '1', 'null'].includes(normalized)) return true;
+    if (['no', 'n', 'false', '0', 'not null'].includes(normalized))
+        return false;
+
+    return undefined;
+};
+
+// Reads "varchar(255)" or "decimal(10, 2)" back into a type and its size
+const parseType = (
+    value: string
+): Pick<DBField, 'type' | 'characterMaximumLength' | 'precision' | 'scale'> => {
+    const match = value
+        .trim()
+        .toLowerCase()
+        .match(/^(.*?)\s*(?:\(\s*([^,)]*?)\s*(?:,\s*(\d+)\s*)?\))?$/)!;
+    const name = match[1].replace(/\s+/g, ' ');
+    const decimal = match[3] !== undefined || /^(decimal|numeric)/.test(name);
+
+    return {
+        type: { id: name.split(' ').join('_'), name },
+        characterMaximumLength: match[2] && !decimal ? match[2] : undefined,
+        precision: match[2] && decimal ? Number(match[2]) : undefined,
+        scale: match[3] !== undefined ? Number(match[3]) : undefined,
+    };
+};
+
+const sameText = (a?: string, b?: string) =>
+    (a ?? '').replace(/\r\n/g, '\n').trim() ===
+    (b ?? '').replace(/\r\n/g, '\n').trim();
+
+const normalizeType = (value: string) =>
+    value
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .replace(/\s*([(),])\s*/g, '$1');
+
+const findByName = <T extends { name: string }>(items: T[], name: string) =>
+    items.find((item) => item.name === name) ??
+    items.find((item) => item.name.toLowerCase() === name.toLowerCase());
+
+// Compares an edited CSV data dictionary with the diagram tables and lists what it changes
+export const diffCSVDictionary = ({
+    csv,
+    tables,
+}: {
+    csv: string;
+    tables: DBTable[];
+}): { changes: DictionaryChange[]; errors: ImportScriptError[] } => {
+    const changes: DictionaryChange[] = [];
+    const errors: ImportScriptError[] = [];
+    const text = csv.replace(/^\uFEFF/, '');
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    // Spreadsheets in some locales save with semicolons
+    const delimiter =
+        firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+    const [header, ...rows] = parseCSV(text, delimiter);
+    const columnIndex = Object.fromEntries(
+        csvDictionaryHeaders.map((name) => [
+            name,
+            header?.cells.findIndex(
+                (cell) => cell.trim().toLowerCase() === name
+            ) ?? -1,
+        ])
+    ) as Record<(typeof csvDictionaryHeaders)[number], number>;
+
+    if (columnIndex.table < 0 || columnIndex.column < 0) {
+        return {
+            changes,
+            errors: [
+                {
+                    line: 1,
+                    message:
+                        'The header must have "table" and "column" columns',
+                },
+            ],
+        };
+    }
+
+    rows.forEach(({ line, cells }) => {
+        const value = (name: (typeof csvDictionaryHeaders)[number]) =>
+            columnIndex[name] >= 0 ? cells[columnIndex[name]] : undefined;
+        const schemaName = value('schema')?.trim();
+        const tableName = value('table')?.trim() ?? '';
+        const columnName = value('column')?.trim() ?? '';
+        const table = findByName(
+            tables.filter(
+                (t) =>
+                    !schemaName ||
+                    (t.schema ?? '').toLowerCase() === schemaName.toLowerCase()
+            ),
+            tableName
+        );
+
+        if (!table) {
+            errors.push({
+                line,
+                message: `Table "${[schemaName, tableName].filter(Boolean).join('.')}" was not found`,
+            });
+            return;
+        }
+
+        const tableLabel = table.schema
+            ? `${table.schema}.${table.name}`
+            : table.name;
+        const comments = value('comments');
+
+        if (!columnName) {
+            if (comments !== undefined && !sameText(comments, table.comments)) {
+                changes.push({
+                    tableId: table.id,
+                    name: tableLabel,
+                    attribute: 'comments',
+                    oldValue: table.comments ?? '',
+                    newValue: comments.trim(),
+                });
+            }
+            return;
+        }
+
+        const field = findByName(table.fields, columnName);
+
+        if (!field) {
+            errors.push({
+                line,
+                message: `Column "${tableLabel}.${columnName}" was not found`,
+            });
+            return;
+        }
+
+        const change = (
+            attribute: DictionaryChangeAttribute,
+            oldValue: string,
+            newValue: string
+        ) =>
+            changes.push({
+                tableId: table.id,
+                fieldId: field.id,
+                name: `${tableLabel}.${field.name}`,
+                attribute,
+                oldValue,
+                newValue,
+            });
+        const type = value('type')?.trim();
+        const nullable = value('nullable')?.trim();
+
+        if (
+            type &&
+            normalizeType(type) !== normalizeType(dictionaryType(field))
+        ) {
+            change('type', dictionaryType(field), type);
+        }
+
+        if (nullable) {
+            const isNullable = parseNullable(nullable);
+
+            if (isNullable === undefined) {
+                errors.push({
+                    line,
+                    message: `"${nullable}" is not a nullable value, use yes or no`,
+                });
+            } else if (isNullable && field.primaryKey) {
+                errors.push({
+                    line,
+                    message: `Primary key column "${tableLabel}.${field.name}" cannot be nullable`,
+                });
+            } else if (isNullable !== field.nullable) {
+                change(
+                    'nullable',
+                    field.nullable ? 'yes' : 'no',
+                    isNullable ? 'yes' : 'no'
+                );
+            }
+        }
+
+        if (comments !== undefined && !sameText(comments, field.comments)) {
+            change('comments', field.comments ?? '', comments.trim());
+        }
+    });
+
+    return { changes, errors };
+};
+
+const fieldUpdate = (change: DictionaryChange): Partial<DBField> => {
+    switch (change.attribute) {
+        case 'type':
+            return parseType(change.newValue);
+        case 'nullable':
+            return { nullable: change.newValue === 'yes' };
+        case 'comments':
+            return { comments: change.newValue || undefined };
+    }
+};
+
+// Returns every table, with the changes applied to the ones they touch
+export const applyDictionaryChanges = (
+    tables: DBTable[],
+    changes: DictionaryChange[]
+): DBTable[] =>
+    tables.map((table) => {
+        const tableChanges = changes.filter(
+            (change) => change.tableId === table.id
+        );
+
+        if (tableChanges.length === 0) {
+            return table;
+        }
+
+        const commentsChange = tableChanges.find((change) => !change.fieldId);
+
+        return {
+            ...table,
+            ...(commentsChange
+                ? { comments: commentsChange.newValue || undefined }
+                : {}),
+            fields: table.fields.map((field) =>
+                tableChanges
+                    .filter((change) => change.fieldId === field.id)
+                    .reduce(
+                        (updated, change) => ({
+                            ...updated,
+                            ...fieldUpdate(change),
+                        }),
+                        field
+                    )
+            ),
+        };
+    });
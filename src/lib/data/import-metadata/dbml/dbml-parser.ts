@@ -0,0 +1,761 @@
+import { randomColor } from '@/lib/colors';
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBIndex } from '@/lib/domain/db-index';
+import type { Cardinality, DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import { generateId } from '@/lib/utils';
+import type { ImportScriptError } from '../import-script-error';
+import { DBMLToken, tokenizeDBML } from './dbml-tokenizer';
+
+export interface DBMLImportResult {
+    projectName?: string;
+    tables: DBTable[];
+    relationships: DBRelationship[];
+    errors: ImportScriptError[];
+}
+
+interface DBMLSetting {
+    key: string;
+    value: DBMLToken[];
+    line: number;
+}
+
+interface DBMLEndpoint {
+    path: string[];
+    columns: string[];
+}
+
+interface DBMLRef {
+    name?: string;
+    source: DBMLEndpoint;
+    target: DBMLEndpoint;
+    operator: string;
+    line: number;
+}
+
+interface ParserState {
+    databaseType: DatabaseType;
+    tokens: DBMLToken[];
+    index: number;
+    projectName?: string;
+    tables: DBTable[];
+    aliases: Map<string, DBTable>;
+    refs: DBMLRef[];
+    errors: ImportScriptError[];
+}
+
+const topLevelKeywords = [
+    'project',
+    'table',
+    'ref',
+    'enum',
+    'tablegroup',
+    'tablepartial',
+    'note',
+    'records',
+];
+
+const refOperators = ['<', '>', '-', '<>'];
+
+const operatorCardinalities: Record<string, [Cardinality, Cardinality]> = {
+    '>': ['many', 'one'],
+    '<': ['one', 'many'],
+    '-': ['one', 'one'],
+    '<>': ['many', 'many'],
+};
+
+const lengthTypeRegex = /char|binary|bit/i;
+const precisionTypeRegex = /^(numeric|decimal|dec|number)$/i;
+
+const keywordOf = (token: DBMLToken | undefined) =>
+    token?.type === 'word' ? token.value.toLowerCase() : '';
+
+const isSymbol = (token: DBMLToken | undefined, symbol: string) =>
+    token?.type === 'symbol' && token.value === symbol;
+
+const isName = (token: DBMLToken | undefined) =>
+    token?.type === 'word' || token?.type === 'quoted';
+
+const peekToken = (state: ParserState, offset = 0) =>
+    state.tokens[state.index + offset] as DBMLToken | undefined;
+
+const isDone = (state: ParserState) => state.index >= state.tokens.length;
+
+const currentLine = (state: ParserState) =>
+    (peekToken(state) ?? state.tokens[state.tokens.length - 1])?.line ?? 0;
+
+const nextToken = (state: ParserState): DBMLToken => {
+    const token = peekToken(state);
+
+    if (!token) {
+        throw new Error('Unexpected end of file');
+    }
+
+    state.index++;
+    return token;
+};
+
+const acceptSymbol = (state: ParserState, symbol: string) => {
+    if (!isSymbol(peekToken(state), symbol)) {
+        return false;
+    }
+
+    state.index++;
+    return true;
+};
+
+const expectSymbol = (state: ParserState, symbol: string) => {
+    const token = peekToken(state);
+
+    if (!isSymbol(token, symbol)) {
+        throw new Error(
+            token
+                ? `Expected "${symbol}" but found "${token.value}"`
+                : `Expected "${symbol}" before the end of file`
+        );
+    }
+
+    state.index++;
+};
+
+const readName = (state: ParserState): string => {
+    const token = peekToken(state);
+
+    if (!isName(token)) {
+        throw new Error(
+            token
+                ? `Expected a name but found "${token.value}"`
+                : 'Expected a name before the end of file'
+        );
+    }
+
+    state.index++;
+    return token!.value;
+};
+
+const readNameParts = (state: ParserState): string[] => {
+    const parts = [readName(state)];
+
+    while (isSymbol(peekToken(state), '.') && isName(peekToken(state, 1))) {
+        state.index++;
+        parts.push(readName(state));
+    }
+
+    return parts;
+};
+
+// Skips a block such as Enum x { ... } including its header
+const skipBlock = (state: ParserState) => {
+    while (!acceptSymbol(state, '{')) {
+        nextToken(state);
+    }
+
+    let depth = 1;
+
+    while (depth > 0) {
+        const token = nextToken(state);
+
+        if (isSymbol(token, '{')) depth++;
+        if (isSymbol(token, '}')) depth--;
+    }
+};
+
+// Moves past the line of a broken element so parsing can resume on the next one
+const skipLine = (state: ParserState, line: number) => {
+    while (
+        !isDone(state) &&
+        peekToken(state)!.line <= line &&
+        !isSymbol(peekToken(state), '}')
+    ) {
+        state.index++;
+    }
+};
+
+// A brace inside settings means the closing bracket was forgotten
+const nextSettingToken = (state: ParserState): DBMLToken => {
+    if (isSymbol(peekToken(state), '{') || isSymbol(peekToken(state), '}')) {
+        throw new Error('Missing closing ]');
+    }
+
+    return nextToken(state);
+};
+
+const readSettings = (state: ParserState): DBMLSetting[] => {
+    const settings: DBMLSetting[] = [];
+
+    if (!acceptSymbol(state, '[')) {
+        return settings;
+    }
+
+    while (!acceptSymbol(state, ']')) {
+        const line = currentLine(state);
+        const keyWords: string[] = [];
+
+        while (
+            !isSymbol(peekToken(state), ':') &&
+            !isSymbol(peekToken(state), ',') &&
+            !isSymbol(peekToken(state), ']')
+        ) {
+            keyWords.push(nextSettingToken(state).value.toLowerCase());
+        }
+
+        const value: DBMLToken[] = [];
+
+        if (acceptSymbol(state, ':')) {
+            let depth = 0;
+
+            while (
+                depth > 0 ||
+                (!isSymbol(peekToken(state), ',') &&
+                    !isSymbol(peekToken(state), ']'))
+            ) {
+                const token = nextSettingToken(state);
+
+                if (isSymbol(token, '(')) depth++;
+                if (isSymbol(token, ')')) depth--;
+                value.push(token);
+            }
+        }
+
+        settings.push({ key: keyWords.join(' '), value, line });
+        acceptSymbol(state, ',');
+    }
+
+    return settings;
+};
+
+const settingString = (setting: DBMLSetting): string => {
+    const token = setting.value[0];
+
+    if (setting.value.length !== 1 || token.type !== 'string') {
+        throw new Error(`Setting "${setting.key}" expects a string`);
+    }
+
+    return token.value;
+};
+
+// DBML defaults are converted back into SQL expressions
+const settingDefault = (setting: DBMLSetting): string | undefined => {
+    const [first, second] = setting.value;
+
+    if (isSymbol(first, '-') && second?.type === 'number') {
+        return `-${second.value}`;
+    }
+
+    if (setting.value.length !== 1) {
+        throw new Error('Invalid default value');
+    }
+
+    if (first.type === 'string') {
+        return `'${first.value.replace(/'/g, "''")}'`;
+    }
+
+    return keywordOf(first) === 'null' ? undefined : first.value;
+};
+
+const readEndpoint = (state: ParserState): DBMLEndpoint => {
+    const path = [readName(state)];
+
+    while (acceptSymbol(state, '.')) {
+        if (isSymbol(peekToken(state), '(')) {
+            return { path, columns: readColumnList(state) };
+        }
+
+        path.push(readName(state));
+    }
+
+    if (path.length < 2) {
+        throw new Error(
+            `Expected a table.column reference but found "${path[0]}"`
+        );
+    }
+
+    return { path: path.slice(0, -1), columns: [path[path.length - 1]] };
+};
+
+const readColumnList = (state: ParserState): string[] => {
+    expectSymbol(state, '(');
+    const columns = [readName(state)];
+
+    while (acceptSymbol(state, ',')) {
+        columns.push(readName(state));
+    }
+
+    expectSymbol(state, ')');
+    return columns;
+};
+
+const readOperator = (state: ParserState): string => {
+    const token = nextToken(state);
+
+    if (token.type !== 'symbol' || !refOperators.includes(token.value)) {
+        throw new Error(
+            `Expected a relationship operator (<, >, - or <>) but found "${token.value}"`
+        );
+    }
+
+    return token.value;
+};
+
+const parseRef = (state: ParserState) => {
+    const line = currentLine(state);
+    nextToken(state);
+
+    const name = isName(peekToken(state)) ? readName(state) : undefined;
+    const braced = acceptSymbol(state, '{');
+
+    if (!braced) {
+        expectSymbol(state, ':');
+    }
+
+    const source = readEndpoint(state);
+    const operator = readOperator(state);
+    const target = readEndpoint(state);
+
+    // Referential actions are not part of the diagram
+    readSettings(state);
+
+    if (braced) {
+        expectSymbol(state, '}');
+    }
+
+    state.refs.push({ name, source, target, operator, line });
+};
+
+const parseType = (
+    state: ParserState
+): Pick<DBField, 'type' | 'characterMaximumLength' | 'precision' | 'scale'> => {
+    const parts = readNameParts(state);
+    let name = parts[parts.length - 1];
+    let args: string[] = [];
+
+    if (acceptSymbol(state, '(')) {
+        while (!acceptSymbol(state, ')')) {
+            const token = nextToken(state);
+
+            if (!isSymbol(token, ',')) args.push(token.value);
+        }
+    }
+
+    // Quoted types keep their arguments inline, e.g. "character varying(255)"
+    const inlineArgs = name.match(/^(.*?)\s*\(([^)]*)\)$/);
+
+    if (inlineArgs) {
+        name = inlineArgs[1];
+        args = inlineArgs[2].split(',').map((arg) => arg.trim());
+    }
+
+    if (isSymbol(peekToken(state), '[') && isSymbol(peekToken(state, 1), ']')) {
+        state.index += 2;
+        name += '[]';
+    }
+
+    return {
+        type: { id: name.split(' ').join('_'), name },
+        ...(args.length > 0 && lengthTypeRegex.test(name)
+            ? { characterMaximumLength: args[0] }
+            : {}),
+        ...(args.length > 0 && precisionTypeRegex.test(name)
+            ? {
+                  precision: Number(args[0]),
+                  ...(args[1] ? { scale: Number(args[1]) } : {}),
+              }
+            : {}),
+    };
+};
+
+const parseColumn = (state: ParserState, table: DBTable) => {
+    const name = readName(state);
+
+    if (table.fields.some((field) => field.name === name)) {
+        throw new Error(`Column "${name}" is defined more than once`);
+    }
+
+    const field: DBField = {
+        id: generateId(),
+        name,
+        ...parseType(state),
+        primaryKey: false,
+        unique: false,
+        nullable: true,
+        createdAt: Date.now(),
+    };
+
+    table.fields.push(field);
+
+    readSettings(state).forEach((setting) => {
+        switch (setting.key) {
+            case 'pk':
+            case 'primary key':
+                field.primaryKey = true;
+                field.nullable = false;
+                break;
+            case 'null':
+                field.nullable = true;
+                break;
+            case 'not null':
+                field.nullable = false;
+                break;
+            case 'unique':
+                field.unique = true;
+                break;
+            case 'default':
+                field.default = settingDefault(setting);
+                break;
+            case 'note':
+                field.comments = settingString(setting);
+                break;
+            case 'ref': {
+                const refState = { ...state, tokens: setting.value, index: 0 };
+                const operator = readOperator(refState);
+
+                state.refs.push({
+                    source: {
+                        path: [table.schema ?? '', table.name],
+                        columns: [name],
+                    },
+                    target: readEndpoint(refState),
+                    operator,
+                    line: setting.line,
+                });
+                break;
+            }
+            case 'increment':
+            case 'check':
+                break;
+            default:
+                state.errors.push({
+                    line: setting.line,
+                    message: `Unknown column setting "${setting.key}"`,
+                });
+        }
+    });
+};
+
+const parseIndexes = (state: ParserState, table: DBTable) => {
+    nextToken(state);
+    expectSymbol(state, '{');
+
+    while (!acceptSymbol(state, '}')) {
+        if (isDone(state)) {
+            throw new Error(
+                `Missing "}" at the end of the indexes of table "${table.name}"`
+            );
+        }
+
+        const line = currentLine(state);
+
+        try {
+            const columns: string[] = [];
+            let hasExpression = false;
+
+            if (acceptSymbol(state, '(')) {
+                while (!acceptSymbol(state, ')')) {
+                    if (isDone(state)) {
+                        throw new Error('Missing ")" at the end of the index');
+                    }
+
+                    const token = nextToken(state);
+
+                    if (token.type === 'expression') hasExpression = true;
+                    else if (isName(token)) columns.push(token.value);
+                }
+            } else {
+                const token = nextToken(state);
+
+                if (token.type === 'expression') hasExpression = true;
+                else if (isName(token)) columns.push(token.value);
+                else throw new Error(`Unexpected "${token.value}" in indexes`);
+            }
+
+            const settings = readSettings(state);
+            const fields = columns.map((column) => {
+                const field = table.fields.find((f) => f.name === column);
+
+                if (!field) {
+                    throw new Error(
+                        `Column "${column}" does not exist in table "${table.name}"`
+                    );
+                }
+
+                return field;
+            });
+
+            if (hasExpression) {
+                state.errors.push({
+                    line,
+                    message: 'Indexes on expressions are not supported',
+                });
+                continue;
+            }
+
+            if (settings.some((setting) => setting.key === 'pk')) {
+                fields.forEach((field) => {
+                    field.primaryKey = true;
+                    field.nullable = false;
+                });
+                continue;
+            }
+
+            const nameSetting = settings.find(
+                (setting) => setting.key === 'name'
+            );
+            const index: DBIndex = {
+                id: generateId(),
+                name: nameSetting
+                    ? settingString(nameSetting)
+                    : `${table.name}_${columns.join('_')}_idx`,
+                unique: settings.some((setting) => setting.key === 'unique'),
+                fieldIds: fields.map((field) => field.id),
+                createdAt: Date.now(),
+            };
+
+            table.indexes.push(index);
+        } catch (error) {
+            state.errors.push({ line, message: (error as Error).message });
+            skipLine(state, line);
+        }
+    }
+};
+
+const readNote = (state: ParserState): string => {
+    nextToken(state);
+
+    if (acceptSymbol(state, '{')) {
+        const note = nextToken(state);
+        expectSymbol(state, '}');
+        return note.value;
+    }
+
+    expectSymbol(state, ':');
+    const note = nextToken(state);
+
+    if (note.type !== 'string') {
+        throw new Error(`Expected a note string but found "${note.value}"`);
+    }
+
+    return note.value;
+};
+
+const parseTable = (state: ParserState) => {
+    nextToken(state);
+
+    const parts = readNameParts(state);
+    const name = parts[parts.length - 1];
+    const schema =
+        parts.length > 1
+            ? parts[parts.length - 2]
+            : defaultSchemas[state.databaseType];
+
+    if (state.tables.some((t) => t.name === name && t.schema === schema)) {
+        throw new Error(`Table "${name}" is defined more than once`);
+    }
+
+    const table: DBTable = {
+        id: generateId(),
+        name,
+        schema,
+        x: 0,
+        y: 0,
+        fields: [],
+        indexes: [],
+        color: randomColor(),
+        isView: false,
+        createdAt: Date.now(),
+    };
+
+    if (keywordOf(peekToken(state)) === 'as') {
+        nextToken(state);
+        state.aliases.set(readName(state), table);
+    }
+
+    readSettings(state).forEach((setting) => {
+        if (setting.key === 'note') {
+            table.comments = settingString(setting);
+        }
+    });
+
+    expectSymbol(state, '{');
+    state.tables.push(table);
+
+    while (!acceptSymbol(state, '}')) {
+        if (isDone(state)) {
+            throw new Error(`Missing "}" at the end of table "${name}"`);
+        }
+
+        const line = currentLine(state);
+        const keyword = keywordOf(peekToken(state));
+
+        try {
+            if (keyword === 'indexes' && isSymbol(peekToken(state, 1), '{')) {
+                parseIndexes(state, table);
+            } else if (
+                keyword === 'note' &&
+                (isSymbol(peekToken(state, 1), ':') ||
+                    isSymbol(peekToken(state, 1), '{'))
+            ) {
+                table.comments = readNote(state);
+            } else {
+                parseColumn(state, table);
+            }
+        } catch (error) {
+            state.errors.push({ line, message: (error as Error).message });
+            skipLine(state, line);
+        }
+    }
+};
+
+const findTable = (state: ParserState, path: string[]): DBTable | undefined => {
+    const name = path[path.length - 1];
+    const schema = path.length > 1 ? path[path.length - 2] : undefined;
+
+    if (path.length === 1 && state.aliases.has(name)) {
+        return state.aliases.get(name);
+    }
+
+    const candidates = state.tables.filter(
+        (table) =>
+            table.name === name &&
+            (schema === undefined || (table.schema ?? '') === schema)
+    );
+
+    return (
+        candidates.find(
+            (table) => table.schema === defaultSchemas[state.databaseType]
+        ) ?? candidates[0]
+    );
+};
+
+const buildRelationships = (state: ParserState): DBRelationship[] =>
+    state.refs.flatMap((ref) => {
+        const sourceTable = findTable(state, ref.source.path);
+        const targetTable = findTable(state, ref.target.path);
+
+        if (!sourceTable || !targetTable) {
+            state.errors.push({
+                line: ref.line,
+                message: `Reference to unknown table "${(sourceTable ? ref.target : ref.source).path.join('.')}"`,
+            });
+            return [];
+        }
+
+        if (ref.source.columns.length !== ref.target.columns.length) {
+            state.errors.push({
+                line: ref.line,
+                message:
+                    'Both sides of a reference need the same number of columns',
+            });
+            return [];
+        }
+
+        const [sourceCardinality, targetCardinality] =
+            operatorCardinalities[ref.operator];
+
+        const fieldPairs = ref.source.columns.map((column, i) => ({
+            column,
+            targetColumn: ref.target.columns[i],
+            sourceField: sourceTable.fields.find(
+                (field) => field.name === column
+            ),
+            targetField: targetTable.fields.find(
+                (field) => field.name === ref.target.columns[i]
+            ),
+        }));
+        const unknownPair = fieldPairs.find(
+            ({ sourceField, targetField }) => !sourceField || !targetField
+        );
+
+        // A composite reference is only imported with all of its columns
+        if (unknownPair) {
+            state.errors.push({
+                line: ref.line,
+                message: `Reference to unknown column "${unknownPair.sourceField ? unknownPair.targetColumn : unknownPair.column}"`,
+            });
+            return [];
+        }
+
+        // Each column becomes a relationship, which needs a name of its own
+        return fieldPairs.map(({ sourceField, targetField }) => ({
+            id: generateId(),
+            name: !ref.name
+                ? `fk_${sourceTable.name}_${sourceField!.name}`
+                : fieldPairs.length > 1
+                  ? `${ref.name}_${sourceField!.name}`
+                  : ref.name,
+            sourceSchema: sourceTable.schema,
+            targetSchema: targetTable.schema,
+            sourceTableId: sourceTable.id,
+            targetTableId: targetTable.id,
+            sourceFieldId: sourceField!.id,
+            targetFieldId: targetField!.id,
+            sourceCardinality,
+            targetCardinality,
+            createdAt: Date.now(),
+        }));
+    });
+
+export const parseDBML = ({
+    dbml,
+    databaseType,
+}: {
+    dbml: string;
+    databaseType: DatabaseType;
+}): DBMLImportResult => {
+    const { tokens, errors } = tokenizeDBML(dbml);
+    const state: ParserState = {
+        databaseType,
+        tokens,
+        index: 0,
+        tables: [],
+        aliases: new Map(),
+        refs: [],
+        errors,
+    };
+
+    while (!isDone(state)) {
+        const line = currentLine(state);
+        const keyword = keywordOf(peekToken(state));
+
+        try {
+            if (keyword === 'table') {
+                parseTable(state);
+            } else if (keyword === 'ref') {
+                parseRef(state);
+            } else if (keyword === 'project') {
+                nextToken(state);
+                state.projectName = isName(peekToken(state))
+                    ? readName(state)
+                    : undefined;
+                skipBlock(state);
+            } else if (topLevelKeywords.includes(keyword)) {
+                skipBlock(state);
+            } else {
+                throw new Error(`Unexpected "${peekToken(state)!.value}"`);
+            }
+        } catch (error) {
+            state.errors.push({ line, message: (error as Error).message });
+
+            // Resume at the next line starting with a top level keyword
+            do {
+                state.index++;
+            } while (
+                !isDone(state) &&
+                !(
+                    topLevelKeywords.includes(keywordOf(peekToken(state))) &&
+                    peekToken(state)!.line > state.tokens[state.index - 1].line
+                )
+            );
+        }
+    }
+
+    const relationships = buildRelationships(state);
+
+    return {
+        projectName: state.projectName,
+        tables: state.tables,
+        relationships,
+        errors: state.errors.sort((a, b) => a.line - b.line),
+    };
+};
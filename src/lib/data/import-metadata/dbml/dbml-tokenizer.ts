@@ -0,0 +1,126 @@
+import type { ImportScriptError } from '../import-script-error';
+
+export type DBMLTokenType =
+    | 'word'
+    | 'quoted'
+    | 'string'
+    | 'expression'
+    | 'number'
+    | 'symbol';
+
+export interface DBMLToken {
+    type: DBMLTokenType;
+    // Quoted names, strings and expressions hold their unescaped value
+    value: string;
+    line: number;
+}
+
+const isWordPart = (char: string) => /[\p{L}\p{N}_#$]/u.test(char);
+
+// Multi-line strings drop their surrounding blank lines and common indentation
+const dedent = (text: string) => {
+    const lines = text
+        .replace(/^[ \t]*\n/, '')
+        .replace(/\n\s*$/, '')
+        .split('\n');
+    const indent = Math.min(
+        ...lines
+            .filter((line) => line.trim().length > 0)
+            .map((line) => line.match(/^[ \t]*/)![0].length)
+    );
+
+    return lines
+        .map((line) => line.slice(Number.isFinite(indent) ? indent : 0))
+        .join('\n');
+};
+
+export const tokenizeDBML = (
+    dbml: string
+): { tokens: DBMLToken[]; errors: ImportScriptError[] } => {
+    const tokens: DBMLToken[] = [];
+    const errors: ImportScriptError[] = [];
+    let line = 1;
+    let position = 0;
+
+    const advanceTo = (end: number) => {
+        for (let i = position; i < end; i++) {
+            if (dbml[i] === '\n') line++;
+        }
+        position = end;
+    };
+
+    const push = (type: DBMLTokenType, value: string, end: number) => {
+        tokens.push({ type, value, line });
+        advanceTo(end);
+    };
+
+    // Reads a literal closed by `quote`, where a backslash escapes the next character
+    const readQuoted = (from: number, quote: string) => {
+        let value = '';
+        let i = from;
+
+        while (i < dbml.length && !dbml.startsWith(quote, i)) {
+            if (dbml[i] === '\\' && i + 1 < dbml.length) {
+                value += dbml[i + 1] === 'n' ? '\n' : dbml[i + 1];
+                i += 2;
+            } else {
+                value += dbml[i];
+                i++;
+            }
+        }
+
+        if (i >= dbml.length) {
+            errors.push({ line, message: `Missing closing ${quote}` });
+        }
+
+        return { value, end: i + quote.length };
+    };
+
+    while (position < dbml.length) {
+        const char = dbml[position];
+        const next = dbml[position + 1];
+
+        if (/\s/.test(char)) {
+            advanceTo(position + 1);
+        } else if (char === '/' && next === '/') {
+            const end = dbml.indexOf('\n', position);
+            advanceTo(end === -1 ? dbml.length : end);
+        } else if (char === '/' && next === '*') {
+            const end = dbml.indexOf('*/', position + 2);
+            advanceTo(end === -1 ? dbml.length : end + 2);
+        } else if (dbml.startsWith("'''", position)) {
+            const { value, end } = readQuoted(position + 3, "'''");
+            push('string', dedent(value), end);
+        } else if (char === "'") {
+            const { value, end } = readQuoted(position + 1, "'");
+            push('string', value, end);
+        } else if (char === '"') {
+            const { value, end } = readQuoted(position + 1, '"');
+            push('quoted', value, end);
+        } else if (char === '`') {
+            const { value, end } = readQuoted(position + 1, '`');
+            push('expression', value, end);
+        } else if (/\d/.test(char)) {
+            let end = position + 1;
+            while (end < dbml.length && /[\d.]/.test(dbml[end])) end++;
+
+            // Names may start with digits, e.g. 2fa_codes
+            if (end < dbml.length && isWordPart(dbml[end])) {
+                while (end < dbml.length && isWordPart(dbml[end])) end++;
+                push('word', dbml.slice(position, end), end);
+            } else {
+                push('number', dbml.slice(position, end), end);
+            }
+        } else if (isWordPart(char)) {
+            let end = position + 1;
+            while (end < dbml.length && isWordPart(dbml[end])) end++;
+            push('word', dbml.slice(position, end), end);
+        } else if (char === '<' && next === '>') {
+            push('symbol', '<>', position + 2);
+        } else {
+            push('symbol', char, position + 1);
+        }
+    }
+
+    return { tokens, errors };
+};
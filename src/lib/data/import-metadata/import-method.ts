@@ -0,0 +1,195 @@
+import { DatabaseEdition } from '@/lib/domain/database-edition';
+import { DatabaseType } from '@/lib/domain/database-type';
+import { adjustTablePositions } from '@/lib/domain/db-table';
+import { Diagram, loadFromDatabaseMetadata } from '@/lib/domain/diagram';
+import { generateDiagramId } from '@/lib/utils';
+import { parseDBML } from './dbml/dbml-parser';
+import type { ImportScriptError } from './import-script-error';
+import { parseMermaid } from './mermaid/mermaid-parser';
+import { loadDatabaseMetadata } from './metadata-types/database-metadata';
+import { parsePrisma } from './prisma/prisma-parser';
+import { parseSQLDDL } from './sql-ddl/sql-ddl-parser';
+
+// query: the JSON output of the metadata query, ddl: a CREATE TABLE script, dbml: a DBML document, prisma: a Prisma schema,
+// mermaid: a Mermaid erDiagram
+export type ImportMethod = 'query' | 'ddl' | 'dbml' | 'prisma' | 'mermaid';
+
+const loadFromDBML = ({
+    databaseType,
+    dbml,
+    diagramNumber,
+    databaseEdition,
+}: {
+    databaseType: DatabaseType;
+    dbml: string;
+    diagramNumber?: number;
+    databaseEdition?: DatabaseEdition;
+}): Diagram => {
+    const { projectName, tables, relationships } = parseDBML({
+        dbml,
+        databaseType,
+    });
+
+    const adjustedTables = adjustTablePositions({ tables, relationships });
+
+    return {
+        id: generateDiagramId(),
+        name:
+            projectName ??
+            (diagramNumber ? `Diagram ${diagramNumber}` : 'New Diagram'),
+        databaseType: databaseType ?? DatabaseType.GENERIC,
+        databaseEdition,
+        tables: adjustedTables.sort((a, b) => a.name.localeCompare(b.name)),
+        relationships,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+};
+
+// The datasource provider of the schema decides the database type when there is one
+const loadFromPrisma = ({
+    databaseType,
+    prisma,
+    diagramNumber,
+    databaseEdition,
+}: {
+    databaseType: DatabaseType;
+    prisma: string;
+    diagramNumber?: number;
+    databaseEdition?: DatabaseEdition;
+}): Diagram => {
+    const {
+        databaseType: schemaDatabaseType,
+        tables,
+        relationships,
+    } = parsePrisma({ prisma, databaseType });
+
+    const adjustedTables = adjustTablePositions({ tables, relationships });
+
+    return {
+        id: generateDiagramId(),
+        name: diagramNumber ? `Diagram ${diagramNumber}` : 'New Diagram',
+        databaseType: schemaDatabaseType ?? databaseType,
+        databaseEdition:
+            (schemaDatabaseType ?? databaseType) === databaseType
+                ? databaseEdition
+                : undefined,
+        tables: adjustedTables.sort((a, b) => a.name.localeCompare(b.name)),
+        relationships,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+};
+
+const loadFromMermaid = ({
+    databaseType,
+    mermaid,
+    diagramNumber,
+    databaseEdition,
+}: {
+    databaseType: DatabaseType;
+    mermaid: string;
+    diagramNumber?: number;
+    databaseEdition?: DatabaseEdition;
+}): Diagram => {
+    const { tables, relationships } = parseMermaid({ mermaid, databaseType });
+
+    const adjustedTables = adjustTablePositions({ tables, relationships });
+
+    return {
+        id: generateDiagramId(),
+        name: diagramNumber ? `Diagram ${diagramNumber}` : 'New Diagram',
+        databaseType,
+        databaseEdition,
+        tables: adjustedTables.sort((a, b) => a.name.localeCompare(b.name)),
+        relationships,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+};
+
+export const loadDiagramFromImportScript = ({
+    importMethod,
+    script,
+    databaseType,
+    databaseEdition,
+    diagramNumber,
+}: {
+    importMethod: ImportMethod;
+    script: string;
+    databaseType: DatabaseType;
+    databaseEdition?: DatabaseEdition;
+    diagramNumber?: number;
+}): Diagram => {
+    if (importMethod === 'dbml') {
+        return loadFromDBML({
+            databaseType,
+            dbml: script,
+            diagramNumber,
+            databaseEdition,
+        });
+    }
+
+    if (importMethod === 'prisma') {
+        return loadFromPrisma({
+            databaseType,
+            prisma: script,
+            diagramNumber,
+            databaseEdition,
+        });
+    }
+
+    if (importMethod === 'mermaid') {
+        return loadFromMermaid({
+            databaseType,
+            mermaid: script,
+            diagramNumber,
+            databaseEdition,
+        });
+    }
+
+    return loadFromDatabaseMetadata({
+        databaseType,
+        databaseMetadata:
+            importMethod === 'ddl'
+                ? parseSQLDDL({ sql: script, databaseType }).metadata
+                : loadDatabaseMetadata(script),
+        diagramNumber,
+        databaseEdition,
+    });
+};
+
+// Parses a ddl, dbml, prisma or mermaid script to report what an import would produce
+export const checkImportScript = ({
+    importMethod,
+    script,
+    databaseType,
+}: {
+    importMethod: Exclude<ImportMethod, 'query'>;
+    script: string;
+    databaseType: DatabaseType;
+}): { tableCount: number; errors: ImportScriptError[] } => {
+    if (importMethod === 'dbml') {
+        const { tables, errors } = parseDBML({ dbml: script, databaseType });
+        return { tableCount: tables.length, errors };
+    }
+
+    if (importMethod === 'prisma') {
+        const { tables, errors } = parsePrisma({
+            prisma: script,
+            databaseType,
+        });
+        return { tableCount: tables.length, errors };
+    }
+
+    if (importMethod === 'mermaid') {
+        const { tables, errors } = parseMermaid({
+            mermaid: script,
+            databaseType,
+        });
+        return { tableCount: tables.length, errors };
+    }
+
+    const { metadata, errors } = parseSQLDDL({ sql: script, databaseType });
+    return { tableCount: metadata.tables.length, errors };
+};
@@ -0,0 +1,5 @@
+// A problem found while parsing an import script, reported at its line
+export interface ImportScriptError {
+    line: number;
+    message: string;
+}
@@ -0,0 +1,408 @@
+import { randomColor } from '@/lib/colors';
+import { dataTypeCategory, dataTypeMap } from '@/lib/data/data-types';
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import type { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { Cardinality, DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import { generateId } from '@/lib/utils';
+import type { ImportScriptError } from '../import-script-error';
+
+export interface MermaidImportResult {
+    tables: DBTable[];
+    relationships: DBRelationship[];
+    errors: ImportScriptError[];
+}
+
+interface MermaidRelationship {
+    left: string;
+    right: string;
+    leftCardinality: Cardinality;
+    rightCardinality: Cardinality;
+    // Set when the side of the right entity is exactly one, so the foreign key is required
+    required: boolean;
+    label: string;
+    line: number;
+}
+
+interface ParserState {
+    databaseType: DatabaseType;
+    tables: Map<string, DBTable>;
+    // Attributes marked FK, which relationships pick their foreign key from
+    foreignKeys: Set<string>;
+    relationships: MermaidRelationship[];
+    errors: ImportScriptError[];
+}
+
+const entityPattern = /^([\p{L}\p{N}_-]+)(?:\s*\[\s*"?([^"\]]*)"?\s*\])?/u;
+
+const relationshipPattern =
+    /^([\p{L}\p{N}_-]+)\s*(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s*([\p{L}\p{N}_-]+)\s*:\s*(.*)$/u;
+
+const attributePattern =
+    /^([A-Za-z_*][\w\-()[\]]*)\s+([\p{L}\p{N}_*[\]-]+)((?:\s*(?:PK|FK|UK)\s*,?)*)\s*(?:"([^"]*)")?$/u;
+
+const unquote = (value: string) =>
+    value
+        .trim()
+        .replace(/^"(.*)"$/, '$1')
+        .trim();
+
+// Types with spaces are written with underscores, e.g. double_precision,
+// and so is the scale of a decimal, e.g. numeric(10_2)
+const fieldType = (
+    typeName: string,
+    databaseType: DatabaseType
+): Pick<DBField, 'type' | 'characterMaximumLength' | 'precision' | 'scale'> => {
+    const match = typeName.match(/^(.*?)(?:\((\d+)(?:_(\d+))?\))?(\[\])?$/)!;
+    const baseName = match[1].toLowerCase();
+    const known = dataTypeMap[databaseType].find(
+        (type) => type.id === baseName || type.name === baseName
+    );
+    const name = `${known?.name ?? baseName.replace(/_/g, ' ')}${match[4] ?? ''}`;
+    const [size, scale] = [match[2], match[3]];
+
+    return {
+        type: { id: name.split(' ').join('_'), name },
+        ...(size && dataTypeCategory(name) === 'decimal'
+            ? {
+                  precision: Number(size),
+                  ...(scale ? { scale: Number(scale) } : {}),
+              }
+            : size
+              ? { characterMaximumLength: size }
+              : {}),
+    };
+};
+
+const getTable = (
+    state: ParserState,
+    name: string,
+    alias?: string
+): DBTable => {
+    let table = state.tables.get(name);
+
+    if (!table) {
+        const displayName = alias?.trim() || name;
+        const dot = displayName.indexOf('.');
+
+        table = {
+            id: generateId(),
+            name: dot > 0 ? displayName.slice(dot + 1) : displayName,
+            schema:
+                dot > 0
+                    ? displayName.slice(0, dot)
+                    : defaultSchemas[state.databaseType],
+            x: 0,
+            y: 0,
+            fields: [],
+            indexes: [],
+            color: randomColor(),
+            isView: false,
+            createdAt: Date.now(),
+        };
+        state.tables.set(name, table);
+    }
+
+    return table;
+};
+
+const parseAttribute = (
+    state: ParserState,
+    table: DBTable,
+    text: string,
+    line: number
+) => {
+    const match = text.match(attributePattern);
+
+    if (!match) {
+        state.errors.push({ line, message: `Invalid attribute "${text}"` });
+        return;
+    }
+
+    const keys = match[3].split(/[\s,]+/).filter(Boolean);
+    const primaryKey = keys.includes('PK');
+    const field: DBField = {
+        id: generateId(),
+        name: match[2],
+        ...fieldType(match[1], state.databaseType),
+        primaryKey,
+        unique: keys.includes('UK'),
+        nullable: !primaryKey,
+        createdAt: Date.now(),
+        ...(match[4] ? { comments: match[4] } : {}),
+    };
+
+    table.fields.push(field);
+
+    if (keys.includes('FK')) {
+        state.foreignKeys.add(field.id);
+    }
+};
+
+// The referenced column is the primary key, or a new id column when the entity has no attributes
+const referencedField = (table: DBTable, databaseType: DatabaseType) => {
+    let field =
+        table.fields.find((f) => f.primaryKey) ??
+        table.fields.find((f) => f.name.toLowerCase() === 'id') ??
+        table.fields[0];
+
+    if (!field) {
+        field = {
+            id: generateId(),
+            name: 'id',
+            ...fieldType('int', databaseType),
+            primaryKey: true,
+            unique: true,
+            nullable: false,
+            createdAt: Date.now(),
+        };
+        table.fields.push(field);
+    }
+
+    return field;
+};
+
+// Picks the foreign key column named after the referenced table, or adds one
+const foreignKeyField = (
+    state: ParserState,
+    table: DBTable,
+    referenced: DBTable,
+    referencedKey: DBField,
+    usedFieldIds: Set<string>
+): DBField => {
+    const candidates = table.fields.filter(
+        (field) =>
+            state.foreignKeys.has(field.id) && !usedFieldIds.has(field.id)
+    );
+    const names = [referenced.name, referenced.name.replace(/s$/, '')].map(
+        (name) => name.toLowerCase()
+    );
+    const named = (field: DBField) =>
+        names.some((name) =>
+            [`${name}_id`, `${name}id`, name].includes(field.name.toLowerCase())
+        );
+    const existing =
+        candidates.find(named) ??
+        table.fields.find(
+            (field) => !usedFieldIds.has(field.id) && named(field)
+        ) ??
+        candidates[0];
+
+    if (existing) {
+        return existing;
+    }
+
+    const field: DBField = {
+        id: generateId(),
+        name: `${referenced.name.replace(/s$/, '')}_${referencedKey.name}`,
+        type: referencedKey.type,
+        primaryKey: false,
+        unique: false,
+        nullable: true,
+        createdAt: Date.now(),
+    };
+    table.fields.push(field);
+
+    return field;
+};
+
+const buildRelationships = (state: ParserState): DBRelationship[] => {
+    const usedFieldIds = new Set<string>();
+
+    return state.relationships.map((relationship) => {
+        // The foreign key lives on the "many" side, or on the left entity otherwise
+        const reversed =
+            relationship.leftCardinality === 'one' &&
+            relationship.rightCardinality === 'many';
+        const source = state.tables.get(
+            reversed ? relationship.right : relationship.left
+        )!;
+        const target = state.tables.get(
+            reversed ? relationship.left : relationship.right
+        )!;
+        const targetField = referencedField(target, state.databaseType);
+        const manyToMany =
+            relationship.leftCardinality === 'many' &&
+            relationship.rightCardinality === 'many';
+        const sourceField = manyToMany
+            ? referencedField(source, state.databaseType)
+            : foreignKeyField(state, source, target, targetField, usedFieldIds);
+
+        usedFieldIds.add(sourceField.id);
+
+        if (!manyToMany && !reversed && relationship.required) {
+            sourceField.nullable = false;
+        }
+
+        return {
+            id: generateId(),
+            name: relationship.label || `fk_${source.name}_${sourceField.name}`,
+            sourceSchema: source.schema,
+            targetSchema: target.schema,
+            sourceTableId: source.id,
+            targetTableId: target.id,
+            sourceFieldId: sourceField.id,
+            targetFieldId: targetField.id,
+            sourceCardinality: reversed
+                ? relationship.rightCardinality
+                : relationship.leftCardinality,
+            targetCardinality: reversed
+                ? relationship.leftCardinality
+                : relationship.rightCardinality,
+            createdAt: Date.now(),
+        };
+    });
+};
+
+// Parses a Mermaid erDiagram into tables and relationships, reporting the lines it cannot read
+export const parseMermaid = ({
+    mermaid,
+    databaseType,
+}: {
+    mermaid: string;
+    databaseType: DatabaseType;
+}): MermaidImportResult => {
+    const state: ParserState = {
+        databaseType,
+        tables: new Map(),
+        foreignKeys: new Set(),
+        relationships: [],
+        errors: [],
+    };
+    const lines = mermaid.split(/\r?\n/);
+    let started = false;
+    let frontMatter = false;
+    let entity: DBTable | undefined;
+    let comments: string[] = [];
+
+    lines.forEach((rawLine, index) => {
+        const line = index + 1;
+        const text = rawLine.trim();
+
+        if (text === '---') {
+            frontMatter = !started && !frontMatter;
+            return;
+        }
+
+        if (frontMatter || !text || /^```/.test(text)) {
+            return;
+        }
+
+        // Comments right before an entity become the table comment
+        if (text.startsWith('%%')) {
+            comments.push(text.slice(2).trim());
+            return;
+        }
+
+        if (!started) {
+            if (/^erDiagram\b/.test(text)) {
+                started = true;
+            } else {
+                state.errors.push({
+                    line,
+                    message: 'Expected an erDiagram block',
+                });
+            }
+            return;
+        }
+
+        if (entity) {
+            if (text === '}') {
+                entity = undefined;
+            } else {
+                parseAttribute(state, entity, text, line);
+            }
+            return;
+        }
+
+        if (/^(title|direction|accTitle|accDescr)\b/.test(text)) {
+            return;
+        }
+
+        const relationship = text.match(relationshipPattern);
+
+        if (relationship) {
+            getTable(state, relationship[1]);
+            getTable(state, relationship[5]);
+            state.relationships.push({
+                left: relationship[1],
+                right: relationship[5],
+                leftCardinality: relationship[2].startsWith('}')
+                    ? 'many'
+                    : 'one',
+                rightCardinality: relationship[4].endsWith('{')
+                    ? 'many'
+                    : 'one',
+                required: relationship[4] === '||',
+                label: unquote(relationship[6]),
+                line,
+            });
+            comments = [];
+            return;
+        }
+
+        const entityMatch = text.match(entityPattern);
+        const rest = entityMatch
+            ? text.slice(entityMatch[0].length).trim()
+            : '';
+
+        if (!entityMatch || (rest !== '' && !rest.startsWith('{'))) {
+            state.errors.push({ line, message: `Unexpected "${text}"` });
+            return;
+        }
+
+        const table = getTable(state, entityMatch[1], entityMatch[2]);
+
+        if (comments.length > 0) {
+            table.comments = comments.join('\n');
+        }
+
+        comments = [];
+
+        // Attributes may follow the brace on the same line, e.g. "users { int id PK }"
+        const body = rest.slice(1).trim();
+
+        if (rest.startsWith('{')) {
+            if (body.endsWith('}')) {
+                body.slice(0, -1)
+                    .split(/\s{2,}|;/)
+                    .map((attribute) => attribute.trim())
+                    .filter(Boolean)
+                    .forEach((attribute) =>
+                        parseAttribute(state, table, attribute, line)
+                    );
+            } else {
+                entity = table;
+
+                if (body) {
+                    parseAttribute(state, table, body, line);
+                }
+            }
+        }
+    });
+
+    if (entity) {
+        state.errors.push({
+            line: lines.length,
+            message: `Missing "}" after entity "${entity.name}"`,
+        });
+    }
+
+    // A primary key column is unique on its own only when the key has no other column
+    state.tables.forEach((table) => {
+        const primaryKeyFields = table.fields.filter(
+            (field) => field.primaryKey
+        );
+
+        if (primaryKeyFields.length === 1) {
+            primaryKeyFields[0].unique = true;
+        }
+    });
+
+    return {
+        tables: [...state.tables.values()],
+        relationships: buildRelationships(state),
+        errors: state.errors,
+    };
+};
@@ -0,0 +1,1081 @@
+import { randomColor } from '@/lib/colors';
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import { DatabaseType } from '@/lib/domain/database-type';
+import type { DBField } from '@/lib/domain/db-field';
+import type { DBIndex } from '@/lib/domain/db-index';
+import type { DBRelationship } from '@/lib/domain/db-relationship';
+import type { DBTable } from '@/lib/domain/db-table';
+import { generateId } from '@/lib/utils';
+import type { ImportScriptError } from '../import-script-error';
+import { PrismaToken, tokenizePrisma } from './prisma-tokenizer';
+
+export interface PrismaImportResult {
+    // Set when the schema has a datasource with a supported provider
+    databaseType?: DatabaseType;
+    tables: DBTable[];
+    relationships: DBRelationship[];
+    errors: ImportScriptError[];
+}
+
+type PrismaValue =
+    | { kind: 'string'; value: string }
+    | { kind: 'number'; value: string }
+    | { kind: 'name'; value: string }
+    | { kind: 'call'; name: string; args: PrismaArgument[] }
+    | { kind: 'array'; items: PrismaValue[] };
+
+interface PrismaArgument {
+    name?: string;
+    value: PrismaValue;
+}
+
+interface PrismaAttribute {
+    name: string;
+    args: PrismaArgument[];
+    line: number;
+}
+
+interface PrismaFieldDefinition {
+    name: string;
+    typeName: string;
+    unsupportedType?: string;
+    optional: boolean;
+    list: boolean;
+    attributes: PrismaAttribute[];
+    comments?: string;
+    line: number;
+}
+
+interface PrismaModelDefinition {
+    name: string;
+    isView: boolean;
+    fields: PrismaFieldDefinition[];
+    attributes: PrismaAttribute[];
+    comments?: string;
+    line: number;
+}
+
+interface ParserState {
+    tokens: PrismaToken[];
+    index: number;
+    provider?: { value: string; line: number };
+    models: PrismaModelDefinition[];
+    // Enum names mapped to their database names
+    enums: Map<string, string>;
+    errors: ImportScriptError[];
+}
+
+interface PrismaTable {
+    model: PrismaModelDefinition;
+    table: DBTable;
+    fields: Map<string, DBField>;
+}
+
+const topLevelKeywords = [
+    'model',
+    'view',
+    'enum',
+    'datasource',
+    'generator',
+    'type',
+];
+
+const scalarTypes = [
+    'String',
+    'Boolean',
+    'Int',
+    'BigInt',
+    'Float',
+    'Decimal',
+    'DateTime',
+    'Json',
+    'Bytes',
+];
+
+const providerDatabaseTypes: Record<string, DatabaseType> = {
+    postgresql: DatabaseType.POSTGRESQL,
+    postgres: DatabaseType.POSTGRESQL,
+    cockroachdb: DatabaseType.POSTGRESQL,
+    mysql: DatabaseType.MYSQL,
+    sqlserver: DatabaseType.SQL_SERVER,
+    sqlite: DatabaseType.SQLITE,
+};
+
+// The column types Prisma uses when a field has no native type attribute
+const postgresqlScalarTypes: Record<string, string> = {
+    String: 'text',
+    Boolean: 'boolean',
+    Int: 'integer',
+    BigInt: 'bigint',
+    Float: 'double precision',
+    Decimal: 'decimal',
+    DateTime: 'timestamp',
+    Json: 'jsonb',
+    Bytes: 'bytea',
+};
+
+const mysqlScalarTypes: Record<string, string> = {
+    String: 'varchar',
+    Boolean: 'boolean',
+    Int: 'int',
+    BigInt: 'bigint',
+    Float: 'double',
+    Decimal: 'decimal',
+    DateTime: 'datetime',
+    Json: 'json',
+    Bytes: 'longblob',
+};
+
+const defaultScalarTypes: Record<DatabaseType, Record<string, string>> = {
+    [DatabaseType.GENERIC]: postgresqlScalarTypes,
+    [DatabaseType.POSTGRESQL]: postgresqlScalarTypes,
+    [DatabaseType.MYSQL]: mysqlScalarTypes,
+    [DatabaseType.MARIADB]: mysqlScalarTypes,
+    [DatabaseType.SQL_SERVER]: {
+        String: 'nvarchar',
+        Boolean: 'bit',
+        Int: 'int',
+        BigInt: 'bigint',
+        Float: 'float',
+        Decimal: 'decimal',
+        DateTime: 'datetime2',
+        Json: 'nvarchar',
+        Bytes: 'varbinary',
+    },
+    [DatabaseType.SQLITE]: {
+        String: 'text',
+        Boolean: 'boolean',
+        Int: 'integer',
+        BigInt: 'bigint',
+        Float: 'real',
+        Decimal: 'decimal',
+        DateTime: 'datetime',
+        Json: 'text',
+        Bytes: 'blob',
+    },
+    [DatabaseType.ORACLE]: {
+        String: 'varchar2',
+        Boolean: 'boolean',
+        Int: 'integer',
+        BigInt: 'number',
+        Float: 'binary_double',
+        Decimal: 'number',
+        DateTime: 'timestamp',
+        Json: 'json',
+        Bytes: 'blob',
+    },
+};
+
+const nativeTypeNames: Record<string, string> = {
+    DoublePrecision: 'double precision',
+    UnsignedInt: 'int unsigned',
+    UnsignedBigInt: 'bigint unsigned',
+    UnsignedSmallInt: 'smallint unsigned',
+    UnsignedTinyInt: 'tinyint unsigned',
+    UnsignedMediumInt: 'mediumint unsigned',
+};
+
+const lengthTypeRegex = /char|binary|bit/i;
+const precisionTypeRegex = /^(numeric|decimal)$/i;
+
+const isSymbol = (token: PrismaToken | undefined, symbol: string) =>
+    token?.type === 'symbol' && token.value === symbol;
+
+const peekToken = (state: ParserState, offset = 0) =>
+    state.tokens[state.index + offset] as PrismaToken | undefined;
+
+const isDone = (state: ParserState) => state.index >= state.tokens.length;
+
+const currentLine = (state: ParserState) =>
+    (peekToken(state) ?? state.tokens[state.tokens.length - 1])?.line ?? 0;
+
+const nextToken = (state: ParserState): PrismaToken => {
+    const token = peekToken(state);
+
+    if (!token) {
+        throw new Error('Unexpected end of file');
+    }
+
+    state.index++;
+    return token;
+};
+
+const acceptSymbol = (state: ParserState, symbol: string) => {
+    if (!isSymbol(peekToken(state), symbol)) {
+        return false;
+    }
+
+    state.index++;
+    return true;
+};
+
+const expectSymbol = (state: ParserState, symbol: string) => {
+    const token = peekToken(state);
+
+    if (!isSymbol(token, symbol)) {
+        throw new Error(
+            token
+                ? `Expected "${symbol}" but found "${token.value}"`
+                : `Expected "${symbol}" before the end of file`
+        );
+    }
+
+    state.index++;
+};
+
+const readWord = (state: ParserState): string => {
+    const token = peekToken(state);
+
+    if (token?.type !== 'word') {
+        throw new Error(
+            token
+                ? `Expected a name but found "${token.value}"`
+                : 'Expected a name before the end of file'
+        );
+    }
+
+    state.index++;
+    return token.value;
+};
+
+// Moves past the line of a broken element so parsing can resume on the next one
+const skipLine = (state: ParserState, line: number) => {
+    while (
+        !isDone(state) &&
+        peekToken(state)!.line <= line &&
+        !isSymbol(peekToken(state), '}')
+    ) {
+        state.index++;
+    }
+};
+
+const skipBlock = (state: ParserState) => {
+    while (!acceptSymbol(state, '{')) {
+        nextToken(state);
+    }
+
+    let depth = 1;
+
+    while (depth > 0) {
+        const token = nextToken(state);
+
+        if (isSymbol(token, '{')) depth++;
+        if (isSymbol(token, '}')) depth--;
+    }
+};
+
+const readValue = (state: ParserState): PrismaValue => {
+    const token = nextToken(state);
+
+    if (isSymbol(token, '[')) {
+        const items: PrismaValue[] = [];
+
+        while (!acceptSymbol(state, ']')) {
+            items.push(readValue(state));
+            acceptSymbol(state, ',');
+        }
+
+        return { kind: 'array', items };
+    }
+
+    if (isSymbol(token, '-') && peekToken(state)?.type === 'number') {
+        return { kind: 'number', value: `-${nextToken(state).value}` };
+    }
+
+    if (token.type === 'string' || token.type === 'number') {
+        return { kind: token.type, value: token.value };
+    }
+
+    if (token.type === 'word') {
+        return isSymbol(peekToken(state), '(')
+            ? { kind: 'call', name: token.value, args: readArguments(state) }
+            : { kind: 'name', value: token.value };
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+};
+
+const readArguments = (state: ParserState): PrismaArgument[] => {
+    const args: PrismaArgument[] = [];
+
+    expectSymbol(state, '(');
+
+    while (!acceptSymbol(state, ')')) {
+        const name =
+            peekToken(state)?.type === 'word' &&
+            isSymbol(peekToken(state, 1), ':')
+                ? readWord(state)
+                : undefined;
+
+        if (name) {
+            expectSymbol(state, ':');
+        }
+
+        args.push({ name, value: readValue(state) });
+
+        if (!isSymbol(peekToken(state), ')')) {
+            expectSymbol(state, ',');
+        }
+    }
+
+    return args;
+};
+
+// Reads an attribute such as @db.VarChar(255) after its @ or @@
+const readAttribute = (state: ParserState): PrismaAttribute => {
+    const line = currentLine(state);
+    let name = readWord(state);
+
+    while (acceptSymbol(state, '.')) {
+        name += `.${readWord(state)}`;
+    }
+
+    return {
+        name,
+        args: isSymbol(peekToken(state), '(') ? readArguments(state) : [],
+        line,
+    };
+};
+
+const readFieldAttributes = (state: ParserState): PrismaAttribute[] => {
+    const attributes: PrismaAttribute[] = [];
+
+    while (acceptSymbol(state, '@')) {
+        attributes.push(readAttribute(state));
+    }
+
+    return attributes;
+};
+
+const readDocComments = (state: ParserState): string | undefined => {
+    const lines: string[] = [];
+
+    while (peekToken(state)?.type === 'doc') {
+        lines.push(nextToken(state).value);
+    }
+
+    return lines.length > 0 ? lines.join('\n') : undefined;
+};
+
+const parseField = (
+    state: ParserState,
+    comments: string | undefined
+): PrismaFieldDefinition => {
+    const line = currentLine(state);
+    const name = readWord(state);
+    const typeName = readWord(state);
+    let unsupportedType: string | undefined;
+
+    if (typeName === 'Unsupported') {
+        expectSymbol(state, '(');
+        const token = nextToken(state);
+
+        if (token.type !== 'string') {
+            throw new Error('Unsupported types need a string argument');
+        }
+
+        unsupportedType = token.value;
+        expectSymbol(state, ')');
+    }
+
+    const list = acceptSymbol(state, '[');
+
+    if (list) {
+        expectSymbol(state, ']');
+    }
+
+    const optional = acceptSymbol(state, '?');
+
+    return {
+        name,
+        typeName,
+        unsupportedType,
+        optional,
+        list,
+        attributes: readFieldAttributes(state),
+        comments,
+        line,
+    };
+};
+
+const parseModel = (state: ParserState, comments: string | undefined) => {
+    const line = currentLine(state);
+    const isView = nextToken(state).value === 'view';
+    const name = readWord(state);
+
+    if (state.models.some((model) => model.name === name)) {
+        throw new Error(`Model "${name}" is defined more than once`);
+    }
+
+    const model: PrismaModelDefinition = {
+        name,
+        isView,
+        fields: [],
+        attributes: [],
+        comments,
+        line,
+    };
+
+    expectSymbol(state, '{');
+    state.models.push(model);
+
+    while (!acceptSymbol(state, '}')) {
+        if (isDone(state)) {
+            throw new Error(`Missing "}" at the end of model "${name}"`);
+        }
+
+        const fieldLine = currentLine(state);
+
+        try {
+            const fieldComments = readDocComments(state);
+
+            if (acceptSymbol(state, '}')) {
+                break;
+            }
+
+            if (acceptSymbol(state, '@@')) {
+                model.attributes.push(readAttribute(state));
+                continue;
+            }
+
+            const field = parseField(state, fieldComments);
+
+            if (model.fields.some((f) => f.name === field.name)) {
+                throw new Error(
+                    `Field "${field.name}" is defined more than once`
+                );
+            }
+
+            model.fields.push(field);
+        } catch (error) {
+            state.errors.push({
+                line: fieldLine,
+                message: (error as Error).message,
+            });
+            skipLine(state, fieldLine);
+        }
+    }
+};
+
+const parseEnum = (state: ParserState) => {
+    nextToken(state);
+    const name = readWord(state);
+    let databaseName = name;
+
+    expectSymbol(state, '{');
+
+    while (!acceptSymbol(state, '}')) {
+        readDocComments(state);
+
+        if (acceptSymbol(state, '@@')) {
+            const attribute = readAttribute(state);
+            const map = attribute.args[0]?.value;
+
+            if (attribute.name === 'map' && map?.kind === 'string') {
+                databaseName = map.value;
+            }
+        } else if (!isSymbol(peekToken(state), '}')) {
+            readWord(state);
+            readFieldAttributes(state);
+        }
+    }
+
+    state.enums.set(name, databaseName);
+};
+
+const parseDatasource = (state: ParserState) => {
+    nextToken(state);
+    readWord(state);
+    expectSymbol(state, '{');
+
+    while (!acceptSymbol(state, '}')) {
+        const line = currentLine(state);
+        const key = readWord(state);
+
+        expectSymbol(state, '=');
+        const value = readValue(state);
+
+        if (key === 'provider' && value.kind === 'string') {
+            state.provider = { value: value.value, line };
+        }
+    }
+};
+
+const findAttribute = (attributes: PrismaAttribute[], name: string) =>
+    attributes.find((attribute) => attribute.name === name);
+
+// Finds an argument by name, or by its position among the unnamed arguments
+const findArgument = (
+    attribute: PrismaAttribute | undefined,
+    name: string,
+    position?: number
+): PrismaValue | undefined =>
+    attribute?.args.find((arg) => arg.name === name)?.value ??
+    (position === undefined
+        ? undefined
+        : attribute?.args.filter((arg) => !arg.name)[position]?.value);
+
+const stringArgument = (
+    attribute: PrismaAttribute | undefined,
+    name: string,
+    position?: number
+): string | undefined => {
+    const value = findArgument(attribute, name, position);
+    return value?.kind === 'string' ? value.value : undefined;
+};
+
+// Field lists may carry arguments, e.g. [title(sort: Desc)]
+const fieldListArgument = (
+    attribute: PrismaAttribute | undefined,
+    name: string,
+    position?: number
+): string[] | undefined => {
+    const value = findArgument(attribute, name, position);
+
+    return value?.kind === 'array'
+        ? value.items.flatMap((item) =>
+              item.kind === 'name'
+                  ? [item.value]
+                  : item.kind === 'call'
+                    ? [item.name]
+                    : []
+          )
+        : undefined;
+};
+
+const defaultArgument = (field: PrismaFieldDefinition) =>
+    findArgument(findAttribute(field.attributes, 'default'), 'value', 0);
+
+const isAutoIncrement = (field: PrismaFieldDefinition) => {
+    const value = defaultArgument(field);
+    return value?.kind === 'call' && value.name === 'autoincrement';
+};
+
+const fieldType = (
+    field: PrismaFieldDefinition,
+    state: ParserState,
+    databaseType: DatabaseType
+): Pick<DBField, 'type' | 'characterMaximumLength' | 'precision' | 'scale'> => {
+    const nativeType = field.attributes.find((attribute) =>
+        attribute.name.startsWith('db.')
+    );
+    const args = (nativeType?.args ?? []).flatMap(({ value }) =>
+        value.kind === 'number' || value.kind === 'name' ? [value.value] : []
+    );
+    let name: string;
+
+    if (field.unsupportedType) {
+        name = field.unsupportedType;
+    } else if (state.enums.has(field.typeName)) {
+        name = state.enums.get(field.typeName)!;
+    } else if (nativeType) {
+        const nativeName = nativeType.name.slice('db.'.length);
+        name = nativeTypeNames[nativeName] ?? nativeName.toLowerCase();
+    } else {
+        name = defaultScalarTypes[databaseType][field.typeName];
+
+        // PostgreSQL implements autoincrement() with serial columns
+        if (
+            (databaseType === DatabaseType.POSTGRESQL ||
+                databaseType === DatabaseType.GENERIC) &&
+            isAutoIncrement(field)
+        ) {
+            name = field.typeName === 'BigInt' ? 'bigserial' : 'serial';
+        }
+    }
+
+    if (field.list) {
+        name += '[]';
+    }
+
+    return {
+        type: { id: name.split(' ').join('_'), name },
+        ...(args.length > 0 && lengthTypeRegex.test(name)
+            ? { characterMaximumLength: args[0].toLowerCase() }
+            : {}),
+        ...(args.length > 0 && precisionTypeRegex.test(name)
+            ? {
+                  precision: Number(args[0]),
+                  ...(args[1] ? { scale: Number(args[1]) } : {}),
+              }
+            : {}),
+    };
+};
+
+// Prisma defaults are converted back into SQL expressions
+const fieldDefault = (
+    value: PrismaValue | undefined,
+    databaseType: DatabaseType
+): string | undefined => {
+    switch (value?.kind) {
+        case 'string':
+            return `'${value.value.replace(/'/g, "''")}'`;
+        case 'number':
+            return value.value;
+        case 'name':
+            // Enum values are stored as strings
+            return /^(true|false)$/.test(value.value)
+                ? value.value
+                : `'${value.value}'`;
+        case 'call':
+            if (value.name === 'now') {
+                return databaseType === DatabaseType.POSTGRESQL ||
+                    databaseType === DatabaseType.GENERIC
+                    ? 'now()'
+                    : 'CURRENT_TIMESTAMP';
+            }
+
+            if (value.name === 'dbgenerated') {
+                const expression = value.args[0]?.value;
+                return expression?.kind === 'string'
+                    ? expression.value
+                    : undefined;
+            }
+
+            // autoincrement() is part of the type, uuid() and cuid() are generated by Prisma Client
+            return undefined;
+        default:
+            return undefined;
+    }
+};
+
+const isRelationField = (field: PrismaFieldDefinition, state: ParserState) =>
+    state.models.some((model) => model.name === field.typeName);
+
+const buildTable = (
+    model: PrismaModelDefinition,
+    state: ParserState,
+    databaseType: DatabaseType
+): PrismaTable => {
+    const fields = new Map<string, DBField>();
+    const table: DBTable = {
+        id: generateId(),
+        name:
+            stringArgument(findAttribute(model.attributes, 'map'), 'name', 0) ??
+            model.name,
+        schema:
+            stringArgument(
+                findAttribute(model.attributes, 'schema'),
+                'name',
+                0
+            ) ?? defaultSchemas[databaseType],
+        x: 0,
+        y: 0,
+        fields: [],
+        indexes: [],
+        color: randomColor(),
+        isView: model.isView,
+        createdAt: Date.now(),
+        ...(model.comments ? { comments: model.comments } : {}),
+    };
+
+    model.fields.forEach((definition) => {
+        if (isRelationField(definition, state)) {
+            return;
+        }
+
+        if (
+            !definition.unsupportedType &&
+            !scalarTypes.includes(definition.typeName) &&
+            !state.enums.has(definition.typeName)
+        ) {
+            state.errors.push({
+                line: definition.line,
+                message: `Unknown type "${definition.typeName}"`,
+            });
+            return;
+        }
+
+        const primaryKey = !!findAttribute(definition.attributes, 'id');
+        const field: DBField = {
+            id: generateId(),
+            name:
+                stringArgument(
+                    findAttribute(definition.attributes, 'map'),
+                    'name',
+                    0
+                ) ?? definition.name,
+            ...fieldType(definition, state, databaseType),
+            primaryKey,
+            unique: !!findAttribute(definition.attributes, 'unique'),
+            nullable: definition.optional && !primaryKey,
+            createdAt: Date.now(),
+        };
+        const defaultValue = fieldDefault(
+            defaultArgument(definition),
+            databaseType
+        );
+
+        if (defaultValue) {
+            field.default = defaultValue;
+        }
+
+        if (definition.comments) {
+            field.comments = definition.comments;
+        }
+
+        fields.set(definition.name, field);
+        table.fields.push(field);
+    });
+
+    const resolveFields = (names: string[]) =>
+        names.map((name) => {
+            const field = fields.get(name);
+
+            if (!field) {
+                throw new Error(
+                    `Field "${name}" does not exist in model "${model.name}"`
+                );
+            }
+
+            return field;
+        });
+
+    model.attributes.forEach((attribute) => {
+        try {
+            if (attribute.name === 'id') {
+                resolveFields(
+                    fieldListArgument(attribute, 'fields', 0) ?? []
+                ).forEach((field) => {
+                    field.primaryKey = true;
+                    field.nullable = false;
+                });
+            } else if (
+                attribute.name === 'index' ||
+                attribute.name === 'unique'
+            ) {
+                const names = fieldListArgument(attribute, 'fields', 0) ?? [];
+                const index: DBIndex = {
+                    id: generateId(),
+                    name:
+                        stringArgument(attribute, 'map') ??
+                        stringArgument(attribute, 'name') ??
+                        `${table.name}_${names.join('_')}_${attribute.name === 'unique' ? 'key' : 'idx'}`,
+                    unique: attribute.name === 'unique',
+                    fieldIds: resolveFields(names).map((field) => field.id),
+                    createdAt: Date.now(),
+                };
+
+                table.indexes.push(index);
+            }
+        } catch (error) {
+            state.errors.push({
+                line: attribute.line,
+                message: (error as Error).message,
+            });
+        }
+    });
+
+    return { model, table, fields };
+};
+
+// A relation is one to one when its foreign key columns are unique on their own
+const isUniqueKey = (table: DBTable, fields: DBField[]) => {
+    const ids = fields.map((field) => field.id).sort();
+    const sameFields = (fieldIds: string[]) =>
+        fieldIds.length === ids.length &&
+        [...fieldIds].sort().every((id, i) => id === ids[i]);
+
+    return (
+        (fields.length === 1 && fields[0].unique) ||
+        sameFields(
+            table.fields
+                .filter((field) => field.primaryKey)
+                .map((field) => field.id)
+        ) ||
+        table.indexes.some(
+            (index) => index.unique && sameFields(index.fieldIds)
+        )
+    );
+};
+
+// Serial keys are referenced by plain integer columns
+const joinColumnTypes: Record<string, string> = {
+    serial: 'integer',
+    bigserial: 'bigint',
+};
+
+// Implicit many to many relations are stored in a join table whose columns A and B reference both keys
+const buildJoinTable = (
+    name: string,
+    sides: { table: DBTable; key: DBField }[]
+): { table: DBTable; relationships: DBRelationship[] } => {
+    const fields = sides.map(({ key }, i): DBField => {
+        const typeName = joinColumnTypes[key.type.name] ?? key.type.name;
+
+        return {
+            id: generateId(),
+            name: i === 0 ? 'A' : 'B',
+            type: { id: typeName.split(' ').join('_'), name: typeName },
+            ...(key.characterMaximumLength
+                ? { characterMaximumLength: key.characterMaximumLength }
+                : {}),
+            primaryKey: false,
+            unique: false,
+            nullable: false,
+            createdAt: Date.now(),
+        };
+    });
+    const table: DBTable = {
+        id: generateId(),
+        name,
+        schema: sides[0].table.schema,
+        x: 0,
+        y: 0,
+        fields,
+        indexes: [
+            {
+                id: generateId(),
+                name: `${name}_AB_unique`,
+                unique: true,
+                fieldIds: fields.map((field) => field.id),
+                createdAt: Date.now(),
+            },
+            {
+                id: generateId(),
+                name: `${name}_B_index`,
+                unique: false,
+                fieldIds: [fields[1].id],
+                createdAt: Date.now(),
+            },
+        ],
+        color: randomColor(),
+        isView: false,
+        createdAt: Date.now(),
+    };
+
+    return {
+        table,
+        relationships: sides.map(({ table: referenced, key }, i) => ({
+            id: generateId(),
+            name: `${name}_${fields[i].name}_fkey`,
+            sourceSchema: table.schema,
+            targetSchema: referenced.schema,
+            sourceTableId: table.id,
+            targetTableId: referenced.id,
+            sourceFieldId: fields[i].id,
+            targetFieldId: key.id,
+            sourceCardinality: 'many',
+            targetCardinality: 'one',
+            createdAt: Date.now(),
+        })),
+    };
+};
+
+const buildRelationships = (
+    tables: PrismaTable[],
+    state: ParserState
+): { joinTables: DBTable[]; relationships: DBRelationship[] } => {
+    const joinTables: DBTable[] = [];
+    const relationships: DBRelationship[] = [];
+    const manyToManyKeys = new Set<string>();
+    const tableOf = (modelName: string) =>
+        tables.find((table) => table.model.name === modelName);
+
+    tables.forEach((holder) => {
+        holder.model.fields
+            .filter((field) => isRelationField(field, state))
+            .forEach((field) => {
+                const attribute = findAttribute(field.attributes, 'relation');
+                const referenced = tableOf(field.typeName)!;
+                const relationName = stringArgument(attribute, 'name', 0);
+                const fieldNames = fieldListArgument(attribute, 'fields');
+                const referenceNames = fieldListArgument(
+                    attribute,
+                    'references'
+                );
+
+                if (!fieldNames || !referenceNames) {
+                    // Implicit many to many relations have a list field on both sides
+                    const pairKey = [
+                        holder.model.name,
+                        referenced.model.name,
+                        relationName ?? '',
+                    ]
+                        .sort()
+                        .join('.');
+                    const backRelation = referenced.model.fields.find(
+                        (f) =>
+                            f !== field &&
+                            f.typeName === holder.model.name &&
+                            f.list &&
+                            stringArgument(
+                                findAttribute(f.attributes, 'relation'),
+                                'name',
+                                0
+                            ) === relationName
+                    );
+                    // Column A references the model whose name sorts first
+                    const [first, second] = [holder, referenced].sort((a, b) =>
+                        a.model.name < b.model.name ? -1 : 1
+                    );
+                    const sides = [first, second].map(({ table }) => ({
+                        table,
+                        keys: table.fields.filter((f) => f.primaryKey),
+                    }));
+
+                    if (
+                        field.list &&
+                        backRelation &&
+                        !manyToManyKeys.has(pairKey) &&
+                        sides.every(({ keys }) => keys.length === 1)
+                    ) {
+                        manyToManyKeys.add(pairKey);
+
+                        const joinTable = buildJoinTable(
+                            `_${relationName ?? `${first.model.name}To${second.model.name}`}`,
+                            sides.map(({ table, keys }) => ({
+                                table,
+                                key: keys[0],
+                            }))
+                        );
+
+                        joinTables.push(joinTable.table);
+                        relationships.push(...joinTable.relationships);
+                    }
+                    return;
+                }
+
+                try {
+                    if (fieldNames.length !== referenceNames.length) {
+                        throw new Error(
+                            'Both sides of a relation need the same number of fields'
+                        );
+                    }
+
+                    const resolve = (table: PrismaTable, name: string) => {
+                        const resolved = table.fields.get(name);
+
+                        if (!resolved) {
+                            throw new Error(
+                                `Field "${name}" does not exist in model "${table.model.name}"`
+                            );
+                        }
+
+                        return resolved;
+                    };
+                    const sourceFields = fieldNames.map((name) =>
+                        resolve(holder, name)
+                    );
+                    const targetFields = referenceNames.map((name) =>
+                        resolve(referenced, name)
+                    );
+                    const oneToOne = isUniqueKey(holder.table, sourceFields);
+
+                    sourceFields.forEach((sourceField, i) =>
+                        relationships.push({
+                            id: generateId(),
+                            name:
+                                stringArgument(attribute, 'map') ??
+                                `fk_${holder.table.name}_${sourceField.name}`,
+                            sourceSchema: holder.table.schema,
+                            targetSchema: referenced.table.schema,
+                            sourceTableId: holder.table.id,
+                            targetTableId: referenced.table.id,
+                            sourceFieldId: sourceField.id,
+                            targetFieldId: targetFields[i].id,
+                            sourceCardinality: oneToOne ? 'one' : 'many',
+                            targetCardinality: 'one',
+                            createdAt: Date.now(),
+                        })
+                    );
+                } catch (error) {
+                    state.errors.push({
+                        line: field.line,
+                        message: (error as Error).message,
+                    });
+                }
+            });
+    });
+
+    return { joinTables, relationships };
+};
+
+export const parsePrisma = ({
+    prisma,
+    databaseType,
+}: {
+    prisma: string;
+    databaseType: DatabaseType;
+}): PrismaImportResult => {
+    const { tokens, errors } = tokenizePrisma(prisma);
+    const state: ParserState = {
+        tokens,
+        index: 0,
+        models: [],
+        enums: new Map(),
+        errors,
+    };
+
+    while (!isDone(state)) {
+        const line = currentLine(state);
+
+        try {
+            const comments = readDocComments(state);
+
+            if (isDone(state)) {
+                break;
+            }
+
+            const keyword = peekToken(state)!.value;
+
+            if (keyword === 'model' || keyword === 'view') {
+                parseModel(state, comments);
+            } else if (keyword === 'enum') {
+                parseEnum(state);
+            } else if (keyword === 'datasource') {
+                parseDatasource(state);
+            } else if (topLevelKeywords.includes(keyword)) {
+                skipBlock(state);
+            } else {
+                throw new Error(`Unexpected "${keyword}"`);
+            }
+        } catch (error) {
+            state.errors.push({ line, message: (error as Error).message });
+
+            // Resume at the next line starting with a top level keyword
+            do {
+                state.index++;
+            } while (
+                !isDone(state) &&
+                !(
+                    peekToken(state)!.type === 'word' &&
+                    topLevelKeywords.includes(peekToken(state)!.value) &&
+                    peekToken(state)!.line > state.tokens[state.index - 1].line
+                )
+            );
+        }
+    }
+
+    let schemaDatabaseType: DatabaseType | undefined;
+
+    if (state.provider) {
+        schemaDatabaseType = providerDatabaseTypes[state.provider.value];
+
+        if (!schemaDatabaseType) {
+            state.errors.push({
+                line: state.provider.line,
+                message: `Unsupported provider "${state.provider.value}"`,
+            });
+        }
+    }
+
+    // MariaDB uses the mysql provider
+    const resolvedDatabaseType =
+        schemaDatabaseType === DatabaseType.MYSQL &&
+        databaseType === DatabaseType.MARIADB
+            ? DatabaseType.MARIADB
+            : (schemaDatabaseType ?? databaseType);
+
+    const tables = state.models.map((model) =>
+        buildTable(model, state, resolvedDatabaseType)
+    );
+    const { joinTables, relationships } = buildRelationships(tables, state);
+
+    return {
+        databaseType: schemaDatabaseType && resolvedDatabaseType,
+        tables: [...tables.map(({ table }) => table), ...joinTables],
+        relationships,
+        errors: state.errors.sort((a, b) => a.line - b.line),
+    };
+};
@@ -0,0 +1,83 @@
+import type { ImportScriptError } from '../import-script-error';
+
+export type PrismaTokenType = 'word' | 'string' | 'number' | 'doc' | 'symbol';
+
+export interface PrismaToken {
+    type: PrismaTokenType;
+    // Strings hold their unescaped value and doc comments their text
+    value: string;
+    line: number;
+}
+
+const isWordPart = (char: string) => /[\p{L}\p{N}_]/u.test(char);
+
+export const tokenizePrisma = (
+    prisma: string
+): { tokens: PrismaToken[]; errors: ImportScriptError[] } => {
+    const tokens: PrismaToken[] = [];
+    const errors: ImportScriptError[] = [];
+    let line = 1;
+    let position = 0;
+
+    const push = (type: PrismaTokenType, value: string, end: number) => {
+        tokens.push({ type, value, line });
+        position = end;
+    };
+
+    while (position < prisma.length) {
+        const char = prisma[position];
+
+        if (char === '\n') {
+            line++;
+            position++;
+        } else if (/\s/.test(char)) {
+            position++;
+        } else if (prisma.startsWith('//', position)) {
+            const newline = prisma.indexOf('\n', position);
+            const end = newline === -1 ? prisma.length : newline;
+
+            if (prisma.startsWith('///', position)) {
+                push('doc', prisma.slice(position + 3, end).trim(), end);
+            } else {
+                position = end;
+            }
+        } else if (char === '"') {
+            let value = '';
+            let i = position + 1;
+
+            while (
+                i < prisma.length &&
+                prisma[i] !== '"' &&
+                prisma[i] !== '\n'
+            ) {
+                if (prisma[i] === '\\' && i + 1 < prisma.length) {
+                    value += prisma[i + 1] === 'n' ? '\n' : prisma[i + 1];
+                    i += 2;
+                } else {
+                    value += prisma[i];
+                    i++;
+                }
+            }
+
+            if (prisma[i] !== '"') {
+                errors.push({ line, message: 'Missing closing "' });
+            }
+
+            push('string', value, i + 1);
+        } else if (/\d/.test(char)) {
+            let end = position + 1;
+            while (end < prisma.length && /[\d.]/.test(prisma[end])) end++;
+            push('number', prisma.slice(position, end), end);
+        } else if (isWordPart(char)) {
+            let end = position + 1;
+            while (end < prisma.length && isWordPart(prisma[end])) end++;
+            push('word', prisma.slice(position, end), end);
+        } else if (prisma.startsWith('@@', position)) {
+            push('symbol', '@@', position + 2);
+        } else {
+            push('symbol', char, position + 1);
+        }
+    }
+
+    return { tokens, errors };
+};
@@ -0,0 +1,174 @@
+export const oracleQuery = `-- Requires Oracle 19c or later. In SQL*Plus, run SET LONG 100000000 first so the whole result is printed
+WITH schemas AS (
+  SELECT username
+  FROM all_users
+  WHERE oracle_maintained = 'N'
+), fk_info AS (
+  SELECT
+      JSON_ARRAYAGG(
+          JSON_OBJECT(
+              'schema' VALUE c.owner,
+              'table' VALUE c.table_name,
+              'column' VALUE cc.column_name,
+              'foreign_key_name' VALUE c.constraint_name,
+              'reference_schema' VALUE rc.owner,
+              'reference_table' VALUE rc.table_name,
+              'reference_column' VALUE rcc.column_name,
+              'fk_def' VALUE
+                  'FOREIGN KEY (' || cc.column_name || ') REFERENCES ' || rc.table_name || '(' || rcc.column_name || ')' ||
+                  ' ON DELETE ' || c.delete_rule
+          )
+          RETURNING CLOB
+      ) AS fk_metadata
+  FROM
+      all_constraints c
+  JOIN
+      all_cons_columns cc ON cc.owner = c.owner AND cc.constraint_name = c.constraint_name
+  JOIN
+      all_constraints rc ON rc.owner = c.r_owner AND rc.constraint_name = c.r_constraint_name
+  JOIN
+      all_cons_columns rcc ON rcc.owner = rc.owner AND rcc.constraint_name = rc.constraint_name AND rcc.position = cc.position
+  WHERE
+      c.constraint_type = 'R'
+      AND c.owner IN (SELECT username FROM schemas)
+      AND c.table_name NOT LIKE 'BIN$%'
+), pk_info AS (
+  SELECT
+      JSON_ARRAYAGG(
+          JSON_OBJECT(
+              'schema' VALUE c.owner,
+              'table' VALUE c.table_name,
+              'column' VALUE cc.column_name,
+              'pk_def' VALUE 'PRIMARY KEY (' || cc.column_name || ')'
+          )
+          RETURNING CLOB
+      ) AS pk_metadata
+  FROM
+      all_constraints c
+  JOIN
+      all_cons_columns cc ON cc.owner = c.owner AND cc.constraint_name = c.constraint_name
+  WHERE
+      c.constraint_type = 'P'
+      AND c.owner IN (SELECT username FROM schemas)
+      AND c.table_name NOT LIKE 'BIN$%'
+), cols AS (
+  SELECT
+      JSON_ARRAYAGG(
+          JSON_OBJECT(
+              'schema' VALUE col.owner,
+              'table' VALUE col.table_name,
+              'name' VALUE col.column_name,
+              -- TIMESTAMP(6) WITH TIME ZONE becomes timestamp with time zone
+              'type' VALUE LOWER(REGEXP_REPLACE(col.data_type, '\\([0-9]+\\)', '')),
+              'character_maximum_length' VALUE
+                  CASE
+                      WHEN col.data_type IN ('CHAR', 'NCHAR', 'VARCHAR2', 'NVARCHAR2') THEN TO_CHAR(col.char_length)
+                      WHEN col.data_type = 'RAW' THEN TO_CHAR(col.data_length)
+                  END,
+              'precision' VALUE
+                  CASE
+                      WHEN col.data_type IN ('NUMBER', 'FLOAT') AND col.data_precision IS NOT NULL
+                      THEN JSON_OBJECT('precision' VALUE col.data_precision, 'scale' VALUE col.data_scale)
+                  END FORMAT JSON,
+              'ordinal_position' VALUE col.column_id,
+              'nullable' VALUE CASE WHEN col.nullable = 'Y' THEN 'true' ELSE 'false' END FORMAT JSON,
+              -- DATA_DEFAULT is a LONG column, which SQL functions can't read
+              'default' VALUE NULL,
+              'collation' VALUE CASE WHEN col.collation <> 'USING_NLS_COMP' THEN col.collation END,
+              'comment' VALUE colc.comments
+              RETURNING CLOB
+          )
+          RETURNING CLOB
+      ) AS cols_metadata
+  FROM
+      all_tab_columns col
+  LEFT JOIN
+      all_col_comments colc ON colc.owner = col.owner AND colc.table_name = col.table_name AND colc.column_name = col.column_name
+  WHERE
+      col.owner IN (SELECT username FROM schemas)
+      AND col.table_name NOT LIKE 'BIN$%'
+), indexes_metadata AS (
+  SELECT
+      JSON_ARRAYAGG(
+          JSON_OBJECT(
+              'schema' VALUE i.table_owner,
+              'table' VALUE i.table_name,
+              'name' VALUE i.index_name,
+              'column' VALUE ic.column_name,
+              'index_type' VALUE LOWER(i.index_type),
+              'cardinality' VALUE NVL(i.distinct_keys, 0),
+              'size' VALUE -1,
+              'unique' VALUE CASE WHEN i.uniqueness = 'UNIQUE' THEN 'true' ELSE 'false' END FORMAT JSON,
+              'is_partial_index' VALUE 'false' FORMAT JSON,
+              'direction' VALUE LOWER(ic.descend),
+              'column_position' VALUE ic.column_position
+          )
+          RETURNING CLOB
+      ) AS indexes_metadata
+  FROM
+      all_indexes i
+  JOIN
+      all_ind_columns ic ON ic.index_owner = i.owner AND ic.index_name = i.index_name
+  WHERE
+      i.table_owner IN (SELECT username FROM schemas)
+      AND i.index_type <> 'LOB'
+      AND i.table_name NOT LIKE 'BIN$%'
+), tbls AS (
+  SELECT
+      JSON_ARRAYAGG(
+          JSON_OBJECT(
+              'schema' VALUE t.owner,
+              'table' VALUE t.table_name,
+              'rows' VALUE NVL(t.num_rows, -1),
+              'type' VALUE t.table_type,
+              'engine' VALUE NULL,  -- Oracle does not use storage engines
+              'collation' VALUE NULL,
+              'comment' VALUE tc.comments
+              RETURNING CLOB
+          )
+          RETURNING CLOB
+      ) AS tbls_metadata
+  FROM
+  (
+      SELECT owner, table_name, num_rows, 'BASE TABLE' AS table_type
+      FROM all_tables
+      WHERE nested = 'NO'
+        AND secondary = 'N'
+        AND dropped = 'NO'
+        AND (iot_type IS NULL OR iot_type = 'IOT')
+      UNION ALL
+      SELECT owner, view_name, NULL, 'VIEW'
+      FROM all_views
+  ) t
+  LEFT JOIN
+      all_tab_comments tc ON tc.owner = t.owner AND tc.table_name = t.table_name
+  WHERE
+      t.owner IN (SELECT username FROM schemas)
+), views AS (
+  SELECT
+      JSON_ARRAYAGG(
+          JSON_OBJECT(
+              'schema' VALUE v.owner,
+              'view_name' VALUE v.view_name
+          )
+          RETURNING CLOB
+      ) AS views_metadata
+  FROM
+      all_views v
+  WHERE
+      v.owner IN (SELECT username FROM schemas)
+)
+SELECT
+    JSON_OBJECT(
+        'fk_info' VALUE NVL((SELECT fk_metadata FROM fk_info), TO_CLOB('[]')) FORMAT JSON,
+        'pk_info' VALUE NVL((SELECT pk_metadata FROM pk_info), TO_CLOB('[]')) FORMAT JSON,
+        'columns' VALUE NVL((SELECT cols_metadata FROM cols), TO_CLOB('[]')) FORMAT JSON,
+        'indexes' VALUE NVL((SELECT indexes_metadata FROM indexes_metadata), TO_CLOB('[]')) FORMAT JSON,
+        'tables' VALUE NVL((SELECT tbls_metadata FROM tbls), TO_CLOB('[]')) FORMAT JSON,
+        'views' VALUE NVL((SELECT views_metadata FROM views), TO_CLOB('[]')) FORMAT JSON,
+        'database_name' VALUE SYS_CONTEXT('USERENV', 'DB_NAME'),
+        'version' VALUE (SELECT version FROM product_component_version WHERE product LIKE 'Oracle Database%' AND ROWNUM = 1)
+        RETURNING CLOB
+    ) AS metadata_json_to_import
+FROM dual;
+`;
@@ -4,6 +4,7 @@ import { getMySQLQuery } from './mysql-script';
 import { sqliteQuery } from './sqlite-script';
 import { getSqlServerQuery } from './sqlserver-script';
 import { mariaDBQuery } from './maria-script';
+import { oracleQuery } from './oracle-script';
 import { DatabaseEdition } from '@/lib/domain/database-edition';
 import { DatabaseClient } from '@/lib/domain/database-clients';
 
@@ -20,4 +21,5 @@ export const importMetadataScripts: Record<
     [DatabaseType.SQLITE]: () => sqliteQuery,
     [DatabaseType.SQL_SERVER]: getSqlServerQuery,
     [DatabaseType.MARIADB]: () => mariaDBQuery,
+    [DatabaseType.ORACLE]: () => oracleQuery,
 };
@@ -0,0 +1,1530 @@
+import { DatabaseType } from '@/lib/domain/database-type';
+import { defaultSchemas } from '@/lib/data/default-schemas';
+import { sqlDialectMap } from '@/lib/data/export-metadata/sql-dialects';
+import type { DatabaseMetadata } from '../metadata-types/database-metadata';
+import type { ColumnInfo } from '../metadata-types/column-info';
+import type { ForeignKeyInfo } from '../metadata-types/foreign-key-info';
+import type { IndexInfo } from '../metadata-types/index-info';
+import type { PrimaryKeyInfo } from '../metadata-types/primary-key-info';
+import type { TableInfo } from '../metadata-types/table-info';
+import type { ImportScriptError } from '../import-script-error';
+import { SQLToken, tokenizeSQL } from './sql-tokenizer';
+
+export interface SQLImportResult {
+    metadata: DatabaseMetadata;
+    errors: ImportScriptError[];
+}
+
+interface ParsedTable {
+    info: TableInfo;
+    columns: ColumnInfo[];
+}
+
+interface QualifiedName {
+    schema?: string;
+    name: string;
+}
+
+interface IndexColumn {
+    name: string;
+    direction: 'asc' | 'desc';
+}
+
+interface ParsedForeignKey {
+    name?: string;
+    table: ParsedTable;
+    columns: string[];
+    reference: QualifiedName;
+    referenceColumns: string[];
+    line: number;
+}
+
+interface ParserState {
+    databaseType: DatabaseType;
+    sql: string;
+    tables: Map<string, ParsedTable>;
+    primaryKeys: PrimaryKeyInfo[];
+    indexes: IndexInfo[];
+    foreignKeys: ParsedForeignKey[];
+    errors: ImportScriptError[];
+}
+
+interface TokenStream {
+    tokens: SQLToken[];
+    index: number;
+}
+
+// Session, transaction and privilege statements that scripts and dumps carry around
+// the DDL, skipped without an error because they describe nothing shown in a diagram
+const ignoredStatements = new Set([
+    'analyze',
+    'begin',
+    'checkpoint',
+    'cluster',
+    'commit',
+    'discard',
+    'drop',
+    'end',
+    'go',
+    'grant',
+    'lock',
+    'pragma',
+    'print',
+    'reindex',
+    'release',
+    'reset',
+    'revoke',
+    'rollback',
+    'savepoint',
+    'security',
+    'set',
+    'start',
+    'unlock',
+    'use',
+    'vacuum',
+]);
+
+// Objects around the tables that a diagram has no place for, e.g. CREATE SCHEMA
+const ignoredCreateObjects = new Set([
+    'access',
+    'database',
+    'extension',
+    'language',
+    'login',
+    'publication',
+    'role',
+    'schema',
+    'sequence',
+    'server',
+    'statistics',
+    'subscription',
+    'synonym',
+    'tablespace',
+    'text',
+    'user',
+]);
+
+const alterTableActions = new Set([
+    'add',
+    'algorithm',
+    'alter',
+    'attach',
+    'auto_increment',
+    'change',
+    'character',
+    'check',
+    'cluster',
+    'comment',
+    'convert',
+    'default',
+    'detach',
+    'disable',
+    'drop',
+    'enable',
+    'engine',
+    'force',
+    'inherit',
+    'lock',
+    'modify',
+    'no',
+    'nocheck',
+    'not',
+    'of',
+    'order',
+    'owner',
+    'partition',
+    'rename',
+    'replica',
+    'reset',
+    'row_format',
+    'set',
+    'validate',
+    'with',
+]);
+
+// Keywords that end a column type or a default value expression
+const columnConstraintKeywords = new Set([
+    'as',
+    'auto_increment',
+    'autoincrement',
+    'charset',
+    'check',
+    'collate',
+    'comment',
+    'constraint',
+    'default',
+    'generated',
+    'identity',
+    'invisible',
+    'not',
+    'null',
+    'on',
+    'primary',
+    'references',
+    'rowguidcol',
+    'sparse',
+    'unique',
+    'visible',
+]);
+
+const typeAliases: Partial<Record<DatabaseType, Record<string, string>>> = {
+    [DatabaseType.POSTGRESQL]: {
+        int: 'integer',
+        int2: 'smallint',
+        int4: 'integer',
+        int8: 'bigint',
+        bool: 'boolean',
+        float4: 'real',
+        float8: 'double precision',
+        serial4: 'serial',
+        serial8: 'bigserial',
+        timestamptz: 'timestamp with time zone',
+        timetz: 'time with time zone',
+        varbit: 'bit varying',
+    },
+    [DatabaseType.MYSQL]: { integer: 'int' },
+    [DatabaseType.MARIADB]: { integer: 'int' },
+};
+
+// Integer types of identity columns and the serial type that auto increments them
+const serialTypes: Record<string, string> = {
+    smallint: 'smallserial',
+    int: 'serial',
+    integer: 'serial',
+    bigint: 'bigserial',
+};
+
+const lengthTypeRegex = /char|binary|bit/;
+const precisionTypeRegex = /^(numeric|decimal|dec|number)$/;
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+
+// Blanks out non DDL blocks while keeping line numbers intact
+const preprocessSQL = (sql: string) =>
+    sql
+        // pg_dump data sections
+        .replace(/^COPY\b[^;]*\bFROM\s+stdin;[\s\S]*?^\\\.[ \t]*$/gim, blank)
+        // MySQL routines declared with a custom delimiter
+        .replace(
+            /^[ \t]*DELIMITER[ \t]+(?!;)\S+[\s\S]*?^[ \t]*DELIMITER[ \t]+;[ \t]*$/gim,
+            blank
+        )
+        // psql meta commands, e.g. \connect
+        .replace(/^\\.*$/gm, blank);
+
+const keywordOf = (token: SQLToken | undefined) =>
+    token?.type === 'word' ? token.value.toLowerCase() : '';
+
+const isKeyword = (token: SQLToken | undefined, ...keywords: string[]) =>
+    keywords.includes(keywordOf(token));
+
+const isSymbol = (token: SQLToken | undefined, symbol: string) =>
+    token?.type === 'symbol' && token.value === symbol;
+
+const isIdentifier = (token: SQLToken | undefined) =>
+    token?.type === 'word' || token?.type === 'quoted';
+
+const toStream = (tokens: SQLToken[]): TokenStream => ({ tokens, index: 0 });
+
+const peekToken = (stream: TokenStream, offset = 0) =>
+    stream.tokens[stream.index + offset] as SQLToken | undefined;
+
+const isDone = (stream: TokenStream) => stream.index >= stream.tokens.length;
+
+const streamLine = (stream: TokenStream) =>
+    (stream.tokens[stream.index - 1] ?? stream.tokens[0])?.line ?? 0;
+
+const nextToken = (stream: TokenStream): SQLToken => {
+    const token = peekToken(stream);
+
+    if (!token) {
+        throw new Error('Unexpected end of statement');
+    }
+
+    stream.index++;
+    return token;
+};
+
+// Consumes the keywords only when all of them follow in order
+const acceptKeywords = (stream: TokenStream, ...keywords: string[]) => {
+    const matches = keywords.every((keyword, i) =>
+        isKeyword(peekToken(stream, i), keyword)
+    );
+
+    if (matches) {
+        stream.index += keywords.length;
+    }
+
+    return matches;
+};
+
+// Consumes a single keyword when it is any of the given ones
+const acceptAnyKeyword = (stream: TokenStream, ...keywords: string[]) => {
+    if (!isKeyword(peekToken(stream), ...keywords)) {
+        return false;
+    }
+
+    stream.index++;
+    return true;
+};
+
+const acceptSymbol = (stream: TokenStream, symbol: string) => {
+    if (!isSymbol(peekToken(stream), symbol)) {
+        return false;
+    }
+
+    stream.index++;
+    return true;
+};
+
+const expectKeyword = (stream: TokenStream, keyword: string) => {
+    const token = nextToken(stream);
+
+    if (!isKeyword(token, keyword)) {
+        throw new Error(
+            `Expected "${keyword.toUpperCase()}" but found "${token.value}"`
+        );
+    }
+};
+
+const splitTopLevel = (
+    tokens: SQLToken[],
+    isSeparator: (token: SQLToken) => boolean
+): SQLToken[][] => {
+    const parts: SQLToken[][] = [[]];
+    let depth = 0;
+
+    tokens.forEach((token) => {
+        if (isSymbol(token, '(')) depth++;
+        if (isSymbol(token, ')')) depth--;
+
+        if (depth === 0 && isSeparator(token)) {
+            parts.push([]);
+        } else {
+            parts[parts.length - 1].push(token);
+        }
+    });
+
+    return parts.filter((part) => part.length > 0);
+};
+
+// Reads a parenthesized list and returns its comma separated items
+const readParenthesized = (stream: TokenStream): SQLToken[][] => {
+    const open = nextToken(stream);
+
+    if (!isSymbol(open, '(')) {
+        throw new Error(`Expected "(" but found "${open.value}"`);
+    }
+
+    const tokens: SQLToken[] = [];
+    let depth = 1;
+
+    while (depth > 0) {
+        const token = nextToken(stream);
+
+        if (isSymbol(token, '(')) depth++;
+        if (isSymbol(token, ')')) depth--;
+        if (depth > 0) tokens.push(token);
+    }
+
+    return splitTopLevel(tokens, (token) => isSymbol(token, ','));
+};
+
+const skipParenthesized = (stream: TokenStream) => {
+    if (isSymbol(peekToken(stream), '(')) {
+        readParenthesized(stream);
+    }
+};
+
+const tokensText = (state: ParserState, tokens: SQLToken[]) =>
+    tokens.length === 0
+        ? ''
+        : state.sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+
+const readIdentifier = (state: ParserState, stream: TokenStream): string => {
+    const token = nextToken(stream);
+
+    if (token.type === 'quoted') {
+        return token.value;
+    }
+
+    if (token.type === 'word') {
+        return sqlDialectMap[state.databaseType].foldsToLowerCase
+            ? token.value.toLowerCase()
+            : token.value;
+    }
+
+    throw new Error(`Expected a name but found "${token.value}"`);
+};
+
+const readNameParts = (state: ParserState, stream: TokenStream): string[] => {
+    const parts = [readIdentifier(state, stream)];
+
+    while (acceptSymbol(stream, '.')) {
+        parts.push(readIdentifier(state, stream));
+    }
+
+    return parts;
+};
+
+// Database qualified names (db.schema.table) keep only the schema and the table
+const readQualifiedName = (
+    state: ParserState,
+    stream: TokenStream
+): QualifiedName => {
+    const parts = readNameParts(state, stream);
+
+    return {
+        name: parts[parts.length - 1],
+        schema: parts.length > 1 ? parts[parts.length - 2] : undefined,
+    };
+};
+
+const isColumnItem = (item: SQLToken[]) =>
+    isIdentifier(item[0]) &&
+    (!isSymbol(item[1], '(') || item[2]?.type === 'number');
+
+// Expression items, e.g. lower(email), are skipped as they have no column
+const readColumnNames = (state: ParserState, stream: TokenStream): string[] =>
+    readParenthesized(stream)
+        .filter(isColumnItem)
+        .map((item) => readIdentifier(state, toStream(item)));
+
+// Index columns also keep their sort order, e.g. created_at DESC
+const readIndexColumns = (
+    state: ParserState,
+    stream: TokenStream
+): IndexColumn[] =>
+    readParenthesized(stream)
+        .filter(isColumnItem)
+        .map((item) => ({
+            name: readIdentifier(state, toStream(item)),
+            direction: item.some((token) => isKeyword(token, 'desc'))
+                ? 'desc'
+                : 'asc',
+        }));
+
+const defaultSchema = (state: ParserState) =>
+    defaultSchemas[state.databaseType] ?? '';
+
+const tableKey = (schema: string, name: string) => `${schema}.${name}`;
+
+const findTable = (
+    state: ParserState,
+    { schema, name }: QualifiedName
+): ParsedTable | undefined =>
+    state.tables.get(tableKey(schema ?? defaultSchema(state), name)) ??
+    [...state.tables.values()].find((table) => table.info.table === name);
+
+const getTable = (state: ParserState, name: QualifiedName): ParsedTable => {
+    const table = findTable(state, name);
+
+    if (!table) {
+        throw new Error(`Table "${name.name}" is not created in this script`);
+    }
+
+    return table;
+};
+
+const getColumn = (table: ParsedTable, name: string): ColumnInfo => {
+    const column = table.columns.find((column) => column.name === name);
+
+    if (!column) {
+        throw new Error(
+            `Column "${name}" does not exist in table "${table.info.table}"`
+        );
+    }
+
+    return column;
+};
+
+const addPrimaryKey = (
+    state: ParserState,
+    table: ParsedTable,
+    columns: string[]
+) => {
+    columns.forEach((column) => getColumn(table, column));
+
+    const pk_def = `PRIMARY KEY (${columns.join(', ')})`;
+
+    columns.forEach((column) => {
+        if (
+            !state.primaryKeys.some(
+                (pk) =>
+                    pk.schema === table.info.schema &&
+                    pk.table === table.info.table &&
+                    pk.column === column
+            )
+        ) {
+            state.primaryKeys.push({
+                schema: table.info.schema,
+                table: table.info.table,
+                column,
+                pk_def,
+            });
+        }
+    });
+};
+
+const addIndex = (
+    state: ParserState,
+    table: ParsedTable,
+    {
+        name,
+        columns,
+        unique,
+        partial = false,
+        type = 'btree',
+    }: {
+        name?: string;
+        columns: IndexColumn[];
+        unique: boolean;
+        partial?: boolean;
+        type?: string;
+    }
+) => {
+    columns.forEach((column) => getColumn(table, column.name));
+
+    const indexName =
+        name ??
+        `${table.info.table}_${columns.map((column) => column.name).join('_')}_${unique ? 'key' : 'idx'}`;
+
+    columns.forEach((column, i) =>
+        state.indexes.push({
+            schema: table.info.schema,
+            table: table.info.table,
+            name: indexName,
+            column: column.name,
+            index_type: type,
+            cardinality: 0,
+            size: 0,
+            unique,
+            is_partial_index: partial,
+            direction: column.direction,
+            column_position: i + 1,
+        })
+    );
+};
+
+// ON DELETE / ON UPDATE actions, MATCH and deferrability are not part of the diagram
+const skipReferenceOptions = (stream: TokenStream) => {
+    while (!isDone(stream)) {
+        if (
+            acceptKeywords(stream, 'on', 'delete') ||
+            acceptKeywords(stream, 'on', 'update')
+        ) {
+            if (
+                !acceptKeywords(stream, 'no', 'action') &&
+                !acceptKeywords(stream, 'set', 'null') &&
+                !acceptKeywords(stream, 'set', 'default')
+            ) {
+                nextToken(stream);
+            }
+        } else if (acceptKeywords(stream, 'match')) {
+            nextToken(stream);
+        } else if (acceptKeywords(stream, 'initially')) {
+            nextToken(stream);
+        } else if (
+            !acceptKeywords(stream, 'not', 'deferrable') &&
+            !acceptKeywords(stream, 'deferrable') &&
+            !acceptKeywords(stream, 'not', 'for', 'replication')
+        ) {
+            return;
+        }
+    }
+};
+
+const addForeignKey = (
+    state: ParserState,
+    table: ParsedTable,
+    stream: TokenStream,
+    { name, columns }: { name?: string; columns: string[] }
+) => {
+    const line = streamLine(stream);
+    const reference = readQualifiedName(state, stream);
+    const referenceColumns = isSymbol(peekToken(stream), '(')
+        ? readColumnNames(state, stream)
+        : [];
+
+    columns.forEach((column) => getColumn(table, column));
+    skipReferenceOptions(stream);
+
+    state.foreignKeys.push({
+        name,
+        table,
+        columns,
+        reference,
+        referenceColumns,
+        line,
+    });
+};
+
+const readDataType = (
+    state: ParserState,
+    stream: TokenStream
+): Pick<ColumnInfo, 'type' | 'character_maximum_length' | 'precision'> => {
+    const first = peekToken(stream);
+
+    // SQLite allows columns without a type, which get the BLOB affinity
+    if (
+        !first ||
+        (first.type === 'word' &&
+            columnConstraintKeywords.has(keywordOf(first)))
+    ) {
+        return { type: 'blob' };
+    }
+
+    const readTypeWord = () => {
+        const token = nextToken(stream);
+
+        if (!isIdentifier(token)) {
+            throw new Error(`Expected a data type but found "${token.value}"`);
+        }
+
+        return token.value.toLowerCase();
+    };
+
+    let typeWord = readTypeWord();
+
+    // Schema qualified types, e.g. public.mood or pg_catalog.int4
+    while (acceptSymbol(stream, '.')) {
+        typeWord = readTypeWord();
+    }
+
+    const words = [typeWord];
+    let args: string[] = [];
+    let isArray = false;
+
+    if (typeWord === 'national') {
+        words.push(readTypeWord());
+    }
+
+    while (!isDone(stream)) {
+        const token = peekToken(stream);
+
+        if (isSymbol(token, '(')) {
+            args = readParenthesized(stream).map((arg) =>
+                tokensText(state, arg)
+            );
+        } else if (isKeyword(token, 'varying', 'precision')) {
+            words.push(readTypeWord());
+        } else if (isKeyword(token, 'unsigned', 'signed', 'zerofill')) {
+            nextToken(stream);
+        } else if (
+            isKeyword(token, 'with', 'without') &&
+            isKeyword(peekToken(stream, 1), 'time') &&
+            isKeyword(peekToken(stream, 2), 'zone')
+        ) {
+            words.push(readTypeWord(), readTypeWord(), readTypeWord());
+        } else if (isSymbol(token, '[')) {
+            while (!acceptSymbol(stream, ']')) nextToken(stream);
+            isArray = true;
+        } else if (isKeyword(token, 'array')) {
+            nextToken(stream);
+            isArray = true;
+        } else {
+            break;
+        }
+    }
+
+    const name = words.join(' ');
+    const type = typeAliases[state.databaseType]?.[name] ?? name;
+
+    return {
+        type: isArray ? `${type}[]` : type,
+        ...(args.length > 0 && lengthTypeRegex.test(type)
+            ? { character_maximum_length: args[0] }
+            : {}),
+        ...(args.length > 0 && precisionTypeRegex.test(type)
+            ? {
+                  precision: {
+                      precision: Number(args[0]),
+                      scale: args[1] ? Number(args[1]) : null,
+                  },
+              }
+            : {}),
+    };
+};
+
+// Reads tokens up to the next column constraint keyword
+const readExpression = (state: ParserState, stream: TokenStream): string => {
+    const tokens: SQLToken[] = [];
+    let depth = 0;
+
+    while (!isDone(stream)) {
+        const token = peekToken(stream)!;
+
+        if (
+            depth === 0 &&
+            tokens.length > 0 &&
+            !isSymbol(tokens[tokens.length - 1], '::') &&
+            (columnConstraintKeywords.has(keywordOf(token)) ||
+                (isKeyword(token, 'character') &&
+                    isKeyword(peekToken(stream, 1), 'set')))
+        ) {
+            break;
+        }
+
+        if (isSymbol(token, '(')) depth++;
+        if (isSymbol(token, ')')) depth--;
+        tokens.push(nextToken(stream));
+    }
+
+    if (tokens.length === 0) {
+        throw new Error('Expected an expression');
+    }
+
+    return tokensText(state, tokens);
+};
+
+const readString = (stream: TokenStream): string | null => {
+    const token = nextToken(stream);
+
+    if (token.type === 'string') {
+        return token.value;
+    }
+
+    if (isKeyword(token, 'null')) {
+        return null;
+    }
+
+    throw new Error(`Expected a string but found "${token.value}"`);
+};
+
+const parseColumnConstraints = (
+    state: ParserState,
+    table: ParsedTable,
+    column: ColumnInfo,
+    stream: TokenStream
+) => {
+    // PostgreSQL has serial types for auto increment columns, elsewhere the clause is kept as the default, which marks them
+    const setIdentity = (start: number) => {
+        const serialType =
+            state.databaseType === DatabaseType.POSTGRESQL ||
+            state.databaseType === DatabaseType.GENERIC
+                ? serialTypes[column.type]
+                : undefined;
+
+        if (serialType) {
+            column.type = serialType;
+        } else {
+            column.default = tokensText(
+                state,
+                stream.tokens.slice(start, stream.index)
+            );
+        }
+    };
+
+    while (!isDone(stream)) {
+        const start = stream.index;
+        const token = nextToken(stream);
+
+        switch (keywordOf(token)) {
+            case 'constraint':
+                readIdentifier(state, stream);
+                break;
+            case 'not':
+                if (acceptKeywords(stream, 'null')) {
+                    column.nullable = false;
+                } else if (
+                    !acceptKeywords(stream, 'deferrable') &&
+                    !acceptKeywords(stream, 'for', 'replication')
+                ) {
+                    throw new Error(
+                        `Unexpected "${peekToken(stream)?.value ?? token.value}" in column "${column.name}"`
+                    );
+                }
+                break;
+            case 'null':
+                column.nullable = true;
+                break;
+            case 'primary':
+                expectKeyword(stream, 'key');
+                addPrimaryKey(state, table, [column.name]);
+                break;
+            case 'unique':
+                acceptKeywords(stream, 'key');
+                addIndex(state, table, {
+                    columns: [{ name: column.name, direction: 'asc' }],
+                    unique: true,
+                });
+                break;
+            case 'default': {
+                const value = readExpression(state, stream);
+                column.default =
+                    value.toLowerCase() === 'null' ? undefined : value;
+                break;
+            }
+            case 'references':
+                addForeignKey(state, table, stream, {
+                    columns: [column.name],
+                });
+                break;
+            case 'check':
+                skipParenthesized(stream);
+                break;
+            case 'collate': {
+                const parts = readNameParts(state, stream);
+                const collation = parts[parts.length - 1];
+                column.collation =
+                    collation.toLowerCase() === 'default'
+                        ? undefined
+                        : collation;
+                break;
+            }
+            case 'comment':
+                column.comment = readString(stream);
+                break;
+            case 'generated':
+                if (!acceptKeywords(stream, 'always')) {
+                    expectKeyword(stream, 'by');
+                    expectKeyword(stream, 'default');
+                }
+                expectKeyword(stream, 'as');
+                if (acceptKeywords(stream, 'identity')) {
+                    skipParenthesized(stream);
+                    setIdentity(start);
+                } else {
+                    skipParenthesized(stream);
+                }
+                break;
+            case 'identity':
+                skipParenthesized(stream);
+                setIdentity(start);
+                break;
+            case 'as':
+                skipParenthesized(stream);
+                break;
+            case 'on':
+                if (acceptKeywords(stream, 'update')) {
+                    readExpression(state, stream);
+                } else {
+                    expectKeyword(stream, 'conflict');
+                    nextToken(stream);
+                }
+                break;
+            case 'character':
+                expectKeyword(stream, 'set');
+                nextToken(stream);
+                break;
+            case 'charset':
+            case 'initially':
+                nextToken(stream);
+                break;
+            case 'auto_increment':
+            case 'autoincrement':
+                setIdentity(start);
+                break;
+            case 'asc':
+            case 'clustered':
+            case 'deferrable':
+            case 'desc':
+            case 'filestream':
+            case 'invisible':
+            case 'nonclustered':
+            case 'persisted':
+            case 'rowguidcol':
+            case 'sparse':
+            case 'stored':
+            case 'virtual':
+            case 'visible':
+                break;
+            default:
+                throw new Error(
+                    `Unexpected "${token.value}" in column "${column.name}"`
+                );
+        }
+    }
+};
+
+const parseColumnDefinition = (
+    state: ParserState,
+    table: ParsedTable,
+    stream: TokenStream
+) => {
+    const name = readIdentifier(state, stream);
+
+    if (table.columns.some((column) => column.name === name)) {
+        throw new Error(`Column "${name}" is defined more than once`);
+    }
+
+    if (isKeyword(peekToken(stream), 'as')) {
+        throw new Error(`Computed column "${name}" is not supported`);
+    }
+
+    const column: ColumnInfo = {
+        schema: table.info.schema,
+        table: table.info.table,
+        name,
+        ordinal_position: table.columns.length + 1,
+        nullable: true,
+        ...readDataType(state, stream),
+    };
+
+    table.columns.push(column);
+    parseColumnConstraints(state, table, column, stream);
+};
+
+// Returns false when the element is not a table constraint, i.e. a column
+const parseTableConstraint = (
+    state: ParserState,
+    table: ParsedTable,
+    stream: TokenStream,
+    constraintName?: string
+): boolean => {
+    const isMySQL =
+        state.databaseType === DatabaseType.MYSQL ||
+        state.databaseType === DatabaseType.MARIADB;
+    const readOptionalName = () =>
+        isIdentifier(peekToken(stream)) &&
+        !isKeyword(peekToken(stream), 'using', 'clustered', 'nonclustered')
+            ? readIdentifier(state, stream)
+            : undefined;
+
+    if (acceptKeywords(stream, 'primary', 'key')) {
+        acceptAnyKeyword(stream, 'clustered', 'nonclustered');
+        addPrimaryKey(state, table, readColumnNames(state, stream));
+        return true;
+    }
+
+    if (acceptKeywords(stream, 'unique')) {
+        acceptAnyKeyword(stream, 'key', 'index');
+        const name = readOptionalName() ?? constraintName;
+        acceptAnyKeyword(stream, 'clustered', 'nonclustered');
+        addIndex(state, table, {
+            name,
+            columns: readIndexColumns(state, stream),
+            unique: true,
+        });
+        return true;
+    }
+
+    if (acceptKeywords(stream, 'foreign', 'key')) {
+        const name = readOptionalName() ?? constraintName;
+        const columns = readColumnNames(state, stream);
+        expectKeyword(stream, 'references');
+        addForeignKey(state, table, stream, { name, columns });
+        return true;
+    }
+
+    if (isKeyword(peekToken(stream), 'check', 'exclude')) {
+        return true;
+    }
+
+    const isIndex =
+        (isMySQL &&
+            isKeyword(peekToken(stream), 'key', 'fulltext', 'spatial')) ||
+        ((isMySQL || state.databaseType === DatabaseType.SQL_SERVER) &&
+            isKeyword(peekToken(stream), 'index'));
+
+    if (isIndex) {
+        const kind = keywordOf(nextToken(stream));
+        acceptAnyKeyword(stream, 'key', 'index');
+        const name = readOptionalName();
+        acceptAnyKeyword(stream, 'clustered', 'nonclustered');
+        if (acceptKeywords(stream, 'using')) nextToken(stream);
+        addIndex(state, table, {
+            name,
+            columns: readIndexColumns(state, stream),
+            unique: false,
+            type: kind === 'fulltext' || kind === 'spatial' ? kind : 'btree',
+        });
+        return true;
+    }
+
+    return false;
+};
+
+const parseTableElement = (
+    state: ParserState,
+    table: ParsedTable,
+    stream: TokenStream
+) => {
+    const constraintName = acceptKeywords(stream, 'constraint')
+        ? readIdentifier(state, stream)
+        : undefined;
+
+    if (parseTableConstraint(state, table, stream, constraintName)) {
+        return;
+    }
+
+    if (constraintName) {
+        throw new Error(
+            `Unsupported constraint "${constraintName}" in table "${table.info.table}"`
+        );
+    }
+
+    parseColumnDefinition(state, table, stream);
+};
+
+const parseElements = (
+    state: ParserState,
+    elements: SQLToken[][],
+    parseElement: (stream: TokenStream) => void
+) =>
+    elements.forEach((element) => {
+        const stream = toStream(element);
+
+        try {
+            parseElement(stream);
+        } catch (error) {
+            state.errors.push({
+                line: streamLine(stream),
+                message: (error as Error).message,
+            });
+        }
+    });
+
+// Reports the empty items of the list at the stream position, e.g. "(id int,,)", which readParenthesized drops
+const reportEmptyElements = (
+    state: ParserState,
+    stream: TokenStream
+): boolean => {
+    let depth = 0;
+    let found = false;
+
+    for (let i = stream.index; i < stream.tokens.length; i++) {
+        const token = stream.tokens[i];
+        const previous = stream.tokens[i - 1];
+
+        if (isSymbol(token, '(')) depth++;
+
+        if (
+            depth === 1 &&
+            ((isSymbol(token, ',') &&
+                (isSymbol(previous, ',') || isSymbol(previous, '('))) ||
+                (isSymbol(token, ')') && isSymbol(previous, ',')))
+        ) {
+            state.errors.push({
+                line: token.line,
+                message: 'Expected a column or constraint definition',
+            });
+            found = true;
+        }
+
+        if (isSymbol(token, ')') && --depth === 0) {
+            break;
+        }
+    }
+
+    return found;
+};
+
+const parseCreateTable = (state: ParserState, stream: TokenStream) => {
+    acceptKeywords(stream, 'if', 'not', 'exists');
+
+    const { schema, name } = readQualifiedName(state, stream);
+
+    if (!isSymbol(peekToken(stream), '(')) {
+        throw new Error(
+            `Table "${name}" has no column list, CREATE TABLE ... ${peekToken(stream)?.value.toUpperCase() ?? ''} is not supported`
+        );
+    }
+
+    const key = tableKey(schema ?? defaultSchema(state), name);
+
+    if (state.tables.has(key)) {
+        throw new Error(`Table "${name}" is created more than once`);
+    }
+
+    const table: ParsedTable = {
+        info: {
+            schema: schema ?? defaultSchema(state),
+            table: name,
+            // A script has no row count, a negative count leaves it unknown
+            rows: -1,
+            type: 'BASE TABLE',
+            engine: '',
+            collation: '',
+        },
+        columns: [],
+    };
+
+    try {
+        if (reportEmptyElements(state, stream)) {
+            throw new Error(
+                `Table "${name}" is left out, its column list is malformed`
+            );
+        }
+
+        parseElements(state, readParenthesized(stream), (element) =>
+            parseTableElement(state, table, element)
+        );
+
+        // Table options, of which only the MySQL comment is part of the diagram
+        while (!isDone(stream)) {
+            if (acceptKeywords(stream, 'comment')) {
+                acceptSymbol(stream, '=');
+                table.info.comment = readString(stream) ?? undefined;
+            } else {
+                nextToken(stream);
+            }
+        }
+
+        if (table.columns.length === 0) {
+            throw new Error(`Table "${name}" has no columns`);
+        }
+    } catch (error) {
+        // A table that fails to parse is left out, with the keys and indexes it declared
+        const isOtherTable = (info: { schema: string; table: string }) =>
+            info.schema !== table.info.schema || info.table !== name;
+        state.primaryKeys = state.primaryKeys.filter(isOtherTable);
+        state.indexes = state.indexes.filter(isOtherTable);
+        state.foreignKeys = state.foreignKeys.filter(
+            (fk) => fk.table !== table
+        );
+        throw error;
+    }
+
+    state.tables.set(key, table);
+};
+
+const parseAlterTable = (state: ParserState, stream: TokenStream) => {
+    acceptKeywords(stream, 'if', 'exists');
+    acceptKeywords(stream, 'only');
+
+    const table = getTable(state, readQualifiedName(state, stream));
+    let adding = false;
+
+    parseElements(
+        state,
+        splitTopLevel(stream.tokens.slice(stream.index), (token) =>
+            isSymbol(token, ',')
+        ),
+        (action) => {
+            if (acceptKeywords(action, 'with')) {
+                acceptAnyKeyword(action, 'check', 'nocheck');
+            }
+
+            // SQL Server adds several columns with a single ADD
+            if (
+                acceptKeywords(action, 'add') ||
+                (adding && !alterTableActions.has(keywordOf(peekToken(action))))
+            ) {
+                adding = true;
+                acceptKeywords(action, 'column');
+                acceptKeywords(action, 'if', 'not', 'exists');
+                parseTableElement(state, table, action);
+                return;
+            }
+
+            adding = false;
+
+            if (acceptKeywords(action, 'alter')) {
+                acceptKeywords(action, 'column');
+                const column = getColumn(table, readIdentifier(state, action));
+
+                if (acceptKeywords(action, 'set', 'default')) {
+                    column.default = readExpression(state, action);
+                } else if (acceptKeywords(action, 'drop', 'default')) {
+                    column.default = undefined;
+                } else if (acceptKeywords(action, 'set', 'not', 'null')) {
+                    column.nullable = false;
+                } else if (acceptKeywords(action, 'drop', 'not', 'null')) {
+                    column.nullable = true;
+                }
+            }
+            // Other actions (owner, rename, drop, ...) do not add structure
+        }
+    );
+};
+
+const parseCreateIndex = (
+    state: ParserState,
+    stream: TokenStream,
+    { unique, type }: { unique: boolean; type?: string }
+) => {
+    acceptKeywords(stream, 'concurrently');
+    acceptKeywords(stream, 'if', 'not', 'exists');
+
+    const name = isKeyword(peekToken(stream), 'on')
+        ? undefined
+        : readQualifiedName(state, stream).name;
+
+    expectKeyword(stream, 'on');
+    acceptKeywords(stream, 'only');
+
+    const table = getTable(state, readQualifiedName(state, stream));
+    let indexType = type;
+
+    if (acceptKeywords(stream, 'using')) {
+        indexType = keywordOf(nextToken(stream));
+    }
+
+    const columns = readIndexColumns(state, stream);
+
+    if (columns.length === 0) {
+        throw new Error(
+            `Index "${name ?? table.info.table}" only indexes expressions, which is not supported`
+        );
+    }
+
+    addIndex(state, table, {
+        name,
+        columns,
+        unique,
+        type: indexType,
+        partial: stream.tokens
+            .slice(stream.index)
+            .some((token) => isKeyword(token, 'where')),
+    });
+};
+
+const parseCreate = (state: ParserState, stream: TokenStream) => {
+    if (acceptKeywords(stream, 'or')) {
+        acceptAnyKeyword(stream, 'replace', 'alter');
+    }
+
+    let unique = false;
+    let indexType: string | undefined;
+
+    while (
+        isKeyword(
+            peekToken(stream),
+            'global',
+            'local',
+            'temporary',
+            'temp',
+            'unlogged',
+            'unique',
+            'clustered',
+            'nonclustered',
+            'fulltext',
+            'spatial'
+        )
+    ) {
+        const modifier = keywordOf(nextToken(stream));
+
+        if (modifier === 'unique') unique = true;
+        if (modifier === 'fulltext' || modifier === 'spatial') {
+            indexType = modifier;
+        }
+    }
+
+    if (acceptKeywords(stream, 'table')) {
+        parseCreateTable(state, stream);
+    } else if (acceptKeywords(stream, 'index')) {
+        parseCreateIndex(state, stream, { unique, type: indexType });
+    } else if (!ignoredCreateObjects.has(keywordOf(peekToken(stream)))) {
+        throw new Error(
+            `Unsupported statement "CREATE ${peekToken(stream)?.value.toUpperCase() ?? ''}"`
+        );
+    }
+};
+
+const parseCommentOn = (state: ParserState, stream: TokenStream) => {
+    expectKeyword(stream, 'on');
+
+    if (acceptKeywords(stream, 'table')) {
+        const table = getTable(state, readQualifiedName(state, stream));
+        expectKeyword(stream, 'is');
+        table.info.comment = readString(stream) ?? undefined;
+    } else if (acceptKeywords(stream, 'column')) {
+        const parts = readNameParts(state, stream);
+
+        if (parts.length < 2) {
+            throw new Error('Expected a column name qualified by its table');
+        }
+
+        const table = getTable(state, {
+            name: parts[parts.length - 2],
+            schema: parts.length > 2 ? parts[parts.length - 3] : undefined,
+        });
+        const column = getColumn(table, parts[parts.length - 1]);
+        expectKeyword(stream, 'is');
+        column.comment = readString(stream);
+    }
+    // Comments on other objects (schemas, indexes, ...) are not shown
+};
+
+const extendedPropertyParameters = [
+    'name',
+    'value',
+    'level0type',
+    'level0name',
+    'level1type',
+    'level1name',
+    'level2type',
+    'level2name',
+];
+
+// SQL Server stores comments as MS_Description extended properties
+const parseExtendedProperty = (state: ParserState, stream: TokenStream) => {
+    if (!isIdentifier(peekToken(stream))) {
+        return;
+    }
+
+    const procedure = readNameParts(state, stream);
+
+    if (
+        procedure[procedure.length - 1].toLowerCase() !==
+        'sp_addextendedproperty'
+    ) {
+        return;
+    }
+
+    const values: Record<string, string> = {};
+
+    splitTopLevel(stream.tokens.slice(stream.index), (token) =>
+        isSymbol(token, ',')
+    ).forEach((argument, i) => {
+        const named =
+            argument[0]?.value.startsWith('@') && isSymbol(argument[1], '=');
+        const parameter = named
+            ? argument[0].value.slice(1).toLowerCase()
+            : extendedPropertyParameters[i];
+        const value = named ? argument[2] : argument[0];
+
+        if (parameter && value) {
+            values[parameter] = value.value;
+        }
+    });
+
+    if (
+        values.name?.toLowerCase() !== 'ms_description' ||
+        values.level1type?.toLowerCase() !== 'table'
+    ) {
+        return;
+    }
+
+    const table = getTable(state, {
+        schema: values.level0name,
+        name: values.level1name,
+    });
+
+    if (values.level2type?.toLowerCase() === 'column') {
+        getColumn(table, values.level2name).comment = values.value;
+    } else {
+        table.info.comment = values.value;
+    }
+};
+
+const parseStatement = (state: ParserState, stream: TokenStream) => {
+    // SQL Server scripts guard statements with conditions, e.g. IF OBJECT_ID(...) IS NULL CREATE TABLE ...
+    if (isKeyword(peekToken(stream), 'if')) {
+        let depth = 0;
+        const start = stream.tokens.findIndex((token, i) => {
+            if (isSymbol(token, '(')) depth++;
+            if (isSymbol(token, ')')) depth--;
+
+            return (
+                i > 0 &&
+                depth === 0 &&
+                isKeyword(token, 'create', 'alter', 'exec', 'execute')
+            );
+        });
+
+        if (start === -1) {
+            return;
+        }
+
+        stream.index = start;
+    }
+
+    const token = nextToken(stream);
+    const keyword = keywordOf(token);
+
+    if (keyword === 'create') {
+        parseCreate(state, stream);
+    } else if (keyword === 'alter') {
+        if (acceptKeywords(stream, 'table')) {
+            parseAlterTable(state, stream);
+        }
+    } else if (keyword === 'comment') {
+        parseCommentOn(state, stream);
+    } else if (keyword === 'exec' || keyword === 'execute') {
+        parseExtendedProperty(state, stream);
+    } else if (!ignoredStatements.has(keyword)) {
+        throw new Error(`Unsupported statement "${token.value}"`);
+    }
+};
+
+// SQL Server routine bodies contain semicolons and only end at the next GO
+const isRoutineStatement = (tokens: SQLToken[]) => {
+    const stream = toStream(tokens);
+
+    if (!acceptKeywords(stream, 'create')) {
+        return false;
+    }
+
+    acceptKeywords(stream, 'or', 'alter');
+
+    return isKeyword(
+        peekToken(stream),
+        'proc',
+        'procedure',
+        'function',
+        'trigger'
+    );
+};
+
+const splitStatements = (
+    tokens: SQLToken[],
+    databaseType: DatabaseType
+): SQLToken[][] => {
+    const statements: SQLToken[][] = [[]];
+
+    tokens.forEach((token, i) => {
+        const current = statements[statements.length - 1];
+        const isBatchSeparator =
+            isKeyword(token, 'go') &&
+            (tokens[i - 1]?.line ?? 0) < token.line &&
+            (tokens[i + 1]?.line ?? Infinity) > token.line;
+        const isSeparator =
+            isSymbol(token, ';') &&
+            !(
+                databaseType === DatabaseType.SQL_SERVER &&
+                isRoutineStatement(current)
+            );
+
+        if (isBatchSeparator || isSeparator) {
+            statements.push([]);
+        } else {
+            current.push(token);
+        }
+    });
+
+    return statements.filter((statement) => statement.length > 0);
+};
+
+const buildForeignKeys = (state: ParserState): ForeignKeyInfo[] => {
+    const foreignKeys = new Map<
+        string,
+        {
+            fk: ParsedForeignKey;
+            target: ParsedTable;
+            referenceColumns: string[];
+        }
+    >();
+
+    state.foreignKeys.forEach((fk) => {
+        const target = findTable(state, fk.reference);
+
+        if (!target) {
+            state.errors.push({
+                line: fk.line,
+                message: `Foreign key references table "${fk.reference.name}", which is not created in this script`,
+            });
+            return;
+        }
+
+        const referenceColumns =
+            fk.referenceColumns.length > 0
+                ? fk.referenceColumns
+                : state.primaryKeys
+                      .filter(
+                          (pk) =>
+                              pk.schema === target.info.schema &&
+                              pk.table === target.info.table
+                      )
+                      .map((pk) => pk.column);
+
+        if (referenceColumns.length !== fk.columns.length) {
+            state.errors.push({
+                line: fk.line,
+                message: `Foreign key on "${fk.table.info.table}" does not match the referenced columns of "${target.info.table}"`,
+            });
+            return;
+        }
+
+        // An inline REFERENCES repeated by ALTER TABLE ... ADD CONSTRAINT is one key, the named one is kept
+        const key = JSON.stringify([
+            fk.table.info.schema,
+            fk.table.info.table,
+            fk.columns,
+            target.info.schema,
+            target.info.table,
+            referenceColumns,
+        ]);
+        const existing = foreignKeys.get(key);
+
+        if (!existing || (!existing.fk.name && fk.name)) {
+            foreignKeys.set(key, { fk, target, referenceColumns });
+        }
+    });
+
+    return [...foreignKeys.values()].flatMap(
+        ({ fk, target, referenceColumns }) => {
+            const name =
+                fk.name ??
+                `${fk.table.info.table}_${fk.columns.join('_')}_fkey`;
+            const fk_def = `FOREIGN KEY (${fk.columns.join(', ')}) REFERENCES ${target.info.table}(${referenceColumns.join(', ')})`;
+
+            return fk.columns.map(
+                (column, i): ForeignKeyInfo => ({
+                    schema: fk.table.info.schema,
+                    table: fk.table.info.table,
+                    column,
+                    foreign_key_name: name,
+                    reference_schema: target.info.schema,
+                    reference_table: target.info.table,
+                    reference_column: referenceColumns[i],
+                    fk_def,
+                })
+            );
+        }
+    );
+};
+
+export const parseSQLDDL = ({
+    sql,
+    databaseType,
+}: {
+    sql: string;
+    databaseType: DatabaseType;
+}): SQLImportResult => {
+    const preprocessed = preprocessSQL(sql);
+    const state: ParserState = {
+        databaseType,
+        sql: preprocessed,
+        tables: new Map(),
+        primaryKeys: [],
+        indexes: [],
+        foreignKeys: [],
+        errors: [],
+    };
+
+    splitStatements(tokenizeSQL(preprocessed), databaseType).forEach(
+        (tokens) => {
+            const stream = toStream(tokens);
+
+            try {
+                parseStatement(state, stream);
+            } catch (error) {
+                state.errors.push({
+                    line: streamLine(stream),
+                    message: (error as Error).message,
+                });
+            }
+        }
+    );
+
+    const fk_info = buildForeignKeys(state);
+    const tables = [...state.tables.values()];
+
+    // Primary key columns can never be null
+    state.primaryKeys.forEach((pk) => {
+        const column = findTable(state, {
+            schema: pk.schema,
+            name: pk.table,
+        })?.columns.find((column) => column.name === pk.column);
+
+        if (column) {
+            column.nullable = false;
+        }
+    });
+
+    return {
+        metadata: {
+            fk_info,
+            pk_info: state.primaryKeys,
+            columns: tables.flatMap((table) => table.columns),
+            indexes: state.indexes,
+            tables: tables.map((table) => table.info),
+            views: [],
+            database_name: '',
+            version: '',
+        },
+        errors: state.errors.sort((a, b) => a.line - b.line),
+    };
+};
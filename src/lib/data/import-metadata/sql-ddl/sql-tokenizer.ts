@@ -0,0 +1,129 @@
+export type SQLTokenType = 'word' | 'quoted' | 'string' | 'number' | 'symbol';
+
+export interface SQLToken {
+    type: SQLTokenType;
+    // Quoted identifiers and strings hold their unescaped value
+    value: string;
+    line: number;
+    start: number;
+    end: number;
+}
+
+const isWordStart = (char: string) => /[\p{L}_@#$]/u.test(char);
+const isWordPart = (char: string) => /[\p{L}\p{N}_@#$]/u.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+const closingQuotes: Record<string, string> = {
+    '"': '"',
+    '`': '`',
+    '[': ']',
+};
+
+export const tokenizeSQL = (sql: string): SQLToken[] => {
+    const tokens: SQLToken[] = [];
+    let line = 1;
+    let position = 0;
+
+    const advanceTo = (end: number) => {
+        for (let i = position; i < end; i++) {
+            if (sql[i] === '\n') line++;
+        }
+        position = end;
+    };
+
+    const push = (type: SQLTokenType, value: string, end: number) => {
+        tokens.push({ type, value, line, start: position, end });
+        advanceTo(end);
+    };
+
+    // Reads a literal closed by `quote`, where a doubled quote escapes itself
+    const readQuoted = (from: number, quote: string) => {
+        let value = '';
+        let i = from;
+
+        while (i < sql.length) {
+            if (sql[i] === quote) {
+                if (sql[i + 1] === quote) {
+                    value += quote;
+                    i += 2;
+                    continue;
+                }
+                return { value, end: i + 1 };
+            }
+            // MySQL style backslash escapes
+            if (
+                sql[i] === '\\' &&
+                quote === "'" &&
+                (sql[i + 1] === "'" || sql[i + 1] === '\\')
+            ) {
+                value += sql[i + 1];
+                i += 2;
+                continue;
+            }
+            value += sql[i];
+            i++;
+        }
+
+        return { value, end: sql.length };
+    };
+
+    while (position < sql.length) {
+        const char = sql[position];
+        const next = sql[position + 1];
+
+        if (/\s/.test(char)) {
+            advanceTo(position + 1);
+        } else if (char === '-' && next === '-') {
+            const end = sql.indexOf('\n', position);
+            advanceTo(end === -1 ? sql.length : end);
+        } else if (char === '#' && !isWordPart(next ?? '')) {
+            const end = sql.indexOf('\n', position);
+            advanceTo(end === -1 ? sql.length : end);
+        } else if (char === '/' && next === '*') {
+            const end = sql.indexOf('*/', position + 2);
+            advanceTo(end === -1 ? sql.length : end + 2);
+        } else if (char === "'") {
+            const { value, end } = readQuoted(position + 1, "'");
+            push('string', value, end);
+        } else if (/[eEnN]/.test(char) && next === "'") {
+            const { value, end } = readQuoted(position + 2, "'");
+            push('string', value, end);
+        } else if (
+            char in closingQuotes &&
+            // PostgreSQL array types, e.g. text[], are not bracket quoted names
+            !(char === '[' && /[\p{L}\p{N}_)\]]/u.test(sql[position - 1] ?? ''))
+        ) {
+            const { value, end } = readQuoted(
+                position + 1,
+                closingQuotes[char]
+            );
+            push('quoted', value, end);
+        } else if (char === '$' && /[$A-Za-z_]/.test(next ?? '')) {
+            // PostgreSQL dollar quoted string, e.g. $$ ... $$ or $body$ ... $body$
+            const tagEnd = sql.indexOf('$', position + 1);
+            const tag = sql.slice(position, tagEnd + 1);
+
+            if (tagEnd !== -1 && /^\$\w*\$$/.test(tag)) {
+                const close = sql.indexOf(tag, tagEnd + 1);
+                const end = close === -1 ? sql.length : close + tag.length;
+                push('string', sql.slice(tagEnd + 1, close), end);
+            } else {
+                push('symbol', char, position + 1);
+            }
+        } else if (isDigit(char) || (char === '.' && isDigit(next ?? ''))) {
+            let end = position + 1;
+            while (end < sql.length && /[\d.eE]/.test(sql[end])) end++;
+            push('number', sql.slice(position, end), end);
+        } else if (isWordStart(char)) {
+            let end = position + 1;
+            while (end < sql.length && isWordPart(sql[end])) end++;
+            push('word', sql.slice(position, end), end);
+        } else if (char === ':' && next === ':') {
+            push('symbol', '::', position + 2);
+        } else {
+            push('symbol', char, position + 1);
+        }
+    }
+
+    return tokens;
+};
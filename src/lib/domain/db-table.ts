@@ -27,6 +27,8 @@ export interface DBTable {
     width?: number;
     comments?: string;
     hidden?: boolean;
+    // Estimated number of rows, when imported from the metadata query
+    rowCount?: number;
 }
 
 export const shouldShowTablesBySchemaFilter = (
@@ -126,7 +128,7 @@ export const createTablesFromMetadata = ({
                 nullable: col.nullable,
                 ...(col.character_maximum_length &&
                 col.character_maximum_length !== 'null'
-                    ? { character_maximum_length: col.character_maximum_length }
+                    ? { characterMaximumLength: col.character_maximum_length }
                     : {}),
                 ...(col.precision?.precision
                     ? { precision: col.precision.precision }
@@ -172,6 +174,7 @@ export const createTablesFromMetadata = ({
             isView: isView,
             createdAt: Date.now(),
             comments: tableInfo.comment ? tableInfo.comment : undefined,
+            ...(tableInfo.rows >= 0 ? { rowCount: tableInfo.rows } : {}),
         };
     });
 };
@@ -0,0 +1,109 @@
+import { DBRelationship } from './db-relationship';
+import { DBTable } from './db-table';
+import { Diagram } from './diagram';
+import { DiagramDiff, diffDiagrams, matchDiagramIds } from './diagram-diff';
+
+export type ChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface DiagramComparison {
+    baseDiagram: Diagram;
+    diagram: Diagram;
+    diff: DiagramDiff;
+    tables: Record<string, ChangeStatus>;
+    fields: Record<string, ChangeStatus>;
+    relationships: Record<string, ChangeStatus>;
+}
+
+// Merges the objects removed from the old diagram into the new one and marks the status of every change
+export const compareDiagrams = ({
+    oldDiagram,
+    newDiagram,
+}: {
+    oldDiagram: Diagram;
+    newDiagram: Diagram;
+}): DiagramComparison => {
+    const diff = diffDiagrams({ oldDiagram, newDiagram });
+    const idMap = matchDiagramIds({ oldDiagram, newDiagram });
+    const tableStatuses: Record<string, ChangeStatus> = {};
+    const fieldStatuses: Record<string, ChangeStatus> = {};
+    const relationshipStatuses: Record<string, ChangeStatus> = {};
+    const tables: DBTable[] = [...(newDiagram.tables ?? [])];
+
+    diff.tables.forEach((tableDiff) => {
+        if (tableDiff.type === 'added') {
+            tableStatuses[tableDiff.table.id] = 'added';
+            tableDiff.table.fields.forEach(
+                (field) => (fieldStatuses[field.id] = 'added')
+            );
+        } else if (tableDiff.type === 'removed') {
+            tableStatuses[tableDiff.table.id] = 'removed';
+            tableDiff.table.fields.forEach(
+                (field) => (fieldStatuses[field.id] = 'removed')
+            );
+            tables.push(tableDiff.table);
+        } else {
+            const { oldTable, newTable } = tableDiff;
+            const fields = [...newTable.fields];
+
+            tableStatuses[newTable.id] = 'changed';
+            tableDiff.fields.forEach((fieldDiff) => {
+                if (fieldDiff.type === 'changed') {
+                    fieldStatuses[fieldDiff.newField.id] = 'changed';
+                } else {
+                    fieldStatuses[fieldDiff.field.id] = fieldDiff.type;
+                }
+
+                // Removed fields are kept in their original position
+                if (fieldDiff.type === 'removed') {
+                    fields.splice(
+                        Math.min(
+                            oldTable.fields.indexOf(fieldDiff.field),
+                            fields.length
+                        ),
+                        0,
+                        fieldDiff.field
+                    );
+                }
+            });
+
+            tables.splice(tables.indexOf(newTable), 1, {
+                ...newTable,
+                fields,
+            });
+        }
+    });
+
+    const relationships: DBRelationship[] = [
+        ...(newDiagram.relationships ?? []),
+    ];
+
+    diff.relationships.forEach((relationshipDiff) => {
+        if (relationshipDiff.type === 'changed') {
+            relationshipStatuses[relationshipDiff.newRelationship.id] =
+                'changed';
+        } else if (relationshipDiff.type === 'added') {
+            relationshipStatuses[relationshipDiff.relationship.id] = 'added';
+        } else {
+            const { relationship } = relationshipDiff;
+            const mapId = (id: string) => idMap.get(id) ?? id;
+
+            relationshipStatuses[relationship.id] = 'removed';
+            relationships.push({
+                ...relationship,
+                sourceTableId: mapId(relationship.sourceTableId),
+                targetTableId: mapId(relationship.targetTableId),
+                sourceFieldId: mapId(relationship.sourceFieldId),
+                targetFieldId: mapId(relationship.targetFieldId),
+            });
+        }
+    });
+
+    return {
+        baseDiagram: oldDiagram,
+        diagram: { ...newDiagram, tables, relationships },
+        diff,
+        tables: tableStatuses,
+        fields: fieldStatuses,
+        relationships: relationshipStatuses,
+    };
+};
@@ -0,0 +1,328 @@
+import { DBField } from './db-field';
+import { DBIndex } from './db-index';
+import { DBRelationship } from './db-relationship';
+import { DBTable } from './db-table';
+import { Diagram } from './diagram';
+
+export type FieldChangeAttribute =
+    | 'name'
+    | 'type'
+    | 'characterMaximumLength'
+    | 'precision'
+    | 'scale'
+    | 'nullable'
+    | 'primaryKey'
+    | 'unique'
+    | 'default'
+    | 'collation'
+    | 'comments';
+
+export type FieldDiff =
+    | { type: 'added'; field: DBField }
+    | { type: 'removed'; field: DBField }
+    | {
+          type: 'changed';
+          oldField: DBField;
+          newField: DBField;
+          changes: FieldChangeAttribute[];
+      };
+
+export type IndexDiff =
+    | { type: 'added'; index: DBIndex }
+    | { type: 'removed'; index: DBIndex }
+    | { type: 'changed'; oldIndex: DBIndex; newIndex: DBIndex };
+
+export type TableDiff =
+    | { type: 'added'; table: DBTable }
+    | { type: 'removed'; table: DBTable }
+    | {
+          type: 'changed';
+          oldTable: DBTable;
+          newTable: DBTable;
+          renamed: boolean;
+          schemaChanged: boolean;
+          commentsChanged: boolean;
+          fields: FieldDiff[];
+          indexes: IndexDiff[];
+      };
+
+export type RelationshipDiff =
+    | { type: 'added'; relationship: DBRelationship }
+    | { type: 'removed'; relationship: DBRelationship }
+    | {
+          type: 'changed';
+          oldRelationship: DBRelationship;
+          newRelationship: DBRelationship;
+      };
+
+export interface DiagramDiff {
+    tables: TableDiff[];
+    relationships: RelationshipDiff[];
+}
+
+const fieldChangeAttributes: FieldChangeAttribute[] = [
+    'name',
+    'type',
+    'characterMaximumLength',
+    'precision',
+    'scale',
+    'nullable',
+    'primaryKey',
+    'unique',
+    'default',
+    'collation',
+    'comments',
+];
+
+// Items are matched by id first, and the leftovers by their key (usually the name)
+const matchItems = <T extends { id: string }>(
+    oldItems: T[],
+    newItems: T[],
+    key: (item: T) => string
+): { matched: [T, T][]; added: T[]; removed: T[] } => {
+    const matched: [T, T][] = [];
+    const unmatchedNew = new Map(newItems.map((item) => [item.id, item]));
+    const unmatchedOld: T[] = [];
+
+    oldItems.forEach((oldItem) => {
+        const newItem = unmatchedNew.get(oldItem.id);
+
+        if (newItem) {
+            matched.push([oldItem, newItem]);
+            unmatchedNew.delete(oldItem.id);
+        } else {
+            unmatchedOld.push(oldItem);
+        }
+    });
+
+    const removed: T[] = [];
+
+    unmatchedOld.forEach((oldItem) => {
+        const newItem = [...unmatchedNew.values()].find(
+            (item) => key(item) === key(oldItem)
+        );
+
+        if (newItem) {
+            matched.push([oldItem, newItem]);
+            unmatchedNew.delete(newItem.id);
+        } else {
+            removed.push(oldItem);
+        }
+    });
+
+    return { matched, added: [...unmatchedNew.values()], removed };
+};
+
+const matchTables = (oldTables: DBTable[], newTables: DBTable[]) =>
+    matchItems(
+        oldTables,
+        newTables,
+        (table) => `${table.schema ?? ''}.${table.name}`
+    );
+
+const normalizeValue = (value: unknown) =>
+    value === undefined || value === null || value === '' ? undefined : value;
+
+export const diffFields = (oldField: DBField, newField: DBField) =>
+    fieldChangeAttributes.filter((attribute) =>
+        attribute === 'type'
+            ? oldField.type.name.toLowerCase() !==
+              newField.type.name.toLowerCase()
+            : normalizeValue(oldField[attribute]) !==
+              normalizeValue(newField[attribute])
+    );
+
+const diffTables = (oldTable: DBTable, newTable: DBTable): TableDiff | null => {
+    const fieldMatch = matchItems(
+        oldTable.fields,
+        newTable.fields,
+        (field) => field.name
+    );
+
+    const fields: FieldDiff[] = [
+        ...fieldMatch.removed.map(
+            (field): FieldDiff => ({ type: 'removed', field })
+        ),
+        ...fieldMatch.matched
+            .map(
+                ([oldField, newField]): FieldDiff => ({
+                    type: 'changed',
+                    oldField,
+                    newField,
+                    changes: diffFields(oldField, newField),
+                })
+            )
+            .filter((diff) => diff.type === 'changed' && diff.changes.length),
+        ...fieldMatch.added.map(
+            (field): FieldDiff => ({ type: 'added', field })
+        ),
+    ];
+
+    const fieldIdMap = new Map(
+        fieldMatch.matched.map(([oldField, newField]) => [
+            oldField.id,
+            newField.id,
+        ])
+    );
+    const indexMatch = matchItems(
+        oldTable.indexes,
+        newTable.indexes,
+        (index) => index.name
+    );
+
+    const indexes: IndexDiff[] = [
+        ...indexMatch.removed.map(
+            (index): IndexDiff => ({ type: 'removed', index })
+        ),
+        ...indexMatch.matched
+            .filter(
+                ([oldIndex, newIndex]) =>
+                    oldIndex.name !== newIndex.name ||
+                    oldIndex.unique !== newIndex.unique ||
+                    oldIndex.fieldIds
+                        .map((fieldId) => fieldIdMap.get(fieldId))
+                        .join(',') !== newIndex.fieldIds.join(',')
+            )
+            .map(
+                ([oldIndex, newIndex]): IndexDiff => ({
+                    type: 'changed',
+                    oldIndex,
+                    newIndex,
+                })
+            ),
+        ...indexMatch.added.map(
+            (index): IndexDiff => ({ type: 'added', index })
+        ),
+    ];
+
+    const renamed = oldTable.name !== newTable.name;
+    const schemaChanged =
+        normalizeValue(oldTable.schema) !== normalizeValue(newTable.schema);
+    const commentsChanged =
+        normalizeValue(oldTable.comments) !== normalizeValue(newTable.comments);
+
+    if (
+        !renamed &&
+        !schemaChanged &&
+        !commentsChanged &&
+        fields.length === 0 &&
+        indexes.length === 0
+    ) {
+        return null;
+    }
+
+    return {
+        type: 'changed',
+        oldTable,
+        newTable,
+        renamed,
+        schemaChanged,
+        commentsChanged,
+        fields,
+        indexes,
+    };
+};
+
+// Maps the ids of matched old tables and fields onto the ids of their new counterparts
+const buildIdMap = (matchedTables: [DBTable, DBTable][]) => {
+    const idMap = new Map<string, string>();
+
+    matchedTables.forEach(([oldTable, newTable]) => {
+        idMap.set(oldTable.id, newTable.id);
+        matchItems(
+            oldTable.fields,
+            newTable.fields,
+            (field) => field.name
+        ).matched.forEach(([oldField, newField]) =>
+            idMap.set(oldField.id, newField.id)
+        );
+    });
+
+    return idMap;
+};
+
+export const matchDiagramIds = ({
+    oldDiagram,
+    newDiagram,
+}: {
+    oldDiagram: Diagram;
+    newDiagram: Diagram;
+}): Map<string, string> =>
+    buildIdMap(
+        matchTables(oldDiagram.tables ?? [], newDiagram.tables ?? []).matched
+    );
+
+export const diffDiagrams = ({
+    oldDiagram,
+    newDiagram,
+}: {
+    oldDiagram: Diagram;
+    newDiagram: Diagram;
+}): DiagramDiff => {
+    const oldTables = oldDiagram.tables ?? [];
+    const newTables = newDiagram.tables ?? [];
+    const tableMatch = matchTables(oldTables, newTables);
+
+    const tables: TableDiff[] = [
+        ...tableMatch.removed.map(
+            (table): TableDiff => ({ type: 'removed', table })
+        ),
+        ...tableMatch.matched
+            .map(([oldTable, newTable]) => diffTables(oldTable, newTable))
+            .filter((diff): diff is TableDiff => diff !== null),
+        ...tableMatch.added.map(
+            (table): TableDiff => ({ type: 'added', table })
+        ),
+    ];
+
+    const idMap = buildIdMap(tableMatch.matched);
+    const relationshipMatch = matchItems(
+        oldDiagram.relationships ?? [],
+        newDiagram.relationships ?? [],
+        (relationship) => relationship.name
+    );
+
+    const relationships: RelationshipDiff[] = [
+        ...relationshipMatch.removed.map(
+            (relationship): RelationshipDiff => ({
+                type: 'removed',
+                relationship,
+            })
+        ),
+        ...relationshipMatch.matched
+            .filter(
+                ([oldRelationship, newRelationship]) =>
+                    oldRelationship.name !== newRelationship.name ||
+                    idMap.get(oldRelationship.sourceTableId) !==
+                        newRelationship.sourceTableId ||
+                    idMap.get(oldRelationship.targetTableId) !==
+                        newRelationship.targetTableId ||
+                    idMap.get(oldRelationship.sourceFieldId) !==
+                        newRelationship.sourceFieldId ||
+                    idMap.get(oldRelationship.targetFieldId) !==
+                        newRelationship.targetFieldId ||
+                    oldRelationship.sourceCardinality !==
+                        newRelationship.sourceCardinality ||
+                    oldRelationship.targetCardinality !==
+                        newRelationship.targetCardinality
+            )
+            .map(
+                ([oldRelationship, newRelationship]): RelationshipDiff => ({
+                    type: 'changed',
+                    oldRelationship,
+                    newRelationship,
+                })
+            ),
+        ...relationshipMatch.added.map(
+            (relationship): RelationshipDiff => ({
+                type: 'added',
+                relationship,
+            })
+        ),
+    ];
+
+    return { tables, relationships };
+};
+
+export const isDiagramDiffEmpty = (diff: DiagramDiff): boolean =>
+    diff.tables.length === 0 && diff.relationships.length === 0;
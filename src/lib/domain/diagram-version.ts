@@ -0,0 +1,9 @@
+import { Diagram } from './diagram';
+
+export interface DiagramVersion {
+    id: string;
+    diagramId: string;
+    name: string;
+    diagram: Diagram;
+    createdAt: Date;
+}
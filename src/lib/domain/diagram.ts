@@ -10,7 +10,7 @@ import {
     adjustTablePositions,
     createTablesFromMetadata,
 } from './db-table';
-import { generateDiagramId } from '@/lib/utils';
+import { deepCopy, generateDiagramId, generateId } from '@/lib/utils';
 export interface Diagram {
     id: string;
     name: string;
@@ -84,3 +84,54 @@ export const loadFromDatabaseMetadata = ({
         updatedAt: new Date(),
     };
 };
+
+// Copies the diagram with new ids for the diagram and all of its objects, keeping the references between them intact.
+// Pass the same idMap to clone several diagrams that share objects, like a diagram and its versions
+export const cloneDiagram = (
+    diagram: Diagram,
+    attributes?: Partial<Pick<Diagram, 'name'>>,
+    idMap = new Map<string, string>()
+): Diagram => {
+    const newId = (id: string) => {
+        const mappedId = idMap.get(id) ?? generateId();
+        idMap.set(id, mappedId);
+        return mappedId;
+    };
+
+    const tables: DBTable[] = deepCopy(diagram.tables ?? []).map((table) => ({
+        ...table,
+        id: newId(table.id),
+        fields: table.fields.map((field) => ({
+            ...field,
+            id: newId(field.id),
+        })),
+        indexes: table.indexes.map((index) => ({
+            ...index,
+            id: newId(index.id),
+            fieldIds: index.fieldIds.map((fieldId) => newId(fieldId)),
+        })),
+    }));
+
+    const relationships: DBRelationship[] = deepCopy(
+        diagram.relationships ?? []
+    ).map((relationship) => ({
+        ...relationship,
+        id: newId(relationship.id),
+        sourceTableId: newId(relationship.sourceTableId),
+        targetTableId: newId(relationship.targetTableId),
+        sourceFieldId: newId(relationship.sourceFieldId),
+        targetFieldId: newId(relationship.targetFieldId),
+    }));
+
+    const now = new Date();
+
+    return {
+        ...diagram,
+        ...attributes,
+        id: generateDiagramId(),
+        tables,
+        relationships,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
@@ -37,6 +37,29 @@ export const getOperatingSystem = (): 'mac' | 'windows' | 'unknown' => {
     return 'unknown';
 };
 
+export const downloadFile = ({
+    content,
+    fileName,
+    mimeType = 'text/plain',
+}: {
+    content: string | Blob;
+    fileName: string;
+    mimeType?: string;
+}) => {
+    const blob =
+        content instanceof Blob
+            ? content
+            : new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+
+    a.setAttribute('download', fileName);
+    a.setAttribute('href', url);
+    a.click();
+
+    URL.revokeObjectURL(url);
+};
+
 export const deepCopy = <T>(obj: T): T => JSON.parse(JSON.stringify(obj));
 
 export const debounce = <T extends (...args: Parameters<T>) => ReturnType<T>>(
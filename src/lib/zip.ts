@@ -0,0 +1,103 @@
+export interface ZipFile {
+    path: string;
+    content: string;
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in zip headers
+const dosDateTime = (date: Date) => ({
+    time:
+        (date.getHours() << 11) |
+        (date.getMinutes() << 5) |
+        Math.floor(date.getSeconds() / 2),
+    date:
+        ((date.getFullYear() - 1980) << 9) |
+        ((date.getMonth() + 1) << 5) |
+        date.getDate(),
+});
+
+// Builds an uncompressed zip archive, which every unzip tool can read
+export const createZip = (files: ZipFile[], date = new Date()): Blob => {
+    const encoder = new TextEncoder();
+    const { time, date: day } = dosDateTime(date);
+    const parts: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach((file) => {
+        const name = encoder.encode(file.path);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const header = new Uint8Array(30 + name.length);
+        const view = new DataView(header.buffer);
+        view.setUint32(0, 0x04034b50, true);
+        view.setUint16(4, 20, true);
+        // Bit 11 marks the file name as UTF-8
+        view.setUint16(6, 0x0800, true);
+        view.setUint16(8, 0, true);
+        view.setUint16(10, time, true);
+        view.setUint16(12, day, true);
+        view.setUint32(14, crc, true);
+        view.setUint32(18, data.length, true);
+        view.setUint32(22, data.length, true);
+        view.setUint16(26, name.length, true);
+        view.setUint16(28, 0, true);
+        header.set(name, 30);
+
+        const entry = new Uint8Array(46 + name.length);
+        const entryView = new DataView(entry.buffer);
+        entryView.setUint32(0, 0x02014b50, true);
+        entryView.setUint16(4, 20, true);
+        entryView.setUint16(6, 20, true);
+        entryView.setUint16(8, 0x0800, true);
+        entryView.setUint16(10, 0, true);
+        entryView.setUint16(12, time, true);
+        entryView.setUint16(14, day, true);
+        entryView.setUint32(16, crc, true);
+        entryView.setUint32(20, data.length, true);
+        entryView.setUint32(24, data.length, true);
+        entryView.setUint16(28, name.length, true);
+        entryView.setUint32(42, offset, true);
+        entry.set(name, 46);
+
+        parts.push(header, data);
+        centralDirectory.push(entry);
+        offset += header.length + data.length;
+    });
+
+    const directorySize = centralDirectory.reduce(
+        (size, entry) => size + entry.length,
+        0
+    );
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, files.length, true);
+    endView.setUint16(10, files.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end], {
+        type: 'application/zip',
+    });
+};
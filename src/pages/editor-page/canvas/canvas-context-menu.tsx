@@ -14,7 +14,7 @@ import { useTranslation } from 'react-i18next';
 export const CanvasContextMenu: React.FC<React.PropsWithChildren> = ({
     children,
 }) => {
-    const { createTable } = useChartDB();
+    const { createTable, readonly } = useChartDB();
     const { openCreateRelationshipDialog } = useDialog();
     const { screenToFlowPosition } = useReactFlow();
     const { t } = useTranslation();
@@ -40,7 +40,7 @@ export const CanvasContextMenu: React.FC<React.PropsWithChildren> = ({
         openCreateRelationshipDialog();
     }, [openCreateRelationshipDialog]);
 
-    if (!isDesktop) {
+    if (!isDesktop || readonly) {
         return <>{children}</>;
     }
 
@@ -1,4 +1,5 @@
 import { Cardinality } from '@/lib/domain/db-relationship';
+import { ChangeStatus } from '@/lib/domain/diagram-comparison';
 
 export const getCardinalityMarkerId = ({
     cardinality,
@@ -10,3 +11,21 @@ export const getCardinalityMarkerId = ({
     side: 'left' | 'right';
 }) =>
     `cardinality_${selected ? 'selected' : 'not_selected'}_${cardinality}_${side}`;
+
+export const changeStatusTableClassName: Record<ChangeStatus, string> = {
+    added: 'border-green-500',
+    removed: 'border-red-500',
+    changed: 'border-amber-500',
+};
+
+export const changeStatusFieldClassName: Record<ChangeStatus, string> = {
+    added: 'bg-green-100 dark:bg-green-950',
+    removed: 'bg-red-100 line-through dark:bg-red-950',
+    changed: 'bg-amber-100 dark:bg-amber-950',
+};
+
+export const changeStatusEdgeClassName: Record<ChangeStatus, string> = {
+    added: '!stroke-green-500',
+    removed: '!stroke-red-500',
+    changed: '!stroke-amber-500',
+};
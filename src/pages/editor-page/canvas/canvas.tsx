@@ -30,7 +30,7 @@ import {
 } from './table-node/table-node-field';
 import { Toolbar } from './toolbar/toolbar';
 import { useToast } from '@/components/toast/use-toast';
-import { Pencil, LayoutGrid } from 'lucide-react';
+import { Pencil, LayoutGrid, X } from 'lucide-react';
 import { Button } from '@/components/button/button';
 import { useLayout } from '@/hooks/use-layout';
 import { useBreakpoint } from '@/hooks/use-breakpoint';
@@ -90,6 +90,11 @@ export const Canvas: React.FC<CanvasProps> = ({ initialTables }) => {
         updateTablesState,
         removeRelationships,
         getField,
+        readonly,
+        previewedVersion,
+        previewVersion,
+        comparison,
+        compareDiagram,
     } = useChartDB();
     const { showSidePanel } = useLayout();
     const { effectiveTheme } = useTheme();
@@ -262,13 +267,13 @@ export const Canvas: React.FC<CanvasProps> = ({ initialTables }) => {
                 )
                 .filter((id) => !!id) as string[];
 
-            if (relationshipsToRemove.length > 0) {
+            if (relationshipsToRemove.length > 0 && !readonly) {
                 removeRelationships(relationshipsToRemove);
             }
 
             return onEdgesChange(changes);
         },
-        [getEdge, onEdgesChange, removeRelationships]
+        [getEdge, onEdgesChange, removeRelationships, readonly]
     );
 
     const onNodesChangeHandler: OnNodesChange<TableNodeType> = useCallback(
@@ -285,9 +290,10 @@ export const Canvas: React.FC<CanvasProps> = ({ initialTables }) => {
             ) as NodeDimensionChange[];
 
             if (
-                positionChanges.length > 0 ||
-                removeChanges.length > 0 ||
-                sizeChanges.length > 0
+                !readonly &&
+                (positionChanges.length > 0 ||
+                    removeChanges.length > 0 ||
+                    sizeChanges.length > 0)
             ) {
                 updateTablesState((currentTables) =>
                     currentTables
@@ -330,7 +336,7 @@ export const Canvas: React.FC<CanvasProps> = ({ initialTables }) => {
 
             return onNodesChange(changes);
         },
-        [onNodesChange, updateTablesState]
+        [onNodesChange, updateTablesState, readonly]
     );
 
     const isLoadingDOM =
@@ -379,6 +385,9 @@ export const Canvas: React.FC<CanvasProps> = ({ initialTables }) => {
                     maxZoom={5}
                     minZoom={0.1}
                     onConnect={onConnectHandler}
+                    nodesDraggable={!readonly}
+                    nodesConnectable={!readonly}
+                    deleteKeyCode={readonly ? null : 'Backspace'}
                     proOptions={{
                         hideAttribution: true,
                     }}
@@ -391,30 +400,65 @@ export const Canvas: React.FC<CanvasProps> = ({ initialTables }) => {
                     }}
                     panOnScroll={scrollAction === 'pan'}
                 >
-                    <Controls
-                        position="top-left"
-                        showZoom={false}
-                        showFitView={false}
-                        showInteractive={false}
-                        className="!shadow-none"
-                    >
-                        <Tooltip>
-                            <TooltipTrigger asChild>
-                                <span>
-                                    <Button
-                                        variant="secondary"
-                                        className="size-8 p-1 shadow-none"
-                                        onClick={showReorderConfirmation}
-                                    >
-                                        <LayoutGrid className="size-4" />
-                                    </Button>
-                                </span>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                                {t('toolbar.reorder_diagram')}
-                            </TooltipContent>
-                        </Tooltip>
-                    </Controls>
+                    {!readonly ? (
+                        <Controls
+                            position="top-left"
+                            showZoom={false}
+                            showFitView={false}
+                            showInteractive={false}
+                            className="!shadow-none"
+                        >
+                            <Tooltip>
+                                <TooltipTrigger asChild>
+                                    <span>
+                                        <Button
+                                            variant="secondary"
+                                            className="size-8 p-1 shadow-none"
+                                            onClick={showReorderConfirmation}
+                                        >
+                                            <LayoutGrid className="size-4" />
+                                        </Button>
+                                    </span>
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                    {t('toolbar.reorder_diagram')}
+                                </TooltipContent>
+                            </Tooltip>
+                        </Controls>
+                    ) : null}
+                    {previewedVersion || comparison ? (
+                        <Controls
+                            position="top-center"
+                            orientation="horizontal"
+                            showZoom={false}
+                            showFitView={false}
+                            showInteractive={false}
+                            className="!shadow-none"
+                        >
+                            <Badge
+                                variant="default"
+                                className="gap-1 bg-pink-600 text-white"
+                            >
+                                {previewedVersion
+                                    ? t('previewing_version', {
+                                          name: previewedVersion.name,
+                                      })
+                                    : t('comparing_with', {
+                                          name: comparison?.baseDiagram.name,
+                                      })}
+                                <button
+                                    className="rounded-full hover:bg-pink-500"
+                                    onClick={() =>
+                                        previewedVersion
+                                            ? previewVersion()
+                                            : compareDiagram()
+                                    }
+                                >
+                                    <X className="size-3.5" />
+                                </button>
+                            </Badge>
+                        </Controls>
+                    ) : null}
                     {isLoadingDOM ? (
                         <Controls
                             position="top-center"
@@ -11,7 +11,10 @@ import { RIGHT_HANDLE_ID_PREFIX } from './table-node/table-node-field';
 import { useChartDB } from '@/hooks/use-chartdb';
 import { useLayout } from '@/hooks/use-layout';
 import { cn } from '@/lib/utils';
-import { getCardinalityMarkerId } from './canvas-utils';
+import {
+    changeStatusEdgeClassName,
+    getCardinalityMarkerId,
+} from './canvas-utils';
 
 export type TableEdgeType = Edge<
     {
@@ -35,14 +38,19 @@ export const TableEdge: React.FC<EdgeProps<TableEdgeType>> = ({
     const { getInternalNode, getEdge } = useReactFlow();
     const { openRelationshipFromSidebar, selectSidebarSection } = useLayout();
 
-    const { relationships } = useChartDB();
+    const { relationships, readonly, comparison } = useChartDB();
 
     const relationship = data?.relationship;
+    const changeStatus = comparison?.relationships[id];
 
     const openRelationshipInEditor = useCallback(() => {
+        if (readonly) {
+            return;
+        }
+
         selectSidebarSection('relationships');
         openRelationshipFromSidebar(id);
-    }, [id, openRelationshipFromSidebar, selectSidebarSection]);
+    }, [id, openRelationshipFromSidebar, selectSidebarSection, readonly]);
 
     const edgeNumber = useMemo(
         () =>
@@ -162,7 +170,7 @@ export const TableEdge: React.FC<EdgeProps<TableEdgeType>> = ({
                 fill="none"
                 className={cn([
                     'react-flow__edge-path',
-                    `!stroke-2 ${selected ? '!stroke-pink-600' : '!stroke-slate-300'}`,
+                    `!stroke-2 ${selected ? '!stroke-pink-600' : changeStatus ? changeStatusEdgeClassName[changeStatus] : '!stroke-slate-300'}`,
                 ])}
                 onClick={(e) => {
                     if (e.detail === 2) {
@@ -10,6 +10,7 @@ import { KeyRound, Trash2 } from 'lucide-react';
 
 import { DBField } from '@/lib/domain/db-field';
 import { useChartDB } from '@/hooks/use-chartdb';
+import { changeStatusFieldClassName } from '../canvas-utils';
 
 export const LEFT_HANDLE_ID_PREFIX = 'left_';
 export const RIGHT_HANDLE_ID_PREFIX = 'right_';
@@ -26,7 +27,8 @@ export interface TableNodeFieldProps {
 
 export const TableNodeField: React.FC<TableNodeFieldProps> = React.memo(
     ({ field, focused, tableNodeId, highlighted, visible, isConnectable }) => {
-        const { removeField, relationships } = useChartDB();
+        const { removeField, relationships, readonly, comparison } =
+            useChartDB();
         const updateNodeInternals = useUpdateNodeInternals();
         const connection = useConnection();
         const isTarget = useMemo(
@@ -44,6 +46,8 @@ export const TableNodeField: React.FC<TableNodeFieldProps> = React.memo(
             [relationships, tableNodeId, field.id]
         );
 
+        const changeStatus = comparison?.fields[field.id];
+
         const previousNumberOfEdgesToFieldRef = useRef(numberOfEdgesToField);
 
         useEffect(() => {
@@ -58,7 +62,11 @@ export const TableNodeField: React.FC<TableNodeFieldProps> = React.memo(
         return (
             <div
                 className={`group relative flex h-8 items-center justify-between gap-1 border-t px-3 text-sm last:rounded-b-[6px] hover:bg-slate-100 dark:hover:bg-slate-800 ${
-                    highlighted ? 'bg-pink-100 dark:bg-pink-900' : ''
+                    highlighted
+                        ? 'bg-pink-100 dark:bg-pink-900'
+                        : changeStatus
+                          ? changeStatusFieldClassName[changeStatus]
+                          : ''
                 } transition-all duration-200 ease-in-out ${
                     visible
                         ? 'max-h-8 opacity-100'
@@ -110,26 +118,32 @@ export const TableNodeField: React.FC<TableNodeFieldProps> = React.memo(
                 <div className="block truncate text-left">{field.name}</div>
                 <div className="flex max-w-[35%] justify-end gap-2 truncate hover:shrink-0">
                     {field.primaryKey ? (
-                        <div className="text-muted-foreground group-hover:hidden">
+                        <div
+                            className={`text-muted-foreground ${readonly ? '' : 'group-hover:hidden'}`}
+                        >
                             <KeyRound size={14} />
                         </div>
                     ) : null}
 
-                    <div className="content-center truncate text-right text-xs text-muted-foreground group-hover:hidden">
+                    <div
+                        className={`content-center truncate text-right text-xs text-muted-foreground ${readonly ? '' : 'group-hover:hidden'}`}
+                    >
                         {field.type.name}
                     </div>
-                    <div className="hidden flex-row group-hover:flex">
-                        <Button
-                            variant="ghost"
-                            className="size-6 p-0 hover:bg-primary-foreground"
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                removeField(tableNodeId, field.id);
-                            }}
-                        >
-                            <Trash2 className="size-3.5 text-red-700" />
-                        </Button>
-                    </div>
+                    {!readonly ? (
+                        <div className="hidden flex-row group-hover:flex">
+                            <Button
+                                variant="ghost"
+                                className="size-6 p-0 hover:bg-primary-foreground"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    removeField(tableNodeId, field.id);
+                                }}
+                            >
+                                <Trash2 className="size-3.5 text-red-700" />
+                            </Button>
+                        </div>
+                    ) : null}
                 </div>
             </div>
         );
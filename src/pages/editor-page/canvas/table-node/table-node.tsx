@@ -18,6 +18,7 @@ import { TableEdgeType } from '../table-edge';
 import { DBField } from '@/lib/domain/db-field';
 import { useTranslation } from 'react-i18next';
 import { TableNodeContextMenu } from './table-node-context-menu';
+import { changeStatusTableClassName } from '../canvas-utils';
 
 export type TableNodeType = Node<
     {
@@ -37,7 +38,7 @@ export const TableNode: React.FC<NodeProps<TableNodeType>> = ({
     id,
     data: { table },
 }) => {
-    const { updateTable, relationships } = useChartDB();
+    const { updateTable, relationships, readonly, comparison } = useChartDB();
     const edges = useStore((store) => store.edges) as TableEdgeType[];
     const { openTableFromSidebar, selectSidebarSection } = useLayout();
     const [expanded, setExpanded] = useState(false);
@@ -50,6 +51,7 @@ export const TableNode: React.FC<NodeProps<TableNodeType>> = ({
     );
 
     const focused = !!selected && !dragging;
+    const changeStatus = comparison?.tables[table.id];
 
     const openTableInEditor = () => {
         selectSidebarSection('tables');
@@ -120,15 +122,15 @@ export const TableNode: React.FC<NodeProps<TableNodeType>> = ({
     return (
         <TableNodeContextMenu table={table}>
             <div
-                className={`flex w-full flex-col border-2 bg-slate-50 dark:bg-slate-950 ${selected ? 'border-pink-600' : 'border-slate-500 dark:border-slate-700'} rounded-lg shadow-sm`}
+                className={`flex w-full flex-col border-2 bg-slate-50 dark:bg-slate-950 ${selected ? 'border-pink-600' : changeStatus ? changeStatusTableClassName[changeStatus] : 'border-slate-500 dark:border-slate-700'} rounded-lg shadow-sm`}
                 onClick={(e) => {
-                    if (e.detail === 2) {
+                    if (e.detail === 2 && !readonly) {
                         openTableInEditor();
                     }
                 }}
             >
                 <NodeResizer
-                    isVisible={focused}
+                    isVisible={focused && !readonly}
                     lineClassName="!border-none !w-2"
                     minWidth={MIN_TABLE_SIZE}
                     maxWidth={MAX_TABLE_SIZE}
@@ -146,30 +148,32 @@ export const TableNode: React.FC<NodeProps<TableNodeType>> = ({
                             {table.name}
                         </Label>
                     </div>
-                    <div className="hidden shrink-0 flex-row group-hover:flex">
-                        <Button
-                            variant="ghost"
-                            className="size-6 p-0 text-slate-500 hover:bg-primary-foreground hover:text-slate-700 dark:text-slate-400 dark:hover:bg-slate-800 dark:hover:text-slate-200"
-                            onClick={openTableInEditor}
-                        >
-                            <Pencil className="size-4" />
-                        </Button>
-                        <Button
-                            variant="ghost"
-                            className="size-6 p-0 text-slate-500 hover:bg-primary-foreground hover:text-slate-700 dark:text-slate-400 dark:hover:bg-slate-800 dark:hover:text-slate-200"
-                            onClick={
-                                table.width !== MAX_TABLE_SIZE
-                                    ? expandTable
-                                    : shrinkTable
-                            }
-                        >
-                            {table.width !== MAX_TABLE_SIZE ? (
-                                <ChevronsLeftRight className="size-4" />
-                            ) : (
-                                <ChevronsRightLeft className="size-4" />
-                            )}
-                        </Button>
-                    </div>
+                    {!readonly ? (
+                        <div className="hidden shrink-0 flex-row group-hover:flex">
+                            <Button
+                                variant="ghost"
+                                className="size-6 p-0 text-slate-500 hover:bg-primary-foreground hover:text-slate-700 dark:text-slate-400 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                                onClick={openTableInEditor}
+                            >
+                                <Pencil className="size-4" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                className="size-6 p-0 text-slate-500 hover:bg-primary-foreground hover:text-slate-700 dark:text-slate-400 dark:hover:bg-slate-800 dark:hover:text-slate-200"
+                                onClick={
+                                    table.width !== MAX_TABLE_SIZE
+                                        ? expandTable
+                                        : shrinkTable
+                                }
+                            >
+                                {table.width !== MAX_TABLE_SIZE ? (
+                                    <ChevronsLeftRight className="size-4" />
+                                ) : (
+                                    <ChevronsRightLeft className="size-4" />
+                                )}
+                            </Button>
+                        </div>
+                    ) : null}
                 </div>
                 <div
                     className="transition-[max-height] duration-200 ease-in-out"
@@ -193,7 +197,7 @@ export const TableNode: React.FC<NodeProps<TableNodeType>> = ({
                                         field.id
                             )}
                             visible={visibleFields.includes(field)}
-                            isConnectable={!table.isView}
+                            isConnectable={!table.isView && !readonly}
                         />
                     ))}
                 </div>
@@ -19,7 +19,7 @@ const convertToPercentage = (value: number) => `${Math.round(value * 100)}%`;
 export interface ToolbarProps {}
 
 export const Toolbar: React.FC<ToolbarProps> = () => {
-    const { updateDiagramUpdatedAt } = useChartDB();
+    const { updateDiagramUpdatedAt, readonly } = useChartDB();
     const { t } = useTranslation();
     const { redo, undo, hasRedo, hasUndo } = useHistory();
     const { getZoom, zoomIn, zoomOut, fitView } = useReactFlow();
@@ -114,7 +114,7 @@ export const Toolbar: React.FC<ToolbarProps> = () => {
                             <span>
                                 <ToolbarButton
                                     onClick={undo}
-                                    disabled={!hasUndo}
+                                    disabled={!hasUndo || readonly}
                                 >
                                     <Undo />
                                 </ToolbarButton>
@@ -127,7 +127,7 @@ export const Toolbar: React.FC<ToolbarProps> = () => {
                             <span>
                                 <ToolbarButton
                                     onClick={redo}
-                                    disabled={!hasRedo}
+                                    disabled={!hasRedo || readonly}
                                 >
                                     <Redo />
                                 </ToolbarButton>
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Minus, PencilLine, Plus } from 'lucide-react';
+import { ChangeStatus } from '@/lib/domain/diagram-comparison';
+
+const changeStatusIcon: Record<ChangeStatus, React.ReactNode> = {
+    added: <Plus className="size-3.5 shrink-0 text-green-600" />,
+    removed: <Minus className="size-3.5 shrink-0 text-red-600" />,
+    changed: <PencilLine className="size-3.5 shrink-0 text-amber-600" />,
+};
+
+export interface CompareListItemProps {
+    status: ChangeStatus;
+    title: string;
+    details?: { status: ChangeStatus; text: string }[];
+    onClick?: () => void;
+}
+
+export const CompareListItem: React.FC<CompareListItemProps> = ({
+    status,
+    title,
+    details = [],
+    onClick,
+}) => (
+    <div
+        className="flex cursor-pointer flex-col gap-1 rounded-md p-2 hover:bg-accent"
+        onClick={onClick}
+    >
+        <div className="flex items-center gap-2">
+            {changeStatusIcon[status]}
+            <div className="truncate text-sm font-semibold">{title}</div>
+        </div>
+        {details.map((detail, index) => (
+            <div key={index} className="flex items-center gap-2 pl-4">
+                {changeStatusIcon[detail.status]}
+                <div className="truncate text-xs text-muted-foreground">
+                    {detail.text}
+                </div>
+            </div>
+        ))}
+    </div>
+);
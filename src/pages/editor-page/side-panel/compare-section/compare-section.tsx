@@ -0,0 +1,237 @@
+import React, { useCallback } from 'react';
+import { X } from 'lucide-react';
+import { useReactFlow } from '@xyflow/react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/button/button';
+import { EmptyState } from '@/components/empty-state/empty-state';
+import { ScrollArea } from '@/components/scroll-area/scroll-area';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { useLayout } from '@/hooks/use-layout';
+import { useBreakpoint } from '@/hooks/use-breakpoint';
+import { DBTable } from '@/lib/domain/db-table';
+import { DBRelationship } from '@/lib/domain/db-relationship';
+import {
+    isDiagramDiffEmpty,
+    RelationshipDiff,
+    TableDiff,
+} from '@/lib/domain/diagram-diff';
+import {
+    CompareListItem,
+    CompareListItemProps,
+} from './compare-list-item/compare-list-item';
+
+const tableTitle = (table: DBTable) =>
+    table.schema ? `${table.schema}.${table.name}` : table.name;
+
+export interface CompareSectionProps {}
+
+export const CompareSection: React.FC<CompareSectionProps> = () => {
+    const { comparison, compareDiagram } = useChartDB();
+    const { fitView } = useReactFlow();
+    const { hideSidePanel } = useLayout();
+    const { isMd: isDesktop } = useBreakpoint('md');
+    const { t } = useTranslation();
+
+    const focusOnTables = useCallback(
+        (tableIds: string[]) => {
+            fitView({
+                duration: 500,
+                maxZoom: 1,
+                minZoom: 1,
+                nodes: tableIds.map((id) => ({ id })),
+            });
+
+            if (!isDesktop) {
+                hideSidePanel();
+            }
+        },
+        [fitView, isDesktop, hideSidePanel]
+    );
+
+    const tableDiffToItem = useCallback(
+        (tableDiff: TableDiff): CompareListItemProps => {
+            if (tableDiff.type !== 'changed') {
+                return {
+                    status: tableDiff.type,
+                    title: tableTitle(tableDiff.table),
+                    onClick: () => focusOnTables([tableDiff.table.id]),
+                };
+            }
+
+            const { oldTable, newTable } = tableDiff;
+            const details: CompareListItemProps['details'] = [];
+
+            if (tableDiff.renamed || tableDiff.schemaChanged) {
+                details.push({
+                    status: 'changed',
+                    text: t('side_panel.compare_section.renamed_from', {
+                        name: tableTitle(oldTable),
+                    }),
+                });
+            }
+
+            if (tableDiff.commentsChanged) {
+                details.push({
+                    status: 'changed',
+                    text: t('side_panel.compare_section.attributes.comments'),
+                });
+            }
+
+            tableDiff.fields.forEach((fieldDiff) =>
+                details.push(
+                    fieldDiff.type === 'changed'
+                        ? {
+                              status: 'changed',
+                              text: `${fieldDiff.newField.name} (${fieldDiff.changes
+                                  .map((attribute) =>
+                                      t(
+                                          `side_panel.compare_section.attributes.${attribute}`
+                                      )
+                                  )
+                                  .join(', ')})`,
+                          }
+                        : {
+                              status: fieldDiff.type,
+                              text: `${fieldDiff.field.name} ${fieldDiff.field.type.name}`,
+                          }
+                )
+            );
+
+            tableDiff.indexes.forEach((indexDiff) =>
+                details.push({
+                    status: indexDiff.type,
+                    text: t('side_panel.compare_section.index', {
+                        name:
+                            indexDiff.type === 'changed'
+                                ? indexDiff.newIndex.name
+                                : indexDiff.index.name,
+                    }),
+                })
+            );
+
+            return {
+                status: 'changed',
+                title: tableTitle(newTable),
+                details,
+                onClick: () => focusOnTables([newTable.id]),
+            };
+        },
+        [focusOnTables, t]
+    );
+
+    const relationshipDiffToItem = useCallback(
+        (relationshipDiff: RelationshipDiff): CompareListItemProps => {
+            const relationship: DBRelationship =
+                relationshipDiff.type === 'changed'
+                    ? relationshipDiff.newRelationship
+                    : relationshipDiff.relationship;
+            const displayedRelationship =
+                comparison?.diagram.relationships?.find(
+                    (r) => r.id === relationship.id
+                ) ?? relationship;
+
+            return {
+                status: relationshipDiff.type,
+                title: relationship.name,
+                onClick: () =>
+                    focusOnTables([
+                        displayedRelationship.sourceTableId,
+                        displayedRelationship.targetTableId,
+                    ]),
+            };
+        },
+        [comparison, focusOnTables]
+    );
+
+    if (!comparison) {
+        return null;
+    }
+
+    const { diff } = comparison;
+
+    return (
+        <section className="flex flex-1 flex-col overflow-hidden px-2">
+            <div className="flex items-center justify-between gap-4 py-1">
+                <div className="truncate text-sm font-semibold">
+                    {t('comparing_with', {
+                        name: comparison.baseDiagram.name,
+                    })}
+                </div>
+                <Button
+                    variant="secondary"
+                    className="h-8 p-2 text-xs"
+                    onClick={() => compareDiagram()}
+                >
+                    <X className="h-4" />
+                    {t('side_panel.compare_section.exit')}
+                </Button>
+            </div>
+            <div className="flex gap-3 pb-2 text-xs">
+                <span className="text-green-600">
+                    {t('side_panel.compare_section.added', {
+                        count: diff.tables.filter((d) => d.type === 'added')
+                            .length,
+                    })}
+                </span>
+                <span className="text-red-600">
+                    {t('side_panel.compare_section.removed', {
+                        count: diff.tables.filter((d) => d.type === 'removed')
+                            .length,
+                    })}
+                </span>
+                <span className="text-amber-600">
+                    {t('side_panel.compare_section.changed', {
+                        count: diff.tables.filter((d) => d.type === 'changed')
+                            .length,
+                    })}
+                </span>
+            </div>
+            <div className="flex flex-1 flex-col overflow-hidden">
+                <ScrollArea className="h-full">
+                    {isDiagramDiffEmpty(diff) ? (
+                        <EmptyState
+                            title={t(
+                                'side_panel.compare_section.empty_state.title'
+                            )}
+                            description={t(
+                                'side_panel.compare_section.empty_state.description'
+                            )}
+                            className="mt-20"
+                        />
+                    ) : (
+                        <div className="flex flex-col gap-1">
+                            {diff.tables.length > 0 ? (
+                                <div className="px-2 pt-1 text-xs font-bold text-muted-foreground">
+                                    {t('side_panel.tables_section.tables')}
+                                </div>
+                            ) : null}
+                            {diff.tables.map((tableDiff, index) => (
+                                <CompareListItem
+                                    key={`table_${index}`}
+                                    {...tableDiffToItem(tableDiff)}
+                                />
+                            ))}
+                            {diff.relationships.length > 0 ? (
+                                <div className="px-2 pt-1 text-xs font-bold text-muted-foreground">
+                                    {t(
+                                        'side_panel.relationships_section.relationships'
+                                    )}
+                                </div>
+                            ) : null}
+                            {diff.relationships.map(
+                                (relationshipDiff, index) => (
+                                    <CompareListItem
+                                        key={`relationship_${index}`}
+                                        {...relationshipDiffToItem(
+                                            relationshipDiff
+                                        )}
+                                    />
+                                )
+                            )}
+                        </div>
+                    )}
+                </ScrollArea>
+            </div>
+        </section>
+    );
+};
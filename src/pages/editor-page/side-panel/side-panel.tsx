@@ -9,6 +9,8 @@ import {
 } from '@/components/select/select';
 import { TablesSection } from './tables-section/tables-section';
 import { RelationshipsSection } from './relationships-section/relationships-section';
+import { VersionsSection } from './versions-section/versions-section';
+import { CompareSection } from './compare-section/compare-section';
 import { useLayout } from '@/hooks/use-layout';
 import { SidebarSection } from '@/context/layout-context/layout-context';
 import { useTranslation } from 'react-i18next';
@@ -19,7 +21,8 @@ export interface SidePanelProps {}
 
 export const SidePanel: React.FC<SidePanelProps> = () => {
     const { t } = useTranslation();
-    const { schemas, filterSchemas, filteredSchemas } = useChartDB();
+    const { schemas, filterSchemas, filteredSchemas, readonly, comparison } =
+        useChartDB();
     const { selectSidebarSection, selectedSidebarSection } = useLayout();
 
     const schemasOptions: SelectBoxOption[] = useMemo(
@@ -61,37 +64,53 @@ export const SidePanel: React.FC<SidePanelProps> = () => {
                 </div>
             )}
 
-            <div className="flex justify-center border-b pt-0.5">
-                <Select
-                    value={selectedSidebarSection}
-                    onValueChange={(value) =>
-                        selectSidebarSection(value as SidebarSection)
-                    }
-                >
-                    <SelectTrigger className="rounded-none border-none font-semibold shadow-none hover:bg-secondary hover:underline focus:border-transparent focus:ring-0">
-                        <SelectValue />
-                        <div className="flex flex-1 justify-end px-2 text-xs font-normal text-muted-foreground">
-                            {t('side_panel.view_all_options')}
-                        </div>
-                    </SelectTrigger>
-                    <SelectContent>
-                        <SelectGroup>
-                            <SelectItem value="tables">
-                                {t('side_panel.tables_section.tables')}
-                            </SelectItem>
-                            <SelectItem value="relationships">
-                                {t(
-                                    'side_panel.relationships_section.relationships'
-                                )}
-                            </SelectItem>
-                        </SelectGroup>
-                    </SelectContent>
-                </Select>
-            </div>
-            {selectedSidebarSection === 'tables' ? (
-                <TablesSection />
+            {comparison ? (
+                <CompareSection />
             ) : (
-                <RelationshipsSection />
+                <>
+                    <div className="flex justify-center border-b pt-0.5">
+                        <Select
+                            value={
+                                readonly ? 'versions' : selectedSidebarSection
+                            }
+                            disabled={readonly}
+                            onValueChange={(value) =>
+                                selectSidebarSection(value as SidebarSection)
+                            }
+                        >
+                            <SelectTrigger className="rounded-none border-none font-semibold shadow-none hover:bg-secondary hover:underline focus:border-transparent focus:ring-0">
+                                <SelectValue />
+                                <div className="flex flex-1 justify-end px-2 text-xs font-normal text-muted-foreground">
+                                    {t('side_panel.view_all_options')}
+                                </div>
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectGroup>
+                                    <SelectItem value="tables">
+                                        {t('side_panel.tables_section.tables')}
+                                    </SelectItem>
+                                    <SelectItem value="relationships">
+                                        {t(
+                                            'side_panel.relationships_section.relationships'
+                                        )}
+                                    </SelectItem>
+                                    <SelectItem value="versions">
+                                        {t(
+                                            'side_panel.versions_section.versions'
+                                        )}
+                                    </SelectItem>
+                                </SelectGroup>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {readonly || selectedSidebarSection === 'versions' ? (
+                        <VersionsSection />
+                    ) : selectedSidebarSection === 'tables' ? (
+                        <TablesSection />
+                    ) : (
+                        <RelationshipsSection />
+                    )}
+                </>
             )}
         </aside>
     );
@@ -0,0 +1,178 @@
+import React, { useCallback } from 'react';
+import TimeAgo from 'timeago-react';
+import {
+    Eye,
+    EyeOff,
+    EllipsisVertical,
+    RotateCcw,
+    GitFork,
+    GitCompareArrows,
+    Trash2,
+} from 'lucide-react';
+import { ListItemHeaderButton } from '../../list-item-header-button/list-item-header-button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuGroup,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/dropdown-menu/dropdown-menu';
+import { DiagramVersion } from '@/lib/domain/diagram-version';
+import { cloneDiagram } from '@/lib/domain/diagram';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { useStorage } from '@/hooks/use-storage';
+import { useDialog } from '@/hooks/use-dialog';
+import { useToast } from '@/components/toast/use-toast';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+
+export interface VersionListItemProps {
+    version: DiagramVersion;
+}
+
+export const VersionListItem: React.FC<VersionListItemProps> = ({
+    version,
+}) => {
+    const {
+        diagramName,
+        previewedVersion,
+        previewVersion,
+        restoreVersion,
+        removeVersion,
+        compareDiagram,
+    } = useChartDB();
+    const { addDiagram } = useStorage();
+    const { showAlert } = useDialog();
+    const { toast } = useToast();
+    const navigate = useNavigate();
+    const { t } = useTranslation();
+    const previewed = previewedVersion?.id === version.id;
+
+    const togglePreview = useCallback(() => {
+        previewVersion(previewed ? undefined : version);
+    }, [previewVersion, previewed, version]);
+
+    const restoreVersionHandler = useCallback(() => {
+        showAlert({
+            title: t('restore_version_alert.title'),
+            description: t('restore_version_alert.description', {
+                name: version.name,
+            }),
+            actionLabel: t('restore_version_alert.restore'),
+            closeLabel: t('restore_version_alert.cancel'),
+            onAction: () =>
+                restoreVersion(version).catch((error) =>
+                    toast({
+                        title: t('restore_version_alert.failed'),
+                        variant: 'destructive',
+                        description: (error as Error).message,
+                    })
+                ),
+        });
+    }, [showAlert, restoreVersion, version, t, toast]);
+
+    const forkVersionHandler = useCallback(async () => {
+        const diagram = cloneDiagram(version.diagram, {
+            name: `${diagramName} (${version.name})`,
+        });
+
+        await addDiagram({ diagram });
+        navigate(`/diagrams/${diagram.id}`);
+    }, [addDiagram, navigate, diagramName, version]);
+
+    const compareVersionHandler = useCallback(() => {
+        compareDiagram({ ...version.diagram, name: version.name });
+    }, [compareDiagram, version]);
+
+    const removeVersionHandler = useCallback(() => {
+        showAlert({
+            title: t('delete_version_alert.title'),
+            description: t('delete_version_alert.description', {
+                name: version.name,
+            }),
+            actionLabel: t('delete_version_alert.delete'),
+            closeLabel: t('delete_version_alert.cancel'),
+            onAction: () => removeVersion(version.id),
+        });
+    }, [showAlert, removeVersion, version, t]);
+
+    return (
+        <div
+            className={`group flex h-12 items-center justify-between gap-2 rounded-md px-2 ${previewed ? 'bg-pink-100 dark:bg-pink-900' : 'hover:bg-accent'}`}
+        >
+            <div className="flex min-w-0 flex-1 flex-col">
+                <div className="truncate text-sm">{version.name}</div>
+                <div className="truncate text-xs text-muted-foreground">
+                    <TimeAgo datetime={version.createdAt} />
+                    {' · '}
+                    {t('side_panel.versions_section.tables_count', {
+                        count: version.diagram.tables?.length ?? 0,
+                    })}
+                </div>
+            </div>
+            <div className="flex flex-row-reverse">
+                <DropdownMenu>
+                    <DropdownMenuTrigger>
+                        <ListItemHeaderButton>
+                            <EllipsisVertical />
+                        </ListItemHeaderButton>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent className="w-48">
+                        <DropdownMenuLabel>
+                            {t(
+                                'side_panel.versions_section.version_actions.title'
+                            )}
+                        </DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuGroup>
+                            <DropdownMenuItem
+                                onClick={restoreVersionHandler}
+                                className="flex justify-between"
+                            >
+                                {t(
+                                    'side_panel.versions_section.version_actions.restore'
+                                )}
+                                <RotateCcw className="size-3.5" />
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                                onClick={compareVersionHandler}
+                                className="flex justify-between"
+                            >
+                                {t(
+                                    'side_panel.versions_section.version_actions.compare'
+                                )}
+                                <GitCompareArrows className="size-3.5" />
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                                onClick={forkVersionHandler}
+                                className="flex justify-between"
+                            >
+                                {t(
+                                    'side_panel.versions_section.version_actions.fork'
+                                )}
+                                <GitFork className="size-3.5" />
+                            </DropdownMenuItem>
+                        </DropdownMenuGroup>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuGroup>
+                            <DropdownMenuItem
+                                onClick={removeVersionHandler}
+                                className="flex justify-between !text-red-700"
+                            >
+                                {t(
+                                    'side_panel.versions_section.version_actions.delete'
+                                )}
+                                <Trash2 className="size-3.5 text-red-700" />
+                            </DropdownMenuItem>
+                        </DropdownMenuGroup>
+                    </DropdownMenuContent>
+                </DropdownMenu>
+                <ListItemHeaderButton onClick={togglePreview}>
+                    {previewed ? <EyeOff /> : <Eye />}
+                </ListItemHeaderButton>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,103 @@
+import React, { useCallback } from 'react';
+import { Button } from '@/components/button/button';
+import { History } from 'lucide-react';
+import { Input } from '@/components/input/input';
+import { useChartDB } from '@/hooks/use-chartdb';
+import { EmptyState } from '@/components/empty-state/empty-state';
+import { ScrollArea } from '@/components/scroll-area/scroll-area';
+import { useTranslation } from 'react-i18next';
+import { Checkbox } from '@/components/checkbox/checkbox';
+import { Label } from '@/components/label/label';
+import { useLocalConfig } from '@/hooks/use-local-config';
+import { VersionListItem } from './version-list-item/version-list-item';
+
+export interface VersionsSectionProps {}
+
+export const VersionsSection: React.FC<VersionsSectionProps> = () => {
+    const { versions, saveVersion, readonly } = useChartDB();
+    const { saveVersionOnImport, setSaveVersionOnImport } = useLocalConfig();
+    const [versionName, setVersionName] = React.useState('');
+    const { t } = useTranslation();
+
+    const handleSaveVersion = useCallback(async () => {
+        await saveVersion(
+            versionName.trim() ||
+                t('side_panel.versions_section.default_name', {
+                    number: versions.length + 1,
+                })
+        );
+        setVersionName('');
+    }, [saveVersion, versionName, versions.length, t]);
+
+    return (
+        <section className="flex flex-1 flex-col overflow-hidden px-2">
+            <div className="flex items-center justify-between gap-4 py-1">
+                <div className="flex-1">
+                    <Input
+                        type="text"
+                        placeholder={t(
+                            'side_panel.versions_section.version_name'
+                        )}
+                        className="h-8 w-full focus-visible:ring-0"
+                        value={versionName}
+                        disabled={readonly}
+                        onChange={(e) => setVersionName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                handleSaveVersion();
+                            }
+                        }}
+                    />
+                </div>
+                <Button
+                    variant="secondary"
+                    className="h-8 p-2 text-xs"
+                    disabled={readonly}
+                    onClick={handleSaveVersion}
+                >
+                    <History className="h-4" />
+                    {t('side_panel.versions_section.save_version')}
+                </Button>
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+                <Checkbox
+                    id="save-version-on-import"
+                    checked={saveVersionOnImport}
+                    onCheckedChange={(checked) =>
+                        setSaveVersionOnImport(!!checked)
+                    }
+                />
+                <Label
+                    htmlFor="save-version-on-import"
+                    className="text-xs font-normal text-muted-foreground"
+                >
+                    {t('side_panel.versions_section.save_version_on_import')}
+                </Label>
+            </div>
+            <div className="flex flex-1 flex-col overflow-hidden">
+                <ScrollArea className="h-full">
+                    {versions.length === 0 ? (
+                        <EmptyState
+                            title={t(
+                                'side_panel.versions_section.empty_state.title'
+                            )}
+                            description={t(
+                                'side_panel.versions_section.empty_state.description'
+                            )}
+                            className="mt-20"
+                        />
+                    ) : (
+                        <div className="flex flex-col gap-1">
+                            {versions.map((version) => (
+                                <VersionListItem
+                                    key={version.id}
+                                    version={version}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </ScrollArea>
+            </div>
+        </section>
+    );
+};
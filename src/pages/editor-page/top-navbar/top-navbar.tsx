@@ -31,8 +31,6 @@ import {
 import { useExportImage } from '@/hooks/use-export-image';
 import { databaseTypeToLabelMap } from '@/lib/databases';
 import { DatabaseType } from '@/lib/domain/database-type';
-import { useConfig } from '@/hooks/use-config';
-import { IS_CHARTDB_IO } from '@/lib/env';
 import { useBreakpoint } from '@/hooks/use-breakpoint';
 import { DiagramIcon } from '@/components/diagram-icon/diagram-icon';
 import {
@@ -46,9 +44,27 @@ import { useTheme } from '@/hooks/use-theme';
 import { enMetadata } from '@/i18n/locales/en';
 import { esMetadata } from '@/i18n/locales/es';
 import { useLocalConfig } from '@/hooks/use-local-config';
+import { downloadFile } from '@/lib/utils';
+import {
+    diagramFileExtension,
+    exportDiagramFile,
+} from '@/lib/data/diagram-file/diagram-file';
+import {
+    exportWorkspaceBackup,
+    workspaceBackupExtension,
+} from '@/lib/data/diagram-file/workspace-backup';
+import { useStorage } from '@/hooks/use-storage';
+import {
+    ExportScriptFormat,
+    exportScriptFormats,
+} from '@/lib/data/export-metadata/export-script-formats';
 
 export interface TopNavbarProps {}
 
+const exportScriptFormatList = Object.keys(
+    exportScriptFormats
+) as ExportScriptFormat[];
+
 export const TopNavbar: React.FC<TopNavbarProps> = () => {
     const {
         diagramName,
@@ -57,27 +73,41 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
         clearDiagramData,
         deleteDiagram,
         updateDiagramUpdatedAt,
+        readonly,
     } = useChartDB();
     const {
         openCreateDiagramDialog,
         openOpenDiagramDialog,
         openExportSQLDialog,
+        openExportMigrationDialog,
+        openExportScriptDialog,
+        openExportCodeDialog,
+        openImportDiagramDialog,
+        openImportDictionaryDialog,
+        openRestoreWorkspaceDialog,
+        openCompareDiagramDialog,
         openImportDatabaseDialog,
         showAlert,
     } = useDialog();
     const { setTheme, theme } = useTheme();
-    const { hideSidePanel, isSidePanelShowed, showSidePanel } = useLayout();
+    const {
+        hideSidePanel,
+        isSidePanelShowed,
+        showSidePanel,
+        selectSidebarSection,
+    } = useLayout();
     const {
         scrollAction,
         setScrollAction,
         setShowCardinality,
         showCardinality,
+        schemasFilter,
     } = useLocalConfig();
     const { effectiveTheme } = useTheme();
+    const { getConfig, listDiagrams, listDiagramVersions } = useStorage();
     const { t, i18n } = useTranslation();
     const { redo, undo, hasRedo, hasUndo } = useHistory();
     const { isMd: isDesktop } = useBreakpoint('md');
-    const { config, updateConfig } = useConfig();
     const [editMode, setEditMode] = useState(false);
     const { exportImage } = useExportImage();
     const [editedDiagramName, setEditedDiagramName] =
@@ -126,6 +156,37 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
         exportImage('jpeg');
     }, [exportImage]);
 
+    const exportDiagram = useCallback(() => {
+        downloadFile({
+            content: exportDiagramFile({
+                diagram: currentDiagram,
+                schemasFilter: schemasFilter[currentDiagram.id],
+            }),
+            fileName: `${currentDiagram.name}${diagramFileExtension}`,
+            mimeType: 'application/json',
+        });
+    }, [currentDiagram, schemasFilter]);
+
+    const backupWorkspace = useCallback(async () => {
+        const diagrams = await listDiagrams({
+            includeTables: true,
+            includeRelationships: true,
+        });
+        const versions = await Promise.all(
+            diagrams.map((diagram) => listDiagramVersions(diagram.id))
+        );
+
+        downloadFile({
+            content: exportWorkspaceBackup({
+                config: await getConfig(),
+                diagrams,
+                versions: versions.flat(),
+            }),
+            fileName: `chartdb-${new Date().toISOString().slice(0, 10)}${workspaceBackupExtension}`,
+            mimeType: 'application/json',
+        });
+    }, [getConfig, listDiagrams, listDiagramVersions]);
+
     const openChartDBIO = useCallback(() => {
         window.location.href = 'https://chartdb.io';
     }, []);
@@ -140,61 +201,11 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
 
     const exportSQL = useCallback(
         (databaseType: DatabaseType) => {
-            if (databaseType === DatabaseType.GENERIC) {
-                openExportSQLDialog({
-                    targetDatabaseType: DatabaseType.GENERIC,
-                });
-
-                return;
-            }
-
-            if (IS_CHARTDB_IO) {
-                const now = new Date();
-                const lastExportsInLastHalfHour =
-                    config?.exportActions?.filter(
-                        (date) =>
-                            now.getTime() - date.getTime() < 30 * 60 * 1000
-                    ) ?? [];
-
-                if (lastExportsInLastHalfHour.length >= 5) {
-                    showAlert({
-                        title: 'Export SQL Limit Reached',
-                        content: (
-                            <div className="flex flex-col gap-1 text-sm">
-                                <div>
-                                    We set a budget to allow the community to
-                                    check the feature. You have reached the
-                                    limit of 5 AI exports every 30min.
-                                </div>
-                                <div>
-                                    Feel free to use your OPENAI_TOKEN, see the
-                                    manual{' '}
-                                    <a
-                                        href="https://github.com/chartdb/chartdb"
-                                        target="_blank"
-                                        className="text-pink-600 hover:underline"
-                                        rel="noreferrer"
-                                    >
-                                        here.
-                                    </a>
-                                </div>
-                            </div>
-                        ),
-                        closeLabel: 'Close',
-                    });
-                    return;
-                }
-
-                updateConfig({
-                    exportActions: [...lastExportsInLastHalfHour, now],
-                });
-            }
-
             openExportSQLDialog({
                 targetDatabaseType: databaseType,
             });
         },
-        [config?.exportActions, updateConfig, showAlert, openExportSQLDialog]
+        [openExportSQLDialog]
     );
 
     const renderStars = useCallback(() => {
@@ -287,12 +298,15 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
         }
     }, [isSidePanelShowed, showSidePanel, hideSidePanel]);
 
+    const openVersionHistory = useCallback(() => {
+        selectSidebarSection('versions');
+        showSidePanel();
+    }, [selectSidebarSection, showSidePanel]);
+
     const showOrHideCardinality = useCallback(() => {
         setShowCardinality(!showCardinality);
     }, [showCardinality, setShowCardinality]);
 
-    const emojiAI = '✨';
-
     const changeLanguage = useCallback(
         (language: string) => {
             i18n.changeLanguage(language);
@@ -352,7 +366,21 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                         }
                                     </MenubarShortcut>
                                 </MenubarItem>
+                                <MenubarItem onClick={openVersionHistory}>
+                                    {t('menu.file.version_history')}
+                                </MenubarItem>
+                                <MenubarItem onClick={openCompareDiagramDialog}>
+                                    {t('menu.file.compare')}
+                                </MenubarItem>
                                 <MenubarSeparator />
+                                <MenubarItem onClick={openImportDiagramDialog}>
+                                    {t('menu.file.import_diagram')}
+                                </MenubarItem>
+                                <MenubarItem
+                                    onClick={openImportDictionaryDialog}
+                                >
+                                    {t('menu.file.import_dictionary')}
+                                </MenubarItem>
                                 <MenubarSub>
                                     <MenubarSubTrigger>
                                         {t('menu.file.import_database')}
@@ -416,6 +444,16 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                         >
                                             {databaseTypeToLabelMap['sqlite']}
                                         </MenubarItem>
+                                        <MenubarItem
+                                            onClick={() =>
+                                                openImportDatabaseDialog({
+                                                    databaseType:
+                                                        DatabaseType.ORACLE,
+                                                })
+                                            }
+                                        >
+                                            {databaseTypeToLabelMap['oracle']}
+                                        </MenubarItem>
                                     </MenubarSubContent>
                                 </MenubarSub>
                                 <MenubarSeparator />
@@ -443,9 +481,6 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                                     'postgresql'
                                                 ]
                                             }
-                                            <MenubarShortcut className="text-base">
-                                                {emojiAI}
-                                            </MenubarShortcut>
                                         </MenubarItem>
                                         <MenubarItem
                                             onClick={() =>
@@ -453,9 +488,6 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                             }
                                         >
                                             {databaseTypeToLabelMap['mysql']}
-                                            <MenubarShortcut className="text-base">
-                                                {emojiAI}
-                                            </MenubarShortcut>
                                         </MenubarItem>
                                         <MenubarItem
                                             onClick={() =>
@@ -469,9 +501,6 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                                     'sql_server'
                                                 ]
                                             }
-                                            <MenubarShortcut className="text-base">
-                                                {emojiAI}
-                                            </MenubarShortcut>
                                         </MenubarItem>
                                         <MenubarItem
                                             onClick={() =>
@@ -479,9 +508,6 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                             }
                                         >
                                             {databaseTypeToLabelMap['mariadb']}
-                                            <MenubarShortcut className="text-base">
-                                                {emojiAI}
-                                            </MenubarShortcut>
                                         </MenubarItem>
                                         <MenubarItem
                                             onClick={() =>
@@ -489,12 +515,52 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                             }
                                         >
                                             {databaseTypeToLabelMap['sqlite']}
-                                            <MenubarShortcut className="text-base">
-                                                {emojiAI}
-                                            </MenubarShortcut>
+                                        </MenubarItem>
+                                        <MenubarItem
+                                            onClick={() =>
+                                                exportSQL(DatabaseType.ORACLE)
+                                            }
+                                        >
+                                            {databaseTypeToLabelMap['oracle']}
                                         </MenubarItem>
                                     </MenubarSubContent>
                                 </MenubarSub>
+                                <MenubarItem
+                                    onClick={openExportMigrationDialog}
+                                >
+                                    {t('menu.file.export_migration')}
+                                </MenubarItem>
+                                <MenubarSub>
+                                    <MenubarSubTrigger>
+                                        {t('menu.file.export_script')}
+                                    </MenubarSubTrigger>
+                                    <MenubarSubContent>
+                                        {exportScriptFormatList.map(
+                                            (format) => (
+                                                <MenubarItem
+                                                    key={format}
+                                                    onClick={() =>
+                                                        openExportScriptDialog({
+                                                            format,
+                                                        })
+                                                    }
+                                                >
+                                                    {
+                                                        exportScriptFormats[
+                                                            format
+                                                        ].label
+                                                    }
+                                                </MenubarItem>
+                                            )
+                                        )}
+                                    </MenubarSubContent>
+                                </MenubarSub>
+                                <MenubarItem onClick={openExportCodeDialog}>
+                                    {t('menu.file.export_code')}
+                                </MenubarItem>
+                                <MenubarItem onClick={exportDiagram}>
+                                    {t('menu.file.export_diagram')}
+                                </MenubarItem>
                                 <MenubarSub>
                                     <MenubarSubTrigger>
                                         {t('menu.file.export_as')}
@@ -512,6 +578,15 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                     </MenubarSubContent>
                                 </MenubarSub>
                                 <MenubarSeparator />
+                                <MenubarItem onClick={backupWorkspace}>
+                                    {t('menu.file.backup_workspace')}
+                                </MenubarItem>
+                                <MenubarItem
+                                    onClick={openRestoreWorkspaceDialog}
+                                >
+                                    {t('menu.file.restore_workspace')}
+                                </MenubarItem>
+                                <MenubarSeparator />
                                 <MenubarItem
                                     onClick={() =>
                                         showAlert({
@@ -542,7 +617,10 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                 {t('menu.edit.edit')}
                             </MenubarTrigger>
                             <MenubarContent>
-                                <MenubarItem onClick={undo} disabled={!hasUndo}>
+                                <MenubarItem
+                                    onClick={undo}
+                                    disabled={!hasUndo || readonly}
+                                >
                                     {t('menu.edit.undo')}
                                     <MenubarShortcut>
                                         {
@@ -552,7 +630,10 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                         }
                                     </MenubarShortcut>
                                 </MenubarItem>
-                                <MenubarItem onClick={redo} disabled={!hasRedo}>
+                                <MenubarItem
+                                    onClick={redo}
+                                    disabled={!hasRedo || readonly}
+                                >
                                     {t('menu.edit.redo')}
                                     <MenubarShortcut>
                                         {
@@ -564,6 +645,7 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                 </MenubarItem>
                                 <MenubarSeparator />
                                 <MenubarItem
+                                    disabled={readonly}
                                     onClick={() =>
                                         showAlert({
                                             title: t(
@@ -578,7 +660,11 @@ export const TopNavbar: React.FC<TopNavbarProps> = () => {
                                             closeLabel: t(
                                                 'clear_diagram_alert.cancel'
                                             ),
-                                            onAction: clearDiagramData,
+                                            onAction: () => {
+                                                if (!readonly) {
+                                                    clearDiagramData();
+                                                }
+                                            },
                                         })
                                     }
                                 >